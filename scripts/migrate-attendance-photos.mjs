@@ -0,0 +1,83 @@
+// One-off move of base64 attendance photos out of attendance_sessions and
+// into the attendance-photos bucket, leaving only the object path behind.
+// Safe to re-run: rows that already hold a path are skipped.
+//
+//   SUPABASE_URL=https://<project>.supabase.co \
+//   SUPABASE_SERVICE_ROLE_KEY=<service role key> \
+//   node scripts/migrate-attendance-photos.mjs
+//
+// Run it after the attendance-photos migrations. Until then legacy rows keep
+// working as they are: only newly written photos must be storage paths.
+import { createClient } from "@supabase/supabase-js";
+
+const BUCKET = "attendance-photos";
+// Rows carry whole images, so keep the pages small
+const BATCH_SIZE = 20;
+
+const url = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !serviceRoleKey) {
+  console.error("Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY");
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+const isInline = (photo) => typeof photo === "string" && photo.startsWith("data:");
+
+async function moveToStorage(session, kind, dataUrl) {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  const path = `${session.user_id}/${session.date}/${session.id}-${kind}.jpg`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, Buffer.from(base64, "base64"), { contentType: "image/jpeg", upsert: true });
+  if (error) throw new Error(`upload ${path}: ${error.message}`);
+
+  return path;
+}
+
+let lastId = "00000000-0000-0000-0000-000000000000";
+let moved = 0;
+let failed = 0;
+
+for (;;) {
+  const { data: sessions, error } = await supabase
+    .from("attendance_sessions")
+    .select("id, user_id, date, check_in_photo, check_out_photo")
+    .or('check_in_photo.like."data:*",check_out_photo.like."data:*"')
+    .gt("id", lastId)
+    .order("id")
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error("Failed to load attendance sessions:", error.message);
+    process.exit(1);
+  }
+  if (sessions.length === 0) break;
+
+  for (const session of sessions) {
+    try {
+      const patch = {};
+      if (isInline(session.check_in_photo)) {
+        patch.check_in_photo = await moveToStorage(session, "check_in", session.check_in_photo);
+      }
+      if (isInline(session.check_out_photo)) {
+        patch.check_out_photo = await moveToStorage(session, "check_out", session.check_out_photo);
+      }
+
+      const { error: updateError } = await supabase.from("attendance_sessions").update(patch).eq("id", session.id);
+      if (updateError) throw new Error(`update session: ${updateError.message}`);
+      moved += 1;
+    } catch (err) {
+      failed += 1;
+      console.error(`Session ${session.id}:`, err.message);
+    }
+  }
+
+  lastId = sessions[sessions.length - 1].id;
+  console.log(`Moved photos of ${moved} sessions so far`);
+}
+
+console.log(`Done: ${moved} sessions moved, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -1,24 +1,97 @@
+import { lazy } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import RequireRole from "@/components/auth/RequireRole";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 
+// Lazy loading components to improve performance
+const AdminDashboard = lazy(() => import("@/components/admin/AdminDashboard"));
+const TeamMembers = lazy(() => import("@/components/admin/TeamMembers"));
+const TeamDetails = lazy(() => import("@/components/admin/TeamDetails"));
+const AddMember = lazy(() => import("@/components/admin/AddMember"));
+const CalendarView = lazy(() => import("@/components/CalendarView"));
+const TeamDashboard = lazy(() => import("@/components/team/TeamDashboard"));
+const WorkUpdateForm = lazy(() => import("@/components/team/WorkUpdateForm"));
+const LearningForm = lazy(() => import("@/components/team/LearningForm"));
+const MyTasks = lazy(() => import("@/components/team/MyTasks"));
+const TeamChatPanel = lazy(() => import("@/components/team/TeamChatPanel"));
+const AnalyticsDashboard = lazy(() => import("@/components/admin/AnalyticsDashboard"));
+const LeaveApprovals = lazy(() => import("@/components/admin/LeaveApprovals"));
+const LeaveBalances = lazy(() => import("@/components/admin/LeaveBalances"));
+const HolidayCalendar = lazy(() => import("@/components/admin/HolidayCalendar"));
+const ProjectManagement = lazy(() => import("@/components/admin/ProjectManagement"));
+const ProjectDashboard = lazy(() => import("@/components/projects/ProjectDashboard"));
+const TaskManagement = lazy(() => import("@/components/admin/TaskManagement"));
+const Trash = lazy(() => import("@/components/admin/Trash"));
+const AttendanceTracker = lazy(() => import("@/components/attendance/AttendanceTracker"));
+const LeaveRequestForm = lazy(() => import("@/components/leave/LeaveRequestForm"));
+
 const queryClient = new QueryClient();
 
+const DashboardRoute = () => {
+  const { userRole } = useAuth();
+  return userRole === "admin" ? <AdminDashboard /> : <TeamDashboard />;
+};
+
+// Task links reach assignees and project leads too (shared URLs, escalation
+// notifications), so /tasks/:id opens for everyone: admins get the edit
+// dialog, members the task's detail sheet over My Tasks
+const TaskRoute = () => {
+  const { userRole } = useAuth();
+  return userRole === "admin" ? <TaskManagement /> : <MyTasks />;
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <AuthProvider>
+          <Routes>
+            <Route path="/" element={<Index />}>
+              <Route index element={<Navigate to="/dashboard" replace />} />
+              <Route element={<RequireRole />}>
+                <Route path="dashboard" element={<DashboardRoute />} />
+                <Route path="tasks/:id" element={<TaskRoute />} />
+              </Route>
+              <Route path="calendar" element={<CalendarView />} />
+              <Route path="chat" element={<TeamChatPanel />} />
+
+              <Route element={<RequireRole role="admin" />}>
+                <Route path="analytics" element={<AnalyticsDashboard />} />
+                <Route path="team-members" element={<TeamMembers />} />
+                <Route path="team-details" element={<TeamDetails />} />
+                <Route path="add-member" element={<AddMember />} />
+                <Route path="projects" element={<ProjectManagement />} />
+                <Route path="projects/:id" element={<ProjectManagement />} />
+                <Route path="projects/:id/dashboard" element={<ProjectDashboard />} />
+                <Route path="tasks" element={<TaskManagement />} />
+                <Route path="approvals" element={<LeaveApprovals />} />
+                <Route path="approvals/:id" element={<LeaveApprovals />} />
+                <Route path="leave-balances" element={<LeaveBalances />} />
+                <Route path="holidays" element={<HolidayCalendar />} />
+                <Route path="trash" element={<Trash />} />
+              </Route>
+
+              <Route element={<RequireRole role="team_member" />}>
+                <Route path="attendance" element={<AttendanceTracker />} />
+                <Route path="my-tasks" element={<MyTasks />} />
+                <Route path="work-update" element={<WorkUpdateForm />} />
+                <Route path="leave-request" element={<LeaveRequestForm />} />
+                <Route path="leave-request/:id" element={<LeaveRequestForm />} />
+                <Route path="learning" element={<LearningForm />} />
+              </Route>
+            </Route>
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
@@ -0,0 +1,90 @@
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  calendarFeedUrl,
+  useCalendarFeedToken,
+  useResetCalendarFeedToken,
+  useRevokeCalendarFeedToken,
+} from "@/lib/repositories/calendarFeed";
+import { toast } from "sonner";
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CalendarFeedDialog = ({ open, onOpenChange }: CalendarFeedDialogProps) => {
+  const { user } = useAuth();
+  const { data: token, isLoading } = useCalendarFeedToken(user?.id);
+  const resetToken = useResetCalendarFeedToken();
+  const revokeToken = useRevokeCalendarFeedToken();
+  const url = token ? calendarFeedUrl(token) : null;
+
+  const handleReset = async () => {
+    try {
+      await resetToken.mutateAsync();
+    } catch (error) {
+      toast.error("Failed to create calendar link");
+      return;
+    }
+    toast.success(token ? "New link created; the old one no longer works" : "Calendar link created");
+  };
+
+  const handleRevoke = async () => {
+    if (!user) return;
+    try {
+      await revokeToken.mutateAsync(user.id);
+    } catch (error) {
+      toast.error("Failed to turn off calendar link");
+      return;
+    }
+    toast.success("Calendar link turned off");
+  };
+
+  const copyLink = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    toast.success("Link copied");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Subscribe to Calendar</DialogTitle>
+          <DialogDescription>
+            Add this link to Google Calendar, Outlook or Apple Calendar as a calendar from URL. Your meetings, approved
+            leave and task due dates stay in sync as they change. Anyone with the link can see them, so keep it private.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : url ? (
+          <div className="flex items-center gap-2">
+            <Input readOnly value={url} onFocus={(e) => e.target.select()} />
+            <Button size="icon" variant="outline" onClick={copyLink} title="Copy link">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">You don't have a calendar link yet.</p>
+        )}
+        <DialogFooter>
+          {url && (
+            <Button variant="outline" onClick={handleRevoke} disabled={revokeToken.isPending}>
+              Turn Off
+            </Button>
+          )}
+          <Button onClick={handleReset} disabled={isLoading || resetToken.isPending}>
+            {resetToken.isPending ? "Creating..." : url ? "Reset Link" : "Create Link"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarFeedDialog;
@@ -1,173 +1,330 @@
 import { useState } from "react";
-import { Calendar, ChevronLeft, ChevronRight, Clock, Users } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Calendar, ChevronLeft, ChevronRight, Clock, Download, Link2, Plus } from "lucide-react";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Toggle } from "@/components/ui/toggle";
+import CalendarFeedDialog from "@/components/CalendarFeedDialog";
+import MeetingDetailsDialog from "@/components/meetings/MeetingDetailsDialog";
+import MeetingDialog from "@/components/meetings/MeetingDialog";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  CALENDAR_SOURCES,
+  eventsOnDay,
+  sourceColor,
+  useCalendarEvents,
+  type CalendarEvent,
+  type CalendarSource,
+} from "@/lib/calendar";
+import { downloadCalendar, fetchMyCalendarEvents } from "@/lib/ics";
+import { toast } from "sonner";
 
-interface Event {
-  id: number;
-  title: string;
-  time: string;
-  attendees: number;
-}
+type CalendarMode = "month" | "week" | "day";
+
+const daysOfWeek = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// First and last visible day for a mode; month view pads out to whole weeks
+const visibleRange = (mode: CalendarMode, date: Date) => {
+  switch (mode) {
+    case "day":
+      return { from: startOfDay(date), to: addDays(startOfDay(date), 1) };
+    case "week":
+      return { from: startOfWeek(date), to: addDays(endOfWeek(date), 1) };
+    default:
+      return { from: startOfWeek(startOfMonth(date)), to: addDays(endOfWeek(endOfMonth(date)), 1) };
+  }
+};
+
+const shift = (mode: CalendarMode, date: Date, amount: number) => {
+  if (mode === "day") return addDays(date, amount);
+  if (mode === "week") return addWeeks(date, amount);
+  return addMonths(date, amount);
+};
+
+const EventPill = ({ event, onClick }: { event: CalendarEvent; onClick: (event: CalendarEvent) => void }) => (
+  <button
+    onClick={(e) => {
+      e.stopPropagation();
+      onClick(event);
+    }}
+    className="w-full flex items-center gap-1 rounded px-1 py-0.5 text-left text-xs hover:bg-muted truncate"
+  >
+    <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${sourceColor(event.source)}`} />
+    <span className={`truncate ${event.cancelled ? "line-through text-muted-foreground" : ""}`}>
+      {!event.allDay && <span className="text-muted-foreground">{format(event.start, "h:mma").toLowerCase()} </span>}
+      {event.title}
+    </span>
+  </button>
+);
+
+const EventRow = ({ event, onClick }: { event: CalendarEvent; onClick: (event: CalendarEvent) => void }) => (
+  <button
+    onClick={() => onClick(event)}
+    className="w-full bg-accent/50 rounded-lg p-3 flex items-center justify-between text-left hover:bg-accent transition-colors animate-fade-in"
+  >
+    <div className="min-w-0">
+      <p className={`font-medium text-sm truncate ${event.cancelled ? "line-through text-muted-foreground" : "text-foreground"}`}>
+        {event.title}
+      </p>
+      <span className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+        <Clock className="w-3 h-3" />
+        {event.allDay ? "All day" : `${format(event.start, "h:mm a")} - ${format(event.end, "h:mm a")}`}
+        {event.subtitle && ` · ${event.subtitle}`}
+      </span>
+    </div>
+    <div className={`w-2 h-2 rounded-full flex-shrink-0 ${sourceColor(event.source)}`} />
+  </button>
+);
 
 const CalendarView = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [mode, setMode] = useState<CalendarMode>("month");
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [selectedDate, setSelectedDate] = useState<number | null>(new Date().getDate());
+  const [hiddenSources, setHiddenSources] = useState<CalendarSource[]>([]);
+  const [openEvent, setOpenEvent] = useState<CalendarEvent | null>(null);
+  const [openMeeting, setOpenMeeting] = useState<{ id: string; start: string } | null>(null);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isSubscribing, setIsSubscribing] = useState(false);
 
-  const daysOfWeek = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-  
-  const getDaysInMonth = (date: Date) => {
-    return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
-  };
+  const { from, to } = visibleRange(mode, currentDate);
+  const { events: allEvents } = useCalendarEvents(from, to);
+  const events = allEvents.filter(e => !hiddenSources.includes(e.source));
 
-  const getFirstDayOfMonth = (date: Date) => {
-    return new Date(date.getFullYear(), date.getMonth(), 1).getDay();
+  const toggleSource = (source: CalendarSource) => {
+    setHiddenSources(
+      hiddenSources.includes(source) ? hiddenSources.filter(s => s !== source) : [...hiddenSources, source]
+    );
   };
 
-  const daysInMonth = getDaysInMonth(currentDate);
-  const firstDay = getFirstDayOfMonth(currentDate);
+  const handleExport = async () => {
+    if (!user) return;
+    setIsExporting(true);
 
-  const monthNames = [
-    "January", "February", "March", "April", "May", "June",
-    "July", "August", "September", "October", "November", "December"
-  ];
-
-  const prevMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1));
-    setSelectedDate(null);
+    try {
+      const icsEvents = await fetchMyCalendarEvents(user.id);
+      downloadCalendar(`calendar-${format(new Date(), "yyyy-MM-dd")}`, icsEvents, "Grofast Team");
+    } catch (error) {
+      toast.error("Failed to export calendar");
+    } finally {
+      setIsExporting(false);
+    }
   };
 
-  const nextMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1));
-    setSelectedDate(null);
+  const handleEventClick = (event: CalendarEvent) => {
+    if (event.source === "meeting") {
+      setOpenMeeting({ id: event.sourceId, start: event.start.toISOString() });
+    } else if (event.href) {
+      navigate(event.href);
+    } else {
+      setOpenEvent(event);
+    }
   };
 
-  // Dummy events based on selected date
-  const getEventsForDate = (day: number): Event[] => {
-    const eventMap: Record<number, Event[]> = {
-      [new Date().getDate()]: [
-        { id: 1, title: "Team Standup", time: "9:00 AM", attendees: 8 },
-        { id: 2, title: "Sprint Review", time: "2:00 PM", attendees: 12 },
-      ],
-      [new Date().getDate() + 1]: [
-        { id: 3, title: "Client Meeting", time: "10:30 AM", attendees: 4 },
-      ],
-      [new Date().getDate() + 3]: [
-        { id: 4, title: "Workshop", time: "1:00 PM", attendees: 20 },
-        { id: 5, title: "1:1 with Manager", time: "4:00 PM", attendees: 2 },
-      ],
-    };
-    return eventMap[day] || [];
-  };
+  const title =
+    mode === "day"
+      ? format(currentDate, "EEEE, MMMM d, yyyy")
+      : mode === "week"
+      ? `${format(from, "MMM d")} - ${format(addDays(to, -1), "MMM d, yyyy")}`
+      : format(currentDate, "MMMM yyyy");
 
-  const today = new Date().getDate();
-  const isCurrentMonth = currentDate.getMonth() === new Date().getMonth() && 
-                         currentDate.getFullYear() === new Date().getFullYear();
+  const selectedDayEvents = eventsOnDay(events, currentDate);
+  const visibleDays = eachDayOfInterval({ start: from, end: addDays(to, -1) });
 
   return (
     <div className="section-card">
-      <div className="flex items-center gap-3 mb-6">
+      <div className="flex flex-wrap items-center gap-3 mb-6">
         <div className="w-10 h-10 gradient-bg rounded-lg flex items-center justify-center">
           <Calendar className="w-5 h-5 text-primary-foreground" />
         </div>
         <h3 className="panel-header mb-0">Calendar</h3>
+        <Button size="sm" variant="outline" className="ml-auto" onClick={handleExport} disabled={isExporting}>
+          <Download className="w-4 h-4 mr-1" />
+          {isExporting ? "Exporting..." : "Export .ics"}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setIsSubscribing(true)}>
+          <Link2 className="w-4 h-4 mr-1" />
+          Subscribe
+        </Button>
+        <Button size="sm" onClick={() => setIsScheduling(true)}>
+          <Plus className="w-4 h-4 mr-1" />
+          New Meeting
+        </Button>
+        <Tabs value={mode} onValueChange={(v: CalendarMode) => setMode(v)}>
+          <TabsList>
+            <TabsTrigger value="month">Month</TabsTrigger>
+            <TabsTrigger value="week">Week</TabsTrigger>
+            <TabsTrigger value="day">Day</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {/* Source Filters */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {CALENDAR_SOURCES.map((source) => (
+          <Toggle
+            key={source.id}
+            size="sm"
+            variant="outline"
+            pressed={!hiddenSources.includes(source.id)}
+            onPressedChange={() => toggleSource(source.id)}
+          >
+            <span className={`w-2 h-2 rounded-full mr-2 ${source.color}`} />
+            {source.label}
+          </Toggle>
+        ))}
       </div>
 
-      {/* Month Navigation */}
+      {/* Navigation */}
       <div className="flex items-center justify-between mb-4">
         <button
-          onClick={prevMonth}
+          onClick={() => setCurrentDate(shift(mode, currentDate, -1))}
           className="p-2 rounded-lg hover:bg-muted transition-colors"
         >
           <ChevronLeft className="w-5 h-5 text-muted-foreground" />
         </button>
-        <h4 className="text-lg font-semibold text-foreground">
-          {monthNames[currentDate.getMonth()]} {currentDate.getFullYear()}
-        </h4>
+        <div className="flex items-center gap-3">
+          <h4 className="text-lg font-semibold text-foreground">{title}</h4>
+          <Button size="sm" variant="outline" onClick={() => setCurrentDate(new Date())}>
+            Today
+          </Button>
+        </div>
         <button
-          onClick={nextMonth}
+          onClick={() => setCurrentDate(shift(mode, currentDate, 1))}
           className="p-2 rounded-lg hover:bg-muted transition-colors"
         >
           <ChevronRight className="w-5 h-5 text-muted-foreground" />
         </button>
       </div>
 
-      {/* Days of Week */}
-      <div className="grid grid-cols-7 gap-1 mb-2">
-        {daysOfWeek.map((day) => (
-          <div key={day} className="text-center text-xs font-medium text-muted-foreground py-2">
-            {day}
+      {mode === "month" && (
+        <>
+          <div className="grid grid-cols-7 gap-1 mb-2">
+            {daysOfWeek.map((day) => (
+              <div key={day} className="text-center text-xs font-medium text-muted-foreground py-2">
+                {day}
+              </div>
+            ))}
           </div>
-        ))}
-      </div>
-
-      {/* Calendar Grid */}
-      <div className="grid grid-cols-7 gap-1 mb-4">
-        {Array.from({ length: firstDay }).map((_, index) => (
-          <div key={`empty-${index}`} className="calendar-day" />
-        ))}
-        {Array.from({ length: daysInMonth }).map((_, index) => {
-          const day = index + 1;
-          const isSelected = selectedDate === day;
-          const isToday = isCurrentMonth && day === today;
-          const hasEvents = getEventsForDate(day).length > 0;
-
-          return (
-            <button
-              key={day}
-              onClick={() => setSelectedDate(day)}
-              className={`calendar-day relative ${
-                isSelected
-                  ? "calendar-day-selected"
-                  : isToday
-                  ? "calendar-day-today"
-                  : ""
-              }`}
-            >
-              {day}
-              {hasEvents && !isSelected && (
-                <span className="absolute bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full bg-primary" />
-              )}
-            </button>
-          );
-        })}
-      </div>
-
-      {/* Events for Selected Date */}
-      {selectedDate && (
-        <div className="border-t border-border pt-4">
-          <p className="text-sm font-medium text-muted-foreground mb-3">
-            Events for {monthNames[currentDate.getMonth()]} {selectedDate}
-          </p>
-          <div className="space-y-2">
-            {getEventsForDate(selectedDate).length > 0 ? (
-              getEventsForDate(selectedDate).map((event) => (
+          <div className="grid grid-cols-7 gap-1 mb-4">
+            {visibleDays.map((day) => {
+              const dayEvents = eventsOnDay(events, day);
+              const isSelected = isSameDay(day, currentDate);
+              return (
                 <div
-                  key={event.id}
-                  className="bg-accent/50 rounded-lg p-3 flex items-center justify-between animate-fade-in"
+                  key={day.toISOString()}
+                  onClick={() => setCurrentDate(day)}
+                  className={`min-h-24 rounded-lg border p-1 cursor-pointer transition-colors hover:bg-accent/40 ${
+                    isSameMonth(day, currentDate) ? "" : "opacity-50"
+                  } ${isSelected ? "border-primary bg-primary/5" : ""}`}
                 >
-                  <div>
-                    <p className="font-medium text-foreground text-sm">{event.title}</p>
-                    <div className="flex items-center gap-3 mt-1">
-                      <span className="flex items-center gap-1 text-xs text-muted-foreground">
-                        <Clock className="w-3 h-3" />
-                        {event.time}
-                      </span>
-                      <span className="flex items-center gap-1 text-xs text-muted-foreground">
-                        <Users className="w-3 h-3" />
-                        {event.attendees}
-                      </span>
-                    </div>
+                  <div
+                    className={`w-7 h-7 mb-1 rounded-full flex items-center justify-center text-xs font-medium ${
+                      isSameDay(day, new Date()) ? "bg-primary text-primary-foreground" : ""
+                    }`}
+                  >
+                    {format(day, "d")}
                   </div>
-                  <div className="w-2 h-2 rounded-full bg-primary" />
+                  {dayEvents.slice(0, 3).map((event) => (
+                    <EventPill key={event.id} event={event} onClick={handleEventClick} />
+                  ))}
+                  {dayEvents.length > 3 && (
+                    <p className="text-xs text-muted-foreground px-1">+{dayEvents.length - 3} more</p>
+                  )}
                 </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      {mode === "week" && (
+        <div className="grid grid-cols-1 md:grid-cols-7 gap-2 mb-4">
+          {visibleDays.map((day) => (
+            <div
+              key={day.toISOString()}
+              className={`rounded-lg border p-2 min-h-40 ${isSameDay(day, new Date()) ? "border-primary" : ""}`}
+            >
+              <button
+                onClick={() => {
+                  setCurrentDate(day);
+                  setMode("day");
+                }}
+                className="text-xs font-medium text-muted-foreground mb-2 hover:text-foreground"
+              >
+                {format(day, "EEE d")}
+              </button>
+              <div className="space-y-1">
+                {eventsOnDay(events, day).map((event) => (
+                  <EventPill key={event.id} event={event} onClick={handleEventClick} />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Events for the selected day (the whole view in day mode) */}
+      {mode !== "week" && (
+        <div className={mode === "month" ? "border-t border-border pt-4" : ""}>
+          {mode === "month" && (
+            <p className="text-sm font-medium text-muted-foreground mb-3">
+              Events for {format(currentDate, "MMMM d")}
+            </p>
+          )}
+          <div className="space-y-2">
+            {selectedDayEvents.length > 0 ? (
+              selectedDayEvents.map((event) => (
+                <EventRow key={event.id} event={event} onClick={handleEventClick} />
               ))
             ) : (
-              <p className="text-sm text-muted-foreground text-center py-4">
-                No events scheduled
-              </p>
+              <p className="text-sm text-muted-foreground text-center py-4">No events scheduled</p>
             )}
           </div>
         </div>
       )}
+
+      <Dialog open={!!openEvent} onOpenChange={(open) => !open && setOpenEvent(null)}>
+        <DialogContent>
+          {openEvent && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{openEvent.title}</DialogTitle>
+                <DialogDescription>
+                  {openEvent.allDay
+                    ? format(openEvent.start, "EEEE, MMMM d, yyyy")
+                    : `${format(openEvent.start, "EEEE, MMMM d · h:mm a")} - ${format(openEvent.end, "h:mm a")}`}
+                </DialogDescription>
+              </DialogHeader>
+              {openEvent.subtitle && <p className="text-sm text-muted-foreground">{openEvent.subtitle}</p>}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <MeetingDetailsDialog
+        meetingId={openMeeting?.id ?? null}
+        occurrenceStart={openMeeting?.start}
+        onOpenChange={(open) => !open && setOpenMeeting(null)}
+      />
+      <MeetingDialog open={isScheduling} onOpenChange={setIsScheduling} defaultDate={currentDate} />
+      <CalendarFeedDialog open={isSubscribing} onOpenChange={setIsSubscribing} />
     </div>
   );
 };
@@ -5,8 +5,9 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { supabase } from "@/integrations/supabase/client";
-import { useQuery } from "@tanstack/react-query";
+import { useDepartments } from "@/lib/repositories/departments";
+import { errorMessage } from "@/lib/repositories/errors";
+import { useCreateTeamMember } from "@/lib/repositories/profiles";
 import { toast } from "sonner";
 
 const AddMember = () => {
@@ -21,47 +22,16 @@ const AddMember = () => {
     password: "",
   });
 
-  const { data: departments = [] } = useQuery({
-    queryKey: ["departments"],
-    queryFn: async () => {
-      const { data } = await supabase.from("departments").select("*").order("name");
-      return data || [];
-    },
-  });
+  const { data: departments = [] } = useDepartments();
+  const createTeamMember = useCreateTeamMember();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      // Create user with Supabase auth
-      const { data, error } = await supabase.auth.signUp({
-        email: formData.email,
-        password: formData.password,
-        options: {
-          data: {
-            full_name: formData.fullName,
-          },
-          emailRedirectTo: window.location.origin,
-        },
-      });
-
-      if (error) throw error;
-
-      if (data.user) {
-        // Add user role
-        await supabase.from("user_roles").insert({
-          user_id: data.user.id,
-          role: "team_member" as const,
-        });
-
-        // Update profile with additional info
-        await supabase.from("profiles").update({
-          phone: formData.phone,
-          designation: formData.designation,
-          department: formData.department,
-        }).eq("user_id", data.user.id);
-
+      const created = await createTeamMember.mutateAsync(formData);
+      if (created) {
         toast.success(`Team member ${formData.fullName} has been added successfully! Credentials sent to ${formData.email}`);
         
         // Reset form
@@ -74,8 +44,8 @@ const AddMember = () => {
           password: "",
         });
       }
-    } catch (error: any) {
-      toast.error(error.message || "Failed to add team member");
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to add team member"));
     } finally {
       setIsLoading(false);
     }
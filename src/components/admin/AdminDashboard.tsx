@@ -1,48 +1,9 @@
 import { Users, CheckSquare, Clock, Calendar, TrendingUp, UserCheck, UserX, ClipboardCheck } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
+import { useAdminStats } from "@/lib/repositories/analytics";
 
 const AdminDashboard = () => {
-  const { data: stats } = useQuery({
-    queryKey: ["admin-stats"],
-    queryFn: async () => {
-      const today = new Date().toISOString().split("T")[0];
-      
-      const [profiles, tasks, attendance, approvals] = await Promise.all([
-        supabase.from("profiles").select("id, status"),
-        supabase.from("tasks").select("id, status"),
-        supabase.from("attendance").select("id, status").eq("date", today),
-        supabase.from("approvals").select("id, status").eq("status", "pending"),
-      ]);
-
-      const totalMembers = profiles.data?.length || 0;
-      const activeMembers = profiles.data?.filter(p => p.status === "active").length || 0;
-      const awayMembers = profiles.data?.filter(p => p.status === "away" || p.status === "busy").length || 0;
-      
-      const totalTasks = tasks.data?.length || 0;
-      const completedTasks = tasks.data?.filter(t => t.status === "completed").length || 0;
-      const inProgressTasks = tasks.data?.filter(t => t.status === "in_progress").length || 0;
-      
-      const todayPresent = attendance.data?.filter(a => a.status === "present").length || 0;
-      const todayAbsent = attendance.data?.filter(a => a.status === "absent").length || 0;
-      
-      const pendingApprovals = approvals.data?.length || 0;
-
-      return {
-        totalMembers,
-        activeMembers,
-        awayMembers,
-        totalTasks,
-        completedTasks,
-        inProgressTasks,
-        todayPresent,
-        todayAbsent,
-        pendingApprovals,
-        avgHours: 7.5,
-      };
-    },
-  });
+  const { data: stats } = useAdminStats();
 
   const statCards = [
     {
@@ -3,8 +3,10 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContaine
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
+import { formatLeaveAmount, leaveDuration } from "@/lib/leave";
+import { useAttendanceTrend, useLeaveActivity, useTaskActivity, useTeamBreakdown } from "@/lib/repositories/analytics";
+import { useWorkCalendar } from "@/lib/repositories/holidays";
+import { LEAVE_TYPE_LABELS, type LeaveType } from "@/lib/repositories/leaveRequests";
 import { format, subDays, startOfWeek, endOfWeek, eachDayOfInterval } from "date-fns";
 
 const COLORS = ["#8b5cf6", "#22c55e", "#f59e0b", "#ef4444", "#3b82f6", "#ec4899"];
@@ -12,46 +14,10 @@ const COLORS = ["#8b5cf6", "#22c55e", "#f59e0b", "#ef4444", "#3b82f6", "#ec4899"
 const AnalyticsDashboard = () => {
   const [timeRange, setTimeRange] = useState("7");
 
-  // Fetch attendance data for charts
-  const { data: attendanceData = [] } = useQuery({
-    queryKey: ["attendance-analytics", timeRange],
-    queryFn: async () => {
-      const startDate = format(subDays(new Date(), parseInt(timeRange)), "yyyy-MM-dd");
-      const { data } = await supabase
-        .from("attendance_sessions")
-        .select("date, duration_minutes, user_id")
-        .gte("date", startDate)
-        .order("date");
-      return data || [];
-    },
-  });
-
-  // Fetch task data for charts
-  const { data: taskData = [] } = useQuery({
-    queryKey: ["task-analytics"],
-    queryFn: async () => {
-      const { data } = await supabase.from("tasks").select("status, created_at");
-      return data || [];
-    },
-  });
-
-  // Fetch leave data for charts
-  const { data: leaveData = [] } = useQuery({
-    queryKey: ["leave-analytics"],
-    queryFn: async () => {
-      const { data } = await supabase.from("leave_requests").select("status, type");
-      return data || [];
-    },
-  });
-
-  // Fetch profiles for team data
-  const { data: profileData = [] } = useQuery({
-    queryKey: ["profile-analytics"],
-    queryFn: async () => {
-      const { data } = await supabase.from("profiles").select("status, department");
-      return data || [];
-    },
-  });
+  const { data: attendanceData = [] } = useAttendanceTrend(timeRange);
+  const { data: taskData = [] } = useTaskActivity();
+  const { data: leaveData = [] } = useLeaveActivity();
+  const { data: profileData = [] } = useTeamBreakdown();
 
   // Process attendance data by date
   const attendanceByDate = eachDayOfInterval({
@@ -83,6 +49,25 @@ const AnalyticsDashboard = () => {
     { name: "Rejected", value: leaveData.filter((l: any) => l.status === "rejected").length },
   ].filter(d => d.value > 0);
 
+  // Leave taken, measured in working days (hours for permissions) rather than requests
+  const workCalendar = useWorkCalendar();
+  const leaveAmount = (l: (typeof leaveData)[number]) =>
+    l.duration ?? leaveDuration({ ...l, type: l.type as LeaveType }, workCalendar);
+  const sumLeave = (status: string, types: LeaveType[]) =>
+    parseFloat(
+      leaveData
+        .filter(l => l.status === status && types.includes(l.type as LeaveType))
+        .reduce((acc, l) => acc + leaveAmount(l), 0)
+        .toFixed(2)
+    );
+  const leaveDaysData = (["full_day", "half_day"] as LeaveType[]).map(type => ({
+    name: LEAVE_TYPE_LABELS[type],
+    approved: sumLeave("approved", [type]),
+    pending: sumLeave("pending", [type]),
+  }));
+  const approvedLeaveDays = sumLeave("approved", ["full_day", "half_day"]);
+  const approvedPermissionHours = sumLeave("approved", ["permission"]);
+
   // Team status distribution
   const teamStatusData = [
     { name: "Active", value: profileData.filter((p: any) => p.status === "active").length },
@@ -354,11 +339,40 @@ const AnalyticsDashboard = () => {
                     <span className="text-2xl font-bold">{item.value}</span>
                   </div>
                 ))}
-                <div className="pt-4 border-t">
+                <div className="pt-4 border-t space-y-2">
                   <div className="flex items-center justify-between">
                     <span className="text-muted-foreground">Total Requests</span>
                     <span className="text-2xl font-bold">{leaveData.length}</span>
                   </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Approved Leave</span>
+                    <span className="text-2xl font-bold">{formatLeaveAmount(approvedLeaveDays, "full_day")}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Approved Permissions</span>
+                    <span className="text-2xl font-bold">{formatLeaveAmount(approvedPermissionHours, "permission")}</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="card-elevated lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Leave Days by Type</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={leaveDaysData}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                      <XAxis dataKey="name" className="text-xs" />
+                      <YAxis className="text-xs" />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="approved" name="Approved days" fill={COLORS[1]} radius={[4, 4, 0, 0]} />
+                      <Bar dataKey="pending" name="Pending days" fill={COLORS[2]} radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
                 </div>
               </CardContent>
             </Card>
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, CalendarOff, Plus, Save, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Toggle } from "@/components/ui/toggle";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useCreateHoliday,
+  useDeleteHoliday,
+  useHolidays,
+  useUpdateWeekendDays,
+  useWeekendDays,
+} from "@/lib/repositories/holidays";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const HolidayCalendar = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [newHoliday, setNewHoliday] = useState({ date: "", name: "" });
+  // null until the admin touches the toggles, so the saved value shows through
+  const [weekendDraft, setWeekendDraft] = useState<number[] | null>(null);
+
+  const { data: holidays = [] } = useHolidays();
+  const { data: savedWeekendDays = [] } = useWeekendDays();
+  const createHoliday = useCreateHoliday();
+  const deleteHoliday = useDeleteHoliday();
+  const updateWeekendDays = useUpdateWeekendDays();
+
+  const weekendDays = weekendDraft ?? savedWeekendDays;
+
+  const toggleWeekendDay = (day: number) => {
+    setWeekendDraft(
+      weekendDays.includes(day) ? weekendDays.filter(d => d !== day) : [...weekendDays, day].sort((a, b) => a - b)
+    );
+  };
+
+  const saveWeekendDays = async () => {
+    if (weekendDays.length === 7) {
+      toast.error("At least one working day is required");
+      return;
+    }
+
+    try {
+      await updateWeekendDays.mutateAsync(weekendDays);
+    } catch (error) {
+      toast.error("Failed to save weekend days");
+      return;
+    }
+
+    toast.success("Weekend days saved!");
+    setWeekendDraft(null);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newHoliday.date || !newHoliday.name.trim()) {
+      toast.error("Please enter a date and a name");
+      return;
+    }
+
+    if (holidays.some(h => h.date === newHoliday.date)) {
+      toast.error("A holiday already exists on that date");
+      return;
+    }
+
+    try {
+      await createHoliday.mutateAsync({
+        date: newHoliday.date,
+        name: newHoliday.name.trim(),
+        created_by: user?.id,
+      });
+    } catch (error) {
+      toast.error("Failed to add holiday");
+      return;
+    }
+
+    toast.success("Holiday added!");
+    setNewHoliday({ date: "", name: "" });
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHoliday.mutateAsync(id);
+    } catch (error) {
+      toast.error("Failed to delete holiday");
+      return;
+    }
+    toast.success("Holiday removed");
+  };
+
+  // Group by year so past calendars stay out of the way
+  const holidaysByYear = holidays.reduce((acc: Record<string, typeof holidays>, holiday) => {
+    const year = holiday.date.slice(0, 4);
+    if (!acc[year]) acc[year] = [];
+    acc[year].push(holiday);
+    return acc;
+  }, {});
+  const years = Object.keys(holidaysByYear).sort().reverse();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Holiday Calendar</h1>
+          <p className="text-muted-foreground">Non-working days are not charged against leave balances</p>
+        </div>
+        <Button variant="outline" onClick={() => navigate("/approvals")}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Approvals
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Weekend Days</CardTitle>
+          <CardDescription>Days of the week nobody is expected to work</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-2">
+          {WEEKDAYS.map((label, day) => (
+            <Toggle
+              key={label}
+              variant="outline"
+              pressed={weekendDays.includes(day)}
+              onPressedChange={() => toggleWeekendDay(day)}
+            >
+              {label}
+            </Toggle>
+          ))}
+          <Button
+            className="ml-auto"
+            onClick={saveWeekendDays}
+            disabled={weekendDraft === null || updateWeekendDays.isPending}
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {updateWeekendDays.isPending ? "Saving..." : "Save"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarOff className="w-5 h-5 text-primary" />
+            Public Holidays
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-[200px_1fr_auto] gap-3">
+            <Input
+              type="date"
+              value={newHoliday.date}
+              onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+            />
+            <Input
+              placeholder="Holiday name"
+              value={newHoliday.name}
+              onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+            />
+            <Button type="submit" disabled={createHoliday.isPending}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </form>
+
+          {years.length === 0 ? (
+            <p className="text-muted-foreground text-center py-6">No holidays added yet</p>
+          ) : (
+            years.map((year) => (
+              <div key={year} className="space-y-2">
+                <h3 className="font-semibold text-sm text-muted-foreground">{year}</h3>
+                {holidaysByYear[year].map((holiday) => (
+                  <div key={holiday.id} className="flex items-center justify-between p-3 rounded-lg border bg-card">
+                    <div>
+                      <p className="font-medium">{holiday.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {format(parseISO(holiday.date), "EEEE, MMMM d")}
+                      </p>
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="text-destructive"
+                      onClick={() => handleDelete(holiday.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default HolidayCalendar;
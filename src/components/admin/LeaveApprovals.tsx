@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { Calendar, Check, X, Clock, Filter } from "lucide-react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Calendar, CalendarOff, Check, X, Clock, Filter, Link2, ArrowLeft, AlertTriangle, Wallet } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -8,93 +9,67 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { exceedsBalance, formatLeaveAmount, leaveDuration, leaveYear, type LeaveBalance } from "@/lib/leave";
+import { errorMessage } from "@/lib/repositories/errors";
+import { useWorkCalendar } from "@/lib/repositories/holidays";
+import { findBalance, useLeaveEntitlements } from "@/lib/repositories/leaveEntitlements";
+import {
+  LEAVE_TYPE_LABELS,
+  useLeaveRequests,
+  useReviewLeaveRequest,
+  type LeaveFilter,
+  type LeaveRequestWithProfile as LeaveRequest,
+  type LeaveType,
+} from "@/lib/repositories/leaveRequests";
 import { format } from "date-fns";
 import { toast } from "sonner";
 
-interface LeaveRequest {
-  id: string;
-  user_id: string;
-  type: string;
-  start_date: string;
-  end_date: string | null;
-  start_time: string | null;
-  end_time: string | null;
-  reason: string;
-  status: string;
-  review_notes: string | null;
-  created_at: string;
-  profile?: {
-    full_name: string;
-    designation: string | null;
-    department: string | null;
-  };
-}
+const BalanceHint = ({ type, amount, balance }: { type: LeaveType; amount: number; balance: LeaveBalance }) => {
+  const overBalance = exceedsBalance(balance, amount);
+  return (
+    <p className={`text-xs mt-2 flex items-center gap-1 ${overBalance ? "text-destructive" : "text-muted-foreground"}`}>
+      {overBalance && <AlertTriangle className="w-3 h-3" />}
+      {balance.remaining == null
+        ? "No allowance set"
+        : `${formatLeaveAmount(balance.remaining, type)} remaining${overBalance ? " · exceeds balance" : ""}`}
+    </p>
+  );
+};
 
 const LeaveApprovals = () => {
   const { user } = useAuth();
-  const queryClient = useQueryClient();
-  const [filter, setFilter] = useState<"pending" | "approved" | "rejected" | "all">("pending");
+  const { id: routeRequestId } = useParams();
+  const navigate = useNavigate();
+  const [filter, setFilter] = useState<LeaveFilter>("pending");
+  // A linked request is shown on its own regardless of its status
+  const activeFilter = routeRequestId ? "all" : filter;
   const [showRejectDialog, setShowRejectDialog] = useState(false);
   const [selectedRequest, setSelectedRequest] = useState<LeaveRequest | null>(null);
   const [rejectReason, setRejectReason] = useState("");
-  const [isProcessing, setIsProcessing] = useState(false);
-
-  // Fetch all leave requests
-  const { data: requests = [] } = useQuery({
-    queryKey: ["all-leave-requests", filter],
-    queryFn: async () => {
-      let query = supabase
-        .from("leave_requests")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (filter !== "all") {
-        query = query.eq("status", filter);
-      }
-
-      const { data } = await query;
-      
-      if (!data) return [];
 
-      // Fetch profiles for requests
-      const userIds = [...new Set(data.map(r => r.user_id))];
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("user_id, full_name, designation, department")
-        .in("user_id", userIds);
+  const { data: requests = [] } = useLeaveRequests(activeFilter, routeRequestId);
+  const reviewRequest = useReviewLeaveRequest();
+  const isProcessing = reviewRequest.isPending;
 
-      const profileMap = new Map(profiles?.map(p => [p.user_id, p]) || []);
+  const balanceYears = [...new Set(requests.map(r => leaveYear(r.start_date)))];
+  const { data: entitlements = [] } = useLeaveEntitlements(balanceYears);
 
-      return data.map(r => ({
-        ...r,
-        profile: profileMap.get(r.user_id),
-      })) as LeaveRequest[];
-    },
-  });
+  const workCalendar = useWorkCalendar();
+  const requestAmount = (request: LeaveRequest) => request.duration ?? leaveDuration(request, workCalendar);
+  const balanceFor = (request: LeaveRequest) =>
+    findBalance(entitlements, request.user_id, leaveYear(request.start_date), request.type);
 
   const handleApprove = async (request: LeaveRequest) => {
     if (!user?.id) return;
-    setIsProcessing(true);
 
-    const { error } = await supabase
-      .from("leave_requests")
-      .update({
-        status: "approved",
-        reviewed_by: user.id,
-      })
-      .eq("id", request.id);
-
-    setIsProcessing(false);
-
-    if (error) {
-      toast.error("Failed to approve request");
+    try {
+      await reviewRequest.mutateAsync({ id: request.id, status: "approved", reviewedBy: user.id });
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to approve request"));
       return;
     }
 
     toast.success("Request approved!");
-    queryClient.invalidateQueries({ queryKey: ["all-leave-requests"] });
   };
 
   const openRejectDialog = (request: LeaveRequest) => {
@@ -109,20 +84,14 @@ const LeaveApprovals = () => {
       return;
     }
 
-    setIsProcessing(true);
-
-    const { error } = await supabase
-      .from("leave_requests")
-      .update({
+    try {
+      await reviewRequest.mutateAsync({
+        id: selectedRequest.id,
         status: "rejected",
-        reviewed_by: user.id,
-        review_notes: rejectReason.trim(),
-      })
-      .eq("id", selectedRequest.id);
-
-    setIsProcessing(false);
-
-    if (error) {
+        reviewedBy: user.id,
+        notes: rejectReason.trim(),
+      });
+    } catch (error) {
       toast.error("Failed to reject request");
       return;
     }
@@ -130,18 +99,15 @@ const LeaveApprovals = () => {
     toast.success("Request rejected");
     setShowRejectDialog(false);
     setSelectedRequest(null);
-    queryClient.invalidateQueries({ queryKey: ["all-leave-requests"] });
   };
 
-  const getTypeLabel = (type: string) => {
-    switch (type) {
-      case "full_day": return "Full Day Leave";
-      case "half_day": return "Half Day Leave";
-      case "permission": return "Permission";
-      default: return type;
-    }
+  const copyLink = async (requestId: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/approvals/${requestId}`);
+    toast.success("Link copied");
   };
 
+  const getTypeLabel = (type: string) => LEAVE_TYPE_LABELS[type as LeaveRequest["type"]] || type;
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "approved": return "bg-green-100 text-green-700";
@@ -161,20 +127,35 @@ const LeaveApprovals = () => {
             {pendingCount} pending request{pendingCount !== 1 ? "s" : ""}
           </p>
         </div>
-        <div className="flex items-center gap-2">
-          <Filter className="w-4 h-4 text-muted-foreground" />
-          <Select value={filter} onValueChange={(v: any) => setFilter(v)}>
-            <SelectTrigger className="w-40">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="pending">Pending</SelectItem>
-              <SelectItem value="approved">Approved</SelectItem>
-              <SelectItem value="rejected">Rejected</SelectItem>
-              <SelectItem value="all">All</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
+        {routeRequestId ? (
+          <Button variant="outline" onClick={() => navigate("/approvals")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            All Requests
+          </Button>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/holidays")}>
+              <CalendarOff className="w-4 h-4 mr-2" />
+              Holidays
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/leave-balances")}>
+              <Wallet className="w-4 h-4 mr-2" />
+              Balances
+            </Button>
+            <Filter className="w-4 h-4 text-muted-foreground" />
+            <Select value={filter} onValueChange={(v: LeaveFilter) => setFilter(v)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
       </div>
 
       <div className="space-y-4">
@@ -182,7 +163,9 @@ const LeaveApprovals = () => {
           <Card>
             <CardContent className="py-8">
               <p className="text-muted-foreground text-center">
-                No {filter === "all" ? "" : filter} requests found
+                {routeRequestId
+                  ? "This request could not be found"
+                  : `No ${filter === "all" ? "" : filter} requests found`}
               </p>
             </CardContent>
           </Card>
@@ -206,13 +189,25 @@ const LeaveApprovals = () => {
                           {request.profile?.designation || request.profile?.department || "Team Member"}
                         </p>
                       </div>
-                      <Badge className={getStatusColor(request.status)}>
-                        {request.status}
-                      </Badge>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          title="Copy link"
+                          onClick={() => copyLink(request.id)}
+                        >
+                          <Link2 className="w-4 h-4" />
+                        </Button>
+                        <Badge className={getStatusColor(request.status)}>
+                          {request.status}
+                        </Badge>
+                      </div>
                     </div>
                     <div className="mt-3 p-3 rounded-lg bg-muted/50">
                       <div className="flex items-center gap-2 mb-2">
                         <Badge variant="outline">{getTypeLabel(request.type)}</Badge>
+                        <Badge variant="secondary">{formatLeaveAmount(requestAmount(request), request.type)}</Badge>
                         <span className="text-sm text-muted-foreground flex items-center gap-1">
                           <Calendar className="w-3 h-3" />
                           {format(new Date(request.start_date), "MMM d, yyyy")}
@@ -228,6 +223,13 @@ const LeaveApprovals = () => {
                         )}
                       </div>
                       <p className="text-sm">{request.reason}</p>
+                      {request.status === "pending" && (
+                        <BalanceHint
+                          type={request.type}
+                          amount={requestAmount(request)}
+                          balance={balanceFor(request)}
+                        />
+                      )}
                       {request.review_notes && (
                         <p className="text-sm text-muted-foreground mt-2 italic">
                           Note: {request.review_notes}
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Save, Wallet } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LEAVE_UNITS, formatLeaveAmount } from "@/lib/leave";
+import { findBalance, useLeaveEntitlements, useSetLeaveAllowances } from "@/lib/repositories/leaveEntitlements";
+import { LEAVE_TYPE_LABELS, type LeaveType } from "@/lib/repositories/leaveRequests";
+import { useProfiles } from "@/lib/repositories/profiles";
+import { toast } from "sonner";
+
+const LEAVE_TYPES = Object.keys(LEAVE_TYPE_LABELS) as LeaveType[];
+
+// Empty input clears the limit, anything else must be a non-negative number
+const parseAllowance = (value: string) => {
+  if (value.trim() === "") return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+const LeaveBalances = () => {
+  const navigate = useNavigate();
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  // Unsaved allowance edits keyed by `${userId}:${type}`
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [defaults, setDefaults] = useState<Record<LeaveType, string>>({ full_day: "", half_day: "", permission: "" });
+
+  const { data: members = [] } = useProfiles();
+  const { data: entitlements = [] } = useLeaveEntitlements([year]);
+  const setAllowances = useSetLeaveAllowances();
+
+  const editKey = (userId: string, type: LeaveType) => `${userId}:${type}`;
+
+  const allowanceValue = (userId: string, type: LeaveType) => {
+    const key = editKey(userId, type);
+    if (key in edits) return edits[key];
+    const allowance = findBalance(entitlements, userId, year, type).allowance;
+    return allowance == null ? "" : String(allowance);
+  };
+
+  const changeYear = (value: string) => {
+    setYear(Number(value));
+    setEdits({});
+  };
+
+  const applyDefaults = () => {
+    const next = { ...edits };
+    members.forEach((member) => {
+      LEAVE_TYPES.forEach((type) => {
+        if (defaults[type].trim() !== "") next[editKey(member.user_id, type)] = defaults[type];
+      });
+    });
+    setEdits(next);
+  };
+
+  const handleSave = async () => {
+    const entries = [];
+    for (const [key, value] of Object.entries(edits)) {
+      const [userId, type] = key.split(":") as [string, LeaveType];
+      const allowance = parseAllowance(value);
+      if (allowance === undefined) {
+        toast.error(`Invalid ${LEAVE_TYPE_LABELS[type].toLowerCase()} allowance`);
+        return;
+      }
+      entries.push({ user_id: userId, year, type, allowance });
+    }
+
+    if (entries.length === 0) return;
+
+    try {
+      await setAllowances.mutateAsync(entries);
+    } catch (error) {
+      toast.error("Failed to save allowances");
+      return;
+    }
+
+    toast.success("Leave allowances saved!");
+    setEdits({});
+  };
+
+  const pendingCount = Object.keys(edits).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Leave Balances</h1>
+          <p className="text-muted-foreground">Yearly allowances for each member and leave type</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => navigate("/approvals")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Approvals
+          </Button>
+          <Select value={String(year)} onValueChange={changeYear}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[currentYear - 1, currentYear, currentYear + 1].map((y) => (
+                <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-primary" />
+            Default Allowance
+          </CardTitle>
+          <CardDescription>Fill the same allowance in for every member, then review and save</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            {LEAVE_TYPES.map((type) => (
+              <div key={type}>
+                <label className="text-sm font-medium text-foreground mb-1 block">
+                  {LEAVE_TYPE_LABELS[type]} ({LEAVE_UNITS[type]})
+                </label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={type === "permission" ? 0.5 : 1}
+                  value={defaults[type]}
+                  onChange={(e) => setDefaults({ ...defaults, [type]: e.target.value })}
+                />
+              </div>
+            ))}
+            <Button variant="secondary" onClick={applyDefaults}>
+              Apply to All
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Members · {year}</CardTitle>
+          <Button onClick={handleSave} disabled={pendingCount === 0 || setAllowances.isPending}>
+            <Save className="w-4 h-4 mr-2" />
+            {setAllowances.isPending ? "Saving..." : `Save Changes${pendingCount ? ` (${pendingCount})` : ""}`}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                {LEAVE_TYPES.map((type) => (
+                  <TableHead key={type}>
+                    {LEAVE_TYPE_LABELS[type]} ({LEAVE_UNITS[type]})
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map((member) => (
+                <TableRow key={member.user_id}>
+                  <TableCell>
+                    <p className="font-medium">{member.full_name}</p>
+                    <p className="text-xs text-muted-foreground">{member.department || "Unassigned"}</p>
+                  </TableCell>
+                  {LEAVE_TYPES.map((type) => {
+                    const balance = findBalance(entitlements, member.user_id, year, type);
+                    return (
+                      <TableCell key={type}>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={type === "permission" ? 0.5 : 1}
+                          placeholder="No limit"
+                          className="w-28 h-8"
+                          value={allowanceValue(member.user_id, type)}
+                          onChange={(e) => setEdits({ ...edits, [editKey(member.user_id, type)]: e.target.value })}
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {formatLeaveAmount(balance.used, type)} used
+                        </p>
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LeaveBalances;
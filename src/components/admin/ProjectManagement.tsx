@@ -1,5 +1,20 @@
-import { useState } from "react";
-import { Plus, Calendar, Users, Folder, Edit2, Trash2, CheckCircle } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  Plus,
+  Calendar,
+  Clock,
+  Users,
+  Folder,
+  Edit2,
+  Trash2,
+  CheckCircle,
+  ChartGantt,
+  Crown,
+  Archive,
+  ArchiveRestore,
+  Activity,
+} from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,112 +26,107 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { supabase } from "@/integrations/supabase/client";
+import { Switch } from "@/components/ui/switch";
+import ProjectTimelineDialog from "@/components/projects/ProjectTimelineDialog";
 import { useAuth } from "@/contexts/AuthContext";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useProfiles } from "@/lib/repositories/profiles";
+import {
+  PROJECT_MEMBER_ROLES,
+  PROJECT_MEMBER_ROLE_LABELS,
+  PROJECT_PROGRESS_MODE_LABELS,
+  describeProgressBasis,
+  useArchiveProject,
+  useDeleteProject,
+  useProjects,
+  useSaveProject,
+  useUpdateProject,
+  type ProjectMemberInput,
+  type ProjectMemberRole,
+  type ProjectProgressMode,
+  type ProjectWithMembers as Project,
+} from "@/lib/repositories/projects";
+import { formatMinutes, useProjectTimeTotals } from "@/lib/repositories/timeEntries";
 import { format } from "date-fns";
 import { toast } from "sonner";
 
-interface Project {
-  id: string;
-  name: string;
-  description: string | null;
-  status: string;
-  start_date: string | null;
-  end_date: string | null;
-  progress: number;
-  created_at: string;
-  members?: { user_id: string; full_name: string }[];
-}
-
-interface Profile {
-  user_id: string;
-  full_name: string;
-  designation: string | null;
-}
+const emptyForm = {
+  name: "",
+  description: "",
+  startDate: "",
+  endDate: "",
+  status: "active",
+  progressMode: "tasks" as ProjectProgressMode,
+  progress: "0",
+};
+
+const toFormData = (project: Project) => ({
+  name: project.name,
+  description: project.description || "",
+  startDate: project.start_date || "",
+  endDate: project.end_date || "",
+  status: project.status,
+  progressMode: project.progress_mode as ProjectProgressMode,
+  progress: String(project.progress ?? 0),
+});
 
 const ProjectManagement = () => {
   const { user } = useAuth();
-  const queryClient = useQueryClient();
+  const { id: routeProjectId } = useParams();
+  const navigate = useNavigate();
+  const openedProjectId = useRef<string | null>(null);
   const [showDialog, setShowDialog] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
-  const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
-  const [formData, setFormData] = useState({
-    name: "",
-    description: "",
-    startDate: "",
-    endDate: "",
-    status: "active",
-  });
-
-  // Fetch projects with members
-  const { data: projects = [] } = useQuery({
-    queryKey: ["projects"],
-    queryFn: async () => {
-      const { data: projectsData } = await supabase
-        .from("projects")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (!projectsData) return [];
-
-      // Fetch members for each project
-      const { data: membersData } = await supabase
-        .from("project_members")
-        .select("project_id, user_id");
-
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("user_id, full_name");
-
-      const profileMap = new Map(profiles?.map(p => [p.user_id, p.full_name]) || []);
-
-      return projectsData.map(project => ({
-        ...project,
-        members: (membersData || [])
-          .filter(m => m.project_id === project.id)
-          .map(m => ({
-            user_id: m.user_id,
-            full_name: profileMap.get(m.user_id) || "Unknown",
-          })),
-      })) as Project[];
-    },
-  });
-
-  // Fetch all team members for assignment
-  const { data: allMembers = [] } = useQuery({
-    queryKey: ["all-members"],
-    queryFn: async () => {
-      const { data } = await supabase
-        .from("profiles")
-        .select("user_id, full_name, designation")
-        .order("full_name");
-      return (data || []) as Profile[];
-    },
-  });
+  const [selectedMembers, setSelectedMembers] = useState<ProjectMemberInput[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [timelineProject, setTimelineProject] = useState<Project | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const { data: projects = [] } = useProjects();
+  const { data: timeTotals } = useProjectTimeTotals(projects.map(p => p.id));
+  const { data: allMembers = [] } = useProfiles();
+  const saveProject = useSaveProject();
+  const updateProject = useUpdateProject();
+  const deleteProject = useDeleteProject();
+  const archiveProject = useArchiveProject();
+
+  const archivedCount = projects.filter(p => p.archived_at).length;
+  const visibleProjects = showArchived ? projects : projects.filter(p => !p.archived_at);
+
+  // /projects/:id opens the edit dialog for that project once it has loaded
+  useEffect(() => {
+    if (!routeProjectId) {
+      openedProjectId.current = null;
+      return;
+    }
+    if (openedProjectId.current === routeProjectId) return;
+
+    const project = projects.find(p => p.id === routeProjectId);
+    if (!project) return;
+
+    openedProjectId.current = routeProjectId;
+    setIsEditing(true);
+    setSelectedProject(project);
+    setFormData(toFormData(project));
+    setSelectedMembers(project.members?.map(m => ({ user_id: m.user_id, role: m.role })) || []);
+    setShowDialog(true);
+  }, [routeProjectId, projects]);
 
   const openCreateDialog = () => {
     setIsEditing(false);
     setSelectedProject(null);
-    setFormData({ name: "", description: "", startDate: "", endDate: "", status: "active" });
+    setFormData(emptyForm);
     setSelectedMembers([]);
     setShowDialog(true);
   };
 
   const openEditDialog = (project: Project) => {
-    setIsEditing(true);
-    setSelectedProject(project);
-    setFormData({
-      name: project.name,
-      description: project.description || "",
-      startDate: project.start_date || "",
-      endDate: project.end_date || "",
-      status: project.status,
-    });
-    setSelectedMembers(project.members?.map(m => m.user_id) || []);
-    setShowDialog(true);
+    navigate(`/projects/${project.id}`);
+  };
+
+  const closeDialog = () => {
+    setShowDialog(false);
+    if (routeProjectId) navigate("/projects");
   };
 
   const handleSubmit = async () => {
@@ -125,103 +135,67 @@ const ProjectManagement = () => {
       return;
     }
 
-    setIsLoading(true);
+    const progress = Number(formData.progress);
+    if (formData.progressMode === "manual" && (!Number.isInteger(progress) || progress < 0 || progress > 100)) {
+      toast.error("Progress must be a whole number between 0 and 100");
+      return;
+    }
+
+    const project = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      start_date: formData.startDate || null,
+      end_date: formData.endDate || null,
+      status: formData.status,
+      progress_mode: formData.progressMode,
+      // Calculated modes are filled in by the database
+      ...(formData.progressMode === "manual" && { progress }),
+    };
 
     try {
       if (isEditing && selectedProject) {
-        // Update project
-        const { error } = await supabase
-          .from("projects")
-          .update({
-            name: formData.name.trim(),
-            description: formData.description.trim() || null,
-            start_date: formData.startDate || null,
-            end_date: formData.endDate || null,
-            status: formData.status,
-          })
-          .eq("id", selectedProject.id);
-
-        if (error) throw error;
-
-        // Update members
-        await supabase
-          .from("project_members")
-          .delete()
-          .eq("project_id", selectedProject.id);
-
-        if (selectedMembers.length > 0) {
-          await supabase.from("project_members").insert(
-            selectedMembers.map(userId => ({
-              project_id: selectedProject.id,
-              user_id: userId,
-            }))
-          );
-        }
-
+        await saveProject.mutateAsync({ id: selectedProject.id, project, members: selectedMembers });
         toast.success("Project updated!");
       } else {
-        // Create project
-        const { data: newProject, error } = await supabase
-          .from("projects")
-          .insert({
-            name: formData.name.trim(),
-            description: formData.description.trim() || null,
-            start_date: formData.startDate || null,
-            end_date: formData.endDate || null,
-            status: formData.status,
-            created_by: user.id,
-          })
-          .select("id")
-          .single();
-
-        if (error) throw error;
-
-        // Add members
-        if (selectedMembers.length > 0 && newProject) {
-          await supabase.from("project_members").insert(
-            selectedMembers.map(userId => ({
-              project_id: newProject.id,
-              user_id: userId,
-            }))
-          );
-        }
-
+        await saveProject.mutateAsync({ project: { ...project, created_by: user.id }, members: selectedMembers });
         toast.success("Project created!");
       }
 
-      setShowDialog(false);
-      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      closeDialog();
     } catch (error) {
       toast.error("Failed to save project");
-      console.error(error);
-    } finally {
-      setIsLoading(false);
     }
   };
 
   const handleDelete = async (projectId: string) => {
-    if (!confirm("Are you sure you want to delete this project?")) return;
-
-    const { error } = await supabase.from("projects").delete().eq("id", projectId);
+    if (!confirm("Move this project and its tasks to the trash? Admins can restore it from the Trash page.")) return;
 
-    if (error) {
+    try {
+      await deleteProject.mutateAsync(projectId);
+      toast.success("Project moved to trash");
+    } catch (error) {
       toast.error("Failed to delete project");
-      return;
     }
-
-    toast.success("Project deleted");
-    queryClient.invalidateQueries({ queryKey: ["projects"] });
   };
 
-  const updateProgress = async (projectId: string, progress: number) => {
-    const { error } = await supabase
-      .from("projects")
-      .update({ progress })
-      .eq("id", projectId);
+  const toggleArchived = async (project: Project) => {
+    const archived = !project.archived_at;
 
-    if (!error) {
-      queryClient.invalidateQueries({ queryKey: ["projects"] });
+    try {
+      await archiveProject.mutateAsync({ id: project.id, archived });
+    } catch (error) {
+      toast.error(archived ? "Failed to archive project" : "Failed to unarchive project");
+      return;
     }
+
+    toast.success(archived ? "Project archived" : "Project unarchived");
+  };
+
+  const updateProgress = (projectId: string, progress: number) => {
+    updateProject.mutate(
+      { id: projectId, patch: { progress } },
+      { onError: () => toast.error("Failed to update progress") }
+    );
   };
 
   const getStatusColor = (status: string) => {
@@ -236,31 +210,50 @@ const ProjectManagement = () => {
 
   const toggleMember = (userId: string) => {
     setSelectedMembers(prev =>
-      prev.includes(userId)
-        ? prev.filter(id => id !== userId)
-        : [...prev, userId]
+      prev.some(m => m.user_id === userId)
+        ? prev.filter(m => m.user_id !== userId)
+        : [...prev, { user_id: userId, role: "member" }]
     );
   };
 
+  const setMemberRole = (userId: string, role: ProjectMemberRole) => {
+    setSelectedMembers(prev => prev.map(m => (m.user_id === userId ? { ...m, role } : m)));
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold text-foreground">Projects</h1>
-          <p className="text-muted-foreground">{projects.length} projects</p>
+          <p className="text-muted-foreground">
+            {projects.length - archivedCount} projects
+            {archivedCount > 0 && ` • ${archivedCount} archived`}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          {archivedCount > 0 && (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+              <Switch checked={showArchived} onCheckedChange={setShowArchived} />
+              Show archived
+            </label>
+          )}
+          <Button onClick={openCreateDialog}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Project
+          </Button>
         </div>
-        <Button onClick={openCreateDialog}>
-          <Plus className="w-4 h-4 mr-2" />
-          New Project
-        </Button>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {projects.map((project) => (
-          <Card key={project.id} className="card-elevated hover:shadow-lg transition-shadow">
+        {visibleProjects.map((project) => (
+          <Card
+            key={project.id}
+            className={`card-elevated hover:shadow-lg transition-shadow ${project.archived_at ? "opacity-70" : ""}`}
+          >
             <CardHeader className="pb-3">
-              <div className="flex items-start justify-between">
+              <div className="flex items-start justify-between gap-2">
                 <CardTitle className="text-lg truncate flex-1">{project.name}</CardTitle>
+                {project.archived_at && <Badge variant="outline">archived</Badge>}
                 <Badge className={getStatusColor(project.status)}>
                   {project.status}
                 </Badge>
@@ -277,11 +270,22 @@ const ProjectManagement = () => {
               <div>
                 <div className="flex justify-between text-sm mb-1">
                   <span className="text-muted-foreground">Progress</span>
-                  <span className="font-medium">{project.progress}%</span>
+                  <span className="font-medium">{project.progress ?? 0}%</span>
                 </div>
                 <Progress value={project.progress} className="h-2" />
+                <p className="text-xs text-muted-foreground mt-1">{describeProgressBasis(project)}</p>
               </div>
 
+              {/* Logged vs estimated hours */}
+              {(timeTotals?.get(project.id)?.minutes > 0 || timeTotals?.get(project.id)?.estimatedHours > 0) && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Clock className="w-4 h-4" />
+                  {formatMinutes(timeTotals.get(project.id).minutes)} logged
+                  {timeTotals.get(project.id).estimatedHours > 0 &&
+                    ` of ${formatMinutes(timeTotals.get(project.id).estimatedHours * 60)} estimated`}
+                </div>
+              )}
+
               {/* Dates */}
               {(project.start_date || project.end_date) && (
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -312,6 +316,14 @@ const ProjectManagement = () => {
                   </div>
                 </div>
               )}
+              {project.members?.some(m => m.role === "lead") && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Crown className="w-4 h-4" />
+                  <span className="truncate">
+                    Led by {project.members.filter(m => m.role === "lead").map(m => m.full_name).join(", ")}
+                  </span>
+                </div>
+              )}
 
               {/* Actions */}
               <div className="flex gap-2 pt-2 border-t">
@@ -327,13 +339,41 @@ const ProjectManagement = () => {
                 <Button
                   size="sm"
                   variant="outline"
-                  onClick={() => updateProgress(project.id, Math.min(100, project.progress + 10))}
+                  title="Dashboard"
+                  onClick={() => navigate(`/projects/${project.id}/dashboard`)}
+                >
+                  <Activity className="w-3 h-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  title="Timeline"
+                  onClick={() => setTimelineProject(project)}
+                >
+                  <ChartGantt className="w-3 h-3" />
+                </Button>
+                {project.progress_mode === "manual" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    title="Add 10% progress"
+                    onClick={() => updateProgress(project.id, Math.min(100, (project.progress ?? 0) + 10))}
+                  >
+                    <CheckCircle className="w-3 h-3" />
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  title={project.archived_at ? "Unarchive" : "Archive"}
+                  onClick={() => toggleArchived(project)}
                 >
-                  <CheckCircle className="w-3 h-3" />
+                  {project.archived_at ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
                 </Button>
                 <Button
                   size="sm"
                   variant="outline"
+                  title="Move to trash"
                   onClick={() => handleDelete(project.id)}
                   className="text-destructive hover:text-destructive"
                 >
@@ -345,17 +385,21 @@ const ProjectManagement = () => {
         ))}
       </div>
 
-      {projects.length === 0 && (
+      {visibleProjects.length === 0 && (
         <Card>
           <CardContent className="py-12 text-center">
             <Folder className="w-12 h-12 mx-auto text-muted-foreground/30 mb-4" />
-            <p className="text-muted-foreground">No projects yet. Create your first project!</p>
+            <p className="text-muted-foreground">
+              {archivedCount > 0 ? "All projects are archived." : "No projects yet. Create your first project!"}
+            </p>
           </CardContent>
         </Card>
       )}
 
+      <ProjectTimelineDialog project={timelineProject} onOpenChange={(open) => !open && setTimelineProject(null)} />
+
       {/* Create/Edit Dialog */}
-      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+      <Dialog open={showDialog} onOpenChange={(open) => !open && closeDialog()}>
         <DialogContent className="max-w-lg">
           <DialogHeader>
             <DialogTitle>{isEditing ? "Edit Project" : "New Project"}</DialogTitle>
@@ -414,39 +458,99 @@ const ProjectManagement = () => {
               </Select>
             </div>
             <div>
-              <label className="text-sm font-medium mb-2 block">Assign Members</label>
-              <ScrollArea className="h-40 border rounded-lg p-2">
+              <label className="text-sm font-medium mb-1 block">Progress Based On</label>
+              <div className="flex gap-2">
+                <Select
+                  value={formData.progressMode}
+                  onValueChange={(v: ProjectProgressMode) => setFormData({ ...formData, progressMode: v })}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PROJECT_PROGRESS_MODE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formData.progressMode === "manual" && (
+                  <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      className="w-20"
+                      value={formData.progress}
+                      onChange={(e) => setFormData({ ...formData, progress: e.target.value })}
+                    />
+                    %
+                  </div>
+                )}
+              </div>
+              {formData.progressMode !== "manual" && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Calculated from the project's top-level tasks
+                  {formData.progressMode === "estimates" && "; tasks without an estimate don't count"}
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1 block">Assign Members</label>
+              <p className="text-xs text-muted-foreground mb-2">
+                Leads can create and assign tasks in this project. Viewers can see its tasks but never receive them.
+              </p>
+              <ScrollArea className="h-48 border rounded-lg p-2">
                 <div className="space-y-2">
-                  {allMembers.map((member) => (
-                    <div
-                      key={member.user_id}
-                      className="flex items-center gap-3 p-2 rounded hover:bg-muted cursor-pointer"
-                      onClick={() => toggleMember(member.user_id)}
-                    >
-                      <Checkbox checked={selectedMembers.includes(member.user_id)} />
-                      <Avatar className="w-8 h-8">
-                        <AvatarFallback className="text-xs gradient-bg text-primary-foreground">
-                          {member.full_name.split(" ").map(n => n[0]).join("")}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div className="flex-1">
-                        <p className="text-sm font-medium">{member.full_name}</p>
-                        {member.designation && (
-                          <p className="text-xs text-muted-foreground">{member.designation}</p>
+                  {allMembers.map((member) => {
+                    const selected = selectedMembers.find(m => m.user_id === member.user_id);
+                    return (
+                      <div
+                        key={member.user_id}
+                        className="flex items-center gap-3 p-2 rounded hover:bg-muted cursor-pointer"
+                        onClick={() => toggleMember(member.user_id)}
+                      >
+                        <Checkbox checked={!!selected} />
+                        <Avatar className="w-8 h-8">
+                          <AvatarFallback className="text-xs gradient-bg text-primary-foreground">
+                            {member.full_name.split(" ").map(n => n[0]).join("")}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1">
+                          <p className="text-sm font-medium">{member.full_name}</p>
+                          {member.designation && (
+                            <p className="text-xs text-muted-foreground">{member.designation}</p>
+                          )}
+                        </div>
+                        {selected && (
+                          <div onClick={(e) => e.stopPropagation()}>
+                            <Select
+                              value={selected.role}
+                              onValueChange={(v: ProjectMemberRole) => setMemberRole(member.user_id, v)}
+                            >
+                              <SelectTrigger className="h-8 w-28 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {PROJECT_MEMBER_ROLES.map(role => (
+                                  <SelectItem key={role} value={role}>{PROJECT_MEMBER_ROLE_LABELS[role]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
                         )}
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </ScrollArea>
             </div>
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setShowDialog(false)}>
+            <Button variant="outline" onClick={closeDialog}>
               Cancel
             </Button>
-            <Button onClick={handleSubmit} disabled={isLoading}>
-              {isLoading ? "Saving..." : isEditing ? "Update" : "Create"}
+            <Button onClick={handleSubmit} disabled={saveProject.isPending}>
+              {saveProject.isPending ? "Saving..." : isEditing ? "Update" : "Create"}
             </Button>
           </DialogFooter>
         </DialogContent>
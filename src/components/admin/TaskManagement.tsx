@@ -1,5 +1,6 @@
-import { useState } from "react";
-import { Plus, Calendar, Flag, User, Edit2, Trash2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Plus, AlarmClock, Calendar, Flag, User, Edit2, Trash2, MessageSquare, Columns3, ChevronLeft, ChevronRight, Clock, Copy, Repeat, Upload, Download } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,132 +10,180 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { supabase } from "@/integrations/supabase/client";
+import { Progress } from "@/components/ui/progress";
+import BlockedBadge from "@/components/tasks/BlockedBadge";
+import DeadlineRulesDialog from "@/components/tasks/DeadlineRulesDialog";
+import DueBadge from "@/components/tasks/DueBadge";
+import LabelInput from "@/components/tasks/LabelInput";
+import TaskBoard from "@/components/tasks/TaskBoard";
+import TaskColumnsDialog from "@/components/tasks/TaskColumnsDialog";
+import TaskDetailSheet from "@/components/tasks/TaskDetailSheet";
+import TaskFilterBar from "@/components/tasks/TaskFilterBar";
+import TaskImportDialog from "@/components/tasks/TaskImportDialog";
+import TaskTemplatesDialog from "@/components/tasks/TaskTemplatesDialog";
 import { useAuth } from "@/contexts/AuthContext";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { format } from "date-fns";
+import { downloadCsv } from "@/lib/csv";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useDeadlineSettings } from "@/lib/repositories/deadlines";
+import { useMilestones } from "@/lib/repositories/milestones";
+import { useProfiles } from "@/lib/repositories/profiles";
+import { useProjectOptions } from "@/lib/repositories/projects";
+import { useTaskColumns } from "@/lib/repositories/taskColumns";
+import { useTaskBlockers } from "@/lib/repositories/taskDependencies";
+import { useCopyTemplateChecklist, useTaskTemplates, type TaskTemplate } from "@/lib/repositories/taskTemplates";
+import { formatMinutes, useTaskTimeTotals } from "@/lib/repositories/timeEntries";
+import {
+  EMPTY_TASK_FILTERS,
+  TASK_PRIORITIES,
+  fetchAllTasks,
+  TASK_PRIORITY_COLORS,
+  TASK_PRIORITY_LABELS,
+  useBoardTasks,
+  useDeleteTask,
+  useDueCounts,
+  useMoveTasks,
+  useSaveTask,
+  useTask,
+  useTaskLabels,
+  useTaskPage,
+  useTaskProgress,
+  useUpdateTaskStatus,
+  type TaskFilters,
+  type TaskPriority,
+  type TaskStatus,
+  type TaskWithRelations as Task,
+} from "@/lib/repositories/tasks";
+import { confirmBlockedMove } from "@/lib/taskBlocking";
+import { DEFAULT_DEADLINE_SETTINGS } from "@/lib/taskDeadlines";
+import { beforeInFullColumn, boardColumns, columnTasks, planMove, type BoardColumn } from "@/lib/taskBoard";
+import { tasksToCsv } from "@/lib/taskCsv";
+import { format, parseISO } from "date-fns";
 import { toast } from "sonner";
 
-interface Task {
-  id: string;
-  title: string;
-  description: string | null;
-  status: string;
-  due_date: string | null;
-  assigned_to: string | null;
-  assigned_by: string | null;
-  project_id: string | null;
-  created_at: string;
-  assignee?: { full_name: string };
-  project?: { name: string };
-}
-
-interface Profile {
-  user_id: string;
-  full_name: string;
-}
-
-interface Project {
-  id: string;
-  name: string;
-}
+const emptyForm = {
+  title: "",
+  description: "",
+  dueDate: "",
+  assignedTo: "",
+  projectId: "",
+  milestoneId: "",
+  status: "pending" as TaskStatus,
+  priority: "medium" as TaskPriority,
+  labels: [] as string[],
+  estimatedHours: "",
+};
+
+const LIST_PAGE_SIZE = 25;
+// Cards loaded per status on the board; narrower filters reach the rest
+const BOARD_LIMIT_PER_STATUS = 100;
+
+const toFormData = (task: Task) => ({
+  title: task.title,
+  description: task.description || "",
+  dueDate: task.due_date || "",
+  assignedTo: task.assigned_to || "",
+  projectId: task.project_id || "",
+  milestoneId: task.milestone_id || "",
+  status: task.status,
+  priority: task.priority,
+  labels: task.labels,
+  estimatedHours: task.estimated_hours?.toString() ?? "",
+});
 
 const TaskManagement = () => {
   const { user } = useAuth();
-  const queryClient = useQueryClient();
+  const { id: routeTaskId } = useParams();
+  const navigate = useNavigate();
+  const openedTaskId = useRef<string | null>(null);
   const [showDialog, setShowDialog] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
-  const [formData, setFormData] = useState({
-    title: "",
-    description: "",
-    dueDate: "",
-    assignedTo: "",
-    projectId: "",
-    status: "pending",
-  });
-
-  // Fetch all tasks
-  const { data: tasks = [] } = useQuery({
-    queryKey: ["all-tasks"],
-    queryFn: async () => {
-      const { data: tasksData } = await supabase
-        .from("tasks")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (!tasksData) return [];
-
-      // Fetch assignee profiles
-      const assigneeIds = [...new Set(tasksData.map(t => t.assigned_to).filter(Boolean))];
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("user_id, full_name")
-        .in("user_id", assigneeIds as string[]);
-
-      // Fetch projects
-      const projectIds = [...new Set(tasksData.map(t => t.project_id).filter(Boolean))];
-      const { data: projects } = await supabase
-        .from("projects")
-        .select("id, name")
-        .in("id", projectIds as string[]);
-
-      const profileMap = new Map(profiles?.map(p => [p.user_id, p]) || []);
-      const projectMap = new Map(projects?.map(p => [p.id, p]) || []);
-
-      return tasksData.map(task => ({
-        ...task,
-        assignee: task.assigned_to ? profileMap.get(task.assigned_to) : undefined,
-        project: task.project_id ? projectMap.get(task.project_id) : undefined,
-      })) as Task[];
-    },
-  });
-
-  // Fetch team members
-  const { data: members = [] } = useQuery({
-    queryKey: ["team-members-list"],
-    queryFn: async () => {
-      const { data } = await supabase
-        .from("profiles")
-        .select("user_id, full_name")
-        .order("full_name");
-      return (data || []) as Profile[];
-    },
-  });
-
-  // Fetch projects
-  const { data: projects = [] } = useQuery({
-    queryKey: ["projects-list"],
-    queryFn: async () => {
-      const { data } = await supabase
-        .from("projects")
-        .select("id, name")
-        .eq("status", "active")
-        .order("name");
-      return (data || []) as Project[];
-    },
-  });
+  const [formData, setFormData] = useState(emptyForm);
+  const [detailTaskId, setDetailTaskId] = useState<string | null>(null);
+  const [showColumns, setShowColumns] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showDeadlines, setShowDeadlines] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [template, setTemplate] = useState<TaskTemplate | null>(null);
+  const [view, setView] = useState("board");
+  const [filters, setFilters] = useState<TaskFilters>(EMPTY_TASK_FILTERS);
+  const [page, setPage] = useState(0);
+
+  const search = useDebouncedValue(filters.search);
+  const queryFilters = { ...filters, search };
+  const { data: taskPage } = useTaskPage(queryFilters, page, LIST_PAGE_SIZE);
+  const { data: boardPage } = useBoardTasks(queryFilters, BOARD_LIMIT_PER_STATUS, view === "board");
+  const tasks = (view === "board" ? boardPage?.tasks : taskPage?.tasks) ?? [];
+  const total = taskPage?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / LIST_PAGE_SIZE));
+
+  const { data: routeTask } = useTask(routeTaskId);
+  const { data: progress } = useTaskProgress(tasks.map(t => t.id));
+  const blockers = useTaskBlockers(tasks.map(t => t.id));
+  const { data: timeTotals } = useTaskTimeTotals(tasks.map(t => t.id));
+  const { data: deadlines = DEFAULT_DEADLINE_SETTINGS } = useDeadlineSettings();
+  const { data: dueCounts } = useDueCounts(deadlines.dueSoonDays);
+  const { data: taskColumns = [] } = useTaskColumns();
+  const { data: labels = [] } = useTaskLabels();
+  const { data: members = [] } = useProfiles();
+  const { data: projects = [] } = useProjectOptions();
+  const { data: templates = [] } = useTaskTemplates(showDialog && !isEditing);
+  const { data: milestones = [] } = useMilestones(showDialog ? formData.projectId || undefined : undefined);
+  const saveTask = useSaveTask();
+  const copyChecklist = useCopyTemplateChecklist();
+  const deleteTask = useDeleteTask();
+  const updateTaskStatus = useUpdateTaskStatus();
+  const moveTasks = useMoveTasks();
+
+  // /tasks/:id opens the edit dialog for that task once it has loaded
+  useEffect(() => {
+    if (!routeTaskId) {
+      openedTaskId.current = null;
+      return;
+    }
+    if (openedTaskId.current === routeTaskId || routeTask?.id !== routeTaskId) return;
+
+    openedTaskId.current = routeTaskId;
+    setIsEditing(true);
+    setSelectedTask(routeTask);
+    setFormData(toFormData(routeTask));
+    setShowDialog(true);
+  }, [routeTaskId, routeTask]);
 
   const openCreateDialog = () => {
     setIsEditing(false);
     setSelectedTask(null);
-    setFormData({ title: "", description: "", dueDate: "", assignedTo: "", projectId: "", status: "pending" });
+    setTemplate(null);
+    setFormData(emptyForm);
     setShowDialog(true);
   };
 
-  const openEditDialog = (task: Task) => {
-    setIsEditing(true);
-    setSelectedTask(task);
+  const applyTemplate = (templateId: string) => {
+    const next = templates.find(t => t.id === templateId) ?? null;
+    setTemplate(next);
+    if (!next) return;
+
     setFormData({
-      title: task.title,
-      description: task.description || "",
-      dueDate: task.due_date || "",
-      assignedTo: task.assigned_to || "",
-      projectId: task.project_id || "",
-      status: task.status,
+      ...formData,
+      title: next.title,
+      description: next.description || "",
+      assignedTo: next.assigned_to || "",
+      projectId: next.project_id || "",
+      milestoneId: "",
+      priority: next.priority,
+      labels: next.labels,
+      estimatedHours: next.estimated_hours?.toString() ?? "",
     });
-    setShowDialog(true);
+  };
+
+  const openEditDialog = (task: Task) => {
+    navigate(`/tasks/${task.id}`);
+  };
+
+  const closeDialog = () => {
+    setShowDialog(false);
+    if (routeTaskId) navigate("/tasks");
   };
 
   const handleSubmit = async () => {
@@ -143,72 +192,75 @@ const TaskManagement = () => {
       return;
     }
 
-    setIsLoading(true);
+    const task = {
+      title: formData.title.trim(),
+      description: formData.description.trim() || null,
+      due_date: formData.dueDate || null,
+      assigned_to: formData.assignedTo || null,
+      project_id: formData.projectId || null,
+      milestone_id: formData.milestoneId || null,
+      status: formData.status,
+      priority: formData.priority,
+      labels: formData.labels,
+      estimated_hours: formData.estimatedHours ? Number(formData.estimatedHours) : null,
+    };
+
+    if (isEditing && selectedTask && selectedTask.status !== task.status && !confirmBlockedMove(blockers.get(selectedTask.id), task.status)) {
+      return;
+    }
 
     try {
       if (isEditing && selectedTask) {
-        const { error } = await supabase
-          .from("tasks")
-          .update({
-            title: formData.title.trim(),
-            description: formData.description.trim() || null,
-            due_date: formData.dueDate || null,
-            assigned_to: formData.assignedTo || null,
-            project_id: formData.projectId || null,
-            status: formData.status as "pending" | "in_progress" | "completed",
-          })
-          .eq("id", selectedTask.id);
-
-        if (error) throw error;
+        await saveTask.mutateAsync({ id: selectedTask.id, task });
         toast.success("Task updated!");
       } else {
-        const { error } = await supabase.from("tasks").insert([{
-          title: formData.title.trim(),
-          description: formData.description.trim() || null,
-          due_date: formData.dueDate || null,
-          assigned_to: formData.assignedTo || null,
-          assigned_by: user.id,
-          project_id: formData.projectId || null,
-          status: formData.status as "pending" | "in_progress" | "completed",
-        }]);
-
-        if (error) throw error;
+        const created = await saveTask.mutateAsync({ task: { ...task, assigned_by: user.id } });
+        if (template) {
+          await copyChecklist
+            .mutateAsync({ template, taskId: created.id })
+            .catch(() => toast.error("Task created, but copying the template checklist failed"));
+        }
         toast.success("Task created!");
       }
 
-      setShowDialog(false);
-      queryClient.invalidateQueries({ queryKey: ["all-tasks"] });
+      closeDialog();
     } catch (error) {
       toast.error("Failed to save task");
-      console.error(error);
+    }
+  };
+
+  // Exports every task matching the filters, not just the visible page
+  const handleExport = async () => {
+    setIsExporting(true);
+
+    try {
+      const matching = await fetchAllTasks(queryFilters);
+      downloadCsv(`tasks-${format(new Date(), "yyyy-MM-dd")}`, tasksToCsv(matching));
+    } catch (error) {
+      toast.error("Failed to export tasks");
     } finally {
-      setIsLoading(false);
+      setIsExporting(false);
     }
   };
 
   const handleDelete = async (taskId: string) => {
-    if (!confirm("Delete this task?")) return;
+    if (!confirm("Move this task and its subtasks to the trash?")) return;
 
-    const { error } = await supabase.from("tasks").delete().eq("id", taskId);
-
-    if (error) {
+    try {
+      await deleteTask.mutateAsync(taskId);
+      toast.success("Task moved to trash");
+    } catch (error) {
       toast.error("Failed to delete");
-      return;
     }
-
-    toast.success("Task deleted");
-    queryClient.invalidateQueries({ queryKey: ["all-tasks"] });
   };
 
-  const updateStatus = async (taskId: string, status: "pending" | "in_progress" | "completed") => {
-    const { error } = await supabase
-      .from("tasks")
-      .update({ status })
-      .eq("id", taskId);
+  const updateStatus = (taskId: string, status: TaskStatus) => {
+    if (!confirmBlockedMove(blockers.get(taskId), status)) return;
 
-    if (!error) {
-      queryClient.invalidateQueries({ queryKey: ["all-tasks"] });
-    }
+    updateTaskStatus.mutate(
+      { id: taskId, status },
+      { onError: () => toast.error("Failed to update status") }
+    );
   };
 
   const getStatusColor = (status: string) => {
@@ -220,167 +272,348 @@ const TaskManagement = () => {
     }
   };
 
-  const pendingTasks = tasks.filter(t => t.status === "pending");
-  const inProgressTasks = tasks.filter(t => t.status === "in_progress");
-  const completedTasks = tasks.filter(t => t.status === "completed");
-
-  const TaskCard = ({ task }: { task: Task }) => (
-    <div className="p-4 rounded-lg border bg-card hover:shadow-md transition-shadow">
-      <div className="flex items-start justify-between gap-2 mb-2">
-        <h4 className="font-medium text-foreground line-clamp-1">{task.title}</h4>
-        <div className="flex gap-1">
-          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => openEditDialog(task)}>
-            <Edit2 className="w-3 h-3" />
-          </Button>
-          <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => handleDelete(task.id)}>
-            <Trash2 className="w-3 h-3" />
-          </Button>
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(EMPTY_TASK_FILTERS);
+
+  const changeFilters = (next: TaskFilters) => {
+    setFilters(next);
+    setPage(0);
+  };
+
+  // Custom columns only make sense on a single project's board
+  const boardProject = projects.find(p => p.id === filters.project) ?? null;
+  const projectColumns = taskColumns.filter(c => c.project_id === filters.project);
+  const columns = boardColumns(projectColumns);
+  const columnName = (task: Task) => taskColumns.find(c => c.id === task.column_id)?.name;
+
+  // Filters or the per-status limit can hide cards that share the column's positions
+  const boardIsPartial =
+    (boardPage?.total ?? 0) > tasks.length ||
+    JSON.stringify({ ...filters, project: "all" }) !== JSON.stringify(EMPTY_TASK_FILTERS);
+
+  const handleMove = async (task: Task, column: BoardColumn, current: Task[], beforeId: string | null) => {
+    let moves = planMove(task, column, current, beforeId);
+    if (moves.length === 0) return;
+    if (column.status !== task.status && !confirmBlockedMove(blockers.get(task.id), column.status)) return;
+
+    // Place the card against the whole column so renumbering never collides with hidden cards
+    if (boardIsPartial) {
+      try {
+        const all = await fetchAllTasks({ ...EMPTY_TASK_FILTERS, project: filters.project, status: column.status });
+        const full = columnTasks(all, column, columns);
+        moves = planMove(task, column, full, beforeInFullColumn(task.id, current, full, beforeId));
+      } catch (error) {
+        toast.error("Failed to move task");
+        return;
+      }
+      if (moves.length === 0) return;
+    }
+
+    moveTasks.mutate(moves, { onError: () => toast.error("Failed to move task") });
+  };
+
+  const TaskCard = ({ task }: { task: Task }) => {
+    const counts = progress?.get(task.id);
+    const logged = timeTotals?.get(task.id) ?? 0;
+    return (
+      <div className="p-4 rounded-lg border bg-card hover:shadow-md transition-shadow">
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <button
+            onClick={() => setDetailTaskId(task.id)}
+            className="font-medium text-foreground line-clamp-1 text-left hover:underline"
+          >
+            {task.title}
+          </button>
+          <div className="flex gap-1">
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setDetailTaskId(task.id)}>
+              <MessageSquare className="w-3 h-3" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => openEditDialog(task)}>
+              <Edit2 className="w-3 h-3" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => handleDelete(task.id)}>
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
         </div>
-      </div>
-      {task.description && (
-        <p className="text-sm text-muted-foreground line-clamp-2 mb-2">{task.description}</p>
-      )}
-      <div className="flex flex-wrap gap-2 mb-2">
-        {task.project && (
-          <Badge variant="outline" className="text-xs">
-            {task.project.name}
-          </Badge>
+        {task.description && (
+          <p className="text-sm text-muted-foreground line-clamp-2 mb-2">{task.description}</p>
         )}
-        {task.due_date && (
-          <span className="text-xs text-muted-foreground flex items-center gap-1">
-            <Calendar className="w-3 h-3" />
-            {format(new Date(task.due_date), "MMM d")}
-          </span>
-        )}
-      </div>
-      <div className="flex items-center justify-between">
-        {task.assignee ? (
-          <div className="flex items-center gap-2">
-            <Avatar className="w-6 h-6">
-              <AvatarFallback className="text-xs gradient-bg text-primary-foreground">
-                {task.assignee.full_name.split(" ").map(n => n[0]).join("")}
-              </AvatarFallback>
-            </Avatar>
-            <span className="text-xs text-muted-foreground">{task.assignee.full_name}</span>
+        <div className="flex flex-wrap gap-2 mb-2">
+          <Badge className={`text-xs ${TASK_PRIORITY_COLORS[task.priority]}`}>
+            {TASK_PRIORITY_LABELS[task.priority]}
+          </Badge>
+          {task.project && (
+            <Badge variant="outline" className="text-xs">
+              {task.project.name}
+            </Badge>
+          )}
+          {task.series_id && (
+            <Badge variant="outline" className="text-xs gap-1">
+              <Repeat className="w-3 h-3" />
+              Recurring
+            </Badge>
+          )}
+          {task.status !== "completed" && <BlockedBadge blockers={blockers.get(task.id)} />}
+          {task.labels.map(label => (
+            <Badge key={label} variant="secondary" className="text-xs">
+              {label}
+            </Badge>
+          ))}
+          {task.due_date && (
+            <span className="text-xs text-muted-foreground flex items-center gap-1">
+              <Calendar className="w-3 h-3" />
+              {format(new Date(task.due_date), "MMM d")}
+            </span>
+          )}
+          <DueBadge task={task} dueSoonDays={deadlines.dueSoonDays} />
+          {(logged > 0 || task.estimated_hours) && (
+            <span
+              className={`text-xs flex items-center gap-1 ${
+                task.estimated_hours && logged > task.estimated_hours * 60 ? "text-destructive" : "text-muted-foreground"
+              }`}
+            >
+              <Clock className="w-3 h-3" />
+              {formatMinutes(logged)}
+              {task.estimated_hours ? ` / ${formatMinutes(task.estimated_hours * 60)}` : ""}
+            </span>
+          )}
+        </div>
+        {counts && (
+          <div className="flex items-center gap-2 mb-2">
+            <Progress value={(counts.done / counts.total) * 100} className="h-1.5 flex-1" />
+            <span className="text-xs text-muted-foreground">{counts.done}/{counts.total} done</span>
           </div>
-        ) : (
-          <span className="text-xs text-muted-foreground">Unassigned</span>
         )}
-        <Select value={task.status} onValueChange={(v) => updateStatus(task.id, v)}>
-          <SelectTrigger className="h-7 w-28 text-xs">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="pending">Pending</SelectItem>
-            <SelectItem value="in_progress">In Progress</SelectItem>
-            <SelectItem value="completed">Completed</SelectItem>
-          </SelectContent>
-        </Select>
+        <div className="flex items-center justify-between">
+          {task.assignee ? (
+            <div className="flex items-center gap-2">
+              <Avatar className="w-6 h-6">
+                <AvatarFallback className="text-xs gradient-bg text-primary-foreground">
+                  {task.assignee.full_name.split(" ").map(n => n[0]).join("")}
+                </AvatarFallback>
+              </Avatar>
+              <span className="text-xs text-muted-foreground">{task.assignee.full_name}</span>
+            </div>
+          ) : (
+            <span className="text-xs text-muted-foreground">Unassigned</span>
+          )}
+          <Select value={task.status} onValueChange={(v: TaskStatus) => updateStatus(task.id, v)}>
+            <SelectTrigger className="h-7 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="in_progress">In Progress</SelectItem>
+              <SelectItem value="completed">Completed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <div className="space-y-6">
-      <div className="flex items-center justify-between">
+      <div className="flex flex-wrap items-center justify-between gap-3">
         <div>
           <h1 className="text-2xl font-bold text-foreground">Tasks</h1>
-          <p className="text-muted-foreground">{tasks.length} total tasks</p>
+          <p className="text-muted-foreground">
+            {total} {isFiltered ? "matching" : "total"} tasks
+            {dueCounts && (dueCounts.overdue > 0 || dueCounts.dueSoon > 0) && (
+              <>
+                {" • "}
+                <span className={dueCounts.overdue > 0 ? "text-destructive" : ""}>{dueCounts.overdue} overdue</span>
+                {` • ${dueCounts.dueSoon} due soon`}
+              </>
+            )}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setShowImport(true)}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={isExporting || total === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+          <Button variant="outline" onClick={() => setShowDeadlines(true)}>
+            <AlarmClock className="w-4 h-4 mr-2" />
+            Deadline Rules
+          </Button>
+          <Button variant="outline" onClick={() => setShowTemplates(true)}>
+            <Copy className="w-4 h-4 mr-2" />
+            Templates
+          </Button>
+          <Button onClick={openCreateDialog}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Task
+          </Button>
         </div>
-        <Button onClick={openCreateDialog}>
-          <Plus className="w-4 h-4 mr-2" />
-          New Task
-        </Button>
       </div>
 
-      <Tabs defaultValue="board" className="w-full">
-        <TabsList>
-          <TabsTrigger value="board">Board View</TabsTrigger>
-          <TabsTrigger value="list">List View</TabsTrigger>
-        </TabsList>
+      <TaskFilterBar
+        filters={filters}
+        onChange={changeFilters}
+        members={members}
+        projects={projects}
+        labels={labels}
+      />
+
+      <Tabs value={view} onValueChange={setView} className="w-full">
+        <div className="flex items-center justify-between gap-3">
+          <TabsList>
+            <TabsTrigger value="board">Board View</TabsTrigger>
+            <TabsTrigger value="list">List View</TabsTrigger>
+          </TabsList>
+          {view === "board" && boardProject && (
+            <Button variant="outline" onClick={() => setShowColumns(true)}>
+              <Columns3 className="w-4 h-4 mr-2" />
+              Manage Columns
+            </Button>
+          )}
+        </div>
 
         <TabsContent value="board" className="mt-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            {/* Pending Column */}
-            <div className="space-y-3">
-              <div className="flex items-center gap-2 pb-2 border-b">
-                <div className="w-3 h-3 rounded-full bg-yellow-500" />
-                <h3 className="font-semibold">Pending</h3>
-                <Badge variant="secondary">{pendingTasks.length}</Badge>
-              </div>
-              {pendingTasks.map(task => <TaskCard key={task.id} task={task} />)}
-            </div>
-
-            {/* In Progress Column */}
-            <div className="space-y-3">
-              <div className="flex items-center gap-2 pb-2 border-b">
-                <div className="w-3 h-3 rounded-full bg-blue-500" />
-                <h3 className="font-semibold">In Progress</h3>
-                <Badge variant="secondary">{inProgressTasks.length}</Badge>
-              </div>
-              {inProgressTasks.map(task => <TaskCard key={task.id} task={task} />)}
-            </div>
-
-            {/* Completed Column */}
-            <div className="space-y-3">
-              <div className="flex items-center gap-2 pb-2 border-b">
-                <div className="w-3 h-3 rounded-full bg-green-500" />
-                <h3 className="font-semibold">Completed</h3>
-                <Badge variant="secondary">{completedTasks.length}</Badge>
-              </div>
-              {completedTasks.map(task => <TaskCard key={task.id} task={task} />)}
-            </div>
-          </div>
+          {(boardPage?.total ?? 0) > tasks.length && (
+            <p className="text-sm text-muted-foreground mb-3">
+              Showing the first {BOARD_LIMIT_PER_STATUS} cards of each status, {tasks.length} of {boardPage?.total} tasks.
+              Narrow the filters to see the rest.
+            </p>
+          )}
+          <TaskBoard
+            tasks={tasks}
+            columns={columns}
+            renderCard={(task) => <TaskCard task={task} />}
+            onMove={handleMove}
+          />
         </TabsContent>
 
         <TabsContent value="list" className="mt-4">
           <Card>
             <CardContent className="p-0">
               <div className="divide-y">
-                {tasks.map(task => (
-                  <div key={task.id} className="flex items-center gap-4 p-4 hover:bg-muted/50">
-                    <div className={`w-3 h-3 rounded-full ${
-                      task.status === "completed" ? "bg-green-500" :
-                      task.status === "in_progress" ? "bg-blue-500" : "bg-yellow-500"
-                    }`} />
-                    <div className="flex-1 min-w-0">
-                      <p className="font-medium truncate">{task.title}</p>
-                      <p className="text-sm text-muted-foreground truncate">
-                        {task.assignee?.full_name || "Unassigned"}
-                        {task.project && ` • ${task.project.name}`}
-                      </p>
-                    </div>
-                    {task.due_date && (
-                      <span className="text-sm text-muted-foreground">
-                        {format(new Date(task.due_date), "MMM d")}
-                      </span>
-                    )}
-                    <Badge className={getStatusColor(task.status)}>
-                      {task.status.replace("_", " ")}
-                    </Badge>
-                    <div className="flex gap-1">
-                      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openEditDialog(task)}>
-                        <Edit2 className="w-4 h-4" />
-                      </Button>
-                      <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={() => handleDelete(task.id)}>
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                {tasks.map(task => {
+                  const counts = progress?.get(task.id);
+                  const logged = timeTotals?.get(task.id) ?? 0;
+                  return (
+                    <div key={task.id} className="flex items-center gap-4 p-4 hover:bg-muted/50">
+                      <div className={`w-3 h-3 rounded-full ${
+                        task.status === "completed" ? "bg-green-500" :
+                        task.status === "in_progress" ? "bg-blue-500" : "bg-yellow-500"
+                      }`} />
+                      <div className="flex-1 min-w-0 cursor-pointer" onClick={() => setDetailTaskId(task.id)}>
+                        <p className="font-medium truncate">{task.title}</p>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {task.assignee?.full_name || "Unassigned"}
+                          {task.project && ` • ${task.project.name}`}
+                          {counts && ` • ${counts.done}/${counts.total} done`}
+                          {(logged > 0 || task.estimated_hours) &&
+                            ` • ${formatMinutes(logged)}${task.estimated_hours ? ` of ${formatMinutes(task.estimated_hours * 60)}` : ""} logged`}
+                        </p>
+                      </div>
+                      {task.due_date && (
+                        <span className="text-sm text-muted-foreground">
+                          {format(new Date(task.due_date), "MMM d")}
+                        </span>
+                      )}
+                      <DueBadge task={task} dueSoonDays={deadlines.dueSoonDays} />
+                      {task.status !== "completed" && <BlockedBadge blockers={blockers.get(task.id)} />}
+                      <Badge className={TASK_PRIORITY_COLORS[task.priority]}>
+                        {TASK_PRIORITY_LABELS[task.priority]}
+                      </Badge>
+                      <Badge className={getStatusColor(task.status)}>
+                        {columnName(task) || task.status.replace("_", " ")}
+                      </Badge>
+                      <div className="flex gap-1">
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openEditDialog(task)}>
+                          <Edit2 className="w-4 h-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={() => handleDelete(task.id)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
+                {tasks.length === 0 && (
+                  <p className="p-8 text-center text-muted-foreground">No tasks match these filters.</p>
+                )}
               </div>
             </CardContent>
           </Card>
+          {pageCount > 1 && (
+            <div className="flex items-center justify-end gap-2 mt-4">
+              <span className="text-sm text-muted-foreground">
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button size="icon" variant="outline" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button size="icon" variant="outline" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
         </TabsContent>
       </Tabs>
 
+      <TaskDetailSheet taskId={detailTaskId} onOpenChange={(open) => !open && setDetailTaskId(null)} />
+
+      <TaskColumnsDialog
+        open={showColumns}
+        onOpenChange={setShowColumns}
+        project={boardProject}
+        columns={projectColumns}
+      />
+
+      <TaskImportDialog
+        open={showImport}
+        onOpenChange={setShowImport}
+        members={members}
+        projects={projects}
+      />
+
+      <TaskTemplatesDialog
+        open={showTemplates}
+        onOpenChange={setShowTemplates}
+        members={members}
+        projects={projects}
+        labels={labels}
+      />
+
+      <DeadlineRulesDialog open={showDeadlines} onOpenChange={setShowDeadlines} />
+
       {/* Create/Edit Dialog */}
-      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+      <Dialog open={showDialog} onOpenChange={(open) => !open && closeDialog()}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>{isEditing ? "Edit Task" : "New Task"}</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
+            {!isEditing && templates.length > 0 && (
+              <div>
+                <label className="text-sm font-medium mb-1 block">From Template</label>
+                <Select value={template?.id ?? "none"} onValueChange={applyTemplate}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Blank task</SelectItem>
+                    {templates.map(t => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {template && template.checklist.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Adds {template.checklist.length} checklist items from the template
+                  </p>
+                )}
+              </div>
+            )}
             <div>
               <label className="text-sm font-medium mb-1 block">Title *</label>
               <Input
@@ -411,7 +644,7 @@ const TaskManagement = () => {
                 <label className="text-sm font-medium mb-1 block">Status</label>
                 <Select
                   value={formData.status}
-                  onValueChange={(v) => setFormData({ ...formData, status: v })}
+                  onValueChange={(v: TaskStatus) => setFormData({ ...formData, status: v })}
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -424,6 +657,45 @@ const TaskManagement = () => {
                 </Select>
               </div>
             </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-1 block">Priority</label>
+                <Select
+                  value={formData.priority}
+                  onValueChange={(v: TaskPriority) => setFormData({ ...formData, priority: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TASK_PRIORITIES.map(priority => (
+                      <SelectItem key={priority} value={priority}>
+                        {TASK_PRIORITY_LABELS[priority]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-1 block">Estimated Hours</label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={formData.estimatedHours}
+                  onChange={(e) => setFormData({ ...formData, estimatedHours: e.target.value })}
+                  placeholder="e.g. 4"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1 block">Labels</label>
+              <LabelInput
+                value={formData.labels}
+                onChange={(labels) => setFormData({ ...formData, labels })}
+                suggestions={labels}
+              />
+            </div>
             <div>
               <label className="text-sm font-medium mb-1 block">Assign To</label>
               <Select
@@ -446,7 +718,7 @@ const TaskManagement = () => {
               <label className="text-sm font-medium mb-1 block">Project</label>
               <Select
                 value={formData.projectId}
-                onValueChange={(v) => setFormData({ ...formData, projectId: v })}
+                onValueChange={(v) => setFormData({ ...formData, projectId: v, milestoneId: "" })}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="Select project (optional)" />
@@ -460,11 +732,32 @@ const TaskManagement = () => {
                 </SelectContent>
               </Select>
             </div>
+            {milestones.length > 0 && (
+              <div>
+                <label className="text-sm font-medium mb-1 block">Milestone</label>
+                <Select
+                  value={formData.milestoneId || "none"}
+                  onValueChange={(v) => setFormData({ ...formData, milestoneId: v === "none" ? "" : v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No milestone</SelectItem>
+                    {milestones.map(milestone => (
+                      <SelectItem key={milestone.id} value={milestone.id}>
+                        {milestone.name} ({format(parseISO(milestone.target_date), "MMM d")})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setShowDialog(false)}>Cancel</Button>
-            <Button onClick={handleSubmit} disabled={isLoading}>
-              {isLoading ? "Saving..." : isEditing ? "Update" : "Create"}
+            <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={saveTask.isPending}>
+              {saveTask.isPending ? "Saving..." : isEditing ? "Update" : "Create"}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -2,28 +2,12 @@ import { Users, Mail, Phone, Building, User } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
+import { useDepartments } from "@/lib/repositories/departments";
+import { useProfiles } from "@/lib/repositories/profiles";
 
 const TeamDetails = () => {
-  const { data: members = [] } = useQuery({
-    queryKey: ["team-details"],
-    queryFn: async () => {
-      const { data } = await supabase
-        .from("profiles")
-        .select("*")
-        .order("department", { ascending: true });
-      return data || [];
-    },
-  });
-
-  const { data: departments = [] } = useQuery({
-    queryKey: ["departments"],
-    queryFn: async () => {
-      const { data } = await supabase.from("departments").select("*").order("name");
-      return data || [];
-    },
-  });
+  const { data: members = [] } = useProfiles();
+  const { data: departments = [] } = useDepartments();
 
   // Group members by department
   const groupedMembers = members.reduce((acc: Record<string, typeof members>, member) => {
@@ -6,72 +6,23 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
+import { useAttendanceHistory } from "@/lib/attendance";
+import { useLearningUpdates } from "@/lib/repositories/learningUpdates";
+import { useProfiles, type Profile } from "@/lib/repositories/profiles";
+import { useWorkUpdates } from "@/lib/repositories/workUpdates";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { format } from "date-fns";
 
-interface Profile {
-  id: string;
-  user_id: string;
-  full_name: string;
-  email: string;
-  phone: string | null;
-  designation: string | null;
-  department: string | null;
-  status: string | null;
-}
-
 const TeamMembers = () => {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedMember, setSelectedMember] = useState<Profile | null>(null);
 
-  const { data: members = [] } = useQuery({
-    queryKey: ["team-members"],
-    queryFn: async () => {
-      const { data } = await supabase
-        .from("profiles")
-        .select("*")
-        .order("full_name");
-      return data as Profile[] || [];
-    },
-  });
-
-  const { data: memberDetails } = useQuery({
-    queryKey: ["member-details", selectedMember?.user_id],
-    enabled: !!selectedMember,
-    queryFn: async () => {
-      if (!selectedMember) return null;
-      
-      const today = new Date().toISOString().split("T")[0];
-      const [workUpdates, learnings, attendance] = await Promise.all([
-        supabase
-          .from("work_updates")
-          .select("*")
-          .eq("user_id", selectedMember.user_id)
-          .order("created_at", { ascending: false })
-          .limit(10),
-        supabase
-          .from("learning_updates")
-          .select("*")
-          .eq("user_id", selectedMember.user_id)
-          .order("created_at", { ascending: false })
-          .limit(10),
-        supabase
-          .from("attendance")
-          .select("*")
-          .eq("user_id", selectedMember.user_id)
-          .order("date", { ascending: false })
-          .limit(30),
-      ]);
+  const { data: members = [] } = useProfiles();
 
-      return {
-        workUpdates: workUpdates.data || [],
-        learnings: learnings.data || [],
-        attendance: attendance.data || [],
-      };
-    },
-  });
+  const { data: workUpdates = [] } = useWorkUpdates(selectedMember?.user_id, { limit: 10 });
+  const { data: learnings = [] } = useLearningUpdates(selectedMember?.user_id, { limit: 10 });
+  const { data: attendance = [] } = useAttendanceHistory(selectedMember?.user_id);
+  const memberDetails = { workUpdates, learnings, attendance };
 
   const filteredMembers = members.filter(member =>
     member.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
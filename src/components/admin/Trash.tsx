@@ -0,0 +1,92 @@
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import { CheckSquare, FileText, Folder, RotateCcw, Trash2, type LucideIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { errorMessage } from "@/lib/repositories/errors";
+import {
+  TRASH_ITEM_KIND_LABELS,
+  useRestoreItem,
+  useTrashItems,
+  type TrashItem,
+  type TrashItemKind,
+} from "@/lib/repositories/trash";
+import { toast } from "sonner";
+
+const KIND_ICONS: Record<TrashItemKind, LucideIcon> = {
+  project: Folder,
+  task: CheckSquare,
+  work_update: FileText,
+};
+
+const Trash = () => {
+  const { data: items = [], isLoading } = useTrashItems();
+  const restoreItem = useRestoreItem();
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      await restoreItem.mutateAsync({ kind: item.kind, id: item.id });
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to restore item"));
+      return;
+    }
+    toast.success(`${TRASH_ITEM_KIND_LABELS[item.kind]} restored`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Trash</h1>
+        <p className="text-muted-foreground">
+          Deleted projects, tasks and work updates can be restored until they are purged
+        </p>
+      </div>
+
+      {items.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Trash2 className="w-12 h-12 mx-auto text-muted-foreground/30 mb-4" />
+            <p className="text-muted-foreground">{isLoading ? "Loading trash..." : "The trash is empty."}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {items.map(item => {
+            const Icon = KIND_ICONS[item.kind];
+            return (
+              <Card key={`${item.kind}-${item.id}`}>
+                <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+                  <Icon className="w-5 h-5 text-muted-foreground shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-foreground truncate">{item.title}</p>
+                      <Badge variant="secondary">{TRASH_ITEM_KIND_LABELS[item.kind]}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{item.detail}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Deleted {formatDistanceToNow(parseISO(item.deleted_at), { addSuffix: true })}
+                      {item.deleted_by_name && ` by ${item.deleted_by_name}`}
+                      {" • "}
+                      Purged on {format(parseISO(item.purge_at), "MMM d, yyyy")}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(item)}
+                    disabled={restoreItem.isPending}
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Restore
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Trash;
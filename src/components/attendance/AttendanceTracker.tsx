@@ -4,65 +4,43 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  summarizeDay,
+  todayKey,
+  useAttendanceAction,
+  useAttendancePhotoUrls,
+  useDaySessions,
+  useOpenSession,
+  type AttendanceAction,
+} from "@/lib/attendance";
+import { errorMessage } from "@/lib/repositories/errors";
 import { format } from "date-fns";
 import { toast } from "sonner";
 
-interface AttendanceSession {
-  id: string;
-  check_in_time: string;
-  check_out_time: string | null;
-  duration_minutes: number | null;
-  check_in_photo: string | null;
-}
-
 const AttendanceTracker = () => {
   const { user } = useAuth();
-  const queryClient = useQueryClient();
+  const attendanceAction = useAttendanceAction();
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [showCamera, setShowCamera] = useState(false);
-  const [captureType, setCaptureType] = useState<"check_in" | "check_out">("check_in");
+  const [captureType, setCaptureType] = useState<AttendanceAction>("check_in");
   const [stream, setStream] = useState<MediaStream | null>(null);
+  const [capturedPhoto, setCapturedPhoto] = useState<Blob | null>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [elapsedTime, setElapsedTime] = useState("00:00:00");
 
-  const today = format(new Date(), "yyyy-MM-dd");
+  const today = todayKey();
 
   // Fetch today's sessions
-  const { data: sessions = [], refetch } = useQuery({
-    queryKey: ["attendance-sessions", user?.id, today],
-    queryFn: async () => {
-      if (!user?.id) return [];
-      const { data } = await supabase
-        .from("attendance_sessions")
-        .select("*")
-        .eq("user_id", user.id)
-        .eq("date", today)
-        .order("check_in_time", { ascending: true });
-      return (data || []) as AttendanceSession[];
-    },
-    enabled: !!user?.id,
-  });
+  const { data: sessions = [] } = useDaySessions(user?.id, today);
+  const photoPaths = sessions.flatMap(s => [s.check_in_photo, s.check_out_photo]).filter(Boolean) as string[];
+  const { data: photoUrls } = useAttendancePhotoUrls(photoPaths);
 
-  // Calculate current active session
-  const activeSession = sessions.find(s => !s.check_out_time);
+  // Total time worked today; the open session may have started on an earlier day
+  const { totalMinutes } = summarizeDay(today, sessions);
+  const { data: activeSession = null } = useOpenSession(user?.id);
   const isCheckedIn = !!activeSession;
 
-  // Calculate total hours worked today
-  const totalMinutes = sessions.reduce((acc, session) => {
-    if (session.duration_minutes) {
-      return acc + session.duration_minutes;
-    }
-    if (session.check_in_time && !session.check_out_time) {
-      const start = new Date(session.check_in_time).getTime();
-      const now = Date.now();
-      return acc + Math.floor((now - start) / (1000 * 60));
-    }
-    return acc;
-  }, 0);
-
   const totalHours = Math.floor(totalMinutes / 60);
   const remainingMinutes = totalMinutes % 60;
 
@@ -112,12 +90,24 @@ const AttendanceTracker = () => {
     }
   }, [stream]);
 
-  const openCamera = (type: "check_in" | "check_out") => {
+  const openCamera = (type: AttendanceAction) => {
     setCaptureType(type);
-    setCapturedImage(null);
+    setCapturedPhoto(null);
     setShowCamera(true);
   };
 
+  // Preview of the captured photo, released when it is replaced or discarded
+  useEffect(() => {
+    if (!capturedPhoto) {
+      setCapturedImage(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(capturedPhoto);
+    setCapturedImage(url);
+    return () => URL.revokeObjectURL(url);
+  }, [capturedPhoto]);
+
   useEffect(() => {
     if (showCamera && !stream) {
       startCamera();
@@ -139,57 +129,26 @@ const AttendanceTracker = () => {
       const ctx = canvas.getContext("2d");
       if (ctx) {
         ctx.drawImage(video, 0, 0);
-        const imageData = canvas.toDataURL("image/jpeg", 0.8);
-        setCapturedImage(imageData);
+        canvas.toBlob(blob => setCapturedPhoto(blob), "image/jpeg", 0.8);
       }
     }
   };
 
   const retakePhoto = () => {
-    setCapturedImage(null);
+    setCapturedPhoto(null);
   };
 
   const confirmPhoto = async () => {
-    if (!user?.id || !capturedImage) return;
+    if (!user?.id || !capturedPhoto) return;
 
     try {
-      if (captureType === "check_in") {
-        const { error } = await supabase.from("attendance_sessions").insert({
-          user_id: user.id,
-          date: today,
-          check_in_time: new Date().toISOString(),
-          check_in_photo: capturedImage,
-        });
-
-        if (error) throw error;
-        toast.success("Checked in successfully!");
-      } else {
-        if (!activeSession) return;
-
-        const checkInTime = new Date(activeSession.check_in_time).getTime();
-        const now = Date.now();
-        const durationMinutes = Math.floor((now - checkInTime) / (1000 * 60));
-
-        const { error } = await supabase
-          .from("attendance_sessions")
-          .update({
-            check_out_time: new Date().toISOString(),
-            check_out_photo: capturedImage,
-            duration_minutes: durationMinutes,
-          })
-          .eq("id", activeSession.id);
-
-        if (error) throw error;
-        toast.success("Checked out successfully!");
-      }
+      await attendanceAction.mutateAsync({ userId: user.id, action: captureType, photo: capturedPhoto });
+      toast.success(captureType === "check_in" ? "Checked in successfully!" : "Checked out successfully!");
 
       setShowCamera(false);
-      setCapturedImage(null);
-      refetch();
-      queryClient.invalidateQueries({ queryKey: ["today-attendance"] });
+      setCapturedPhoto(null);
     } catch (error) {
-      toast.error("Failed to save attendance");
-      console.error(error);
+      toast.error(errorMessage(error, "Failed to save attendance"));
     }
   };
 
@@ -274,16 +233,31 @@ const AttendanceTracker = () => {
                       </p>
                     </div>
                   </div>
-                  <div className="text-right">
-                    {session.duration_minutes ? (
-                      <p className="font-semibold text-foreground">
-                        {Math.floor(session.duration_minutes / 60)}h {session.duration_minutes % 60}m
-                      </p>
-                    ) : (
-                      <span className="px-2 py-1 rounded-full text-xs bg-yellow-100 text-yellow-700">
-                        In Progress
-                      </span>
-                    )}
+                  <div className="flex items-center gap-4">
+                    <div className="flex -space-x-2">
+                      {[session.check_in_photo, session.check_out_photo].map((path, i) =>
+                        path && photoUrls?.get(path) ? (
+                          <img
+                            key={path}
+                            src={photoUrls.get(path)}
+                            alt={i === 0 ? "Check-in photo" : "Check-out photo"}
+                            title={i === 0 ? "Check-in photo" : "Check-out photo"}
+                            className="w-10 h-10 rounded-full object-cover border-2 border-background"
+                          />
+                        ) : null
+                      )}
+                    </div>
+                    <div className="text-right">
+                      {session.duration_minutes ? (
+                        <p className="font-semibold text-foreground">
+                          {Math.floor(session.duration_minutes / 60)}h {session.duration_minutes % 60}m
+                        </p>
+                      ) : (
+                        <span className="px-2 py-1 rounded-full text-xs bg-yellow-100 text-yellow-700">
+                          In Progress
+                        </span>
+                      )}
+                    </div>
                   </div>
                 </div>
               ))}
@@ -337,7 +311,11 @@ const AttendanceTracker = () => {
                   <Button variant="outline" onClick={retakePhoto} className="flex-1">
                     Retake
                   </Button>
-                  <Button onClick={confirmPhoto} className="flex-1 bg-green-600 hover:bg-green-700">
+                  <Button
+                    onClick={confirmPhoto}
+                    disabled={attendanceAction.isPending}
+                    className="flex-1 bg-green-600 hover:bg-green-700"
+                  >
                     <Check className="w-4 h-4 mr-2" />
                     Confirm {captureType === "check_in" ? "Check In" : "Check Out"}
                   </Button>
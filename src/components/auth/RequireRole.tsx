@@ -0,0 +1,33 @@
+import { Navigate, Outlet } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+
+interface RequireRoleProps {
+  // Without a role the route is open to everyone and only waits for the role,
+  // for routes that render differently per role
+  role?: "admin" | "team_member";
+}
+
+// Layout route that only renders its children for the given role. Waits for
+// the signed-in user's role to load so deep links opened right after signing
+// in are not redirected early; anyone without a role is treated as a team
+// member, matching the sidebar.
+const RequireRole = ({ role }: RequireRoleProps) => {
+  const { userRole, isRoleLoading } = useAuth();
+
+  if (isRoleLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  const effectiveRole = userRole === "admin" ? "admin" : "team_member";
+  if (role && effectiveRole !== role) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <Outlet />;
+};
+
+export default RequireRole;
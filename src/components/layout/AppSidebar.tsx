@@ -10,7 +10,8 @@ import {
   Bell,
   UserPlus,
   CheckSquare,
-  Clock
+  Clock,
+  Trash2
 } from "lucide-react";
 import {
   Sidebar,
@@ -25,17 +26,20 @@ import {
   SidebarFooter,
   useSidebar,
 } from "@/components/ui/sidebar";
+import { useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 
-interface AppSidebarProps {
-  activeView: string;
-  onViewChange: (view: string) => void;
-}
-
-const AppSidebar = ({ activeView, onViewChange }: AppSidebarProps) => {
+const AppSidebar = () => {
   const { user, userRole, signOut } = useAuth();
   const { state } = useSidebar();
+  const location = useLocation();
+  const navigate = useNavigate();
+  // Menu ids double as the first path segment, so detail routes like
+  // /tasks/:id keep their parent item highlighted; members open task links
+  // over My Tasks
+  const section = location.pathname.split("/")[1] || "dashboard";
+  const activeView = section === "tasks" && userRole !== "admin" ? "my-tasks" : section;
   const isCollapsed = state === "collapsed";
 
   const adminMenuItems = [
@@ -47,11 +51,13 @@ const AppSidebar = ({ activeView, onViewChange }: AppSidebarProps) => {
     { id: "approvals", title: "Approvals", icon: Clock },
     { id: "calendar", title: "Calendar", icon: Calendar },
     { id: "chat", title: "Chat", icon: MessageSquare },
+    { id: "trash", title: "Trash", icon: Trash2 },
   ];
 
   const teamMenuItems = [
     { id: "dashboard", title: "Dashboard", icon: LayoutDashboard },
     { id: "attendance", title: "Attendance", icon: Clock },
+    { id: "my-tasks", title: "My Tasks", icon: CheckSquare },
     { id: "work-update", title: "Work Update", icon: FileText },
     { id: "leave-request", title: "Leave Request", icon: Calendar },
     { id: "learning", title: "Learning", icon: BookOpen },
@@ -92,7 +98,7 @@ const AppSidebar = ({ activeView, onViewChange }: AppSidebarProps) => {
               {menuItems.map((item) => (
                 <SidebarMenuItem key={item.id}>
                   <SidebarMenuButton
-                    onClick={() => onViewChange(item.id)}
+                    onClick={() => navigate(`/${item.id}`)}
                     isActive={activeView === item.id}
                     tooltip={item.title}
                     className={`transition-all duration-200 ${activeView === item.id
@@ -0,0 +1,100 @@
+import { Bell } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useClearNotifications,
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useNotifications,
+  type Notification,
+} from "@/lib/repositories/notifications";
+import { toast } from "sonner";
+
+const NotificationBell = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { data: notifications = [] } = useNotifications(user?.id);
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+  const clearAll = useClearNotifications();
+
+  const unread = notifications.filter(n => !n.read_at).length;
+
+  const open = (notification: Notification) => {
+    if (!notification.read_at) markRead.mutate(notification.id);
+    if (notification.link) navigate(notification.link);
+  };
+
+  const handleClear = async () => {
+    if (!user?.id) return;
+
+    try {
+      await clearAll.mutateAsync(user.id);
+    } catch (error) {
+      toast.error("Failed to clear notifications");
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="w-5 h-5" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4 text-center">
+              {unread > 9 ? "9+" : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <span className="text-sm font-medium">Notifications</span>
+          <div className="flex gap-1">
+            {unread > 0 && (
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => user?.id && markAllRead.mutate(user.id)}>
+                Mark all read
+              </Button>
+            )}
+            {notifications.length > 0 && (
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleClear}>
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">You're all caught up</p>
+          ) : (
+            notifications.map((notification) => (
+              <button
+                key={notification.id}
+                onClick={() => open(notification)}
+                className={`w-full text-left px-3 py-2 border-b last:border-b-0 hover:bg-muted/50 ${
+                  notification.read_at ? "" : "bg-primary/5"
+                }`}
+              >
+                <div className="flex items-start gap-2">
+                  {!notification.read_at && <span className="w-2 h-2 rounded-full bg-primary mt-1.5 flex-shrink-0" />}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground">{notification.title}</p>
+                    {notification.body && <p className="text-xs text-muted-foreground">{notification.body}</p>}
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
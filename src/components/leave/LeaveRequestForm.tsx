@@ -1,5 +1,6 @@
-import { useState } from "react";
-import { Calendar, Clock, FileText, Send } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { AlertTriangle, Calendar, Clock, FileText, Send } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -7,30 +8,24 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { exceedsBalance, formatLeaveAmount, leaveDuration, leaveYear } from "@/lib/leave";
+import { useWorkCalendar } from "@/lib/repositories/holidays";
+import { findBalance, useLeaveEntitlements } from "@/lib/repositories/leaveEntitlements";
+import {
+  LEAVE_TYPE_LABELS,
+  useCreateLeaveRequest,
+  useMyLeaveRequests,
+  type LeaveType,
+} from "@/lib/repositories/leaveRequests";
 import { format } from "date-fns";
 import { toast } from "sonner";
 
-interface LeaveRequest {
-  id: string;
-  type: "full_day" | "half_day" | "permission";
-  start_date: string;
-  end_date: string | null;
-  start_time: string | null;
-  end_time: string | null;
-  reason: string;
-  status: "pending" | "approved" | "rejected";
-  review_notes: string | null;
-  created_at: string;
-}
-
 const LeaveRequestForm = () => {
   const { user } = useAuth();
-  const queryClient = useQueryClient();
-  const [isLoading, setIsLoading] = useState(false);
+  const { id: routeRequestId } = useParams();
+  const createLeaveRequest = useCreateLeaveRequest();
   const [formData, setFormData] = useState({
-    type: "full_day" as "full_day" | "half_day" | "permission",
+    type: "full_day" as LeaveType,
     startDate: "",
     endDate: "",
     startTime: "",
@@ -38,20 +33,35 @@ const LeaveRequestForm = () => {
     reason: "",
   });
 
-  // Fetch user's leave requests
-  const { data: requests = [] } = useQuery({
-    queryKey: ["my-leave-requests", user?.id],
-    queryFn: async () => {
-      if (!user?.id) return [];
-      const { data } = await supabase
-        .from("leave_requests")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false });
-      return (data || []) as LeaveRequest[];
-    },
-    enabled: !!user?.id,
-  });
+  const { data: requests = [] } = useMyLeaveRequests(user?.id);
+  const workCalendar = useWorkCalendar();
+
+  // Balances follow the year the leave starts in
+  const balanceYear = formData.startDate ? leaveYear(formData.startDate) : new Date().getFullYear();
+  const { data: entitlements = [] } = useLeaveEntitlements([balanceYear], user?.id);
+  const balanceFor = (type: LeaveType) => findBalance(entitlements, user?.id, balanceYear, type);
+
+  const requestedAmount = formData.startDate
+    ? leaveDuration({
+        type: formData.type,
+        start_date: formData.startDate,
+        end_date: formData.type === "full_day" ? formData.endDate || null : null,
+        start_time: formData.startTime || null,
+        end_time: formData.endTime || null,
+      }, workCalendar)
+    : 0;
+  const selectedBalance = balanceFor(formData.type);
+  // Requests still awaiting review will draw from the same balance
+  const pendingAmount = requests
+    .filter(r => r.status === "pending" && r.type === formData.type && leaveYear(r.start_date) === balanceYear)
+    .reduce((sum, r) => sum + (r.duration ?? 0), 0);
+  const overBalance = exceedsBalance(selectedBalance, requestedAmount + pendingAmount);
+
+  // Bring a linked request (/leave-request/:id) into view once it has loaded
+  useEffect(() => {
+    if (!routeRequestId) return;
+    document.getElementById(`leave-request-${routeRequestId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [routeRequestId, requests]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -67,23 +77,36 @@ const LeaveRequestForm = () => {
       return;
     }
 
-    setIsLoading(true);
-
-    const { error } = await supabase.from("leave_requests").insert({
-      user_id: user.id,
-      type: formData.type,
-      start_date: formData.startDate,
-      end_date: formData.type === "full_day" && formData.endDate ? formData.endDate : formData.startDate,
-      start_time: formData.type === "permission" ? formData.startTime : null,
-      end_time: formData.type === "permission" ? formData.endTime : null,
-      reason: formData.reason.trim(),
-    });
+    if (requestedAmount === 0) {
+      toast.error(
+        formData.type === "permission"
+          ? "End time must be after start time"
+          : "The selected dates fall on weekends or holidays"
+      );
+      return;
+    }
 
-    setIsLoading(false);
+    if (overBalance) {
+      const available = Math.max(0, selectedBalance.remaining - pendingAmount);
+      toast.error(
+        `This request needs ${formatLeaveAmount(requestedAmount, formData.type)} but only ${formatLeaveAmount(available, formData.type)} remain` +
+          (pendingAmount > 0 ? " after your pending requests" : "")
+      );
+      return;
+    }
 
-    if (error) {
+    try {
+      await createLeaveRequest.mutateAsync({
+        user_id: user.id,
+        type: formData.type,
+        start_date: formData.startDate,
+        end_date: formData.type === "full_day" && formData.endDate ? formData.endDate : formData.startDate,
+        start_time: formData.type === "permission" ? formData.startTime : null,
+        end_time: formData.type === "permission" ? formData.endTime : null,
+        reason: formData.reason.trim(),
+      });
+    } catch (error) {
       toast.error("Failed to submit request");
-      console.error(error);
       return;
     }
 
@@ -96,7 +119,6 @@ const LeaveRequestForm = () => {
       endTime: "",
       reason: "",
     });
-    queryClient.invalidateQueries({ queryKey: ["my-leave-requests"] });
   };
 
   const getStatusColor = (status: string) => {
@@ -107,14 +129,7 @@ const LeaveRequestForm = () => {
     }
   };
 
-  const getTypeLabel = (type: string) => {
-    switch (type) {
-      case "full_day": return "Full Day Leave";
-      case "half_day": return "Half Day Leave";
-      case "permission": return "Permission";
-      default: return type;
-    }
-  };
+  const getTypeLabel = (type: LeaveType) => LEAVE_TYPE_LABELS[type] || type;
 
   const pendingRequests = requests.filter(r => r.status === "pending");
   const processedRequests = requests.filter(r => r.status !== "pending");
@@ -138,6 +153,28 @@ const LeaveRequestForm = () => {
           <CardDescription>Submit a new leave or permission request</CardDescription>
         </CardHeader>
         <CardContent>
+          {/* Balances */}
+          <div className="grid grid-cols-3 gap-3 mb-6">
+            {(Object.keys(LEAVE_TYPE_LABELS) as LeaveType[]).map((type) => {
+              const balance = balanceFor(type);
+              return (
+                <div
+                  key={type}
+                  className={`p-3 rounded-lg border ${type === formData.type ? "border-primary bg-primary/5" : "bg-muted/30"}`}
+                >
+                  <p className="text-xs text-muted-foreground">{getTypeLabel(type)} · {balanceYear}</p>
+                  <p className="text-lg font-semibold text-foreground">
+                    {balance.remaining == null ? "No limit" : formatLeaveAmount(balance.remaining, type)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatLeaveAmount(balance.used, type)} used
+                    {balance.allowance != null && <> of {formatLeaveAmount(balance.allowance, type)}</>}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
           <form onSubmit={handleSubmit} className="space-y-4">
             {/* Request Type */}
             <div>
@@ -146,7 +183,7 @@ const LeaveRequestForm = () => {
               </label>
               <Select
                 value={formData.type}
-                onValueChange={(value: "full_day" | "half_day" | "permission") => 
+                onValueChange={(value: LeaveType) => 
                   setFormData({ ...formData, type: value })
                 }
               >
@@ -247,9 +284,20 @@ const LeaveRequestForm = () => {
               />
             </div>
 
-            <Button type="submit" className="w-full" disabled={isLoading}>
+            {requestedAmount > 0 && (
+              <p className={`text-sm flex items-center gap-2 ${overBalance ? "text-destructive" : "text-muted-foreground"}`}>
+                {overBalance && <AlertTriangle className="w-4 h-4" />}
+                This request uses {formatLeaveAmount(requestedAmount, formData.type)}
+                {formData.type !== "permission" && " (weekends and holidays excluded)"}
+                {selectedBalance.remaining != null && (
+                  <> of your remaining {formatLeaveAmount(selectedBalance.remaining, formData.type)}</>
+                )}
+              </p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={createLeaveRequest.isPending || overBalance}>
               <Send className="w-4 h-4 mr-2" />
-              {isLoading ? "Submitting..." : "Submit Request"}
+              {createLeaveRequest.isPending ? "Submitting..." : "Submit Request"}
             </Button>
           </form>
         </CardContent>
@@ -265,7 +313,10 @@ const LeaveRequestForm = () => {
             {pendingRequests.map((request) => (
               <div
                 key={request.id}
-                className="p-4 rounded-lg border bg-yellow-50/50 dark:bg-yellow-900/10 border-yellow-200 dark:border-yellow-800"
+                id={`leave-request-${request.id}`}
+                className={`p-4 rounded-lg border bg-yellow-50/50 dark:bg-yellow-900/10 border-yellow-200 dark:border-yellow-800 ${
+                  request.id === routeRequestId ? "ring-2 ring-primary" : ""
+                }`}
               >
                 <div className="flex items-start justify-between">
                   <div>
@@ -274,6 +325,9 @@ const LeaveRequestForm = () => {
                         {request.status}
                       </Badge>
                       <span className="text-sm font-medium">{getTypeLabel(request.type)}</span>
+                      {request.duration != null && (
+                        <span className="text-xs text-muted-foreground">· {formatLeaveAmount(request.duration, request.type)}</span>
+                      )}
                     </div>
                     <p className="text-sm text-muted-foreground">
                       {format(new Date(request.start_date), "MMM d, yyyy")}
@@ -308,7 +362,10 @@ const LeaveRequestForm = () => {
               {processedRequests.map((request) => (
                 <div
                   key={request.id}
-                  className="p-4 rounded-lg border bg-card"
+                  id={`leave-request-${request.id}`}
+                  className={`p-4 rounded-lg border bg-card ${
+                    request.id === routeRequestId ? "ring-2 ring-primary" : ""
+                  }`}
                 >
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
@@ -317,6 +374,9 @@ const LeaveRequestForm = () => {
                           {request.status}
                         </Badge>
                         <span className="text-sm font-medium">{getTypeLabel(request.type)}</span>
+                        {request.duration != null && (
+                          <span className="text-xs text-muted-foreground">· {formatLeaveAmount(request.duration, request.type)}</span>
+                        )}
                       </div>
                       <p className="text-sm text-muted-foreground">
                         {format(new Date(request.start_date), "MMM d, yyyy")}
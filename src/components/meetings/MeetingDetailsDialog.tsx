@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { Ban, CalendarClock, CalendarPlus, Clock, ExternalLink, Pencil, Repeat, Users } from "lucide-react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/contexts/AuthContext";
+import { downloadCalendar, meetingToIcs } from "@/lib/ics";
+import { describeRecurrence, parseRecurrence } from "@/lib/recurrence";
+import {
+  meetingEnd,
+  occurrenceStartOf,
+  toOccurrence,
+  useCancelMeeting,
+  useMeeting,
+  useMeetingExceptions,
+  useSaveOccurrence,
+} from "@/lib/repositories/meetings";
+import { useDirectory } from "@/lib/repositories/profiles";
+import MeetingDialog from "./MeetingDialog";
+import { toast } from "sonner";
+
+type Scope = "occurrence" | "series";
+
+interface MeetingDetailsDialogProps {
+  meetingId: string | null;
+  // Which occurrence to show when meetingId is a recurring series
+  occurrenceStart?: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MeetingDetailsDialog = ({ meetingId, occurrenceStart, onOpenChange }: MeetingDetailsDialogProps) => {
+  const { user, userRole } = useAuth();
+  const [editing, setEditing] = useState<Scope | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancelScope, setCancelScope] = useState<Scope>("occurrence");
+  const [cancelReason, setCancelReason] = useState("");
+
+  const { data: row } = useMeeting(meetingId ?? undefined);
+  const { data: parent } = useMeeting(row?.series_id ?? undefined);
+  const { data: directory = [] } = useDirectory();
+  const cancelMeeting = useCancelMeeting();
+  const saveOccurrence = useSaveOccurrence();
+
+  // Exceptions are their own rows; other occurrences are generated from the series
+  const series = row?.series_id ? parent : row?.recurrence_rule ? row : null;
+  const meeting = row?.recurrence_rule && occurrenceStart ? toOccurrence(row, occurrenceStart) : row;
+  const recurrence = parseRecurrence(series?.recurrence_rule, series?.timezone);
+  // Exported with the series so edited occurrences keep their changes
+  const { data: exceptions = [] } = useMeetingExceptions(series?.id);
+
+  const nameOf = (userId: string) =>
+    userId === user?.id ? "You" : directory.find(p => p.user_id === userId)?.full_name || "Unknown";
+  const canManage = !!meeting && (meeting.created_by === user?.id || userRole === "admin");
+  const isCancelled = meeting?.status === "cancelled";
+
+  const close = () => {
+    setIsCancelling(false);
+    setCancelScope("occurrence");
+    setCancelReason("");
+    onOpenChange(false);
+  };
+
+  const handleCancel = async () => {
+    if (!meeting) return;
+    const reason = cancelReason.trim() || null;
+
+    try {
+      if (series && cancelScope === "series") {
+        await cancelMeeting.mutateAsync({ id: series.id, reason });
+      } else if (series && !meeting.series_id) {
+        await saveOccurrence.mutateAsync({
+          series,
+          originalStart: occurrenceStartOf(meeting),
+          patch: { status: "cancelled", cancel_reason: reason },
+        });
+      } else {
+        await cancelMeeting.mutateAsync({ id: meeting.id, reason });
+      }
+    } catch (error) {
+      toast.error("Failed to cancel meeting");
+      return;
+    }
+
+    toast.success(series && cancelScope === "series" ? "Series cancelled" : "Meeting cancelled");
+    close();
+  };
+
+  const isSaving = cancelMeeting.isPending || saveOccurrence.isPending;
+
+  return (
+    <>
+      <Dialog open={!!meetingId && !editing} onOpenChange={(open) => !open && close()}>
+        <DialogContent>
+          {meeting ? (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <span className={isCancelled ? "line-through text-muted-foreground" : ""}>{meeting.title}</span>
+                  {isCancelled && <Badge variant="destructive">Cancelled</Badge>}
+                </DialogTitle>
+                <DialogDescription className="flex items-center gap-1">
+                  <Clock className="w-3 h-3" />
+                  {format(new Date(meeting.scheduled_at), "EEEE, MMMM d · h:mm a")} -{" "}
+                  {format(meetingEnd(meeting), "h:mm a")}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-3 text-sm">
+                {recurrence && (
+                  <p className="flex items-center gap-2 text-muted-foreground">
+                    <Repeat className="w-4 h-4" />
+                    {describeRecurrence(recurrence)}
+                    {series?.status === "cancelled" && " · series cancelled"}
+                  </p>
+                )}
+                {meeting.previous_scheduled_at && !isCancelled && (
+                  <p className="flex items-center gap-2 text-muted-foreground">
+                    <CalendarClock className="w-4 h-4" />
+                    Rescheduled from {format(new Date(meeting.previous_scheduled_at), "MMM d, h:mm a")}
+                  </p>
+                )}
+                {isCancelled && meeting.cancel_reason && (
+                  <p className="text-muted-foreground italic">Reason: {meeting.cancel_reason}</p>
+                )}
+                {meeting.description && <p>{meeting.description}</p>}
+                <div className="flex items-start gap-2 text-muted-foreground">
+                  <Users className="w-4 h-4 mt-0.5" />
+                  <span>
+                    Organised by {nameOf(meeting.created_by)}
+                    {(meeting.attendees || []).length > 0 && (
+                      <> · with {(meeting.attendees || []).map(nameOf).join(", ")}</>
+                    )}
+                  </span>
+                </div>
+                {meeting.meeting_link && !isCancelled && (
+                  <Button asChild variant="outline" className="w-full">
+                    <a href={meeting.meeting_link} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="w-4 h-4 mr-2" />
+                      Join Meeting
+                    </a>
+                  </Button>
+                )}
+                {!isCancelled && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() =>
+                      downloadCalendar(
+                        `meeting-${(series ?? meeting).id}`,
+                        series ? [series, ...exceptions].map(meetingToIcs) : [meetingToIcs(meeting)],
+                        meeting.title
+                      )
+                    }
+                  >
+                    <CalendarPlus className="w-4 h-4 mr-2" />
+                    Add to Calendar
+                  </Button>
+                )}
+                {isCancelling && series && (
+                  <RadioGroup value={cancelScope} onValueChange={(v: Scope) => setCancelScope(v)}>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="occurrence" id="cancel-occurrence" />
+                      <Label htmlFor="cancel-occurrence">Only this meeting</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="series" id="cancel-series" />
+                      <Label htmlFor="cancel-series">All meetings in the series</Label>
+                    </div>
+                  </RadioGroup>
+                )}
+                {isCancelling && (
+                  <Textarea
+                    value={cancelReason}
+                    onChange={(e) => setCancelReason(e.target.value)}
+                    placeholder="Reason for cancelling (optional, visible to attendees)"
+                    rows={2}
+                  />
+                )}
+              </div>
+
+              {canManage && (
+                <DialogFooter>
+                  {isCancelling ? (
+                    <>
+                      <Button variant="outline" onClick={() => setIsCancelling(false)}>
+                        Keep Meeting
+                      </Button>
+                      <Button variant="destructive" onClick={handleCancel} disabled={isSaving}>
+                        {isSaving ? "Cancelling..." : "Cancel Meeting"}
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      {!isCancelled && (
+                        <Button variant="outline" onClick={() => setIsCancelling(true)}>
+                          <Ban className="w-4 h-4 mr-2" />
+                          Cancel
+                        </Button>
+                      )}
+                      {series ? (
+                        <>
+                          <Button variant="outline" onClick={() => setEditing("series")}>
+                            <Repeat className="w-4 h-4 mr-2" />
+                            Edit Series
+                          </Button>
+                          <Button onClick={() => setEditing("occurrence")}>
+                            <Pencil className="w-4 h-4 mr-2" />
+                            {isCancelled ? "Reschedule" : "Edit This One"}
+                          </Button>
+                        </>
+                      ) : (
+                        <Button onClick={() => setEditing("series")}>
+                          <Pencil className="w-4 h-4 mr-2" />
+                          {isCancelled ? "Reschedule" : "Edit / Reschedule"}
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </DialogFooter>
+              )}
+            </>
+          ) : (
+            <DialogHeader>
+              <DialogTitle>Meeting</DialogTitle>
+              <DialogDescription>This meeting could not be found</DialogDescription>
+            </DialogHeader>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <MeetingDialog
+        open={!!editing}
+        onOpenChange={(open) => {
+          if (!open) {
+            setEditing(null);
+            close();
+          }
+        }}
+        meeting={editing === "series" && series ? series : meeting}
+        scope={series ? editing : undefined}
+      />
+    </>
+  );
+};
+
+export default MeetingDetailsDialog;
@@ -0,0 +1,412 @@
+import { useState } from "react";
+import { AlertTriangle, Repeat, Search } from "lucide-react";
+import { addMinutes, format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Toggle } from "@/components/ui/toggle";
+import { useAuth } from "@/contexts/AuthContext";
+import { LEAVE_TYPE_LABELS, type LeaveType } from "@/lib/repositories/leaveRequests";
+import {
+  DEFAULT_MEETING_MINUTES,
+  occurrenceStartOf,
+  seriesEnd,
+  useMeetingConflicts,
+  useSaveMeeting,
+  useSaveOccurrence,
+  useUpdateSeries,
+  type Meeting,
+} from "@/lib/repositories/meetings";
+import {
+  RECURRENCE_LABELS,
+  describeRecurrence,
+  formatRecurrence,
+  parseRecurrence,
+  type Recurrence,
+  type RecurrenceFrequency,
+} from "@/lib/recurrence";
+import { useDirectory } from "@/lib/repositories/profiles";
+import { localTimezone } from "@/lib/timezone";
+import { toast } from "sonner";
+
+const DURATIONS = [15, 30, 45, 60, 90, 120];
+const WEEKDAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"];
+const INTERVAL_UNITS: Partial<Record<RecurrenceFrequency, string>> = { daily: "day", weekly: "week", monthly: "month" };
+
+interface MeetingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Editing an existing meeting; changing its time reschedules it
+  meeting?: Meeting | null;
+  // For recurring meetings: change one occurrence or the whole series
+  scope?: "occurrence" | "series";
+  defaultDate?: Date;
+}
+
+const toFormData = (meeting: Meeting | null | undefined, defaultDate?: Date) => {
+  const start = meeting ? new Date(meeting.scheduled_at) : defaultDate;
+  const recurrence = parseRecurrence(meeting?.recurrence_rule);
+  return {
+    title: meeting?.title ?? "",
+    description: meeting?.description ?? "",
+    date: start ? format(start, "yyyy-MM-dd") : "",
+    time: meeting ? format(start, "HH:mm") : "",
+    duration: String(meeting?.duration_minutes ?? DEFAULT_MEETING_MINUTES),
+    link: meeting?.meeting_link ?? "",
+    attendees: meeting?.attendees ?? [],
+    repeat: (recurrence?.frequency ?? "none") as RecurrenceFrequency | "none",
+    interval: String(recurrence?.interval ?? 1),
+    weekdays: recurrence?.weekdays ?? [],
+    ends: recurrence?.until ? "until" : recurrence?.count ? "count" : "never",
+    until: recurrence?.until ?? "",
+    count: String(recurrence?.count ?? 10),
+  };
+};
+
+const toRecurrence = (formData: ReturnType<typeof toFormData>): Recurrence | null =>
+  formData.repeat === "none"
+    ? null
+    : {
+        frequency: formData.repeat,
+        interval: Math.max(1, Number(formData.interval) || 1),
+        weekdays: formData.repeat === "weekly" ? formData.weekdays : [],
+        until: formData.ends === "until" ? formData.until || null : null,
+        count: formData.ends === "count" ? Math.max(1, Number(formData.count) || 1) : null,
+      };
+
+// Lives inside DialogContent, which unmounts on close, so every open starts fresh
+const MeetingForm = ({ onOpenChange, meeting, scope, defaultDate }: Omit<MeetingDialogProps, "open">) => {
+  const { user } = useAuth();
+  const saveMeeting = useSaveMeeting();
+  const saveOccurrence = useSaveOccurrence();
+  const updateSeries = useUpdateSeries();
+  const isOccurrence = scope === "occurrence";
+  const isPending = saveMeeting.isPending || saveOccurrence.isPending || updateSeries.isPending;
+  const [formData, setFormData] = useState(() => toFormData(meeting, defaultDate));
+  const [search, setSearch] = useState("");
+  // Set once the user has seen the conflict warning and may submit anyway
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  const { data: directory = [] } = useDirectory();
+  const people = directory.filter(
+    p => p.user_id !== user?.id && p.full_name.toLowerCase().includes(search.toLowerCase())
+  );
+
+  const start = formData.date && formData.time ? new Date(`${formData.date}T${formData.time}`) : null;
+  const end = start ? addMinutes(start, Number(formData.duration)) : null;
+  const participants = user?.id ? [user.id, ...formData.attendees] : formData.attendees;
+  const { data: conflicts = [] } = useMeetingConflicts(participants, start, end, meeting?.id);
+
+  const update = (patch: Partial<typeof formData>) => {
+    setFormData({ ...formData, ...patch });
+    setAcknowledged(false);
+  };
+
+  const recurrence = toRecurrence(formData);
+
+  const toggleWeekday = (day: number) => {
+    update({
+      weekdays: formData.weekdays.includes(day)
+        ? formData.weekdays.filter(d => d !== day)
+        : [...formData.weekdays, day].sort((a, b) => a - b),
+    });
+  };
+
+  const toggleAttendee = (userId: string) => {
+    update({
+      attendees: formData.attendees.includes(userId)
+        ? formData.attendees.filter(id => id !== userId)
+        : [...formData.attendees, userId],
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!user?.id) return;
+
+    if (!formData.title.trim() || !start) {
+      toast.error("Please enter a title, date and time");
+      return;
+    }
+
+    if (formData.link.trim() && !/^https?:\/\//i.test(formData.link.trim())) {
+      toast.error("Meeting link must start with http:// or https://");
+      return;
+    }
+
+    if (recurrence?.until && recurrence.until < formData.date) {
+      toast.error("The series must end after its first meeting");
+      return;
+    }
+
+    if (conflicts.length > 0 && !acknowledged) {
+      setAcknowledged(true);
+      toast.warning("Some attendees are busy at that time. Submit again to schedule anyway.");
+      return;
+    }
+
+    const scheduledAt = start.toISOString();
+    const rescheduled = meeting && new Date(meeting.scheduled_at).getTime() !== start.getTime();
+    // The series is expanded in the organiser's timezone, where it was picked
+    const timezone = localTimezone();
+    const rule = recurrence ? formatRecurrence(recurrence, timezone) : null;
+    const fields = {
+      title: formData.title.trim(),
+      description: formData.description.trim() || null,
+      scheduled_at: scheduledAt,
+      duration_minutes: Number(formData.duration),
+      meeting_link: formData.link.trim() || null,
+      attendees: formData.attendees,
+    };
+    const edited = {
+      ...fields,
+      ...(rescheduled && { previous_scheduled_at: occurrenceStartOf(meeting) }),
+      status: "scheduled",
+      cancel_reason: null,
+    };
+    const series = {
+      recurrence_rule: rule,
+      recurrence_end: seriesEnd(scheduledAt, rule, timezone),
+      timezone,
+    };
+
+    try {
+      if (isOccurrence && meeting.series_id) {
+        await saveMeeting.mutateAsync({ id: meeting.id, meeting: edited });
+      } else if (isOccurrence) {
+        await saveOccurrence.mutateAsync({ series: meeting, originalStart: occurrenceStartOf(meeting), patch: edited });
+      } else if (meeting) {
+        await updateSeries.mutateAsync({
+          id: meeting.id,
+          patch: { ...edited, ...series },
+          resetExceptions: !!meeting.recurrence_rule && (rescheduled || rule !== meeting.recurrence_rule),
+        });
+      } else {
+        await saveMeeting.mutateAsync({ meeting: { ...fields, ...series, created_by: user.id } });
+      }
+    } catch (error) {
+      toast.error(meeting ? "Failed to update meeting" : "Failed to schedule meeting");
+      return;
+    }
+
+    toast.success(meeting ? (rescheduled ? "Meeting rescheduled!" : "Meeting updated!") : "Meeting scheduled!");
+    onOpenChange(false);
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>
+          {isOccurrence ? "Edit Occurrence" : scope === "series" ? "Edit Series" : meeting ? "Edit Meeting" : "Schedule Meeting"}
+        </DialogTitle>
+      </DialogHeader>
+      <div className="space-y-4">
+        <div>
+          <label className="text-sm font-medium mb-1 block">Title *</label>
+          <Input
+            value={formData.title}
+            onChange={(e) => update({ title: e.target.value })}
+            placeholder="Meeting title"
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className="text-sm font-medium mb-1 block">Date *</label>
+            <Input type="date" value={formData.date} onChange={(e) => update({ date: e.target.value })} />
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-1 block">Time *</label>
+            <Input type="time" value={formData.time} onChange={(e) => update({ time: e.target.value })} />
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-1 block">Duration</label>
+            <Select value={formData.duration} onValueChange={(v) => update({ duration: v })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DURATIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {!isOccurrence && (
+          <div className="space-y-3 rounded-lg border p-3">
+            <div className="flex items-center gap-3">
+              <Repeat className="w-4 h-4 text-muted-foreground" />
+              <Select
+                value={formData.repeat}
+                onValueChange={(v: RecurrenceFrequency | "none") => update({ repeat: v })}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Does not repeat</SelectItem>
+                  {(Object.keys(RECURRENCE_LABELS) as RecurrenceFrequency[]).map((frequency) => (
+                    <SelectItem key={frequency} value={frequency}>{RECURRENCE_LABELS[frequency]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {INTERVAL_UNITS[formData.repeat as RecurrenceFrequency] && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  every
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-16"
+                    value={formData.interval}
+                    onChange={(e) => update({ interval: e.target.value })}
+                  />
+                  {INTERVAL_UNITS[formData.repeat as RecurrenceFrequency]}(s)
+                </div>
+              )}
+            </div>
+            {formData.repeat === "weekly" && (
+              <div className="flex gap-1">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <Toggle
+                    key={day}
+                    size="sm"
+                    variant="outline"
+                    className="w-9"
+                    pressed={formData.weekdays.includes(day)}
+                    onPressedChange={() => toggleWeekday(day)}
+                  >
+                    {label}
+                  </Toggle>
+                ))}
+              </div>
+            )}
+            {recurrence && (
+              <div className="flex items-center gap-3">
+                <Select value={formData.ends} onValueChange={(v) => update({ ends: v })}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="never">Never ends</SelectItem>
+                    <SelectItem value="until">Ends on</SelectItem>
+                    <SelectItem value="count">Ends after</SelectItem>
+                  </SelectContent>
+                </Select>
+                {formData.ends === "until" && (
+                  <Input type="date" value={formData.until} onChange={(e) => update({ until: e.target.value })} />
+                )}
+                {formData.ends === "count" && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-20"
+                      value={formData.count}
+                      onChange={(e) => update({ count: e.target.value })}
+                    />
+                    meetings
+                  </div>
+                )}
+              </div>
+            )}
+            {recurrence && <p className="text-xs text-muted-foreground">{describeRecurrence(recurrence)}</p>}
+          </div>
+        )}
+        <div>
+          <label className="text-sm font-medium mb-1 block">Meeting Link</label>
+          <Input
+            value={formData.link}
+            onChange={(e) => update({ link: e.target.value })}
+            placeholder="https://meet.google.com/..."
+          />
+        </div>
+        <div>
+          <label className="text-sm font-medium mb-1 block">Description</label>
+          <Textarea
+            value={formData.description}
+            onChange={(e) => update({ description: e.target.value })}
+            placeholder="Agenda"
+            rows={2}
+          />
+        </div>
+        <div>
+          <label className="text-sm font-medium mb-2 block">
+            Attendees{formData.attendees.length > 0 && ` (${formData.attendees.length})`}
+          </label>
+          <div className="relative mb-2">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search people"
+              className="pl-10"
+            />
+          </div>
+          <ScrollArea className="h-36 border rounded-lg p-2">
+            <div className="space-y-1">
+              {people.map((person) => (
+                <div
+                  key={person.user_id}
+                  className="flex items-center gap-3 p-2 rounded hover:bg-muted cursor-pointer"
+                  onClick={() => toggleAttendee(person.user_id)}
+                >
+                  <Checkbox checked={formData.attendees.includes(person.user_id)} />
+                  <div className="flex-1">
+                    <p className="text-sm font-medium">{person.full_name}</p>
+                    {(person.designation || person.department) && (
+                      <p className="text-xs text-muted-foreground">{person.designation || person.department}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="rounded-lg border border-yellow-300 bg-yellow-50 dark:bg-yellow-900/10 p-3 space-y-1">
+            <p className="text-sm font-medium flex items-center gap-2 text-yellow-700 dark:text-yellow-400">
+              <AlertTriangle className="w-4 h-4" />
+              Scheduling conflicts
+            </p>
+            {conflicts.map((conflict, index) => (
+              <p key={index} className="text-xs text-muted-foreground">
+                {conflict.user_id === user?.id ? "You" : conflict.full_name}:{" "}
+                {conflict.kind === "leave"
+                  ? `on ${LEAVE_TYPE_LABELS[conflict.title as LeaveType]?.toLowerCase() || "leave"}`
+                  : `${conflict.title ? `"${conflict.title}"` : "busy"} ${format(new Date(conflict.starts_at), "h:mm a")} - ${format(new Date(conflict.ends_at), "h:mm a")}`}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+      <DialogFooter>
+        <Button variant="outline" onClick={() => onOpenChange(false)}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} disabled={isPending}>
+          {isPending
+            ? "Saving..."
+            : acknowledged && conflicts.length > 0
+            ? "Schedule Anyway"
+            : meeting
+            ? "Update"
+            : "Schedule"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
+
+const MeetingDialog = ({ open, onOpenChange, ...props }: MeetingDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-lg">
+      <MeetingForm onOpenChange={onOpenChange} {...props} />
+    </DialogContent>
+  </Dialog>
+);
+
+export default MeetingDialog;
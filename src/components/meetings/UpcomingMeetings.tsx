@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Plus, Repeat, Video } from "lucide-react";
+import { format, isToday, isTomorrow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/contexts/AuthContext";
+import { DEFAULT_MEETING_MINUTES, isRecurring, useUpcomingMeetings } from "@/lib/repositories/meetings";
+import MeetingDetailsDialog from "./MeetingDetailsDialog";
+import MeetingDialog from "./MeetingDialog";
+
+const dayLabel = (date: Date) => (isToday(date) ? "Today" : isTomorrow(date) ? "Tomorrow" : format(date, "EEE, MMM d"));
+
+const UpcomingMeetings = () => {
+  const { user } = useAuth();
+  const [openMeeting, setOpenMeeting] = useState<{ id: string; start: string } | null>(null);
+  const [isScheduling, setIsScheduling] = useState(false);
+
+  const { data: meetings = [] } = useUpcomingMeetings(user?.id);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Video className="w-5 h-5 text-primary" />
+          Upcoming Meetings
+        </CardTitle>
+        <Button size="sm" variant="outline" onClick={() => setIsScheduling(true)}>
+          <Plus className="w-4 h-4 mr-1" />
+          Schedule
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {meetings.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No upcoming meetings</p>
+        ) : (
+          <div className="space-y-3">
+            {meetings.map((meeting) => {
+              const start = new Date(meeting.scheduled_at);
+              const isCancelled = meeting.status === "cancelled";
+              return (
+                <button
+                  key={`${meeting.id}-${meeting.scheduled_at}`}
+                  onClick={() => setOpenMeeting({ id: meeting.id, start: meeting.scheduled_at })}
+                  className="w-full text-left p-3 rounded-lg bg-muted/50 hover:bg-muted transition-colors"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <p className={`font-medium truncate ${isCancelled ? "line-through text-muted-foreground" : ""}`}>
+                      {meeting.title}
+                    </p>
+                    {isCancelled ? (
+                      <Badge variant="destructive">Cancelled</Badge>
+                    ) : meeting.previous_scheduled_at ? (
+                      <Badge variant="secondary">Rescheduled</Badge>
+                    ) : null}
+                  </div>
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    {isRecurring(meeting) && <Repeat className="w-3 h-3" />}
+                    {dayLabel(start)} · {format(start, "h:mm a")} · {meeting.duration_minutes ?? DEFAULT_MEETING_MINUTES} min
+                  </p>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <MeetingDetailsDialog
+        meetingId={openMeeting?.id ?? null}
+        occurrenceStart={openMeeting?.start}
+        onOpenChange={(open) => !open && setOpenMeeting(null)}
+      />
+      <MeetingDialog open={isScheduling} onOpenChange={setIsScheduling} />
+    </Card>
+  );
+};
+
+export default UpcomingMeetings;
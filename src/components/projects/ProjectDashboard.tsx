@@ -0,0 +1,219 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, ArrowLeft, Calendar, CheckSquare, ClipboardCheck, TrendingUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useDeadlineSettings } from "@/lib/repositories/deadlines";
+import { describeProgressBasis, useProjects } from "@/lib/repositories/projects";
+import { useProjectTaskHistory, useProjectTasks } from "@/lib/repositories/tasks";
+import {
+  PROJECT_HEALTH_COLORS,
+  PROJECT_HEALTH_LABELS,
+  assessProjectHealth,
+  memberWorkload,
+} from "@/lib/projectHealth";
+import { DEFAULT_DEADLINE_SETTINGS, dueState } from "@/lib/taskDeadlines";
+
+const tooltipStyle = {
+  backgroundColor: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "8px",
+};
+
+// Per-project analytics: burndown, overdue work, workload and a health call
+const ProjectDashboard = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { data: projects = [], isLoading } = useProjects();
+  const { data: tasks = [] } = useProjectTasks(id);
+  const { data: history = [] } = useProjectTaskHistory(id);
+  const { data: deadlines = DEFAULT_DEADLINE_SETTINGS } = useDeadlineSettings();
+
+  const project = projects.find(p => p.id === id);
+
+  const backButton = (
+    <Button variant="outline" onClick={() => navigate("/projects")}>
+      <ArrowLeft className="w-4 h-4 mr-2" />
+      Projects
+    </Button>
+  );
+
+  if (!project) {
+    return (
+      <div className="space-y-6">
+        {backButton}
+        <p className="text-muted-foreground text-center py-12">
+          {isLoading ? "Loading project..." : "This project does not exist or was deleted."}
+        </p>
+      </div>
+    );
+  }
+
+  const assessment = assessProjectHealth(project, tasks, history);
+  const workload = memberWorkload(tasks, project.members);
+  const completed = tasks.filter(t => t.status === "completed").length;
+  const overdue = tasks.filter(t => dueState(t, deadlines.dueSoonDays) === "overdue").length;
+  const dueSoon = tasks.filter(t => dueState(t, deadlines.dueSoonDays) === "due_soon").length;
+
+  const chartData = history.map(point => ({
+    date: format(parseISO(point.day), "MMM d"),
+    open: point.total - point.completed,
+    completed: point.completed,
+    scope: point.total,
+  }));
+
+  const statCards = [
+    {
+      title: "Open Tasks",
+      value: assessment.remaining,
+      icon: CheckSquare,
+      color: "text-primary",
+      bgColor: "bg-primary/10",
+    },
+    {
+      title: "Completed",
+      value: completed,
+      icon: ClipboardCheck,
+      color: "text-success",
+      bgColor: "bg-success/10",
+    },
+    {
+      title: "Overdue",
+      value: overdue,
+      detail: dueSoon > 0 ? `${dueSoon} due soon` : undefined,
+      icon: AlertTriangle,
+      color: "text-destructive",
+      bgColor: "bg-destructive/10",
+    },
+    {
+      title: assessment.daysLeft !== null && assessment.daysLeft < 0 ? "Days Past End" : "Days Left",
+      value: assessment.daysLeft === null ? "—" : Math.abs(assessment.daysLeft),
+      detail: project.end_date ? `Ends ${format(parseISO(project.end_date), "MMM d, yyyy")}` : "No end date",
+      icon: Calendar,
+      color: "text-warning",
+      bgColor: "bg-warning/10",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <div className="flex flex-wrap items-center gap-2">
+            <h1 className="text-2xl font-bold text-foreground">{project.name}</h1>
+            {assessment.health && (
+              <Badge className={PROJECT_HEALTH_COLORS[assessment.health]}>
+                {PROJECT_HEALTH_LABELS[assessment.health]}
+              </Badge>
+            )}
+            {project.archived_at && <Badge variant="outline">archived</Badge>}
+          </div>
+          <p className="text-muted-foreground">{assessment.reason}</p>
+        </div>
+        {backButton}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {statCards.map(stat => (
+          <Card key={stat.title} className="card-elevated">
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{stat.title}</CardTitle>
+              <div className={`p-2 rounded-lg ${stat.bgColor}`}>
+                <stat.icon className={`w-4 h-4 ${stat.color}`} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-foreground">{stat.value}</div>
+              {stat.detail && <p className="text-xs text-muted-foreground mt-1">{stat.detail}</p>}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="card-elevated">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="w-5 h-5 text-primary" />
+            Burndown
+          </CardTitle>
+          <CardDescription>Open and completed top-level tasks per day, replayed from task history</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {chartData.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">No task history yet</p>
+          ) : (
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="date" className="text-xs" minTickGap={24} />
+                  <YAxis className="text-xs" allowDecimals={false} />
+                  <Tooltip contentStyle={tooltipStyle} />
+                  <Legend />
+                  <Line type="stepAfter" dataKey="scope" name="Scope" stroke="#94a3b8" strokeDasharray="4 4" dot={false} />
+                  <Line type="stepAfter" dataKey="open" name="Open" stroke="#ef4444" strokeWidth={2} dot={false} />
+                  <Line type="stepAfter" dataKey="completed" name="Completed" stroke="#22c55e" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="card-elevated">
+          <CardHeader>
+            <CardTitle>Progress</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="text-muted-foreground">{describeProgressBasis(project)}</span>
+                <span className="font-medium">{project.progress ?? 0}%</span>
+              </div>
+              <Progress value={project.progress} className="h-2" />
+            </div>
+            {assessment.projectedDays !== null && (
+              <p className="text-sm text-muted-foreground">
+                About {assessment.projectedDays} more {assessment.projectedDays === 1 ? "day" : "days"} at the pace of
+                the last two weeks.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="card-elevated">
+          <CardHeader>
+            <CardTitle>Workload</CardTitle>
+            <CardDescription>Tasks per member, excluding viewers</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {workload.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">No members or tasks yet</p>
+            )}
+            {workload.map(row => {
+              const total = row.open + row.completed;
+              return (
+                <div key={row.userId ?? "unassigned"} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <span className={`truncate ${row.userId ? "font-medium" : "text-muted-foreground"}`}>{row.name}</span>
+                    <span className="flex items-center gap-2 text-muted-foreground shrink-0">
+                      {row.overdue > 0 && <Badge className="bg-red-100 text-red-700">{row.overdue} overdue</Badge>}
+                      {row.open} open • {row.completed} done
+                    </span>
+                  </div>
+                  <Progress value={total > 0 ? (row.completed / total) * 100 : 0} className="h-1.5" />
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectDashboard;
@@ -0,0 +1,141 @@
+import type { ReactNode } from "react";
+import { eachMonthOfInterval, eachWeekOfInterval, format, parseISO, startOfDay } from "date-fns";
+import { Diamond } from "lucide-react";
+import type { Milestone } from "@/lib/repositories/milestones";
+import type { Project } from "@/lib/repositories/projects";
+import type { Task } from "@/lib/repositories/tasks";
+import { dueState } from "@/lib/taskDeadlines";
+import {
+  MILESTONE_STATE_LABELS,
+  dayOffset,
+  milestoneState,
+  spanWidth,
+  taskSpan,
+  timelineRange,
+  type MilestoneState,
+} from "@/lib/projectTimeline";
+
+interface ProjectTimelineProps {
+  project: Project;
+  milestones: Milestone[];
+  tasks: Task[];
+}
+
+const LABEL_WIDTH = "11rem";
+
+const DIAMOND_COLORS: Record<MilestoneState, string> = {
+  reached: "text-green-600 fill-green-600",
+  slipped: "text-red-600 fill-red-600",
+  upcoming: "text-blue-600 fill-blue-600",
+};
+
+const taskBarColor = (task: Task) => {
+  if (task.status === "completed") return "bg-green-500";
+  return dueState(task, 0) === "overdue" ? "bg-red-500" : "bg-primary";
+};
+
+const ProjectTimeline = ({ project, milestones, tasks }: ProjectTimelineProps) => {
+  const datedTasks = tasks
+    .filter(t => t.due_date)
+    .sort((a, b) => a.due_date!.localeCompare(b.due_date!));
+  const range = timelineRange(project, milestones, datedTasks);
+  const today = startOfDay(new Date());
+  // Point markers sit in the middle of their day
+  const halfDay = 50 / range.days;
+
+  // Weekly ticks for a few months, monthly beyond that
+  const ticks = range.days <= 120
+    ? eachWeekOfInterval({ start: range.start, end: range.end }).filter(d => d >= range.start)
+    : eachMonthOfInterval({ start: range.start, end: range.end }).filter(d => d >= range.start);
+
+  const row = (label: ReactNode, track: ReactNode, key?: string) => (
+    <div key={key} className="flex items-center h-8 border-b border-border/50 last:border-b-0">
+      <div className="shrink-0 pr-3 text-sm truncate" style={{ width: LABEL_WIDTH }}>{label}</div>
+      <div className="relative flex-1 h-full">{track}</div>
+    </div>
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="relative min-w-[640px]">
+        {/* Date scale */}
+        {row(
+          <span className="text-xs text-muted-foreground">{project.name}</span>,
+          ticks.map(tick => (
+            <span
+              key={tick.toISOString()}
+              className="absolute top-3 text-xs text-muted-foreground border-l border-border pl-1"
+              style={{ left: `${dayOffset(range, tick)}%` }}
+            >
+              {format(tick, range.days <= 120 ? "MMM d" : "MMM yyyy")}
+            </span>
+          ))
+        )}
+
+        {/* Project span */}
+        {row(
+          <span className="font-medium">Project</span>,
+          project.start_date && project.end_date ? (
+            <div
+              className="absolute top-2 h-4 rounded bg-primary/20 border border-primary/40"
+              style={{
+                left: `${dayOffset(range, parseISO(project.start_date))}%`,
+                width: `${spanWidth(range, parseISO(project.start_date), parseISO(project.end_date))}%`,
+              }}
+              title={`${format(parseISO(project.start_date), "MMM d, yyyy")} - ${format(parseISO(project.end_date), "MMM d, yyyy")}`}
+            />
+          ) : (
+            <span className="absolute top-2 text-xs text-muted-foreground">Set a start and end date to show the project span</span>
+          )
+        )}
+
+        {milestones.map(milestone => {
+          const state = milestoneState(milestone, tasks, today);
+          return row(
+            <span className={`flex items-center gap-1 ${state === "slipped" ? "text-destructive font-medium" : ""}`}>
+              <Diamond className={`w-3 h-3 shrink-0 ${DIAMOND_COLORS[state]}`} />
+              <span className="truncate">{milestone.name}</span>
+            </span>,
+            <span
+              className="absolute top-2 -ml-2"
+              style={{ left: `${dayOffset(range, parseISO(milestone.target_date)) + halfDay}%` }}
+              title={`${milestone.name}: ${MILESTONE_STATE_LABELS[state]}, ${format(parseISO(milestone.target_date), "MMM d, yyyy")}`}
+            >
+              <Diamond className={`w-4 h-4 ${DIAMOND_COLORS[state]}`} />
+            </span>,
+            milestone.id
+          );
+        })}
+
+        {datedTasks.map(task => {
+          const span = taskSpan(task);
+          return row(
+            <span className="text-muted-foreground">{task.title}</span>,
+            <div
+              className={`absolute top-2.5 h-3 rounded-full ${taskBarColor(task)}`}
+              style={{ left: `${dayOffset(range, span.start)}%`, width: `${spanWidth(range, span.start, span.end)}%` }}
+              title={`${task.title}: due ${format(span.end, "MMM d, yyyy")}`}
+            />,
+            task.id
+          );
+        })}
+
+        {/* Today marker */}
+        <div
+          className="absolute top-0 bottom-0 w-px bg-destructive pointer-events-none"
+          style={{ left: `calc(${LABEL_WIDTH} + (100% - ${LABEL_WIDTH}) * ${(dayOffset(range, today) + halfDay) / 100})` }}
+        >
+          <span className="absolute -top-0.5 left-1 text-[10px] font-medium text-destructive">Today</span>
+        </div>
+      </div>
+
+      {datedTasks.length < tasks.length && (
+        <p className="text-xs text-muted-foreground mt-2">
+          {tasks.length - datedTasks.length} tasks without a due date are not shown.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProjectTimeline;
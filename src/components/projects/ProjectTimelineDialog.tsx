@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Check, Edit2, Plus, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import ProjectTimeline from "@/components/projects/ProjectTimeline";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDeleteMilestone, useMilestones, useSaveMilestone, type Milestone } from "@/lib/repositories/milestones";
+import type { Project } from "@/lib/repositories/projects";
+import { useProjectTasks } from "@/lib/repositories/tasks";
+import { MILESTONE_STATE_COLORS, MILESTONE_STATE_LABELS, milestoneState } from "@/lib/projectTimeline";
+import { toast } from "sonner";
+
+interface ProjectTimelineDialogProps {
+  project: Project | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyDraft = { name: "", targetDate: "" };
+
+const ProjectTimelineDialog = ({ project, onOpenChange }: ProjectTimelineDialogProps) => {
+  const { user } = useAuth();
+  const { data: milestones = [] } = useMilestones(project?.id);
+  const { data: tasks = [], isLoading } = useProjectTasks(project?.id);
+  const saveMilestone = useSaveMilestone();
+  const deleteMilestone = useDeleteMilestone();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const startEdit = (milestone: Milestone) => {
+    setEditingId(milestone.id);
+    setDraft({ name: milestone.name, targetDate: milestone.target_date });
+  };
+
+  const resetDraft = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+  };
+
+  const handleSave = async () => {
+    if (!project || !user?.id) return;
+    if (!draft.name.trim() || !draft.targetDate) {
+      toast.error("Enter a milestone name and target date");
+      return;
+    }
+
+    const milestone = { name: draft.name.trim(), target_date: draft.targetDate };
+
+    try {
+      if (editingId) {
+        await saveMilestone.mutateAsync({ id: editingId, milestone });
+      } else {
+        await saveMilestone.mutateAsync({ milestone: { ...milestone, project_id: project.id, created_by: user.id } });
+      }
+      resetDraft();
+    } catch (error) {
+      toast.error("Failed to save milestone");
+    }
+  };
+
+  const handleDelete = async (milestone: Milestone) => {
+    if (!confirm(`Delete the milestone "${milestone.name}"? Its tasks stay in the project.`)) return;
+
+    try {
+      await deleteMilestone.mutateAsync(milestone.id);
+      if (editingId === milestone.id) resetDraft();
+    } catch (error) {
+      toast.error("Failed to delete milestone");
+    }
+  };
+
+  return (
+    <Dialog open={!!project} onOpenChange={(open) => { if (!open) resetDraft(); onOpenChange(open); }}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>{project?.name} Timeline</DialogTitle>
+          <DialogDescription>
+            The project span, its milestones and every task with a due date. Link tasks to a milestone from the task dialog.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[70vh] overflow-y-auto space-y-6 pr-1">
+          {project && (isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading timeline...</p>
+          ) : (
+            <ProjectTimeline project={project} milestones={milestones} tasks={tasks} />
+          ))}
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Milestones</h3>
+            {milestones.length === 0 && (
+              <p className="text-sm text-muted-foreground">No milestones yet.</p>
+            )}
+            {milestones.map(milestone => {
+              const state = milestoneState(milestone, tasks);
+              const linked = tasks.filter(t => t.milestone_id === milestone.id);
+              return (
+                <div key={milestone.id} className="flex items-center gap-3 p-2 rounded-lg border">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{milestone.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(parseISO(milestone.target_date), "MMM d, yyyy")}
+                      {" • "}
+                      {linked.filter(t => t.status === "completed").length}/{linked.length} tasks done
+                    </p>
+                  </div>
+                  <Badge className={`text-xs ${MILESTONE_STATE_COLORS[state]}`}>{MILESTONE_STATE_LABELS[state]}</Badge>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => startEdit(milestone)}>
+                    <Edit2 className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-destructive"
+                    onClick={() => handleDelete(milestone)}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              );
+            })}
+
+            <div className="flex flex-wrap items-center gap-2 pt-2">
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder={editingId ? "Milestone name" : "New milestone"}
+                className="flex-1 min-w-48"
+              />
+              <Input
+                type="date"
+                value={draft.targetDate}
+                onChange={(e) => setDraft({ ...draft, targetDate: e.target.value })}
+                className="w-44"
+              />
+              <Button onClick={handleSave} disabled={saveMilestone.isPending}>
+                {editingId ? <Check className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                {editingId ? "Save" : "Add"}
+              </Button>
+              {editingId && (
+                <Button variant="ghost" size="icon" onClick={resetDraft}>
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProjectTimelineDialog;
@@ -0,0 +1,31 @@
+import { Lock } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { TaskBlocker } from "@/lib/repositories/taskDependencies";
+
+interface BlockedBadgeProps {
+  blockers: TaskBlocker[] | undefined;
+}
+
+const BlockedBadge = ({ blockers }: BlockedBadgeProps) => {
+  if (!blockers?.length) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className="text-xs gap-1 border-destructive/40 text-destructive">
+          <Lock className="w-3 h-3" />
+          Blocked
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p className="font-medium mb-1">Waiting on</p>
+        {blockers.map((blocker) => (
+          <p key={blocker.id}>{blocker.title}</p>
+        ))}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default BlockedBadge;
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useDeadlineSettings, useUpdateDeadlineSettings } from "@/lib/repositories/deadlines";
+import { DEFAULT_DEADLINE_SETTINGS } from "@/lib/taskDeadlines";
+import { toast } from "sonner";
+
+interface DeadlineRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DeadlineRulesDialog = ({ open, onOpenChange }: DeadlineRulesDialogProps) => {
+  const { data: settings = DEFAULT_DEADLINE_SETTINGS } = useDeadlineSettings();
+  const updateSettings = useUpdateDeadlineSettings();
+  const [draft, setDraft] = useState({ dueSoonDays: "", escalationDays: "" });
+
+  useEffect(() => {
+    if (open) {
+      setDraft({ dueSoonDays: String(settings.dueSoonDays), escalationDays: String(settings.escalationDays) });
+    }
+  }, [open, settings]);
+
+  const handleSave = async () => {
+    const dueSoonDays = Number(draft.dueSoonDays);
+    const escalationDays = Number(draft.escalationDays);
+
+    if (!Number.isInteger(dueSoonDays) || dueSoonDays < 0 || dueSoonDays > 30) {
+      toast.error("Due soon must be between 0 and 30 days");
+      return;
+    }
+    if (!Number.isInteger(escalationDays) || escalationDays < 1 || escalationDays > 90) {
+      toast.error("Escalation must be between 1 and 90 days overdue");
+      return;
+    }
+
+    try {
+      await updateSettings.mutateAsync({ dueSoonDays, escalationDays });
+    } catch (error) {
+      toast.error("Failed to save deadline rules");
+      return;
+    }
+
+    toast.success("Deadline rules saved");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Deadline Rules</DialogTitle>
+          <DialogDescription>
+            Open tasks are flagged as they near their due date. Once a task is overdue long enough, whoever assigned it and all admins are notified.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm font-medium mb-1 block">Flag as due soon</label>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Input
+                type="number"
+                min={0}
+                max={30}
+                className="w-20"
+                value={draft.dueSoonDays}
+                onChange={(e) => setDraft({ ...draft, dueSoonDays: e.target.value })}
+              />
+              days or less before the due date
+            </div>
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-1 block">Escalate when overdue by</label>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Input
+                type="number"
+                min={1}
+                max={90}
+                className="w-20"
+                value={draft.escalationDays}
+                onChange={(e) => setDraft({ ...draft, escalationDays: e.target.value })}
+              />
+              days
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={updateSettings.isPending}>
+            {updateSettings.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeadlineRulesDialog;
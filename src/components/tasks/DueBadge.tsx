@@ -0,0 +1,24 @@
+import { AlarmClock } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { TaskStatus } from "@/lib/repositories/tasks";
+import { DUE_STATE_COLORS, describeDue, dueState } from "@/lib/taskDeadlines";
+
+interface DueBadgeProps {
+  task: { due_date: string | null; status: TaskStatus };
+  dueSoonDays: number;
+}
+
+// Flags overdue and due-soon tasks; on-track and completed tasks show nothing
+const DueBadge = ({ task, dueSoonDays }: DueBadgeProps) => {
+  const state = dueState(task, dueSoonDays);
+  if (!state) return null;
+
+  return (
+    <Badge className={`text-xs gap-1 ${DUE_STATE_COLORS[state]}`}>
+      <AlarmClock className="w-3 h-3" />
+      {describeDue(task.due_date!)}
+    </Badge>
+  );
+};
+
+export default DueBadge;
@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+
+interface LabelInputProps {
+  value: string[];
+  onChange: (labels: string[]) => void;
+  suggestions?: string[];
+}
+
+// Labels are typed freely; Enter or a comma adds one, Backspace on an empty input removes the last
+const LabelInput = ({ value, onChange, suggestions = [] }: LabelInputProps) => {
+  const [draft, setDraft] = useState("");
+
+  const add = (label: string) => {
+    const clean = label.trim().toLowerCase();
+    if (clean && !value.includes(clean)) onChange([...value, clean]);
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((label) => (
+            <Badge key={label} variant="secondary" className="gap-1">
+              {label}
+              <button type="button" onClick={() => onChange(value.filter(l => l !== label))}>
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        value={draft}
+        list="task-label-suggestions"
+        placeholder="Add a label"
+        onChange={(e) => (e.target.value.endsWith(",") ? add(e.target.value.slice(0, -1)) : setDraft(e.target.value))}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            add(draft);
+          } else if (e.key === "Backspace" && !draft && value.length > 0) {
+            onChange(value.slice(0, -1));
+          }
+        }}
+        onBlur={() => add(draft)}
+      />
+      <datalist id="task-label-suggestions">
+        {suggestions.filter(s => !value.includes(s)).map((label) => (
+          <option key={label} value={label} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default LabelInput;
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { Calendar, Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import BlockedBadge from "@/components/tasks/BlockedBadge";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDirectory } from "@/lib/repositories/profiles";
+import { useTaskBlockers } from "@/lib/repositories/taskDependencies";
+import {
+  TASK_STATUS_LABELS,
+  useDeleteTask,
+  useSaveTask,
+  useSubtasks,
+  useUpdateMyTask,
+  useUpdateTaskStatus,
+  type Task,
+  type TaskWithRelations,
+} from "@/lib/repositories/tasks";
+import { confirmBlockedMove } from "@/lib/taskBlocking";
+import { toast } from "sonner";
+
+interface SubtaskListProps {
+  task: Task;
+}
+
+const emptyDraft = { title: "", assignedTo: "", dueDate: "" };
+
+// Subtasks are full tasks with their own assignee; the parent's status rolls up from them
+const SubtaskList = ({ task }: SubtaskListProps) => {
+  const { user, userRole } = useAuth();
+  const isAdmin = userRole === "admin";
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const { data: subtasks = [] } = useSubtasks(task.id);
+  const { data: directory = [] } = useDirectory();
+  const blockers = useTaskBlockers(subtasks.map(s => s.id));
+  const saveTask = useSaveTask();
+  const deleteTask = useDeleteTask();
+  const updateTaskStatus = useUpdateTaskStatus();
+  const updateMyTask = useUpdateMyTask();
+
+  const done = subtasks.filter(s => s.status === "completed").length;
+
+  const toggle = async (subtask: TaskWithRelations, checked: boolean) => {
+    const status = checked ? "completed" : "in_progress";
+    if (!confirmBlockedMove(blockers.get(subtask.id), status)) return;
+
+    try {
+      if (isAdmin) await updateTaskStatus.mutateAsync({ id: subtask.id, status });
+      else await updateMyTask.mutateAsync({ id: subtask.id, status });
+    } catch (error) {
+      toast.error("Failed to update subtask");
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!user?.id || !draft.title.trim()) return;
+
+    try {
+      await saveTask.mutateAsync({
+        task: {
+          title: draft.title.trim(),
+          assigned_to: draft.assignedTo || null,
+          due_date: draft.dueDate || null,
+          parent_id: task.id,
+          project_id: task.project_id,
+          assigned_by: user.id,
+        },
+      });
+    } catch (error) {
+      toast.error("Failed to add subtask");
+      return;
+    }
+
+    setDraft(emptyDraft);
+  };
+
+  const handleDelete = async (subtask: TaskWithRelations) => {
+    if (!confirm(`Delete the subtask "${subtask.title}"?`)) return;
+
+    try {
+      await deleteTask.mutateAsync(subtask.id);
+    } catch (error) {
+      toast.error("Failed to delete subtask");
+    }
+  };
+
+  return (
+    <div className="space-y-3 py-2">
+      {subtasks.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">No subtasks</p>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {done}/{subtasks.length} done
+          </p>
+          {subtasks.map((subtask) => (
+            <div key={subtask.id} className="flex items-start gap-3">
+              <Checkbox
+                className="mt-0.5"
+                checked={subtask.status === "completed"}
+                disabled={!isAdmin && subtask.assigned_to !== user?.id}
+                onCheckedChange={(checked) => toggle(subtask, checked === true)}
+              />
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm ${subtask.status === "completed" ? "line-through text-muted-foreground" : ""}`}>
+                  {subtask.title}
+                </p>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span>{subtask.assignee?.full_name || "Unassigned"}</span>
+                  <span>· {TASK_STATUS_LABELS[subtask.status]}</span>
+                  {subtask.status !== "completed" && <BlockedBadge blockers={blockers.get(subtask.id)} />}
+                  {subtask.due_date && (
+                    <span className="flex items-center gap-1">
+                      <Calendar className="w-3 h-3" />
+                      {format(parseISO(subtask.due_date), "MMM d")}
+                    </span>
+                  )}
+                </div>
+              </div>
+              {isAdmin && (
+                <button
+                  onClick={() => handleDelete(subtask)}
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+        </>
+      )}
+
+      {isAdmin && (
+        <div className="border-t pt-3 space-y-2">
+          <Input
+            value={draft.title}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            placeholder="New subtask"
+            onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          />
+          <div className="flex gap-2">
+            <Select value={draft.assignedTo} onValueChange={(v) => setDraft({ ...draft, assignedTo: v })}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Assignee" />
+              </SelectTrigger>
+              <SelectContent>
+                {directory.map((member) => (
+                  <SelectItem key={member.user_id} value={member.user_id}>
+                    {member.full_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={draft.dueDate}
+              onChange={(e) => setDraft({ ...draft, dueDate: e.target.value })}
+              className="w-40"
+            />
+            <Button size="icon" onClick={handleAdd} disabled={!draft.title.trim() || saveTask.isPending}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubtaskList;
@@ -0,0 +1,106 @@
+import { useState, type DragEvent, type ReactNode } from "react";
+import { Badge } from "@/components/ui/badge";
+import { STATUS_COLORS, columnTasks, type BoardColumn } from "@/lib/taskBoard";
+import type { TaskWithRelations } from "@/lib/repositories/tasks";
+
+interface TaskBoardProps {
+  tasks: TaskWithRelations[];
+  columns: BoardColumn[];
+  renderCard: (task: TaskWithRelations) => ReactNode;
+  // beforeId is the card the task was dropped above, or null for the end of the column
+  onMove: (task: TaskWithRelations, column: BoardColumn, current: TaskWithRelations[], beforeId: string | null) => void;
+}
+
+interface DropTarget {
+  columnKey: string;
+  beforeId: string | null;
+}
+
+const TaskBoard = ({ tasks, columns, renderCard, onMove }: TaskBoardProps) => {
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [target, setTarget] = useState<DropTarget | null>(null);
+
+  const showTarget = (next: DropTarget) => {
+    if (target?.columnKey !== next.columnKey || target?.beforeId !== next.beforeId) setTarget(next);
+  };
+
+  const endDrag = () => {
+    setDragId(null);
+    setTarget(null);
+  };
+
+  const handleDrop = (e: DragEvent, column: BoardColumn, current: TaskWithRelations[]) => {
+    e.preventDefault();
+    const task = tasks.find(t => t.id === (dragId ?? e.dataTransfer.getData("text/plain")));
+    const beforeId = target?.columnKey === column.key ? target.beforeId : null;
+    endDrag();
+    if (task) onMove(task, column, current, beforeId);
+  };
+
+  const indicator = <div className="h-1 rounded-full bg-primary" />;
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {columns.map(column => {
+        const current = columnTasks(tasks, column, columns);
+        const isTarget = !!dragId && target?.columnKey === column.key;
+        return (
+          <div
+            key={column.key}
+            className={`w-72 flex-shrink-0 rounded-lg p-2 transition-colors ${isTarget ? "bg-muted/60" : ""}`}
+            onDragOver={(e) => {
+              if (!dragId) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = "move";
+              // Entering a column aims at its end until a card says otherwise
+              if (target?.columnKey !== column.key) showTarget({ columnKey: column.key, beforeId: null });
+            }}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setTarget(null);
+            }}
+            onDrop={(e) => handleDrop(e, column, current)}
+          >
+            <div className="flex items-center gap-2 pb-2 mb-3 border-b">
+              <div className={`w-3 h-3 rounded-full ${STATUS_COLORS[column.status]} ${column.columnId ? "opacity-60" : ""}`} />
+              <h3 className="font-semibold truncate">{column.title}</h3>
+              <Badge variant="secondary">{current.length}</Badge>
+            </div>
+            <div className="space-y-3 min-h-24">
+              {current.map((task, index) => (
+                <div key={task.id} className="space-y-3">
+                  {isTarget && target.beforeId === task.id && indicator}
+                  <div
+                    draggable
+                    className={`cursor-grab active:cursor-grabbing ${dragId === task.id ? "opacity-40" : ""}`}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData("text/plain", task.id);
+                      e.dataTransfer.effectAllowed = "move";
+                      setDragId(task.id);
+                    }}
+                    onDragEnd={endDrag}
+                    onDragOver={(e) => {
+                      if (!dragId) return;
+                      e.preventDefault();
+                      e.stopPropagation();
+                      const rect = e.currentTarget.getBoundingClientRect();
+                      const below = e.clientY > rect.top + rect.height / 2;
+                      showTarget({
+                        columnKey: column.key,
+                        beforeId: below ? current[index + 1]?.id ?? null : task.id,
+                      });
+                    }}
+                  >
+                    {renderCard(task)}
+                  </div>
+                </div>
+              ))}
+              {isTarget && target.beforeId === null && indicator}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TaskBoard;
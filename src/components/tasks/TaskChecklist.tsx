@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useAddChecklistItem,
+  useChecklistItems,
+  useDeleteChecklistItem,
+  useSetChecklistItemDone,
+  type Task,
+} from "@/lib/repositories/tasks";
+import { toast } from "sonner";
+
+interface TaskChecklistProps {
+  task: Task;
+}
+
+const TaskChecklist = ({ task }: TaskChecklistProps) => {
+  const { user, userRole } = useAuth();
+  const isAdmin = userRole === "admin";
+  const canTick = isAdmin || task.assigned_to === user?.id;
+  const [body, setBody] = useState("");
+
+  const { data: items = [] } = useChecklistItems(task.id);
+  const addItem = useAddChecklistItem();
+  const setDone = useSetChecklistItemDone();
+  const deleteItem = useDeleteChecklistItem();
+
+  const done = items.filter(i => i.done).length;
+
+  const handleAdd = async () => {
+    if (!body.trim()) return;
+
+    try {
+      await addItem.mutateAsync({
+        task_id: task.id,
+        body: body.trim(),
+        position: Math.max(0, ...items.map(i => i.position)) + 1,
+      });
+    } catch (error) {
+      toast.error("Failed to add item");
+      return;
+    }
+
+    setBody("");
+  };
+
+  const toggle = (id: string, checked: boolean) => {
+    setDone.mutate({ id, done: checked }, { onError: () => toast.error("Failed to update item") });
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteItem.mutateAsync(id);
+    } catch (error) {
+      toast.error("Failed to delete item");
+    }
+  };
+
+  return (
+    <div className="space-y-3 py-2">
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">No checklist items</p>
+      ) : (
+        <>
+          <div className="flex items-center gap-3">
+            <Progress value={(done / items.length) * 100} className="h-2 flex-1" />
+            <span className="text-xs text-muted-foreground">
+              {done}/{items.length}
+            </span>
+          </div>
+          {items.map((item) => (
+            <div key={item.id} className="flex items-center gap-3 group">
+              <Checkbox
+                checked={item.done}
+                disabled={!canTick}
+                onCheckedChange={(checked) => toggle(item.id, checked === true)}
+              />
+              <span className={`flex-1 text-sm ${item.done ? "line-through text-muted-foreground" : ""}`}>
+                {item.body}
+              </span>
+              {isAdmin && (
+                <button
+                  onClick={() => handleDelete(item.id)}
+                  className="text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+        </>
+      )}
+
+      {isAdmin && (
+        <div className="flex gap-2 border-t pt-3">
+          <Input
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Add an item"
+            onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          />
+          <Button size="icon" onClick={handleAdd} disabled={!body.trim() || addItem.isPending}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskChecklist;
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useDeleteTaskColumn, useSaveTaskColumn, type TaskColumn } from "@/lib/repositories/taskColumns";
+import { TASK_STATUSES, TASK_STATUS_LABELS, type TaskStatus } from "@/lib/repositories/tasks";
+import { toast } from "sonner";
+
+interface TaskColumnsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project: { id: string; name: string } | null;
+  columns: TaskColumn[];
+}
+
+const TaskColumnsDialog = ({ open, onOpenChange, project, columns }: TaskColumnsDialogProps) => {
+  const [name, setName] = useState("");
+  const [status, setStatus] = useState<TaskStatus>("in_progress");
+
+  const saveColumn = useSaveTaskColumn();
+  const deleteColumn = useDeleteTaskColumn();
+
+  const ordered = TASK_STATUSES.flatMap(s =>
+    columns.filter(c => c.status === s).sort((a, b) => a.position - b.position)
+  );
+
+  const handleAdd = async () => {
+    if (!project || !name.trim()) return;
+
+    if (columns.some(c => c.name.toLowerCase() === name.trim().toLowerCase())) {
+      toast.error("This project already has a column with that name");
+      return;
+    }
+
+    try {
+      await saveColumn.mutateAsync({
+        column: {
+          project_id: project.id,
+          name: name.trim(),
+          status,
+          position: Math.max(0, ...columns.map(c => c.position)) + 1,
+        },
+      });
+    } catch (error) {
+      toast.error("Failed to add column");
+      return;
+    }
+
+    setName("");
+  };
+
+  const handleRename = async (column: TaskColumn, value: string) => {
+    if (!value.trim() || value.trim() === column.name) return;
+
+    try {
+      await saveColumn.mutateAsync({ id: column.id, column: { name: value.trim() } });
+    } catch (error) {
+      toast.error("Failed to rename column");
+    }
+  };
+
+  const handleStatus = async (column: TaskColumn, value: TaskStatus) => {
+    try {
+      await saveColumn.mutateAsync({ id: column.id, column: { status: value } });
+    } catch (error) {
+      toast.error("Failed to update column");
+    }
+  };
+
+  const handleDelete = async (column: TaskColumn) => {
+    if (!confirm(`Delete the "${column.name}" column? Its tasks move back to ${TASK_STATUS_LABELS[column.status]}.`)) return;
+
+    try {
+      await deleteColumn.mutateAsync(column.id);
+    } catch (error) {
+      toast.error("Failed to delete column");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Board Columns</DialogTitle>
+          <DialogDescription>
+            Extra workflow states for {project?.name}. Each column counts as one of the task statuses and sits after it on the board.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {ordered.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No custom columns yet</p>
+          )}
+          {ordered.map((column) => (
+            <div key={column.id} className="flex items-center gap-2">
+              <Input
+                defaultValue={column.name}
+                onBlur={(e) => handleRename(column, e.target.value)}
+                className="flex-1"
+              />
+              <Select value={column.status} onValueChange={(v: TaskStatus) => handleStatus(column, v)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_STATUSES.map((s) => (
+                    <SelectItem key={s} value={s}>{TASK_STATUS_LABELS[s]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="icon" variant="ghost" className="text-destructive" onClick={() => handleDelete(column)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 border-t pt-4">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Review, Blocked"
+            className="flex-1"
+            onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          />
+          <Select value={status} onValueChange={(v: TaskStatus) => setStatus(v)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TASK_STATUSES.map((s) => (
+                <SelectItem key={s} value={s}>{TASK_STATUS_LABELS[s]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="icon" onClick={handleAdd} disabled={!name.trim() || saveColumn.isPending}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskColumnsDialog;
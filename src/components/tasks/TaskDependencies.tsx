@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Link2, Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { errorMessage } from "@/lib/repositories/errors";
+import {
+  useAddTaskDependency,
+  useRemoveTaskDependency,
+  useTaskDependencyLinks,
+} from "@/lib/repositories/taskDependencies";
+import { EMPTY_TASK_FILTERS, TASK_STATUS_LABELS, useTaskPage, type Task, type TaskStatus } from "@/lib/repositories/tasks";
+import { toast } from "sonner";
+
+interface TaskDependenciesProps {
+  task: Task;
+}
+
+type Direction = "blocked_by" | "blocks";
+
+const LinkRow = ({ title, status, onRemove }: { title: string; status: TaskStatus; onRemove?: () => void }) => (
+  <div className="flex items-center gap-2 text-sm">
+    <span className={`flex-1 truncate ${status === "completed" ? "line-through text-muted-foreground" : ""}`}>{title}</span>
+    <Badge variant="secondary" className="text-xs">{TASK_STATUS_LABELS[status]}</Badge>
+    {onRemove && (
+      <button onClick={onRemove} className="text-muted-foreground hover:text-destructive">
+        <X className="w-3.5 h-3.5" />
+      </button>
+    )}
+  </div>
+);
+
+// Mounted only while the popover is open, so the search query runs on demand
+const TaskPicker = ({ exclude, onPick, disabled }: { exclude: Set<string>; onPick: (id: string) => void; disabled: boolean }) => {
+  const [search, setSearch] = useState("");
+  const term = useDebouncedValue(search);
+  const { data: results } = useTaskPage({ ...EMPTY_TASK_FILTERS, search: term }, 0, 8);
+  const candidates = (results?.tasks ?? []).filter(t => !exclude.has(t.id));
+
+  return (
+    <>
+      <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search tasks" />
+      <div className="max-h-48 overflow-y-auto">
+        {candidates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-3">No tasks found</p>
+        ) : (
+          candidates.map((candidate) => (
+            <button
+              key={candidate.id}
+              onClick={() => onPick(candidate.id)}
+              disabled={disabled}
+              className="w-full text-left text-sm px-2 py-1.5 rounded hover:bg-muted truncate"
+            >
+              {candidate.title}
+            </button>
+          ))
+        )}
+      </div>
+    </>
+  );
+};
+
+const TaskDependencies = ({ task }: TaskDependenciesProps) => {
+  const { user, userRole } = useAuth();
+  const isAdmin = userRole === "admin";
+  const [open, setOpen] = useState(false);
+  const [direction, setDirection] = useState<Direction>("blocked_by");
+
+  const { data: links = [] } = useTaskDependencyLinks([task.id]);
+  const addDependency = useAddTaskDependency();
+  const removeDependency = useRemoveTaskDependency();
+
+  const blockedBy = links.filter(l => l.task_id === task.id);
+  const blocks = links.filter(l => l.depends_on_id === task.id);
+  const linked = new Set([task.id, ...blockedBy.map(l => l.depends_on_id), ...blocks.map(l => l.task_id)]);
+
+  const handleAdd = async (otherId: string) => {
+    if (!user?.id) return;
+
+    const [taskId, dependsOnId] = direction === "blocked_by" ? [task.id, otherId] : [otherId, task.id];
+    try {
+      await addDependency.mutateAsync({ taskId, dependsOnId, createdBy: user.id });
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to add dependency"));
+      return;
+    }
+
+    setOpen(false);
+  };
+
+  const handleRemove = async (taskId: string, dependsOnId: string) => {
+    try {
+      await removeDependency.mutateAsync({ taskId, dependsOnId });
+    } catch (error) {
+      toast.error("Failed to remove dependency");
+    }
+  };
+
+  if (!isAdmin && links.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+          <Link2 className="w-3 h-3" />
+          Dependencies
+        </p>
+        {isAdmin && (
+          <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+              <Button size="sm" variant="ghost" className="h-7">
+                <Plus className="w-3 h-3 mr-1" />
+                Link
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 space-y-2">
+              <Select value={direction} onValueChange={(v: Direction) => setDirection(v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="blocked_by">This task is blocked by...</SelectItem>
+                  <SelectItem value="blocks">This task blocks...</SelectItem>
+                </SelectContent>
+              </Select>
+              <TaskPicker exclude={linked} onPick={handleAdd} disabled={addDependency.isPending} />
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+
+      {blockedBy.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Blocked by</p>
+          {blockedBy.map((link) => (
+            <LinkRow
+              key={link.depends_on_id}
+              title={link.depends_on_title}
+              status={link.depends_on_status}
+              onRemove={isAdmin ? () => handleRemove(link.task_id, link.depends_on_id) : undefined}
+            />
+          ))}
+        </div>
+      )}
+      {blocks.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Blocks</p>
+          {blocks.map((link) => (
+            <LinkRow
+              key={link.task_id}
+              title={link.task_title}
+              status={link.task_status}
+              onRemove={isAdmin ? () => handleRemove(link.task_id, link.depends_on_id) : undefined}
+            />
+          ))}
+        </div>
+      )}
+      {isAdmin && links.length === 0 && <p className="text-sm text-muted-foreground">No dependencies</p>}
+    </div>
+  );
+};
+
+export default TaskDependencies;
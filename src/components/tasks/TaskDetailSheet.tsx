@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { ArrowRight, Calendar, CircleDot, Clock, ListChecks, ListTree, MessageSquare, Plus, Reply, Trash2, UserCheck, X } from "lucide-react";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import SubtaskList from "@/components/tasks/SubtaskList";
+import TaskDependencies from "@/components/tasks/TaskDependencies";
+import TaskTimeLog from "@/components/tasks/TaskTimeLog";
+import TaskChecklist from "@/components/tasks/TaskChecklist";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDirectory } from "@/lib/repositories/profiles";
+import {
+  TASK_PRIORITY_COLORS,
+  TASK_PRIORITY_LABELS,
+  TASK_STATUS_LABELS,
+  useAddTaskComment,
+  useDeleteTaskComment,
+  useTask,
+  useTaskActivity,
+  useTaskComments,
+  type TaskActivity,
+  type TaskComment,
+  type TaskStatus,
+} from "@/lib/repositories/tasks";
+import { toast } from "sonner";
+
+interface TaskDetailSheetProps {
+  taskId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const initials = (name: string) =>
+  name.split(" ").map(n => n[0]).join("").slice(0, 2).toUpperCase();
+
+const formatDue = (value: string | null) => (value ? format(parseISO(value), "MMM d, yyyy") : null);
+
+const ACTIVITY_ICONS = {
+  created: Plus,
+  assigned: UserCheck,
+  status_changed: CircleDot,
+  due_date_changed: Calendar,
+};
+
+const TaskDetailSheet = ({ taskId, onOpenChange }: TaskDetailSheetProps) => {
+  const { user, userRole } = useAuth();
+  const [body, setBody] = useState("");
+  const [replyTo, setReplyTo] = useState<TaskComment | null>(null);
+
+  const { data: task } = useTask(taskId ?? undefined);
+  const { data: comments = [] } = useTaskComments(taskId ?? undefined);
+  const { data: activity = [] } = useTaskActivity(taskId ?? undefined);
+  const { data: directory = [] } = useDirectory();
+  const addComment = useAddTaskComment();
+  const deleteComment = useDeleteTaskComment();
+
+  const nameOf = (userId: string | null) =>
+    !userId ? "Someone" : userId === user?.id ? "You" : directory.find(p => p.user_id === userId)?.full_name || "Unknown";
+
+  const topLevel = comments.filter(c => !c.parent_id);
+  const repliesTo = (id: string) => comments.filter(c => c.parent_id === id);
+
+  const close = () => {
+    setBody("");
+    setReplyTo(null);
+    onOpenChange(false);
+  };
+
+  const handlePost = async () => {
+    if (!user?.id || !taskId || !body.trim()) return;
+
+    try {
+      await addComment.mutateAsync({
+        task_id: taskId,
+        author_id: user.id,
+        body: body.trim(),
+        parent_id: replyTo?.id ?? null,
+      });
+    } catch (error) {
+      toast.error("Failed to post comment");
+      return;
+    }
+
+    setBody("");
+    setReplyTo(null);
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    if (!confirm("Delete this comment?")) return;
+
+    try {
+      await deleteComment.mutateAsync({ id: comment.id, taskId: comment.task_id });
+    } catch (error) {
+      toast.error("Failed to delete comment");
+    }
+  };
+
+  const describeActivity = (entry: TaskActivity) => {
+    const actor = nameOf(entry.actor_id);
+    switch (entry.action) {
+      case "created":
+        return `${actor} created the task`;
+      case "assigned":
+        if (!entry.to_value) return `${actor} unassigned ${nameOf(entry.from_value)}`;
+        return entry.from_value
+          ? `${actor} reassigned it from ${nameOf(entry.from_value)} to ${nameOf(entry.to_value)}`
+          : `${actor} assigned it to ${nameOf(entry.to_value)}`;
+      case "status_changed":
+        return `${actor} moved it from ${TASK_STATUS_LABELS[entry.from_value as TaskStatus] || entry.from_value} to ${
+          TASK_STATUS_LABELS[entry.to_value as TaskStatus] || entry.to_value
+        }`;
+      case "due_date_changed":
+        if (!entry.to_value) return `${actor} removed the due date`;
+        return entry.from_value
+          ? `${actor} changed the due date from ${formatDue(entry.from_value)} to ${formatDue(entry.to_value)}`
+          : `${actor} set the due date to ${formatDue(entry.to_value)}`;
+      default:
+        return actor;
+    }
+  };
+
+  const CommentItem = ({ comment, isReply = false }: { comment: TaskComment; isReply?: boolean }) => {
+    const name = nameOf(comment.author_id);
+    const canDelete = comment.author_id === user?.id || userRole === "admin";
+    return (
+      <div className={`flex gap-3 ${isReply ? "ml-10" : ""}`}>
+        <Avatar className="w-7 h-7">
+          <AvatarFallback className="text-xs gradient-bg text-primary-foreground">{initials(name)}</AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-medium text-foreground">{name}</span>
+            <span className="text-muted-foreground">
+              {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+            </span>
+          </div>
+          <p className="text-sm whitespace-pre-wrap break-words">{comment.body}</p>
+          <div className="flex gap-2 mt-1">
+            {!isReply && (
+              <button
+                onClick={() => setReplyTo(comment)}
+                className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1"
+              >
+                <Reply className="w-3 h-3" />
+                Reply
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={() => handleDelete(comment)}
+                className="text-xs text-muted-foreground hover:text-destructive flex items-center gap-1"
+              >
+                <Trash2 className="w-3 h-3" />
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={!!taskId} onOpenChange={(open) => !open && close()}>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col">
+        {task ? (
+          <>
+            <SheetHeader>
+              <SheetTitle className="pr-6">{task.title}</SheetTitle>
+              <SheetDescription asChild>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary">{TASK_STATUS_LABELS[task.status]}</Badge>
+                  <Badge className={TASK_PRIORITY_COLORS[task.priority]}>{TASK_PRIORITY_LABELS[task.priority]}</Badge>
+                  <span className="flex items-center gap-1">
+                    <UserCheck className="w-3 h-3" />
+                    {task.assigned_to ? nameOf(task.assigned_to) : "Unassigned"}
+                  </span>
+                  {task.due_date && (
+                    <span className="flex items-center gap-1">
+                      <Calendar className="w-3 h-3" />
+                      Due {formatDue(task.due_date)}
+                    </span>
+                  )}
+                </div>
+              </SheetDescription>
+            </SheetHeader>
+
+            {task.labels.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-3">
+                {task.labels.map((label) => (
+                  <Badge key={label} variant="outline">{label}</Badge>
+                ))}
+              </div>
+            )}
+            {task.description && <p className="text-sm text-muted-foreground mt-4">{task.description}</p>}
+            {task.progress_note && (
+              <div className="mt-3 rounded-lg bg-muted/50 p-3 text-sm">
+                <p className="text-xs font-medium text-muted-foreground mb-1">Progress note</p>
+                <p className="whitespace-pre-wrap">{task.progress_note}</p>
+              </div>
+            )}
+
+            <TaskDependencies task={task} />
+
+            <Tabs defaultValue="comments" className="flex-1 flex flex-col min-h-0 mt-4">
+              <TabsList className="w-full justify-start overflow-x-auto">
+                <TabsTrigger value="comments">
+                  <MessageSquare className="w-4 h-4 mr-1" />
+                  Comments ({comments.length})
+                </TabsTrigger>
+                {!task.parent_id && (
+                  <TabsTrigger value="subtasks">
+                    <ListTree className="w-4 h-4 mr-1" />
+                    Subtasks
+                  </TabsTrigger>
+                )}
+                <TabsTrigger value="checklist">
+                  <ListChecks className="w-4 h-4 mr-1" />
+                  Checklist
+                </TabsTrigger>
+                <TabsTrigger value="time">
+                  <Clock className="w-4 h-4 mr-1" />
+                  Time
+                </TabsTrigger>
+                <TabsTrigger value="activity">Activity</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="comments" className="flex-1 flex flex-col min-h-0">
+                <ScrollArea className="flex-1 pr-3">
+                  <div className="space-y-4 py-2">
+                    {topLevel.length === 0 ? (
+                      <p className="text-sm text-muted-foreground text-center py-6">No comments yet</p>
+                    ) : (
+                      topLevel.map((comment) => (
+                        <div key={comment.id} className="space-y-3">
+                          <CommentItem comment={comment} />
+                          {repliesTo(comment.id).map((reply) => (
+                            <CommentItem key={reply.id} comment={reply} isReply />
+                          ))}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </ScrollArea>
+
+                <div className="border-t pt-3 space-y-2">
+                  {replyTo && (
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>Replying to {nameOf(replyTo.author_id)}</span>
+                      <button onClick={() => setReplyTo(null)} className="hover:text-foreground">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  )}
+                  <Textarea
+                    value={body}
+                    onChange={(e) => setBody(e.target.value)}
+                    placeholder="Write a comment"
+                    rows={2}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) handlePost();
+                    }}
+                  />
+                  <div className="flex justify-end">
+                    <Button size="sm" onClick={handlePost} disabled={!body.trim() || addComment.isPending}>
+                      {addComment.isPending ? "Posting..." : replyTo ? "Reply" : "Comment"}
+                    </Button>
+                  </div>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="subtasks" className="flex-1 min-h-0">
+                <ScrollArea className="h-full pr-3">
+                  <SubtaskList task={task} />
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="checklist" className="flex-1 min-h-0">
+                <ScrollArea className="h-full pr-3">
+                  <TaskChecklist task={task} />
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="time" className="flex-1 min-h-0">
+                <ScrollArea className="h-full pr-3">
+                  <TaskTimeLog task={task} />
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="activity" className="flex-1 min-h-0">
+                <ScrollArea className="h-full pr-3">
+                  <div className="space-y-3 py-2">
+                    {activity.map((entry) => {
+                      const Icon = ACTIVITY_ICONS[entry.action] ?? ArrowRight;
+                      return (
+                        <div key={entry.id} className="flex gap-3">
+                          <div className="w-7 h-7 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+                            <Icon className="w-3.5 h-3.5 text-muted-foreground" />
+                          </div>
+                          <div>
+                            <p className="text-sm">{describeActivity(entry)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {format(new Date(entry.created_at), "MMM d, yyyy · h:mm a")}
+                            </p>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </ScrollArea>
+              </TabsContent>
+            </Tabs>
+          </>
+        ) : (
+          <SheetHeader>
+            <SheetTitle>Task</SheetTitle>
+            <SheetDescription>This task could not be found</SheetDescription>
+          </SheetHeader>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TaskDetailSheet;
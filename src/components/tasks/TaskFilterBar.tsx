@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { Bookmark, Search, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useDeleteTaskFilterPreset,
+  useSaveTaskFilterPreset,
+  useTaskFilterPresets,
+} from "@/lib/repositories/taskFilterPresets";
+import {
+  EMPTY_TASK_FILTERS,
+  TASK_PRIORITIES,
+  TASK_PRIORITY_LABELS,
+  TASK_STATUSES,
+  TASK_STATUS_LABELS,
+  type TaskFilters,
+  type TaskPriority,
+  type TaskStatus,
+} from "@/lib/repositories/tasks";
+import { toast } from "sonner";
+
+interface TaskFilterBarProps {
+  filters: TaskFilters;
+  onChange: (filters: TaskFilters) => void;
+  members: { user_id: string; full_name: string }[];
+  projects: { id: string; name: string }[];
+  labels: string[];
+}
+
+const TaskFilterBar = ({ filters, onChange, members, projects, labels }: TaskFilterBarProps) => {
+  const { user } = useAuth();
+  const [presetName, setPresetName] = useState<string | null>(null);
+
+  const { data: presets = [] } = useTaskFilterPresets(user?.id);
+  const savePreset = useSaveTaskFilterPreset();
+  const deletePreset = useDeleteTaskFilterPreset();
+
+  const set = <K extends keyof TaskFilters>(key: K, value: TaskFilters[K]) => onChange({ ...filters, [key]: value });
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(EMPTY_TASK_FILTERS);
+
+  const handleSavePreset = async () => {
+    if (!user?.id || !presetName?.trim()) return;
+
+    try {
+      await savePreset.mutateAsync({ userId: user.id, name: presetName.trim(), filters });
+    } catch (error) {
+      toast.error("Failed to save preset");
+      return;
+    }
+
+    toast.success("Preset saved!");
+    setPresetName(null);
+  };
+
+  const handleDeletePreset = async (id: string) => {
+    try {
+      await deletePreset.mutateAsync(id);
+    } catch (error) {
+      toast.error("Failed to delete preset");
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-3">
+      <div className="relative flex-1 min-w-48">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={filters.search}
+          onChange={(e) => set("search", e.target.value)}
+          placeholder="Search tasks"
+          className="pl-10"
+        />
+      </div>
+      <Select value={filters.assignee} onValueChange={(v) => set("assignee", v)}>
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Anyone</SelectItem>
+          <SelectItem value="none">Unassigned</SelectItem>
+          {members.map((member) => (
+            <SelectItem key={member.user_id} value={member.user_id}>{member.full_name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={filters.project} onValueChange={(v) => set("project", v)}>
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Projects</SelectItem>
+          <SelectItem value="none">No Project</SelectItem>
+          {projects.map((project) => (
+            <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={filters.status} onValueChange={(v: TaskStatus | "all") => set("status", v)}>
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Statuses</SelectItem>
+          {TASK_STATUSES.map((s) => (
+            <SelectItem key={s} value={s}>{TASK_STATUS_LABELS[s]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={filters.priority} onValueChange={(v: TaskPriority | "all") => set("priority", v)}>
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Any Priority</SelectItem>
+          {TASK_PRIORITIES.map((p) => (
+            <SelectItem key={p} value={p}>{TASK_PRIORITY_LABELS[p]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={filters.label} onValueChange={(v) => set("label", v)}>
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Any Label</SelectItem>
+          {labels.map((label) => (
+            <SelectItem key={label} value={label}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          value={filters.dueFrom}
+          onChange={(e) => set("dueFrom", e.target.value)}
+          className="w-36"
+          aria-label="Due from"
+        />
+        <span className="text-sm text-muted-foreground">to</span>
+        <Input
+          type="date"
+          value={filters.dueTo}
+          onChange={(e) => set("dueTo", e.target.value)}
+          className="w-36"
+          aria-label="Due to"
+        />
+      </div>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Bookmark className="w-4 h-4 mr-2" />
+            Presets
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          {presets.length > 0 && (
+            <>
+              <DropdownMenuLabel>Saved filters</DropdownMenuLabel>
+              {presets.map((preset) => (
+                <DropdownMenuItem key={preset.id} onSelect={() => onChange(preset.filters)}>
+                  <span className="flex-1 truncate">{preset.name}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeletePreset(preset.id);
+                    }}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem disabled={!isFiltered} onSelect={() => setPresetName("")}>
+            Save current filters...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {isFiltered && (
+        <Button variant="ghost" onClick={() => onChange(EMPTY_TASK_FILTERS)}>
+          <X className="w-4 h-4 mr-2" />
+          Clear
+        </Button>
+      )}
+
+      <Dialog open={presetName !== null} onOpenChange={(open) => !open && setPresetName(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Filter Preset</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={presetName ?? ""}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="e.g. Urgent this week"
+            onKeyDown={(e) => e.key === "Enter" && handleSavePreset()}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPresetName(null)}>Cancel</Button>
+            <Button onClick={handleSavePreset} disabled={!presetName?.trim() || savePreset.isPending}>
+              {savePreset.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TaskFilterBar;
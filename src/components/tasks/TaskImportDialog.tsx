@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { AlertCircle, CheckCircle2, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { parseCsv } from "@/lib/csv";
+import { useCreateTasks } from "@/lib/repositories/tasks";
+import {
+  TASK_CSV_FIELDS,
+  TASK_CSV_FIELD_LABELS,
+  guessMapping,
+  validateTaskRows,
+  type TaskCsvMapping,
+} from "@/lib/taskCsv";
+import { toast } from "sonner";
+
+const MAX_IMPORT_ROWS = 1000;
+
+interface TaskImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  members: { user_id: string; email: string }[];
+  projects: { id: string; name: string }[];
+}
+
+const TaskImportDialog = ({ open, onOpenChange, members, projects }: TaskImportDialogProps) => {
+  const { user } = useAuth();
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<TaskCsvMapping | null>(null);
+  const createTasks = useCreateTasks();
+
+  const preview = mapping && user?.id ? validateTaskRows(rows, mapping, members, projects, user.id) : [];
+  const valid = preview.filter(row => row.task);
+  const invalid = preview.length - valid.length;
+
+  const reset = () => {
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping(null);
+  };
+
+  const close = () => {
+    reset();
+    onOpenChange(false);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const [header = [], ...data] = parseCsv(await file.text());
+    if (data.length === 0) {
+      toast.error("That file has no rows to import");
+      return;
+    }
+    if (data.length > MAX_IMPORT_ROWS) {
+      toast.error(`Import at most ${MAX_IMPORT_ROWS} tasks at a time`);
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(header);
+    setRows(data);
+    setMapping(guessMapping(header));
+  };
+
+  const handleImport = async () => {
+    if (valid.length === 0) return;
+
+    try {
+      await createTasks.mutateAsync(valid.map(row => row.task!));
+    } catch (error) {
+      toast.error("Failed to import tasks");
+      return;
+    }
+
+    toast.success(`Imported ${valid.length} tasks`);
+    close();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Tasks</DialogTitle>
+          <DialogDescription>
+            Upload a CSV file with a header row. Assignees are matched by email and projects by name; dates use YYYY-MM-DD.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!mapping ? (
+          <label className="flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed py-12 cursor-pointer hover:bg-muted/50">
+            <Upload className="w-8 h-8 text-muted-foreground" />
+            <span className="text-sm text-muted-foreground">Choose a .csv file</span>
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        ) : (
+          <div className="space-y-4 min-h-0 flex flex-col">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{fileName}</span>
+              <Button variant="ghost" size="sm" onClick={reset}>Choose another file</Button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {TASK_CSV_FIELDS.map((field) => (
+                <div key={field}>
+                  <label className="text-xs font-medium text-muted-foreground mb-1 block">
+                    {TASK_CSV_FIELD_LABELS[field]}{field === "title" && " *"}
+                  </label>
+                  <Select
+                    value={mapping[field] === null ? "none" : String(mapping[field])}
+                    onValueChange={(v) => setMapping({ ...mapping, [field]: v === "none" ? null : Number(v) })}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Don't import</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2 text-sm">
+              <Badge className="bg-green-100 text-green-700">{valid.length} ready</Badge>
+              {invalid > 0 && <Badge className="bg-red-100 text-red-700">{invalid} with errors</Badge>}
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-auto rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map((row) => (
+                    <TableRow key={row.row} className={row.task ? "" : "bg-destructive/5"}>
+                      <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                      <TableCell className="font-medium">{row.title || "—"}</TableCell>
+                      <TableCell>
+                        {row.task ? (
+                          <span className="flex items-center gap-1 text-green-700">
+                            <CheckCircle2 className="w-4 h-4" />
+                            Ready
+                          </span>
+                        ) : (
+                          <ul className="space-y-0.5 text-destructive">
+                            {row.errors.map((error) => (
+                              <li key={error} className="flex items-start gap-1">
+                                <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                                {error}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {invalid > 0 && valid.length > 0 && (
+            <p className="text-xs text-muted-foreground mr-auto self-center">Rows with errors are skipped</p>
+          )}
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button onClick={handleImport} disabled={valid.length === 0 || createTasks.isPending}>
+            {createTasks.isPending ? "Importing..." : `Import ${valid.length} Tasks`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskImportDialog;
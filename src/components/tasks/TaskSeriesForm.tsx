@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Toggle } from "@/components/ui/toggle";
+import { useAuth } from "@/contexts/AuthContext";
+import { todayKey } from "@/lib/attendance";
+import { RECURRENCE_LABELS, describeRecurrence, type RecurrenceFrequency } from "@/lib/recurrence";
+import { useCreateTaskSeries, type TaskTemplate } from "@/lib/repositories/taskTemplates";
+import { toast } from "sonner";
+
+const WEEKDAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"];
+const INTERVAL_UNITS: Partial<Record<RecurrenceFrequency, string>> = { daily: "day", weekly: "week", monthly: "month" };
+
+interface TaskSeriesFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template: TaskTemplate | null;
+}
+
+const emptyForm = () => ({
+  frequency: "weekly" as RecurrenceFrequency,
+  interval: "1",
+  weekdays: [new Date().getDay()],
+  startsOn: todayKey(),
+  endsOn: "",
+  dueAfterDays: "0",
+});
+
+const TaskSeriesForm = ({ open, onOpenChange, template }: TaskSeriesFormProps) => {
+  const { user } = useAuth();
+  const [formData, setFormData] = useState(emptyForm);
+  const createSeries = useCreateTaskSeries();
+
+  useEffect(() => {
+    if (open) setFormData(emptyForm());
+  }, [open]);
+
+  const update = (patch: Partial<ReturnType<typeof emptyForm>>) => setFormData({ ...formData, ...patch });
+
+  const toggleWeekday = (day: number) =>
+    update({
+      weekdays: formData.weekdays.includes(day)
+        ? formData.weekdays.filter(d => d !== day)
+        : [...formData.weekdays, day].sort((a, b) => a - b),
+    });
+
+  const interval = INTERVAL_UNITS[formData.frequency] ? Math.min(52, Math.max(1, Number(formData.interval) || 1)) : 1;
+  const recurrence = {
+    frequency: formData.frequency,
+    interval,
+    weekdays: formData.frequency === "weekly" ? formData.weekdays : [],
+    until: formData.endsOn || null,
+    count: null,
+  };
+
+  const handleSubmit = async () => {
+    if (!user?.id || !template) return;
+
+    if (!formData.startsOn) {
+      toast.error("Please choose a start date");
+      return;
+    }
+    if (formData.endsOn && formData.endsOn < formData.startsOn) {
+      toast.error("The end date must be on or after the start date");
+      return;
+    }
+    if (formData.frequency === "weekly" && formData.weekdays.length === 0) {
+      toast.error("Pick at least one day of the week");
+      return;
+    }
+
+    try {
+      await createSeries.mutateAsync({
+        template_id: template.id,
+        frequency: formData.frequency,
+        repeat_interval: interval,
+        weekdays: recurrence.weekdays,
+        starts_on: formData.startsOn,
+        ends_on: formData.endsOn || null,
+        due_after_days: Math.max(0, Number(formData.dueAfterDays) || 0),
+        created_by: user.id,
+      });
+    } catch (error) {
+      toast.error("Failed to schedule template");
+      return;
+    }
+
+    toast.success("Schedule created!");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Schedule "{template?.name}"</DialogTitle>
+          <DialogDescription>
+            A new task is created from the template on each date of the schedule.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Repeat className="w-4 h-4 text-muted-foreground" />
+            <Select value={formData.frequency} onValueChange={(v: RecurrenceFrequency) => update({ frequency: v })}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RECURRENCE_LABELS) as RecurrenceFrequency[]).map((frequency) => (
+                  <SelectItem key={frequency} value={frequency}>{RECURRENCE_LABELS[frequency]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {INTERVAL_UNITS[formData.frequency] && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                every
+                <Input
+                  type="number"
+                  min={1}
+                  max={52}
+                  className="w-16"
+                  value={formData.interval}
+                  onChange={(e) => update({ interval: e.target.value })}
+                />
+                {INTERVAL_UNITS[formData.frequency]}(s)
+              </div>
+            )}
+          </div>
+          {formData.frequency === "weekly" && (
+            <div className="flex gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <Toggle
+                  key={day}
+                  size="sm"
+                  variant="outline"
+                  className="w-9"
+                  pressed={formData.weekdays.includes(day)}
+                  onPressedChange={() => toggleWeekday(day)}
+                >
+                  {label}
+                </Toggle>
+              ))}
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-1 block">Starts On *</label>
+              <Input type="date" value={formData.startsOn} onChange={(e) => update({ startsOn: e.target.value })} />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1 block">Ends On</label>
+              <Input type="date" value={formData.endsOn} onChange={(e) => update({ endsOn: e.target.value })} />
+            </div>
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-1 block">Due</label>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Input
+                type="number"
+                min={0}
+                className="w-20"
+                value={formData.dueAfterDays}
+                onChange={(e) => update({ dueAfterDays: e.target.value })}
+              />
+              days after each task is created
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">{describeRecurrence(recurrence)}</p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={createSeries.isPending}>
+            {createSeries.isPending ? "Saving..." : "Schedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskSeriesForm;
@@ -0,0 +1,237 @@
+import { useEffect, useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import LabelInput from "@/components/tasks/LabelInput";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSaveTaskTemplate, type TaskTemplate } from "@/lib/repositories/taskTemplates";
+import { TASK_PRIORITIES, TASK_PRIORITY_LABELS, type TaskPriority } from "@/lib/repositories/tasks";
+import { toast } from "sonner";
+
+interface TaskTemplateFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Editing an existing template; otherwise a new one is created
+  template?: TaskTemplate | null;
+  members: { user_id: string; full_name: string }[];
+  projects: { id: string; name: string }[];
+  labels: string[];
+}
+
+const toFormData = (template: TaskTemplate | null | undefined) => ({
+  name: template?.name ?? "",
+  title: template?.title ?? "",
+  description: template?.description ?? "",
+  assignedTo: template?.assigned_to ?? "none",
+  projectId: template?.project_id ?? "none",
+  priority: (template?.priority ?? "medium") as TaskPriority,
+  labels: template?.labels ?? [],
+  estimatedHours: template?.estimated_hours?.toString() ?? "",
+  checklist: template?.checklist ?? [],
+});
+
+const TaskTemplateForm = ({ open, onOpenChange, template, members, projects, labels }: TaskTemplateFormProps) => {
+  const { user } = useAuth();
+  const [formData, setFormData] = useState(toFormData(template));
+  const [item, setItem] = useState("");
+  const saveTemplate = useSaveTaskTemplate();
+
+  useEffect(() => {
+    if (open) {
+      setFormData(toFormData(template));
+      setItem("");
+    }
+  }, [open, template]);
+
+  const addItem = () => {
+    if (!item.trim()) return;
+    setFormData({ ...formData, checklist: [...formData.checklist, item.trim()] });
+    setItem("");
+  };
+
+  const removeItem = (index: number) =>
+    setFormData({ ...formData, checklist: formData.checklist.filter((_, i) => i !== index) });
+
+  const handleSubmit = async () => {
+    if (!user?.id) return;
+    if (!formData.name.trim() || !formData.title.trim()) {
+      toast.error("Please enter a template name and task title");
+      return;
+    }
+
+    const values = {
+      name: formData.name.trim(),
+      title: formData.title.trim(),
+      description: formData.description.trim() || null,
+      assigned_to: formData.assignedTo === "none" ? null : formData.assignedTo,
+      project_id: formData.projectId === "none" ? null : formData.projectId,
+      priority: formData.priority,
+      labels: formData.labels,
+      estimated_hours: formData.estimatedHours ? Number(formData.estimatedHours) : null,
+      // An item typed but not yet added still belongs to the checklist
+      checklist: item.trim() ? [...formData.checklist, item.trim()] : formData.checklist,
+    };
+
+    try {
+      if (template) {
+        await saveTemplate.mutateAsync({ id: template.id, template: values });
+      } else {
+        await saveTemplate.mutateAsync({ template: { ...values, created_by: user.id } });
+      }
+    } catch (error) {
+      toast.error("Failed to save template");
+      return;
+    }
+
+    toast.success(template ? "Template updated!" : "Template created!");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Template" : "New Template"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm font-medium mb-1 block">Template Name *</label>
+            <Input
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="e.g. Weekly status report"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-1 block">Task Title *</label>
+            <Input
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              placeholder="Title of each task created from this template"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-1 block">Description</label>
+            <Textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              rows={2}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-1 block">Assign To</label>
+              <Select value={formData.assignedTo} onValueChange={(v) => setFormData({ ...formData, assignedTo: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unassigned</SelectItem>
+                  {members.map(member => (
+                    <SelectItem key={member.user_id} value={member.user_id}>
+                      {member.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1 block">Project</label>
+              <Select value={formData.projectId} onValueChange={(v) => setFormData({ ...formData, projectId: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No project</SelectItem>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-1 block">Priority</label>
+              <Select
+                value={formData.priority}
+                onValueChange={(v: TaskPriority) => setFormData({ ...formData, priority: v })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_PRIORITIES.map(priority => (
+                    <SelectItem key={priority} value={priority}>
+                      {TASK_PRIORITY_LABELS[priority]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1 block">Estimated Hours</label>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={formData.estimatedHours}
+                onChange={(e) => setFormData({ ...formData, estimatedHours: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-1 block">Labels</label>
+            <LabelInput
+              value={formData.labels}
+              onChange={(labels) => setFormData({ ...formData, labels })}
+              suggestions={labels}
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-1 block">Checklist</label>
+            <div className="space-y-1">
+              {formData.checklist.map((body, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 rounded border px-3 py-1.5">{body}</span>
+                  <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => removeItem(index)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Input
+                  value={item}
+                  onChange={(e) => setItem(e.target.value)}
+                  placeholder="Add a checklist item"
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addItem();
+                    }
+                  }}
+                />
+                <Button size="icon" variant="outline" onClick={addItem} disabled={!item.trim()}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saveTemplate.isPending}>
+            {saveTemplate.isPending ? "Saving..." : template ? "Update" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskTemplateForm;
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { CalendarPlus, Edit2, Pause, Play, Plus, Repeat, Square, Trash2 } from "lucide-react";
+import { format, parseISO, subDays } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import TaskSeriesForm from "@/components/tasks/TaskSeriesForm";
+import TaskTemplateForm from "@/components/tasks/TaskTemplateForm";
+import { todayKey } from "@/lib/attendance";
+import { describeRecurrence } from "@/lib/recurrence";
+import {
+  TASK_SERIES_STATE_LABELS,
+  seriesRecurrence,
+  seriesState,
+  useDeleteTaskSeries,
+  useDeleteTaskTemplate,
+  useTaskTemplates,
+  useUpdateTaskSeries,
+  type TaskSeries,
+  type TaskSeriesState,
+  type TaskTemplate,
+} from "@/lib/repositories/taskTemplates";
+import { toast } from "sonner";
+
+interface TaskTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  members: { user_id: string; full_name: string }[];
+  projects: { id: string; name: string }[];
+  labels: string[];
+}
+
+const STATE_COLORS: Record<TaskSeriesState, string> = {
+  active: "bg-green-100 text-green-700",
+  paused: "bg-yellow-100 text-yellow-700",
+  ended: "bg-gray-100 text-gray-700",
+};
+
+const TaskTemplatesDialog = ({ open, onOpenChange, members, projects, labels }: TaskTemplatesDialogProps) => {
+  const [editing, setEditing] = useState<TaskTemplate | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [scheduling, setScheduling] = useState<TaskTemplate | null>(null);
+
+  const { data: templates = [], isLoading } = useTaskTemplates(open);
+  const deleteTemplate = useDeleteTaskTemplate();
+  const updateSeries = useUpdateTaskSeries();
+  const deleteSeries = useDeleteTaskSeries();
+
+  const nameOf = (userId: string | null) =>
+    userId ? members.find(m => m.user_id === userId)?.full_name ?? "Unknown" : "Unassigned";
+
+  const openForm = (template: TaskTemplate | null) => {
+    setEditing(template);
+    setShowForm(true);
+  };
+
+  const handleDeleteTemplate = async (template: TaskTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template and its schedules? Tasks already created stay.`)) return;
+
+    try {
+      await deleteTemplate.mutateAsync(template.id);
+    } catch (error) {
+      toast.error("Failed to delete template");
+    }
+  };
+
+  const setPaused = async (series: TaskSeries, paused: boolean) => {
+    try {
+      await updateSeries.mutateAsync({ id: series.id, patch: { paused } });
+    } catch (error) {
+      toast.error("Failed to update schedule");
+      return;
+    }
+    toast.success(paused ? "Schedule paused" : "Schedule resumed");
+  };
+
+  // Stops at the last day already generated, so tasks that exist are kept
+  const endSeries = async (series: TaskSeries) => {
+    if (!confirm("End this schedule? No more tasks will be created from it.")) return;
+
+    const lastDay = series.generated_through ?? format(subDays(parseISO(todayKey()), 1), "yyyy-MM-dd");
+
+    try {
+      await updateSeries.mutateAsync({ id: series.id, patch: { ends_on: lastDay } });
+    } catch (error) {
+      toast.error("Failed to end schedule");
+      return;
+    }
+    toast.success("Schedule ended");
+  };
+
+  const handleDeleteSeries = async (series: TaskSeries) => {
+    if (!confirm("Delete this schedule? Tasks already created stay.")) return;
+
+    try {
+      await deleteSeries.mutateAsync(series.id);
+    } catch (error) {
+      toast.error("Failed to delete schedule");
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Task Templates</DialogTitle>
+            <DialogDescription>
+              Reusable tasks with a default assignee and checklist. Schedule a template to create its task on a regular cadence.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex justify-end">
+            <Button size="sm" onClick={() => openForm(null)}>
+              <Plus className="w-4 h-4 mr-1" />
+              New Template
+            </Button>
+          </div>
+
+          <div className="max-h-[60vh] overflow-y-auto pr-1">
+            {templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                {isLoading ? "Loading templates..." : "No templates yet"}
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {templates.map((template) => (
+                  <div key={template.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium text-foreground">{template.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {template.title} · {nameOf(template.assigned_to)}
+                          {template.checklist.length > 0 && ` · ${template.checklist.length} checklist items`}
+                        </p>
+                      </div>
+                      <div className="flex gap-1 flex-shrink-0">
+                        <Button size="sm" variant="outline" onClick={() => setScheduling(template)}>
+                          <CalendarPlus className="w-3 h-3 mr-1" />
+                          Schedule
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openForm(template)}>
+                          <Edit2 className="w-3 h-3" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-destructive"
+                          onClick={() => handleDeleteTemplate(template)}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {template.series.map((series) => {
+                      const state = seriesState(series);
+                      return (
+                        <div key={series.id} className="flex items-center gap-2 rounded bg-muted/50 px-3 py-2 text-sm">
+                          <Repeat className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                          <span className="flex-1 min-w-0">
+                            {describeRecurrence(seriesRecurrence(series))}
+                            <span className="text-xs text-muted-foreground">
+                              {" "}· from {format(parseISO(series.starts_on), "MMM d, yyyy")}
+                            </span>
+                          </span>
+                          <Badge className={STATE_COLORS[state]}>{TASK_SERIES_STATE_LABELS[state]}</Badge>
+                          {state === "active" && (
+                            <Button size="icon" variant="ghost" className="h-7 w-7" title="Pause" onClick={() => setPaused(series, true)}>
+                              <Pause className="w-3 h-3" />
+                            </Button>
+                          )}
+                          {state === "paused" && (
+                            <Button size="icon" variant="ghost" className="h-7 w-7" title="Resume" onClick={() => setPaused(series, false)}>
+                              <Play className="w-3 h-3" />
+                            </Button>
+                          )}
+                          {state !== "ended" && (
+                            <Button size="icon" variant="ghost" className="h-7 w-7" title="End" onClick={() => endSeries(series)}>
+                              <Square className="w-3 h-3" />
+                            </Button>
+                          )}
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 text-destructive"
+                            title="Delete"
+                            onClick={() => handleDeleteSeries(series)}
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <TaskTemplateForm
+        open={showForm}
+        onOpenChange={setShowForm}
+        template={editing}
+        members={members}
+        projects={projects}
+        labels={labels}
+      />
+      <TaskSeriesForm
+        open={!!scheduling}
+        onOpenChange={(isOpen) => !isOpen && setScheduling(null)}
+        template={scheduling}
+      />
+    </>
+  );
+};
+
+export default TaskTemplatesDialog;
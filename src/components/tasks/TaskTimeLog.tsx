@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { Clock, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useAuth } from "@/contexts/AuthContext";
+import { todayKey } from "@/lib/attendance";
+import { useDirectory } from "@/lib/repositories/profiles";
+import {
+  formatMinutes,
+  useCreateTimeEntry,
+  useDeleteTimeEntry,
+  useTaskTimeTotals,
+  useTimeEntries,
+} from "@/lib/repositories/timeEntries";
+import type { Task } from "@/lib/repositories/tasks";
+import { toast } from "sonner";
+
+interface TaskTimeLogProps {
+  task: Task;
+}
+
+const TaskTimeLog = ({ task }: TaskTimeLogProps) => {
+  const { user, userRole } = useAuth();
+  const [draft, setDraft] = useState({ date: todayKey(), hours: "", note: "" });
+
+  const { data: entries = [] } = useTimeEntries({ taskId: task.id });
+  const { data: totals } = useTaskTimeTotals([task.id]);
+  const { data: directory = [] } = useDirectory();
+  const createEntry = useCreateTimeEntry();
+  const deleteEntry = useDeleteTimeEntry();
+
+  const logged = totals?.get(task.id) ?? 0;
+  const estimateMinutes = task.estimated_hours ? task.estimated_hours * 60 : null;
+  const nameOf = (userId: string) =>
+    userId === user?.id ? "You" : directory.find(p => p.user_id === userId)?.full_name || "Unknown";
+
+  const handleLog = async () => {
+    const minutes = Math.round(Number(draft.hours) * 60);
+    if (!user?.id || !minutes || minutes <= 0) {
+      toast.error("Please enter the hours spent");
+      return;
+    }
+    if (minutes > 24 * 60) {
+      toast.error("A single entry cannot exceed 24 hours");
+      return;
+    }
+
+    try {
+      await createEntry.mutateAsync({
+        user_id: user.id,
+        task_id: task.id,
+        date: draft.date,
+        minutes,
+        note: draft.note.trim() || null,
+      });
+    } catch (error) {
+      toast.error("Failed to log time");
+      return;
+    }
+
+    toast.success("Time logged!");
+    setDraft({ ...draft, hours: "", note: "" });
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteEntry.mutateAsync(id);
+    } catch (error) {
+      toast.error("Failed to delete entry");
+    }
+  };
+
+  return (
+    <div className="space-y-4 py-2">
+      <div>
+        <div className="flex justify-between text-sm mb-1">
+          <span className="text-muted-foreground">Logged</span>
+          <span className={`font-medium ${estimateMinutes && logged > estimateMinutes ? "text-destructive" : ""}`}>
+            {formatMinutes(logged)}
+            {estimateMinutes ? ` of ${formatMinutes(estimateMinutes)} estimated` : " · no estimate"}
+          </span>
+        </div>
+        {estimateMinutes ? <Progress value={Math.min(100, (logged / estimateMinutes) * 100)} className="h-2" /> : null}
+      </div>
+
+      <div className="grid grid-cols-[1fr_6rem] gap-2">
+        <Input type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} />
+        <Input
+          type="number"
+          min="0.25"
+          max="24"
+          step="0.25"
+          value={draft.hours}
+          onChange={(e) => setDraft({ ...draft, hours: e.target.value })}
+          placeholder="Hours"
+        />
+        <Input
+          value={draft.note}
+          onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+          placeholder="What was done (optional)"
+          onKeyDown={(e) => e.key === "Enter" && handleLog()}
+        />
+        <Button onClick={handleLog} disabled={!draft.hours || createEntry.isPending}>
+          <Clock className="w-4 h-4 mr-1" />
+          Log
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No time logged yet</p>
+        ) : (
+          entries.map((entry) => (
+            <div key={entry.id} className="flex items-start gap-3 text-sm">
+              <span className="font-medium w-16 flex-shrink-0">{formatMinutes(entry.minutes)}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-muted-foreground">
+                  {nameOf(entry.user_id)} · {format(parseISO(entry.date), "MMM d, yyyy")}
+                </p>
+                {entry.note && <p className="break-words">{entry.note}</p>}
+              </div>
+              {(entry.user_id === user?.id || userRole === "admin") && (
+                <button
+                  onClick={() => handleDelete(entry.id)}
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaskTimeLog;
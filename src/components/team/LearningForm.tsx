@@ -5,15 +5,15 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { todayKey } from "@/lib/attendance";
+import { useLearningUpdates, useCreateLearningUpdate, useDeleteLearningUpdate } from "@/lib/repositories/learningUpdates";
 import { format } from "date-fns";
 import { toast } from "sonner";
 
 const LearningForm = () => {
   const { user } = useAuth();
-  const queryClient = useQueryClient();
-  const [isLoading, setIsLoading] = useState(false);
+  const createLearningUpdate = useCreateLearningUpdate();
+  const deleteLearningUpdate = useDeleteLearningUpdate();
   const [formData, setFormData] = useState({
     topic: "",
     description: "",
@@ -25,21 +25,7 @@ const LearningForm = () => {
   });
 
   // Fetch today's learning updates
-  const { data: todayLearning = [] } = useQuery({
-    queryKey: ["today-learning", user?.id],
-    queryFn: async () => {
-      if (!user?.id) return [];
-      const today = format(new Date(), "yyyy-MM-dd");
-      const { data } = await supabase
-        .from("learning_updates")
-        .select("*")
-        .eq("user_id", user.id)
-        .eq("date", today)
-        .order("created_at", { ascending: false });
-      return data || [];
-    },
-    enabled: !!user?.id,
-  });
+  const { data: todayLearning = [] } = useLearningUpdates(user?.id, { date: todayKey() });
 
   const handleAddLink = () => {
     setFormData({ ...formData, links: [...formData.links, ""] });
@@ -65,28 +51,23 @@ const LearningForm = () => {
       return;
     }
 
-    setIsLoading(true);
-
-    const today = format(new Date(), "yyyy-MM-dd");
+    const today = todayKey();
     const filteredLinks = formData.links.filter((link) => link.trim());
 
-    const { error } = await supabase.from("learning_updates").insert({
-      user_id: user.id,
-      topic: formData.topic.trim(),
-      description: formData.description.trim() || null,
-      key_learnings: formData.keyLearnings.trim() || null,
-      date: today,
-      start_time: formData.startTime || null,
-      end_time: formData.endTime || null,
-      links: filteredLinks.length ? filteredLinks : null,
-      notes: formData.notes.trim() || null,
-    });
-
-    setIsLoading(false);
-
-    if (error) {
+    try {
+      await createLearningUpdate.mutateAsync({
+        user_id: user.id,
+        topic: formData.topic.trim(),
+        description: formData.description.trim() || null,
+        key_learnings: formData.keyLearnings.trim() || null,
+        date: today,
+        start_time: formData.startTime || null,
+        end_time: formData.endTime || null,
+        links: filteredLinks.length ? filteredLinks : null,
+        notes: formData.notes.trim() || null,
+      });
+    } catch (error) {
       toast.error("Failed to save learning update");
-      console.error(error);
       return;
     }
 
@@ -100,19 +81,16 @@ const LearningForm = () => {
       links: [""],
       notes: "",
     });
-    queryClient.invalidateQueries({ queryKey: ["today-learning"] });
-    queryClient.invalidateQueries({ queryKey: ["my-learning"] });
   };
 
   const handleDelete = async (id: string) => {
-    const { error } = await supabase.from("learning_updates").delete().eq("id", id);
-    if (error) {
+    try {
+      await deleteLearningUpdate.mutateAsync(id);
+    } catch (error) {
       toast.error("Failed to delete");
       return;
     }
     toast.success("Deleted!");
-    queryClient.invalidateQueries({ queryKey: ["today-learning"] });
-    queryClient.invalidateQueries({ queryKey: ["my-learning"] });
   };
 
   return (
@@ -265,9 +243,9 @@ const LearningForm = () => {
               />
             </div>
 
-            <Button type="submit" className="w-full" disabled={isLoading}>
+            <Button type="submit" className="w-full" disabled={createLearningUpdate.isPending}>
               <Save className="w-4 h-4 mr-2" />
-              {isLoading ? "Saving..." : "Save Learning Update"}
+              {createLearningUpdate.isPending ? "Saving..." : "Save Learning Update"}
             </Button>
           </form>
         </CardContent>
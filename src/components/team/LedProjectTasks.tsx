@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Calendar, CheckSquare, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import DueBadge from "@/components/tasks/DueBadge";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDeadlineSettings } from "@/lib/repositories/deadlines";
+import type { ProjectWithMembers } from "@/lib/repositories/projects";
+import {
+  TASK_PRIORITIES,
+  TASK_PRIORITY_COLORS,
+  TASK_PRIORITY_LABELS,
+  TASK_STATUS_LABELS,
+  useProjectTasks,
+  useSaveTask,
+  type TaskPriority,
+} from "@/lib/repositories/tasks";
+import { DEFAULT_DEADLINE_SETTINGS } from "@/lib/taskDeadlines";
+import { toast } from "sonner";
+
+interface LedProjectTasksProps {
+  projects: ProjectWithMembers[];
+  onOpenTask: (taskId: string) => void;
+}
+
+const emptyForm = { title: "", description: "", dueDate: "", assignedTo: "", priority: "medium" as TaskPriority };
+
+// Tasks of the projects the user leads, where they can add and reassign work
+// without being an admin
+const LedProjectTasks = ({ projects, onOpenTask }: LedProjectTasksProps) => {
+  const { user } = useAuth();
+  const [projectId, setProjectId] = useState(projects[0]?.id ?? "");
+  const [showDialog, setShowDialog] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const project = projects.find(p => p.id === projectId) ?? projects[0];
+  const { data: tasks = [], isLoading } = useProjectTasks(project?.id);
+  const { data: deadlines = DEFAULT_DEADLINE_SETTINGS } = useDeadlineSettings();
+  const saveTask = useSaveTask();
+
+  // Viewers follow the project but never receive tasks
+  const assignees = project?.members.filter(m => m.role !== "viewer") ?? [];
+
+  const openCreateDialog = () => {
+    setFormData(emptyForm);
+    setShowDialog(true);
+  };
+
+  const handleCreate = async () => {
+    if (!user?.id || !project) return;
+    if (!formData.title.trim()) {
+      toast.error("Please enter a task title");
+      return;
+    }
+
+    try {
+      await saveTask.mutateAsync({
+        task: {
+          title: formData.title.trim(),
+          description: formData.description.trim() || null,
+          due_date: formData.dueDate || null,
+          assigned_to: formData.assignedTo || null,
+          assigned_by: user.id,
+          project_id: project.id,
+          priority: formData.priority,
+        },
+      });
+    } catch (error) {
+      toast.error("Failed to create task");
+      return;
+    }
+
+    toast.success("Task created!");
+    setShowDialog(false);
+  };
+
+  const reassign = (taskId: string, assignedTo: string) => {
+    saveTask.mutate(
+      { id: taskId, task: { assigned_to: assignedTo === "none" ? null : assignedTo } },
+      { onError: () => toast.error("Failed to reassign task") }
+    );
+  };
+
+  if (!project) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Select value={project.id} onValueChange={setProjectId}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {projects.map(p => (
+              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={openCreateDialog}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Task
+        </Button>
+      </div>
+
+      {tasks.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <CheckSquare className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            {isLoading ? "Loading tasks..." : "This project has no tasks yet."}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {tasks.map(task => (
+            <Card key={task.id}>
+              <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <button
+                    onClick={() => onOpenTask(task.id)}
+                    className="font-medium text-foreground text-left hover:underline"
+                  >
+                    {task.title}
+                  </button>
+                  <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                    <Badge variant="secondary">{TASK_STATUS_LABELS[task.status]}</Badge>
+                    <Badge className={TASK_PRIORITY_COLORS[task.priority]}>{TASK_PRIORITY_LABELS[task.priority]}</Badge>
+                    <DueBadge task={task} dueSoonDays={deadlines.dueSoonDays} />
+                    {task.due_date && (
+                      <span className="flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        {format(parseISO(task.due_date), "MMM d, yyyy")}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <Select value={task.assigned_to ?? "none"} onValueChange={(v) => reassign(task.id, v)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Unassigned</SelectItem>
+                    {/* Someone who has since become a viewer still shows as the current assignee */}
+                    {task.assignee && !assignees.some(m => m.user_id === task.assigned_to) && (
+                      <SelectItem value={task.assigned_to!} disabled>{task.assignee.full_name}</SelectItem>
+                    )}
+                    {assignees.map(member => (
+                      <SelectItem key={member.user_id} value={member.user_id}>{member.full_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Task in {project.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium mb-1 block">Title *</label>
+              <Input
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                placeholder="Enter task title"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1 block">Description</label>
+              <Textarea
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="Task description"
+                rows={3}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium mb-1 block">Due Date</label>
+                <Input
+                  type="date"
+                  value={formData.dueDate}
+                  onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-1 block">Priority</label>
+                <Select
+                  value={formData.priority}
+                  onValueChange={(v: TaskPriority) => setFormData({ ...formData, priority: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TASK_PRIORITIES.map(priority => (
+                      <SelectItem key={priority} value={priority}>{TASK_PRIORITY_LABELS[priority]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1 block">Assign To</label>
+              <Select
+                value={formData.assignedTo || "none"}
+                onValueChange={(v) => setFormData({ ...formData, assignedTo: v === "none" ? "" : v })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unassigned</SelectItem>
+                  {assignees.map(member => (
+                    <SelectItem key={member.user_id} value={member.user_id}>{member.full_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={saveTask.isPending}>
+              {saveTask.isPending ? "Saving..." : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default LedProjectTasks;
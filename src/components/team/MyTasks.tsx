@@ -0,0 +1,315 @@
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Calendar, CheckSquare, MessageSquare, Pencil, Search } from "lucide-react";
+import { endOfWeek, format, isWithinInterval, parseISO, startOfWeek } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import BlockedBadge from "@/components/tasks/BlockedBadge";
+import TaskDetailSheet from "@/components/tasks/TaskDetailSheet";
+import LedProjectTasks from "@/components/team/LedProjectTasks";
+import { useAuth } from "@/contexts/AuthContext";
+import { errorMessage } from "@/lib/repositories/errors";
+import { useProjects } from "@/lib/repositories/projects";
+import { useTaskBlockers } from "@/lib/repositories/taskDependencies";
+import {
+  TASK_PRIORITY_COLORS,
+  TASK_PRIORITY_LABELS,
+  TASK_STATUSES,
+  TASK_STATUS_LABELS,
+  useMyTasks,
+  useUpdateMyTask,
+  type TaskStatus,
+  type TaskWithRelations,
+} from "@/lib/repositories/tasks";
+import { confirmBlockedMove } from "@/lib/taskBlocking";
+import { dueState } from "@/lib/taskDeadlines";
+import { toast } from "sonner";
+
+type DueFilter = "all" | "overdue" | "this_week" | "no_date";
+
+// The one-click move offered for each status
+const NEXT_STEP: Record<TaskStatus, { status: TaskStatus; label: string }> = {
+  pending: { status: "in_progress", label: "Start" },
+  in_progress: { status: "completed", label: "Complete" },
+  completed: { status: "in_progress", label: "Reopen" },
+};
+
+const STATUS_DOT: Record<TaskStatus, string> = {
+  pending: "bg-yellow-500",
+  in_progress: "bg-blue-500",
+  completed: "bg-green-500",
+};
+
+const isOverdue = (task: TaskWithRelations) => dueState(task, 0) === "overdue";
+
+const matchesDue = (task: TaskWithRelations, due: DueFilter) => {
+  switch (due) {
+    case "overdue":
+      return isOverdue(task);
+    case "this_week":
+      return (
+        !!task.due_date &&
+        isWithinInterval(parseISO(task.due_date), { start: startOfWeek(new Date()), end: endOfWeek(new Date()) })
+      );
+    case "no_date":
+      return !task.due_date;
+    default:
+      return true;
+  }
+};
+
+const MyTasks = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  // /tasks/:id opens that task's detail sheet, so the link can be shared
+  const { id: detailTaskId } = useParams();
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<TaskStatus | "all">("all");
+  const [projectId, setProjectId] = useState("all");
+  const [due, setDue] = useState<DueFilter>("all");
+  const [editing, setEditing] = useState<TaskWithRelations | null>(null);
+  const [draft, setDraft] = useState({ status: "pending" as TaskStatus, note: "" });
+
+  const { data: tasks = [], isLoading } = useMyTasks(user?.id);
+  const updateMyTask = useUpdateMyTask();
+  const blockers = useTaskBlockers(tasks.map(t => t.id));
+  const { data: memberProjects = [] } = useProjects();
+  const ledProjects = memberProjects.filter(p =>
+    !p.archived_at && p.members.some(m => m.user_id === user?.id && m.role === "lead")
+  );
+
+  const projects = [...new Map(tasks.filter(t => t.project).map(t => [t.project.id, t.project])).values()];
+  const filtered = tasks.filter(task =>
+    (status === "all" || task.status === status) &&
+    (projectId === "all" || (projectId === "none" ? !task.project_id : task.project_id === projectId)) &&
+    matchesDue(task, due) &&
+    task.title.toLowerCase().includes(search.toLowerCase())
+  );
+  const counts = TASK_STATUSES.map(s => ({ status: s, count: tasks.filter(t => t.status === s).length }));
+
+  const openDetail = (taskId: string) => navigate(`/tasks/${taskId}`);
+
+  const moveTo = async (task: TaskWithRelations, next: TaskStatus) => {
+    if (!confirmBlockedMove(blockers.get(task.id), next)) return;
+
+    try {
+      await updateMyTask.mutateAsync({ id: task.id, status: next });
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to update task"));
+      return;
+    }
+    toast.success(`Moved to ${TASK_STATUS_LABELS[next]}`);
+  };
+
+  const openUpdate = (task: TaskWithRelations) => {
+    setDraft({ status: task.status, note: task.progress_note || "" });
+    setEditing(task);
+  };
+
+  const saveUpdate = async () => {
+    if (!editing) return;
+    if (draft.status !== editing.status && !confirmBlockedMove(blockers.get(editing.id), draft.status)) return;
+
+    try {
+      await updateMyTask.mutateAsync({ id: editing.id, status: draft.status, progressNote: draft.note });
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to update task"));
+      return;
+    }
+
+    toast.success("Progress updated!");
+    setEditing(null);
+  };
+
+  const assignedTasks = (
+    <>
+      <div className="flex flex-wrap gap-3">
+        <div className="relative flex-1 min-w-48">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search tasks"
+            className="pl-10"
+          />
+        </div>
+        <Select value={status} onValueChange={(v: TaskStatus | "all") => setStatus(v)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            {TASK_STATUSES.map((s) => (
+              <SelectItem key={s} value={s}>{TASK_STATUS_LABELS[s]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={projectId} onValueChange={setProjectId}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Projects</SelectItem>
+            <SelectItem value="none">No Project</SelectItem>
+            {projects.map((project) => (
+              <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={due} onValueChange={(v: DueFilter) => setDue(v)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any Due Date</SelectItem>
+            <SelectItem value="overdue">Overdue</SelectItem>
+            <SelectItem value="this_week">Due This Week</SelectItem>
+            <SelectItem value="no_date">No Due Date</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {filtered.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <CheckSquare className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            {isLoading ? "Loading tasks..." : tasks.length === 0 ? "No tasks assigned yet." : "No tasks match these filters."}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {filtered.map((task) => {
+            const step = NEXT_STEP[task.status];
+            return (
+              <Card key={task.id}>
+                <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+                  <div className="flex items-start gap-3 flex-1 min-w-0">
+                    <div className={`w-3 h-3 rounded-full mt-1.5 flex-shrink-0 ${STATUS_DOT[task.status]}`} />
+                    <div className="min-w-0">
+                      <button
+                        onClick={() => openDetail(task.id)}
+                        className="font-medium text-foreground text-left hover:underline"
+                      >
+                        {task.title}
+                      </button>
+                      <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                        <Badge variant="secondary">{TASK_STATUS_LABELS[task.status]}</Badge>
+                        <Badge className={TASK_PRIORITY_COLORS[task.priority]}>{TASK_PRIORITY_LABELS[task.priority]}</Badge>
+                        {task.project && <Badge variant="outline">{task.project.name}</Badge>}
+                        {task.parent_id && <Badge variant="outline">Subtask</Badge>}
+                        {task.status !== "completed" && <BlockedBadge blockers={blockers.get(task.id)} />}
+                        {task.due_date && (
+                          <span className={`flex items-center gap-1 ${isOverdue(task) ? "text-destructive font-medium" : ""}`}>
+                            <Calendar className="w-3 h-3" />
+                            {isOverdue(task) ? "Overdue · " : "Due "}
+                            {format(parseISO(task.due_date), "MMM d, yyyy")}
+                          </span>
+                        )}
+                      </div>
+                      {task.progress_note && (
+                        <p className="text-sm text-muted-foreground mt-2 line-clamp-2">{task.progress_note}</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button size="sm" variant="ghost" onClick={() => openDetail(task.id)}>
+                      <MessageSquare className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => openUpdate(task)}>
+                      <Pencil className="w-4 h-4 mr-1" />
+                      Update
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={task.status === "completed" ? "outline" : "default"}
+                      onClick={() => moveTo(task, step.status)}
+                      disabled={updateMyTask.isPending}
+                    >
+                      {step.label}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">My Tasks</h1>
+        <p className="text-muted-foreground">
+          {counts.map(c => `${c.count} ${TASK_STATUS_LABELS[c.status].toLowerCase()}`).join(" · ")}
+        </p>
+      </div>
+
+      {ledProjects.length > 0 ? (
+        <Tabs defaultValue="assigned">
+          <TabsList>
+            <TabsTrigger value="assigned">Assigned to Me</TabsTrigger>
+            <TabsTrigger value="led">Projects I Lead</TabsTrigger>
+          </TabsList>
+          <TabsContent value="assigned" className="space-y-6">
+            {assignedTasks}
+          </TabsContent>
+          <TabsContent value="led">
+            <LedProjectTasks projects={ledProjects} onOpenTask={openDetail} />
+          </TabsContent>
+        </Tabs>
+      ) : (
+        assignedTasks
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing?.title}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium mb-1 block">Status</label>
+              <Select value={draft.status} onValueChange={(v: TaskStatus) => setDraft({ ...draft, status: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_STATUSES.map((s) => (
+                    <SelectItem key={s} value={s}>{TASK_STATUS_LABELS[s]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1 block">Progress Note</label>
+              <Textarea
+                value={draft.note}
+                onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                placeholder="What's done, what's next, anything blocking"
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={saveUpdate} disabled={updateMyTask.isPending}>
+              {updateMyTask.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <TaskDetailSheet taskId={detailTaskId ?? null} onOpenChange={(open) => !open && navigate("/my-tasks")} />
+    </div>
+  );
+};
+
+export default MyTasks;
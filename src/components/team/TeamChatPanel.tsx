@@ -4,7 +4,9 @@ import { z } from "zod";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQueryClient } from "@tanstack/react-query";
+import { sendMessage, useGeneralGroup, useMessages } from "@/lib/repositories/chat";
+import { queryKeys } from "@/lib/repositories/queryKeys";
 import { format } from "date-fns";
 
 // Input validation schema
@@ -19,91 +21,18 @@ const messageSchema = z.object({
     ),
 });
 
-interface Message {
-  id: string;
-  content: string;
-  sender_id: string;
-  created_at: string;
-  sender_name?: string;
-}
-
 const TeamChatPanel = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [input, setInput] = useState("");
   const [lastMessageTime, setLastMessageTime] = useState(0);
-  const [generalGroupId, setGeneralGroupId] = useState<string | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   // Fetch or create general chat group
-  useEffect(() => {
-    const getOrCreateGeneralGroup = async () => {
-      // Try to find existing general group
-      const { data: existingGroup } = await supabase
-        .from("chat_groups")
-        .select("id")
-        .eq("is_general", true)
-        .maybeSingle();
-
-      if (existingGroup) {
-        setGeneralGroupId(existingGroup.id);
-        return;
-      }
-
-      // Create general group if it doesn't exist
-      const { data: newGroup, error } = await supabase
-        .from("chat_groups")
-        .insert({
-          name: "General",
-          description: "General team chat",
-          is_general: true,
-          created_by: user?.id,
-        })
-        .select("id")
-        .single();
-
-      if (!error && newGroup) {
-        setGeneralGroupId(newGroup.id);
-      }
-    };
-
-    if (user?.id) {
-      getOrCreateGeneralGroup();
-    }
-  }, [user?.id]);
+  const { data: generalGroupId = null } = useGeneralGroup(user?.id);
 
   // Fetch messages
-  const { data: messages = [] } = useQuery({
-    queryKey: ["chat-messages", generalGroupId],
-    queryFn: async () => {
-      if (!generalGroupId) return [];
-      
-      const { data: messagesData } = await supabase
-        .from("messages")
-        .select("*")
-        .eq("group_id", generalGroupId)
-        .order("created_at", { ascending: true })
-        .limit(100);
-
-      if (!messagesData) return [];
-
-      // Fetch sender names
-      const senderIds = [...new Set(messagesData.map(m => m.sender_id))];
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("user_id, full_name")
-        .in("user_id", senderIds);
-
-      const profileMap = new Map(profiles?.map(p => [p.user_id, p.full_name]) || []);
-
-      return messagesData.map(m => ({
-        ...m,
-        sender_name: profileMap.get(m.sender_id) || "Unknown User",
-      }));
-    },
-    enabled: !!generalGroupId,
-    refetchInterval: 3000, // Poll every 3 seconds for new messages
-  });
+  const { data: messages = [] } = useMessages(generalGroupId);
 
   // Subscribe to realtime messages
   useEffect(() => {
@@ -120,7 +49,7 @@ const TeamChatPanel = () => {
           filter: `group_id=eq.${generalGroupId}`,
         },
         () => {
-          queryClient.invalidateQueries({ queryKey: ["chat-messages", generalGroupId] });
+          queryClient.invalidateQueries({ queryKey: queryKeys.chat.messages(generalGroupId) });
         }
       )
       .subscribe();
@@ -155,13 +84,10 @@ const TeamChatPanel = () => {
     setLastMessageTime(now);
     setInput("");
 
-    const { error } = await supabase.from("messages").insert({
-      content: result.data.text,
-      sender_id: user.id,
-      group_id: generalGroupId,
-    });
-
-    if (error) {
+    try {
+      await sendMessage(generalGroupId, user.id, result.data.text);
+      queryClient.invalidateQueries({ queryKey: queryKeys.chat.messages(generalGroupId) });
+    } catch (error) {
       toast.error("Failed to send message");
       setInput(trimmedInput); // Restore input on error
     }
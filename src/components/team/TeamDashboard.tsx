@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { 
   Clock, 
   CheckCircle2, 
@@ -8,93 +9,43 @@ import {
   BookOpen,
   FileText,
   Play,
-  Pause
+  Pause,
+  AlarmClock
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import UpcomingMeetings from "@/components/meetings/UpcomingMeetings";
+import DueBadge from "@/components/tasks/DueBadge";
+import TaskDetailSheet from "@/components/tasks/TaskDetailSheet";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
-import { useQuery } from "@tanstack/react-query";
+import { summarizeDay, todayKey, useAttendanceAction, useDaySessions } from "@/lib/attendance";
+import { useDeadlineSettings } from "@/lib/repositories/deadlines";
+import { errorMessage } from "@/lib/repositories/errors";
+import { useAssignedTasks, useMyTasks } from "@/lib/repositories/tasks";
+import { DEFAULT_DEADLINE_SETTINGS, dueState } from "@/lib/taskDeadlines";
+import { useWorkUpdates } from "@/lib/repositories/workUpdates";
+import { useLearningUpdates } from "@/lib/repositories/learningUpdates";
 import { format } from "date-fns";
 import { toast } from "sonner";
 
 const TeamDashboard = () => {
   const { user } = useAuth();
-  const [isCheckedIn, setIsCheckedIn] = useState(false);
-  const [checkInTime, setCheckInTime] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const attendanceAction = useAttendanceAction();
   const [elapsedTime, setElapsedTime] = useState("00:00:00");
+  const [openTaskId, setOpenTaskId] = useState<string | null>(null);
+  const today = todayKey();
 
-  // Fetch today's attendance
-  const { data: todayAttendance, refetch: refetchAttendance } = useQuery({
-    queryKey: ["today-attendance", user?.id],
-    queryFn: async () => {
-      if (!user?.id) return null;
-      const today = format(new Date(), "yyyy-MM-dd");
-      const { data } = await supabase
-        .from("attendance")
-        .select("*")
-        .eq("user_id", user.id)
-        .eq("date", today)
-        .maybeSingle();
-      return data;
-    },
-    enabled: !!user?.id,
-  });
+  const { data: sessions = [] } = useDaySessions(user?.id, today);
+  const todaySummary = summarizeDay(today, sessions);
+  const isCheckedIn = !!todaySummary.activeSession;
+  const checkInTime = todaySummary.activeSession?.check_in_time ?? null;
 
-  // Fetch tasks assigned to user
-  const { data: tasks = [] } = useQuery({
-    queryKey: ["my-tasks", user?.id],
-    queryFn: async () => {
-      if (!user?.id) return [];
-      const { data } = await supabase
-        .from("tasks")
-        .select("*")
-        .eq("assigned_to", user.id)
-        .order("created_at", { ascending: false })
-        .limit(5);
-      return data || [];
-    },
-    enabled: !!user?.id,
-  });
-
-  // Fetch recent work updates
-  const { data: recentWorkUpdates = [] } = useQuery({
-    queryKey: ["my-work-updates", user?.id],
-    queryFn: async () => {
-      if (!user?.id) return [];
-      const { data } = await supabase
-        .from("work_updates")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false })
-        .limit(3);
-      return data || [];
-    },
-    enabled: !!user?.id,
-  });
-
-  // Fetch recent learning updates
-  const { data: recentLearning = [] } = useQuery({
-    queryKey: ["my-learning", user?.id],
-    queryFn: async () => {
-      if (!user?.id) return [];
-      const { data } = await supabase
-        .from("learning_updates")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false })
-        .limit(3);
-      return data || [];
-    },
-    enabled: !!user?.id,
-  });
-
-  useEffect(() => {
-    if (todayAttendance?.check_in && !todayAttendance?.check_out) {
-      setIsCheckedIn(true);
-      setCheckInTime(todayAttendance.check_in);
-    }
-  }, [todayAttendance]);
+  const { data: tasks = [] } = useAssignedTasks(user?.id, 5);
+  const { data: myTasks = [] } = useMyTasks(user?.id);
+  const { data: deadlines = DEFAULT_DEADLINE_SETTINGS } = useDeadlineSettings();
+  const { data: recentWorkUpdates = [] } = useWorkUpdates(user?.id, { limit: 3 });
+  const { data: recentLearning = [] } = useLearningUpdates(user?.id, { limit: 3 });
 
   // Update elapsed time
   useEffect(() => {
@@ -117,58 +68,22 @@ const TeamDashboard = () => {
     return () => clearInterval(interval);
   }, [isCheckedIn, checkInTime]);
 
-  const handleCheckIn = async () => {
+  const handleAttendance = async (action: "check_in" | "check_out") => {
     if (!user?.id) return;
-    
-    const now = new Date().toISOString();
-    const today = format(new Date(), "yyyy-MM-dd");
-
-    const { error } = await supabase.from("attendance").insert({
-      user_id: user.id,
-      date: today,
-      check_in: now,
-      status: "present",
-    });
 
-    if (error) {
-      toast.error("Failed to check in");
-      return;
+    try {
+      await attendanceAction.mutateAsync({ userId: user.id, action });
+      toast.success(action === "check_in" ? "Checked in successfully!" : "Checked out successfully!");
+    } catch (error) {
+      toast.error(errorMessage(error, action === "check_in" ? "Failed to check in" : "Failed to check out"));
     }
-
-    setIsCheckedIn(true);
-    setCheckInTime(now);
-    toast.success("Checked in successfully!");
-    refetchAttendance();
-  };
-
-  const handleCheckOut = async () => {
-    if (!user?.id || !todayAttendance?.id) return;
-
-    const now = new Date().toISOString();
-    const checkIn = new Date(checkInTime!).getTime();
-    const hoursWorked = (Date.now() - checkIn) / (1000 * 60 * 60);
-
-    const { error } = await supabase
-      .from("attendance")
-      .update({
-        check_out: now,
-        hours_worked: parseFloat(hoursWorked.toFixed(2)),
-      })
-      .eq("id", todayAttendance.id);
-
-    if (error) {
-      toast.error("Failed to check out");
-      return;
-    }
-
-    setIsCheckedIn(false);
-    toast.success("Checked out successfully!");
-    refetchAttendance();
   };
 
   const pendingTasks = tasks.filter((t) => t.status === "pending").length;
   const inProgressTasks = tasks.filter((t) => t.status === "in_progress").length;
   const completedTasks = tasks.filter((t) => t.status === "completed").length;
+  const overdueTasks = myTasks.filter((t) => dueState(t, deadlines.dueSoonDays) === "overdue").length;
+  const dueSoonTasks = myTasks.filter((t) => dueState(t, deadlines.dueSoonDays) === "due_soon").length;
 
   return (
     <div className="space-y-6">
@@ -184,6 +99,28 @@ const TeamDashboard = () => {
         </div>
       </div>
 
+      {/* Deadline Alert */}
+      {(overdueTasks > 0 || dueSoonTasks > 0) && (
+        <div
+          className={`flex flex-wrap items-center justify-between gap-3 rounded-lg border p-4 ${
+            overdueTasks > 0 ? "border-red-200 bg-red-50 dark:border-red-900/50 dark:bg-red-900/20" : "border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-900/20"
+          }`}
+        >
+          <div className="flex items-center gap-3">
+            <AlarmClock className={`w-5 h-5 ${overdueTasks > 0 ? "text-red-600" : "text-amber-600"}`} />
+            <p className="text-sm font-medium text-foreground">
+              {[
+                overdueTasks > 0 && `${overdueTasks} ${overdueTasks === 1 ? "task is" : "tasks are"} overdue`,
+                dueSoonTasks > 0 && `${dueSoonTasks} due soon`,
+              ].filter(Boolean).join(" • ")}
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => navigate("/my-tasks")}>
+            Review Tasks
+          </Button>
+        </div>
+      )}
+
       {/* Time Tracker Card */}
       <Card className="border-2 border-primary/20 bg-gradient-to-r from-primary/5 to-transparent">
         <CardContent className="p-6">
@@ -195,8 +132,8 @@ const TeamDashboard = () => {
               <div>
                 <p className="text-sm text-muted-foreground">Today's Work Time</p>
                 <p className="text-4xl font-bold text-foreground font-mono">
-                  {isCheckedIn ? elapsedTime : todayAttendance?.hours_worked 
-                    ? `${todayAttendance.hours_worked.toFixed(2)} hrs` 
+                  {isCheckedIn ? elapsedTime : todaySummary.sessionCount > 0
+                    ? `${todaySummary.hoursWorked.toFixed(2)} hrs`
                     : "00:00:00"}
                 </p>
                 {checkInTime && isCheckedIn && (
@@ -207,7 +144,8 @@ const TeamDashboard = () => {
               </div>
             </div>
             <Button
-              onClick={isCheckedIn ? handleCheckOut : handleCheckIn}
+              onClick={() => handleAttendance(isCheckedIn ? "check_out" : "check_in")}
+              disabled={attendanceAction.isPending}
               size="lg"
               className={isCheckedIn 
                 ? "bg-destructive hover:bg-destructive/90" 
@@ -354,13 +292,19 @@ const TeamDashboard = () => {
         </Card>
       </div>
 
+      {/* Upcoming Meetings */}
+      <UpcomingMeetings />
+
       {/* Tasks List */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle className="flex items-center gap-2 text-lg">
             <Calendar className="w-5 h-5 text-primary" />
             My Tasks
           </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => navigate("/my-tasks")}>
+            View All
+          </Button>
         </CardHeader>
         <CardContent>
           {tasks.length === 0 ? (
@@ -372,7 +316,8 @@ const TeamDashboard = () => {
               {tasks.map((task) => (
                 <div 
                   key={task.id} 
-                  className="flex items-center justify-between p-3 rounded-lg bg-muted/50 hover:bg-muted transition-colors"
+                  onClick={() => setOpenTaskId(task.id)}
+                  className="flex items-center justify-between p-3 rounded-lg bg-muted/50 hover:bg-muted transition-colors cursor-pointer"
                 >
                   <div className="flex items-center gap-3">
                     <div className={`w-3 h-3 rounded-full ${
@@ -389,19 +334,24 @@ const TeamDashboard = () => {
                       )}
                     </div>
                   </div>
-                  <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${
-                    task.status === "completed" ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400" :
-                    task.status === "in_progress" ? "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400" :
-                    "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400"
-                  }`}>
-                    {task.status.replace("_", " ")}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <DueBadge task={task} dueSoonDays={deadlines.dueSoonDays} />
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${
+                      task.status === "completed" ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400" :
+                      task.status === "in_progress" ? "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400" :
+                      "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400"
+                    }`}>
+                      {task.status.replace("_", " ")}
+                    </span>
+                  </div>
                 </div>
               ))}
             </div>
           )}
         </CardContent>
       </Card>
+
+      <TaskDetailSheet taskId={openTaskId} onOpenChange={(open) => !open && setOpenTaskId(null)} />
     </div>
   );
 };
@@ -1,43 +1,42 @@
 import { useState } from "react";
-import { Clock, FileText, Link as LinkIcon, Plus, X, Save } from "lucide-react";
+import { CheckSquare, Clock, FileText, Link as LinkIcon, Plus, X, Save } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { todayKey } from "@/lib/attendance";
+import { useWorkUpdates, useCreateWorkUpdate, useDeleteWorkUpdate } from "@/lib/repositories/workUpdates";
+import { useMyTasks } from "@/lib/repositories/tasks";
+import { minutesBetween, useCreateTimeEntry, useTimeEntries } from "@/lib/repositories/timeEntries";
 import { format } from "date-fns";
 import { toast } from "sonner";
 
 const WorkUpdateForm = () => {
   const { user } = useAuth();
-  const queryClient = useQueryClient();
-  const [isLoading, setIsLoading] = useState(false);
+  const createWorkUpdate = useCreateWorkUpdate();
+  const deleteWorkUpdate = useDeleteWorkUpdate();
+  const createTimeEntry = useCreateTimeEntry();
   const [formData, setFormData] = useState({
     title: "",
     description: "",
     startTime: "",
     endTime: "",
     links: [""],
+    taskId: "none",
   });
 
   // Fetch today's work updates
-  const { data: todayUpdates = [] } = useQuery({
-    queryKey: ["today-work-updates", user?.id],
-    queryFn: async () => {
-      if (!user?.id) return [];
-      const today = format(new Date(), "yyyy-MM-dd");
-      const { data } = await supabase
-        .from("work_updates")
-        .select("*")
-        .eq("user_id", user.id)
-        .eq("date", today)
-        .order("created_at", { ascending: false });
-      return data || [];
-    },
-    enabled: !!user?.id,
-  });
+  const { data: todayUpdates = [] } = useWorkUpdates(user?.id, { date: todayKey() });
+  const { data: todayEntries = [] } = useTimeEntries({ userId: user?.id, date: todayKey() }, !!user?.id);
+  const { data: myTasks = [] } = useMyTasks(user?.id);
+  const openTasks = myTasks.filter(task => task.status !== "completed");
+
+  const linkedTask = (updateId: string) => {
+    const taskId = todayEntries.find(entry => entry.work_update_id === updateId)?.task_id;
+    return taskId ? myTasks.find(task => task.id === taskId) : undefined;
+  };
 
   const handleAddLink = () => {
     setFormData({ ...formData, links: [...formData.links, ""] });
@@ -68,29 +67,45 @@ const WorkUpdateForm = () => {
       return;
     }
 
-    setIsLoading(true);
+    const minutes = minutesBetween(formData.startTime, formData.endTime);
+    if (formData.taskId !== "none" && minutes <= 0) {
+      toast.error("End time must be after start time to log time against a task");
+      return;
+    }
 
-    const today = format(new Date(), "yyyy-MM-dd");
+    const today = todayKey();
     const filteredLinks = formData.links.filter((link) => link.trim());
 
-    const { error } = await supabase.from("work_updates").insert({
-      user_id: user.id,
-      title: formData.title.trim(),
-      description: formData.description.trim() || null,
-      date: today,
-      start_time: formData.startTime,
-      end_time: formData.endTime,
-      links: filteredLinks.length ? filteredLinks : null,
-    });
-
-    setIsLoading(false);
-
-    if (error) {
+    let update;
+    try {
+      update = await createWorkUpdate.mutateAsync({
+        user_id: user.id,
+        title: formData.title.trim(),
+        description: formData.description.trim() || null,
+        date: today,
+        start_time: formData.startTime,
+        end_time: formData.endTime,
+        links: filteredLinks.length ? filteredLinks : null,
+      });
+    } catch (error) {
       toast.error("Failed to save work update");
-      console.error(error);
       return;
     }
 
+    if (formData.taskId !== "none") {
+      try {
+        await createTimeEntry.mutateAsync({
+          user_id: user.id,
+          task_id: formData.taskId,
+          work_update_id: update.id,
+          date: today,
+          minutes,
+        });
+      } catch (error) {
+        toast.error("Work update saved, but logging time against the task failed");
+      }
+    }
+
     toast.success("Work update saved!");
     setFormData({
       title: "",
@@ -98,20 +113,18 @@ const WorkUpdateForm = () => {
       startTime: "",
       endTime: "",
       links: [""],
+      taskId: "none",
     });
-    queryClient.invalidateQueries({ queryKey: ["today-work-updates"] });
-    queryClient.invalidateQueries({ queryKey: ["my-work-updates"] });
   };
 
   const handleDelete = async (id: string) => {
-    const { error } = await supabase.from("work_updates").delete().eq("id", id);
-    if (error) {
+    try {
+      await deleteWorkUpdate.mutateAsync(id);
+    } catch (error) {
       toast.error("Failed to delete");
       return;
     }
     toast.success("Deleted!");
-    queryClient.invalidateQueries({ queryKey: ["today-work-updates"] });
-    queryClient.invalidateQueries({ queryKey: ["my-work-updates"] });
   };
 
   return (
@@ -183,6 +196,27 @@ const WorkUpdateForm = () => {
               </div>
             </div>
 
+            {/* Task */}
+            <div>
+              <label className="text-sm font-medium text-foreground mb-1 block">
+                Log Time Against Task
+              </label>
+              <Select value={formData.taskId} onValueChange={(v) => setFormData({ ...formData, taskId: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No task</SelectItem>
+                  {openTasks.map((task) => (
+                    <SelectItem key={task.id} value={task.id}>
+                      {task.title}
+                      {task.project ? ` (${task.project.name})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Description */}
             <div>
               <label className="text-sm font-medium text-foreground mb-1 block">
@@ -239,9 +273,9 @@ const WorkUpdateForm = () => {
               </div>
             </div>
 
-            <Button type="submit" className="w-full" disabled={isLoading}>
+            <Button type="submit" className="w-full" disabled={createWorkUpdate.isPending}>
               <Save className="w-4 h-4 mr-2" />
-              {isLoading ? "Saving..." : "Save Work Update"}
+              {createWorkUpdate.isPending ? "Saving..." : "Save Work Update"}
             </Button>
           </form>
         </CardContent>
@@ -271,6 +305,12 @@ const WorkUpdateForm = () => {
                         <Clock className="w-4 h-4" />
                         {update.start_time} - {update.end_time}
                       </div>
+                      {linkedTask(update.id) && (
+                        <div className="flex items-center gap-2 mt-1 text-sm text-muted-foreground">
+                          <CheckSquare className="w-4 h-4" />
+                          {linkedTask(update.id).title}
+                        </div>
+                      )}
                       {update.description && (
                         <p className="mt-2 text-sm text-muted-foreground">
                           {update.description}
@@ -9,6 +9,9 @@ interface AuthContextType {
   session: Session | null;
   userRole: UserRole;
   isLoading: boolean;
+  // True while the signed-in user's role is being fetched, including after a
+  // sign-in once the app has already loaded
+  isRoleLoading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
@@ -21,8 +24,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [session, setSession] = useState<Session | null>(null);
   const [userRole, setUserRole] = useState<UserRole>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isRoleLoading, setIsRoleLoading] = useState(false);
 
   const fetchUserRole = async (userId: string) => {
+    setIsRoleLoading(true);
     try {
       const { data, error } = await supabase
         .from("user_roles")
@@ -40,6 +45,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     } catch (err) {
       console.error("Unexpected error in fetchUserRole:", err);
       setUserRole(null);
+    } finally {
+      setIsRoleLoading(false);
     }
   };
 
@@ -126,7 +133,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, userRole, isLoading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, session, userRole, isLoading, isRoleLoading, signIn, signUp, signOut }}>
       {children}
     </AuthContext.Provider>
   );
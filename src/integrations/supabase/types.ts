@@ -119,6 +119,24 @@ export type Database = {
         }
         Relationships: []
       }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       chat_group_members: {
         Row: {
           group_id: string
@@ -178,6 +196,30 @@ export type Database = {
         }
         Relationships: []
       }
+      company_settings: {
+        Row: {
+          due_soon_days: number
+          id: number
+          overdue_escalation_days: number
+          updated_at: string
+          weekend_days: number[]
+        }
+        Insert: {
+          due_soon_days?: number
+          id?: number
+          overdue_escalation_days?: number
+          updated_at?: string
+          weekend_days?: number[]
+        }
+        Update: {
+          due_soon_days?: number
+          id?: number
+          overdue_escalation_days?: number
+          updated_at?: string
+          weekend_days?: number[]
+        }
+        Relationships: []
+      }
       departments: {
         Row: {
           created_at: string
@@ -202,6 +244,30 @@ export type Database = {
         }
         Relationships: []
       }
+      holidays: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          date: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          date: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          date?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
       learning_updates: {
         Row: {
           attachments: Json | null
@@ -247,10 +313,45 @@ export type Database = {
         }
         Relationships: []
       }
+      leave_entitlements: {
+        Row: {
+          allowance: number | null
+          created_at: string
+          id: string
+          type: string
+          updated_at: string
+          used: number
+          user_id: string
+          year: number
+        }
+        Insert: {
+          allowance?: number | null
+          created_at?: string
+          id?: string
+          type: string
+          updated_at?: string
+          used?: number
+          user_id: string
+          year: number
+        }
+        Update: {
+          allowance?: number | null
+          created_at?: string
+          id?: string
+          type?: string
+          updated_at?: string
+          used?: number
+          user_id?: string
+          year?: number
+        }
+        Relationships: []
+      }
       leave_requests: {
         Row: {
           attachment_url: string | null
+          balance_charges: Json | null
           created_at: string
+          duration: number | null
           end_date: string | null
           end_time: string | null
           id: string
@@ -266,7 +367,9 @@ export type Database = {
         }
         Insert: {
           attachment_url?: string | null
+          balance_charges?: Json | null
           created_at?: string
+          duration?: number | null
           end_date?: string | null
           end_time?: string | null
           id?: string
@@ -282,7 +385,9 @@ export type Database = {
         }
         Update: {
           attachment_url?: string | null
+          balance_charges?: Json | null
           created_at?: string
+          duration?: number | null
           end_date?: string | null
           end_time?: string | null
           id?: string
@@ -301,38 +406,73 @@ export type Database = {
       meetings: {
         Row: {
           attendees: string[] | null
+          cancel_reason: string | null
           created_at: string
           created_by: string
           description: string | null
           duration_minutes: number | null
           id: string
           meeting_link: string | null
+          original_start: string | null
+          previous_scheduled_at: string | null
+          recurrence_end: string | null
+          recurrence_rule: string | null
           scheduled_at: string
+          series_id: string | null
+          status: string
+          timezone: string
           title: string
+          updated_at: string
         }
         Insert: {
           attendees?: string[] | null
+          cancel_reason?: string | null
           created_at?: string
           created_by: string
           description?: string | null
           duration_minutes?: number | null
           id?: string
           meeting_link?: string | null
+          original_start?: string | null
+          previous_scheduled_at?: string | null
+          recurrence_end?: string | null
+          recurrence_rule?: string | null
           scheduled_at: string
+          series_id?: string | null
+          status?: string
+          timezone?: string
           title: string
+          updated_at?: string
         }
         Update: {
           attendees?: string[] | null
+          cancel_reason?: string | null
           created_at?: string
           created_by?: string
           description?: string | null
           duration_minutes?: number | null
           id?: string
           meeting_link?: string | null
+          original_start?: string | null
+          previous_scheduled_at?: string | null
+          recurrence_end?: string | null
+          recurrence_rule?: string | null
           scheduled_at?: string
+          series_id?: string | null
+          status?: string
+          timezone?: string
           title?: string
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "meetings_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       messages: {
         Row: {
@@ -369,6 +509,50 @@ export type Database = {
           },
         ]
       }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          kind: string
+          link: string | null
+          read_at: string | null
+          task_id: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          kind: string
+          link?: string | null
+          read_at?: string | null
+          task_id?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          kind?: string
+          link?: string | null
+          read_at?: string | null
+          task_id?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -416,21 +600,21 @@ export type Database = {
           id: string
           joined_at: string
           project_id: string
-          role: string | null
+          role: string
           user_id: string
         }
         Insert: {
           id?: string
           joined_at?: string
           project_id: string
-          role?: string | null
+          role?: string
           user_id: string
         }
         Update: {
           id?: string
           joined_at?: string
           project_id?: string
-          role?: string | null
+          role?: string
           user_id?: string
         }
         Relationships: [
@@ -443,54 +627,476 @@ export type Database = {
           },
         ]
       }
+      project_milestones: {
+        Row: {
+          created_at: string
+          created_by: string
+          description: string | null
+          id: string
+          name: string
+          project_id: string
+          target_date: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          description?: string | null
+          id?: string
+          name: string
+          project_id: string
+          target_date: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          id?: string
+          name?: string
+          project_id?: string
+          target_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_milestones_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
+          archived_at: string | null
           created_at: string
           created_by: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           end_date: string | null
           id: string
           name: string
           progress: number | null
+          progress_done: number
+          progress_mode: string
+          progress_total: number
           start_date: string | null
           status: string
           updated_at: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
           created_by: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           end_date?: string | null
           id?: string
           name: string
           progress?: number | null
+          progress_done?: number
+          progress_mode?: string
+          progress_total?: number
           start_date?: string | null
           status?: string
           updated_at?: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
           created_by?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           end_date?: string | null
           id?: string
           name?: string
           progress?: number | null
+          progress_done?: number
+          progress_mode?: string
+          progress_total?: number
           start_date?: string | null
           status?: string
           updated_at?: string
         }
         Relationships: []
       }
+      task_activity: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          from_value: string | null
+          id: string
+          task_id: string
+          to_value: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          from_value?: string | null
+          id?: string
+          task_id: string
+          to_value?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          from_value?: string | null
+          id?: string
+          task_id?: string
+          to_value?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_activity_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_checklist_items: {
+        Row: {
+          body: string
+          completed_at: string | null
+          completed_by: string | null
+          created_at: string
+          done: boolean
+          id: string
+          position: number
+          task_id: string
+        }
+        Insert: {
+          body: string
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          done?: boolean
+          id?: string
+          position?: number
+          task_id: string
+        }
+        Update: {
+          body?: string
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          done?: boolean
+          id?: string
+          position?: number
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_checklist_items_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_columns: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          position: number
+          project_id: string
+          status: Database["public"]["Enums"]["task_status"]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          position?: number
+          project_id: string
+          status: Database["public"]["Enums"]["task_status"]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          project_id?: string
+          status?: Database["public"]["Enums"]["task_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_columns_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_comments: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+          parent_id: string | null
+          task_id: string
+        }
+        Insert: {
+          author_id: string
+          body: string
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          task_id: string
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "task_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_dependencies: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          depends_on_id: string
+          task_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          depends_on_id: string
+          task_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          depends_on_id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_dependencies_depends_on_id_fkey"
+            columns: ["depends_on_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_escalations: {
+        Row: {
+          due_date: string
+          escalated_at: string
+          task_id: string
+        }
+        Insert: {
+          due_date: string
+          escalated_at?: string
+          task_id: string
+        }
+        Update: {
+          due_date?: string
+          escalated_at?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_escalations_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_filter_presets: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      task_series: {
+        Row: {
+          created_at: string
+          created_by: string
+          due_after_days: number
+          ends_on: string | null
+          frequency: string
+          generated_through: string | null
+          id: string
+          paused: boolean
+          repeat_interval: number
+          starts_on: string
+          template_id: string
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          due_after_days?: number
+          ends_on?: string | null
+          frequency: string
+          generated_through?: string | null
+          id?: string
+          paused?: boolean
+          repeat_interval?: number
+          starts_on?: string
+          template_id: string
+          weekdays?: number[]
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          due_after_days?: number
+          ends_on?: string | null
+          frequency?: string
+          generated_through?: string | null
+          id?: string
+          paused?: boolean
+          repeat_interval?: number
+          starts_on?: string
+          template_id?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_series_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "task_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_templates: {
+        Row: {
+          assigned_to: string | null
+          checklist: string[]
+          created_at: string
+          created_by: string
+          description: string | null
+          estimated_hours: number | null
+          id: string
+          labels: string[]
+          name: string
+          priority: Database["public"]["Enums"]["task_priority"]
+          project_id: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          checklist?: string[]
+          created_at?: string
+          created_by: string
+          description?: string | null
+          estimated_hours?: number | null
+          id?: string
+          labels?: string[]
+          name: string
+          priority?: Database["public"]["Enums"]["task_priority"]
+          project_id?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          checklist?: string[]
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          estimated_hours?: number | null
+          id?: string
+          labels?: string[]
+          name?: string
+          priority?: Database["public"]["Enums"]["task_priority"]
+          project_id?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_templates_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
           assigned_by: string | null
           assigned_to: string | null
+          column_id: string | null
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           due_date: string | null
+          estimated_hours: number | null
           id: string
+          labels: string[]
+          milestone_id: string | null
+          occurrence_date: string | null
+          parent_id: string | null
+          position: number | null
+          priority: Database["public"]["Enums"]["task_priority"]
+          progress_note: string | null
           project_id: string | null
+          series_id: string | null
           status: Database["public"]["Enums"]["task_status"]
           title: string
           updated_at: string
@@ -498,11 +1104,23 @@ export type Database = {
         Insert: {
           assigned_by?: string | null
           assigned_to?: string | null
+          column_id?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           due_date?: string | null
+          estimated_hours?: number | null
           id?: string
+          labels?: string[]
+          milestone_id?: string | null
+          occurrence_date?: string | null
+          parent_id?: string | null
+          position?: number | null
+          priority?: Database["public"]["Enums"]["task_priority"]
+          progress_note?: string | null
           project_id?: string | null
+          series_id?: string | null
           status?: Database["public"]["Enums"]["task_status"]
           title: string
           updated_at?: string
@@ -510,16 +1128,49 @@ export type Database = {
         Update: {
           assigned_by?: string | null
           assigned_to?: string | null
+          column_id?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           due_date?: string | null
+          estimated_hours?: number | null
           id?: string
+          labels?: string[]
+          milestone_id?: string | null
+          occurrence_date?: string | null
+          parent_id?: string | null
+          position?: number | null
+          priority?: Database["public"]["Enums"]["task_priority"]
+          progress_note?: string | null
           project_id?: string | null
+          series_id?: string | null
           status?: Database["public"]["Enums"]["task_status"]
           title?: string
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "tasks_column_id_fkey"
+            columns: ["column_id"]
+            isOneToOne: false
+            referencedRelation: "task_columns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "project_milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_project_id_fkey"
             columns: ["project_id"]
@@ -527,6 +1178,71 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "task_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      time_entries: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          minutes: number
+          note: string | null
+          project_id: string | null
+          task_id: string | null
+          user_id: string
+          work_update_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          date?: string
+          id?: string
+          minutes: number
+          note?: string | null
+          project_id?: string | null
+          task_id?: string | null
+          user_id: string
+          work_update_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          minutes?: number
+          note?: string | null
+          project_id?: string | null
+          task_id?: string | null
+          user_id?: string
+          work_update_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_work_update_id_fkey"
+            columns: ["work_update_id"]
+            isOneToOne: false
+            referencedRelation: "work_updates"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
@@ -552,6 +1268,8 @@ export type Database = {
           attachments: Json | null
           created_at: string
           date: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           end_time: string
           id: string
@@ -564,6 +1282,8 @@ export type Database = {
           attachments?: Json | null
           created_at?: string
           date?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           end_time: string
           id?: string
@@ -576,6 +1296,8 @@ export type Database = {
           attachments?: Json | null
           created_at?: string
           date?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           end_time?: string
           id?: string
@@ -591,6 +1313,14 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      escalate_overdue_tasks: {
+        Args: never
+        Returns: number
+      }
+      generate_recurring_tasks: {
+        Args: never
+        Returns: number
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -602,10 +1332,179 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_series_occurrence: {
+        Args: {
+          _day: string
+          _series: Database["public"]["Tables"]["task_series"]["Row"]
+        }
+        Returns: boolean
+      }
+      leave_request_duration: {
+        Args: {
+          _end_date: string
+          _end_time: string
+          _start_date: string
+          _start_time: string
+          _type: string
+        }
+        Returns: number
+      }
+      leave_request_year_charges: {
+        Args: {
+          _end_date: string
+          _end_time: string
+          _start_date: string
+          _start_time: string
+          _type: string
+        }
+        Returns: Json
+      }
+      meeting_conflicts: {
+        Args: {
+          _attendees: string[]
+          _end: string
+          _exclude?: string
+          _start: string
+          _timezone?: string
+        }
+        Returns: {
+          ends_at: string
+          full_name: string
+          kind: string
+          starts_at: string
+          title: string | null
+          user_id: string
+        }[]
+      }
+      meeting_occurrences: {
+        Args: {
+          _from: string
+          _meeting: Database["public"]["Tables"]["meetings"]["Row"]
+          _to: string
+        }
+        Returns: string[]
+      }
+      project_role: {
+        Args: { _project_id: string; _user_id: string }
+        Returns: string
+      }
+      project_task_history: {
+        Args: { _project_id: string }
+        Returns: {
+          completed: number
+          day: string
+          total: number
+        }[]
+      }
+      project_time_totals: {
+        Args: { _project_ids: string[] }
+        Returns: {
+          estimated_hours: number
+          minutes: number
+          project_id: string
+        }[]
+      }
+      purge_trash: {
+        Args: never
+        Returns: number
+      }
+      refresh_parent_task_status: {
+        Args: { _parent_id: string }
+        Returns: undefined
+      }
+      refresh_project_progress: {
+        Args: { _project_id: string }
+        Returns: undefined
+      }
+      reset_calendar_feed_token: {
+        Args: never
+        Returns: string
+      }
+      restore_item: {
+        Args: { _id: string; _kind: string }
+        Returns: undefined
+      }
+      set_checklist_item_done: {
+        Args: { _done: boolean; _item_id: string }
+        Returns: Database["public"]["Tables"]["task_checklist_items"]["Row"]
+      }
+      soft_delete_item: {
+        Args: { _id: string; _kind: string }
+        Returns: undefined
+      }
+      task_dependency_links: {
+        Args: { _task_ids: string[] }
+        Returns: {
+          depends_on_id: string
+          depends_on_status: Database["public"]["Enums"]["task_status"]
+          depends_on_title: string
+          task_id: string
+          task_status: Database["public"]["Enums"]["task_status"]
+          task_title: string
+        }[]
+      }
+      task_labels: {
+        Args: never
+        Returns: string[]
+      }
+      task_time_totals: {
+        Args: { _task_ids: string[] }
+        Returns: {
+          minutes: number
+          task_id: string
+        }[]
+      }
+      team_directory: {
+        Args: never
+        Returns: {
+          department: string
+          designation: string
+          full_name: string
+          user_id: string
+        }[]
+      }
+      team_leave_calendar: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          end_date: string
+          end_time: string
+          full_name: string
+          id: string
+          start_date: string
+          start_time: string
+          type: string
+          user_id: string
+        }[]
+      }
+      trash_items: {
+        Args: never
+        Returns: {
+          deleted_at: string
+          deleted_by_name: string
+          detail: string
+          id: string
+          kind: string
+          purge_at: string
+          title: string
+        }[]
+      }
+      trash_retention: {
+        Args: never
+        Returns: unknown
+      }
+      update_my_task: {
+        Args: {
+          _progress_note?: string
+          _status: Database["public"]["Enums"]["task_status"]
+          _task_id: string
+        }
+        Returns: Database["public"]["Tables"]["tasks"]["Row"]
+      }
     }
     Enums: {
       app_role: "admin" | "team_member"
       attendance_status: "present" | "absent" | "half_day" | "leave"
+      task_priority: "low" | "medium" | "high" | "urgent"
       task_status: "pending" | "in_progress" | "completed"
       user_status: "active" | "away" | "busy" | "offline"
     }
@@ -737,6 +1636,7 @@ export const Constants = {
     Enums: {
       app_role: ["admin", "team_member"],
       attendance_status: ["present", "absent", "half_day", "leave"],
+      task_priority: ["low", "medium", "high", "urgent"],
       task_status: ["pending", "in_progress", "completed"],
       user_status: ["active", "away", "busy", "offline"],
     },
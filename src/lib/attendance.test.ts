@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from "vitest";
+import { sessionMinutes, summarizeDay, type AttendanceSession } from "./attendance";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const session = (checkIn: string, checkOut: string | null, duration: number | null = null) =>
+  ({
+    id: checkIn,
+    user_id: "user-1",
+    date: "2024-01-02",
+    check_in_time: `2024-01-02T${checkIn}:00Z`,
+    check_out_time: checkOut && `2024-01-02T${checkOut}:00Z`,
+    duration_minutes: duration,
+  }) as AttendanceSession;
+
+const at = (time: string) => new Date(`2024-01-02T${time}:00Z`).getTime();
+
+describe("sessionMinutes", () => {
+  it("prefers the stored duration", () => {
+    expect(sessionMinutes(session("09:00", "10:00", 45))).toBe(45);
+  });
+
+  it("measures closed sessions from their times", () => {
+    expect(sessionMinutes(session("09:00", "10:30"))).toBe(90);
+  });
+
+  it("counts open sessions up to now", () => {
+    expect(sessionMinutes(session("09:00", null), at("09:20"))).toBe(20);
+    expect(sessionMinutes(session("09:00", null), at("08:00"))).toBe(0);
+  });
+});
+
+describe("summarizeDay", () => {
+  it("has no status without sessions", () => {
+    expect(summarizeDay("2024-01-02", [])).toMatchObject({ sessionCount: 0, totalMinutes: 0, status: null });
+  });
+
+  it("adds up sessions in check-in order", () => {
+    const summary = summarizeDay("2024-01-02", [session("13:00", "17:30"), session("08:00", "12:00")]);
+    expect(summary).toMatchObject({
+      sessionCount: 2,
+      totalMinutes: 510,
+      hoursWorked: 8.5,
+      firstCheckIn: "2024-01-02T08:00:00Z",
+      lastCheckOut: "2024-01-02T17:30:00Z",
+      activeSession: null,
+      status: "present",
+    });
+  });
+
+  it("marks short closed days as half days", () => {
+    expect(summarizeDay("2024-01-02", [session("09:00", "12:59")]).status).toBe("half_day");
+    expect(summarizeDay("2024-01-02", [session("09:00", "13:00")]).status).toBe("present");
+  });
+
+  it("keeps a day with an open session present and without a check-out", () => {
+    const open = session("13:00", null);
+    const summary = summarizeDay("2024-01-02", [session("09:00", "10:00"), open], at("14:00"));
+    expect(summary).toMatchObject({ totalMinutes: 120, activeSession: open, lastCheckOut: null, status: "present" });
+  });
+});
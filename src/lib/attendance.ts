@@ -0,0 +1,257 @@
+import { format } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { RepositoryError, ensureOk, unwrap } from "@/lib/repositories/errors";
+import { queryKeys } from "@/lib/repositories/queryKeys";
+
+export type AttendanceSession = Tables<"attendance_sessions">;
+export type AttendanceStatus = Database["public"]["Enums"]["attendance_status"];
+
+// A closed day with fewer logged minutes than this counts as a half day
+export const HALF_DAY_THRESHOLD_MINUTES = 4 * 60;
+
+export interface DaySummary {
+  date: string;
+  sessionCount: number;
+  totalMinutes: number;
+  hoursWorked: number;
+  firstCheckIn: string | null;
+  lastCheckOut: string | null;
+  activeSession: AttendanceSession | null;
+  status: AttendanceStatus | null;
+}
+
+export type AttendanceAction = "check_in" | "check_out";
+
+export const ATTENDANCE_PHOTO_BUCKET = "attendance-photos";
+
+// Signed photo links stay valid for an hour; queries refresh them before that
+const PHOTO_URL_TTL_SECONDS = 60 * 60;
+
+export const todayKey = () => format(new Date(), "yyyy-MM-dd");
+
+// Minutes covered by a session, counting an open session up to `now`
+export const sessionMinutes = (session: AttendanceSession, now = Date.now()) => {
+  if (session.duration_minutes != null) return session.duration_minutes;
+  if (session.check_out_time) {
+    return Math.floor(
+      (new Date(session.check_out_time).getTime() - new Date(session.check_in_time).getTime()) / (1000 * 60)
+    );
+  }
+  return Math.max(0, Math.floor((now - new Date(session.check_in_time).getTime()) / (1000 * 60)));
+};
+
+export function summarizeDay(date: string, sessions: AttendanceSession[], now = Date.now()): DaySummary {
+  const sorted = [...sessions].sort(
+    (a, b) => new Date(a.check_in_time).getTime() - new Date(b.check_in_time).getTime()
+  );
+  const activeSession = sorted.find(s => !s.check_out_time) || null;
+  const totalMinutes = sorted.reduce((acc, s) => acc + sessionMinutes(s, now), 0);
+  const checkOuts = sorted.map(s => s.check_out_time).filter(Boolean) as string[];
+
+  let status: AttendanceStatus | null = null;
+  if (sorted.length > 0) {
+    status = activeSession || totalMinutes >= HALF_DAY_THRESHOLD_MINUTES ? "present" : "half_day";
+  }
+
+  return {
+    date,
+    sessionCount: sorted.length,
+    totalMinutes,
+    hoursWorked: parseFloat((totalMinutes / 60).toFixed(2)),
+    firstCheckIn: sorted[0]?.check_in_time ?? null,
+    lastCheckOut: activeSession ? null : checkOuts[checkOuts.length - 1] ?? null,
+    activeSession,
+    status,
+  };
+}
+
+export async function fetchDaySessions(userId: string, date = todayKey()) {
+  const result = await supabase
+    .from("attendance_sessions")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("date", date)
+    .order("check_in_time", { ascending: true });
+
+  return unwrap(result, "load attendance sessions") || [];
+}
+
+// The session still waiting for a check-out, whichever day it started on
+export async function fetchOpenSession(userId: string) {
+  const result = await supabase
+    .from("attendance_sessions")
+    .select("*")
+    .eq("user_id", userId)
+    .is("check_out_time", null)
+    .order("check_in_time", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return unwrap(result, "load open attendance session");
+}
+
+// Daily attendance rows, newest first
+export async function fetchAttendanceHistory(userId: string, limit = 30) {
+  const result = await supabase
+    .from("attendance")
+    .select("*")
+    .eq("user_id", userId)
+    .order("date", { ascending: false })
+    .limit(limit);
+
+  return unwrap(result, "load attendance history") || [];
+}
+
+// Rebuild the daily `attendance` row from the day's sessions so every
+// dashboard reads the same status and hours
+export async function syncDailyAttendance(userId: string, date = todayKey()) {
+  const sessions = await fetchDaySessions(userId, date);
+  const summary = summarizeDay(date, sessions);
+
+  if (!summary.status) return summary;
+
+  const result = await supabase.from("attendance").upsert(
+    {
+      user_id: userId,
+      date,
+      status: summary.status,
+      check_in: summary.firstCheckIn ? format(new Date(summary.firstCheckIn), "HH:mm:ss") : null,
+      check_out: summary.lastCheckOut ? format(new Date(summary.lastCheckOut), "HH:mm:ss") : null,
+      hours_worked: summary.hoursWorked,
+    },
+    { onConflict: "user_id,date" }
+  );
+
+  ensureOk(result, "update daily attendance");
+  return summary;
+}
+
+// Uploads a captured JPEG under the member's own folder and returns its path
+export async function uploadAttendancePhoto(userId: string, date: string, action: AttendanceAction, photo: Blob) {
+  const path = `${userId}/${date}/${Date.now()}-${action}.jpg`;
+  const { error } = await supabase.storage
+    .from(ATTENDANCE_PHOTO_BUCKET)
+    .upload(path, photo, { contentType: "image/jpeg" });
+
+  if (error) {
+    console.error("Failed to upload attendance photo:", error);
+    throw new RepositoryError("upload attendance photo", { message: error.message });
+  }
+  return path;
+}
+
+// Small signed thumbnails keyed by object path. Rows the photo migration has
+// not reached yet still hold a data URL, which is shown as is.
+export async function fetchAttendancePhotoUrls(paths: string[]) {
+  const urls = new Map<string, string>();
+
+  await Promise.all(paths.map(async path => {
+    if (path.startsWith("data:")) {
+      urls.set(path, path);
+      return;
+    }
+
+    const { data, error } = await supabase.storage
+      .from(ATTENDANCE_PHOTO_BUCKET)
+      .createSignedUrl(path, PHOTO_URL_TTL_SECONDS, { transform: { width: 96, height: 96, resize: "cover" } });
+    if (error) {
+      console.error("Failed to sign attendance photo:", error);
+      return;
+    }
+    urls.set(path, data.signedUrl);
+  }));
+
+  return urls;
+}
+
+export async function checkIn(userId: string, photo: Blob | null = null) {
+  const date = todayKey();
+
+  if (await fetchOpenSession(userId)) {
+    throw new Error("You are already checked in");
+  }
+
+  const photoPath = photo ? await uploadAttendancePhoto(userId, date, "check_in", photo) : null;
+  const result = await supabase.from("attendance_sessions").insert({
+    user_id: userId,
+    date,
+    check_in_time: new Date().toISOString(),
+    check_in_photo: photoPath,
+  });
+
+  // A photo left behind by a failed insert is purged by the server
+  ensureOk(result, "check in");
+  return syncDailyAttendance(userId, date);
+}
+
+export async function checkOut(userId: string, photo: Blob | null = null) {
+  const activeSession = await fetchOpenSession(userId);
+
+  if (!activeSession) {
+    throw new Error("No active session to check out from");
+  }
+
+  // A session left open past midnight is closed on (and counted for) its own day
+  const date = activeSession.date;
+
+  const photoPath = photo ? await uploadAttendancePhoto(userId, date, "check_out", photo) : null;
+  const now = Date.now();
+  const result = await supabase
+    .from("attendance_sessions")
+    .update({
+      check_out_time: new Date(now).toISOString(),
+      check_out_photo: photoPath,
+      duration_minutes: sessionMinutes(activeSession, now),
+    })
+    .eq("id", activeSession.id);
+
+  ensureOk(result, "check out");
+  return syncDailyAttendance(userId, date);
+}
+
+export const useDaySessions = (userId: string | undefined, date = todayKey()) =>
+  useQuery({
+    queryKey: queryKeys.attendance.sessions(userId, date),
+    queryFn: () => fetchDaySessions(userId!, date),
+    enabled: !!userId,
+  });
+
+export const useOpenSession = (userId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.attendance.openSession(userId),
+    queryFn: () => fetchOpenSession(userId!),
+    enabled: !!userId,
+  });
+
+export const useAttendancePhotoUrls = (paths: string[]) =>
+  useQuery({
+    queryKey: queryKeys.attendance.photos(paths),
+    queryFn: () => fetchAttendancePhotoUrls(paths),
+    enabled: paths.length > 0,
+    staleTime: (PHOTO_URL_TTL_SECONDS - 5 * 60) * 1000,
+  });
+
+export const useAttendanceHistory = (userId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.attendance.history(userId),
+    queryFn: () => fetchAttendanceHistory(userId!),
+    enabled: !!userId,
+  });
+
+// Check in or out; refreshes every attendance view plus the admin counters
+export const useAttendanceAction = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ userId, action, photo = null }: {
+      userId: string;
+      action: AttendanceAction;
+      photo?: Blob | null;
+    }) => (action === "check_in" ? checkIn(userId, photo) : checkOut(userId, photo)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.attendance.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+    },
+  });
+};
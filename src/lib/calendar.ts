@@ -0,0 +1,121 @@
+import { endOfDay, format, parseISO, startOfDay } from "date-fns";
+import { useAuth } from "@/contexts/AuthContext";
+import { useHolidays } from "@/lib/repositories/holidays";
+import { LEAVE_TYPE_LABELS, useTeamLeave, type LeaveType } from "@/lib/repositories/leaveRequests";
+import { DEFAULT_MEETING_MINUTES, meetingEnd, useMeetingsBetween } from "@/lib/repositories/meetings";
+import { useProjectsEndingBetween } from "@/lib/repositories/projects";
+import { useTasksDueBetween } from "@/lib/repositories/tasks";
+
+export type CalendarSource = "meeting" | "leave" | "task" | "project" | "holiday";
+
+export interface CalendarEvent {
+  id: string;
+  source: CalendarSource;
+  title: string;
+  subtitle?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  // Id of the underlying row, e.g. the meeting to open in the details dialog
+  sourceId: string;
+  cancelled?: boolean;
+  // Route of the underlying item, when the viewer is allowed to open it
+  href?: string;
+}
+
+export const CALENDAR_SOURCES: { id: CalendarSource; label: string; color: string }[] = [
+  { id: "meeting", label: "Meetings", color: "bg-primary" },
+  { id: "leave", label: "Leave", color: "bg-yellow-500" },
+  { id: "task", label: "Task Due Dates", color: "bg-blue-500" },
+  { id: "project", label: "Project Deadlines", color: "bg-green-500" },
+  { id: "holiday", label: "Holidays", color: "bg-red-500" },
+];
+
+export const sourceColor = (source: CalendarSource) =>
+  CALENDAR_SOURCES.find(s => s.id === source)?.color ?? "bg-primary";
+
+export const eventsOnDay = (events: CalendarEvent[], day: Date) => {
+  const dayStart = startOfDay(day);
+  const dayEnd = endOfDay(day);
+  return events
+    .filter(e => e.start <= dayEnd && e.end >= dayStart)
+    .sort((a, b) => Number(b.allDay) - Number(a.allDay) || a.start.getTime() - b.start.getTime());
+};
+
+const allDay = (from: string, to = from) => ({
+  start: startOfDay(parseISO(from)),
+  end: endOfDay(parseISO(to)),
+  allDay: true,
+});
+
+// Every calendar source for the visible range, flattened into one event list
+export function useCalendarEvents(from: Date, to: Date) {
+  const { user, userRole } = useAuth();
+  const isAdmin = userRole === "admin";
+  const fromKey = format(from, "yyyy-MM-dd");
+  const toKey = format(to, "yyyy-MM-dd");
+
+  const meetings = useMeetingsBetween(user?.id, from, to);
+  const leave = useTeamLeave(fromKey, toKey);
+  const tasks = useTasksDueBetween(fromKey, toKey);
+  const projects = useProjectsEndingBetween(fromKey, toKey);
+  const holidays = useHolidays();
+
+  const events: CalendarEvent[] = [
+    ...(meetings.data || []).map(m => ({
+      id: `meeting-${m.id}-${m.scheduled_at}`,
+      sourceId: m.id,
+      source: "meeting" as const,
+      title: m.title,
+      subtitle: m.status === "cancelled"
+        ? "Cancelled"
+        : `${m.duration_minutes ?? DEFAULT_MEETING_MINUTES} min · ${(m.attendees || []).length} attendees`,
+      start: parseISO(m.scheduled_at),
+      end: meetingEnd(m),
+      allDay: false,
+      cancelled: m.status === "cancelled",
+    })),
+    ...(leave.data || []).map(l => ({
+      id: `leave-${l.id}`,
+      sourceId: l.id,
+      source: "leave" as const,
+      title: `${l.user_id === user?.id ? "You" : l.full_name || "Teammate"} · ${LEAVE_TYPE_LABELS[l.type as LeaveType] || l.type}`,
+      subtitle: l.start_time && l.end_time ? `${l.start_time.slice(0, 5)} - ${l.end_time.slice(0, 5)}` : undefined,
+      ...allDay(l.start_date, l.end_date || l.start_date),
+      href: isAdmin ? `/approvals/${l.id}` : l.user_id === user?.id ? `/leave-request/${l.id}` : undefined,
+    })),
+    ...(tasks.data || []).map(t => ({
+      id: `task-${t.id}`,
+      sourceId: t.id,
+      source: "task" as const,
+      title: t.title,
+      subtitle: `Task due · ${t.status.replace("_", " ")}`,
+      ...allDay(t.due_date),
+      href: `/tasks/${t.id}`,
+    })),
+    ...(projects.data || []).map(p => ({
+      id: `project-${p.id}`,
+      sourceId: p.id,
+      source: "project" as const,
+      title: p.name,
+      subtitle: "Project deadline",
+      ...allDay(p.end_date),
+      href: isAdmin ? `/projects/${p.id}` : undefined,
+    })),
+    ...(holidays.data || [])
+      .filter(h => h.date >= fromKey && h.date <= toKey)
+      .map(h => ({
+        id: `holiday-${h.id}`,
+        sourceId: h.id,
+        source: "holiday" as const,
+        title: h.name,
+        subtitle: "Company holiday",
+        ...allDay(h.date),
+      })),
+  ];
+
+  return {
+    events,
+    isLoading: meetings.isLoading || leave.isLoading || tasks.isLoading || projects.isLoading,
+  };
+}
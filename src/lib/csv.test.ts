@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    expect(parseCsv("a,b,c\n1,2,3")).toEqual([
+      ["a", "b", "c"],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("reads quoted commas, quotes and line breaks", () => {
+    expect(parseCsv('name,notes\r\n"Smith, J","said ""hi""\r\nthen left"\r\n')).toEqual([
+      ["name", "notes"],
+      ["Smith, J", 'said "hi"\r\nthen left'],
+    ]);
+  });
+
+  it("drops a BOM and blank lines", () => {
+    expect(parseCsv("﻿a,b\r\n\r\n,\n1,2\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("keeps empty fields", () => {
+    expect(parseCsv("a,,c")).toEqual([["a", "", "c"]]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes only fields that need it", () => {
+    expect(toCsv([["plain", "with, comma", 'a "quote"', 3, null, undefined]])).toBe(
+      'plain,"with, comma","a ""quote""",3,,'
+    );
+    expect(toCsv([["a"], ["b"]])).toBe("a\r\nb");
+  });
+
+  it("guards values a spreadsheet would run as formulas", () => {
+    expect(toCsv([["=SUM(A1)", "+1", "-2", "@cmd"]])).toBe("'=SUM(A1),'+1,'-2,'@cmd");
+  });
+
+  it("round-trips through parseCsv", () => {
+    const rows = [
+      ["title", "description"],
+      ["Ship it", "line one\nline two, with \"quotes\""],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  allDayRange,
+  buildCalendar,
+  escapeText,
+  fetchMyCalendarEvents,
+  foldLine,
+  leaveToIcs,
+  meetingToIcs,
+  taskToIcs,
+  type IcsEvent,
+} from "./ics";
+import type { LeaveRequest } from "./repositories/leaveRequests";
+import type { Meeting } from "./repositories/meetings";
+import type { Task } from "./repositories/tasks";
+
+type Row = Record<string, unknown>;
+
+// Rows the fake client below serves. Like the service role the calendar feed
+// runs with, it applies no row-level security: only the query's own filters.
+const database = vi.hoisted(() => ({ tables: {} as Record<string, Row[]> }));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: { from: (table: string) => fakeQuery(database.tables[table] ?? []) },
+}));
+
+// PostgREST filter values: null, (a,b) lists and {a,b} arrays
+const filterValue = (value: string) =>
+  value === "null" ? null : /^[({].*[)}]$/.test(value) ? value.slice(1, -1).split(",") : value;
+
+function matches(row: Row, column: string, operator: string, value: unknown) {
+  const field = row[column] as never;
+  switch (operator) {
+    case "eq":
+      return field === value;
+    case "is":
+      return value === null ? field == null : field === value;
+    case "in":
+      return (value as unknown[]).includes(field);
+    case "cs":
+      return (value as unknown[]).every(v => ((field ?? []) as unknown[]).includes(v));
+    case "gte":
+      return field >= (value as never);
+    case "lt":
+      return field < (value as never);
+    case "lte":
+      return field <= (value as never);
+    default:
+      throw new Error(`Unsupported filter ${operator}`);
+  }
+}
+
+function fakeQuery(rows: Row[]) {
+  let result = rows;
+  const where = (keep: (row: Row) => boolean) => {
+    result = result.filter(keep);
+    return query;
+  };
+  const query = {
+    select: () => query,
+    order: () => query,
+    limit: () => query,
+    eq: (column: string, value: unknown) => where(row => matches(row, column, "eq", value)),
+    is: (column: string, value: unknown) => where(row => matches(row, column, "is", value)),
+    in: (column: string, values: unknown[]) => where(row => matches(row, column, "in", values)),
+    gte: (column: string, value: unknown) => where(row => matches(row, column, "gte", value)),
+    lt: (column: string, value: unknown) => where(row => matches(row, column, "lt", value)),
+    lte: (column: string, value: unknown) => where(row => matches(row, column, "lte", value)),
+    not: (column: string, operator: string, value: unknown) => where(row => !matches(row, column, operator, value)),
+    or: (filters: string) =>
+      where(row =>
+        filters.split(/,(?![^(]*\))/).some(filter => {
+          const [column, ...rest] = filter.split(".");
+          const negated = rest[0] === "not";
+          const [operator, ...value] = negated ? rest.slice(1) : rest;
+          return matches(row, column, operator, filterValue(value.join("."))) !== negated;
+        })
+      ),
+    then: (resolve: (result: { data: Row[]; error: null }) => unknown) => resolve({ data: result, error: null }),
+  };
+  return query;
+}
+
+const event = (extra: Partial<IcsEvent> = {}): IcsEvent => ({
+  uid: "event-1@test",
+  title: "Standup",
+  start: new Date(Date.UTC(2024, 0, 15, 14, 0)),
+  end: new Date(Date.UTC(2024, 0, 15, 14, 30)),
+  ...extra,
+});
+
+const lines = (calendar: string) => calendar.replace(/\r\n /g, "").split("\r\n");
+
+describe("escapeText", () => {
+  it("escapes TEXT special characters", () => {
+    expect(escapeText("a\\b; c, d\nnext\r\nlast")).toBe("a\\\\b\\; c\\, d\\nnext\\nlast");
+  });
+});
+
+describe("foldLine", () => {
+  it("leaves short lines alone", () => {
+    expect(foldLine("SUMMARY:short")).toBe("SUMMARY:short");
+  });
+
+  it("folds at 75 octets without splitting characters", () => {
+    const line = `SUMMARY:${"é".repeat(60)}`;
+    const folded = foldLine(line).split("\r\n");
+    const encoder = new TextEncoder();
+    expect(folded.length).toBeGreaterThan(1);
+    expect(folded.every(part => encoder.encode(part).length <= 75)).toBe(true);
+    expect(folded.slice(1).every(part => part.startsWith(" "))).toBe(true);
+    expect(folded.map((part, i) => (i ? part.slice(1) : part)).join("")).toBe(line);
+  });
+});
+
+describe("buildCalendar", () => {
+  it("writes one-off timed events in UTC", () => {
+    const output = lines(buildCalendar([event({ description: "Daily, short", location: "Room 1" })], "Team"));
+    expect(output[0]).toBe("BEGIN:VCALENDAR");
+    expect(output).toContain("X-WR-CALNAME:Team");
+    expect(output).toContain("DTSTART:20240115T140000Z");
+    expect(output).toContain("DTEND:20240115T143000Z");
+    expect(output).toContain("DESCRIPTION:Daily\\, short");
+    expect(output).toContain("LOCATION:Room 1");
+    expect(output).not.toContain("BEGIN:VTIMEZONE");
+    expect(output[output.length - 2]).toBe("END:VCALENDAR");
+  });
+
+  it("writes recurring events in their timezone with a VTIMEZONE", () => {
+    const recurring = event({
+      timezone: "America/New_York",
+      rrule: "FREQ=WEEKLY;BYDAY=MO",
+      exdates: [new Date(Date.UTC(2024, 0, 22, 14, 0))],
+    });
+    const output = lines(buildCalendar([recurring, { ...recurring, uid: "event-2@test" }]));
+
+    expect(output).toContain("DTSTART;TZID=America/New_York:20240115T090000");
+    expect(output).toContain("EXDATE;TZID=America/New_York:20240122T090000");
+    expect(output).toContain("RRULE:FREQ=WEEKLY;BYDAY=MO");
+    expect(output.filter(line => line === "BEGIN:VTIMEZONE")).toHaveLength(1);
+    expect(output).toContain("RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU");
+    expect(output).toContain("RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU");
+    expect(output).toContain("TZOFFSETTO:-0400");
+  });
+
+  it("writes all-day events as dates with an exclusive end", () => {
+    const output = lines(buildCalendar([event({ ...allDayRange("2024-02-28", "2024-03-01") })]));
+    expect(output).toContain("DTSTART;VALUE=DATE:20240228");
+    expect(output).toContain("DTEND;VALUE=DATE:20240302");
+    expect(output).toContain("TRANSP:TRANSPARENT");
+  });
+});
+
+describe("event mapping", () => {
+  it("exports task due dates as all-day events", () => {
+    const task = { id: "t1", title: "Ship", description: null, due_date: "2024-03-05", created_at: "2024-03-01T00:00:00Z" };
+    expect(taskToIcs(task as Task)).toMatchObject({ uid: "task-t1@grofast.team", title: "Due: Ship", allDay: true });
+  });
+
+  it("exports permissions as timed events and other leave as whole days", () => {
+    const leave = { id: "l1", type: "permission", start_date: "2024-03-05", start_time: "09:00", end_time: "11:00", created_at: "2024-03-01T00:00:00Z" };
+    const permission = leaveToIcs(leave as LeaveRequest);
+    expect(permission.allDay).toBeUndefined();
+    expect(permission.end.getTime() - permission.start.getTime()).toBe(2 * 60 * 60000);
+    // Stored without a zone, so written as floating times rather than UTC
+    expect(buildCalendar([permission])).toContain("\r\nDTSTART:20240305T090000\r\n");
+
+    const fullDay = leaveToIcs({ ...leave, type: "full_day", end_date: "2024-03-06" } as LeaveRequest);
+    expect(fullDay).toMatchObject({ title: "Leave · Full Day Leave", allDay: true });
+  });
+
+  it("exports edited occurrences under their series UID", () => {
+    const meeting = {
+      id: "m2",
+      series_id: "m1",
+      title: "Review",
+      status: "cancelled",
+      cancel_reason: "Holiday",
+      scheduled_at: "2024-03-05T14:00:00Z",
+      original_start: "2024-03-05T14:00:00Z",
+      duration_minutes: 45,
+      timezone: "Europe/Berlin",
+      recurrence_rule: null,
+      created_at: "2024-03-01T00:00:00Z",
+    };
+    expect(meetingToIcs(meeting as Meeting)).toMatchObject({
+      uid: "meeting-m1@grofast.team",
+      description: "Cancelled: Holiday",
+      status: "CANCELLED",
+      timezone: "Europe/Berlin",
+      end: new Date("2024-03-05T14:45:00Z"),
+      recurrenceId: new Date("2024-03-05T14:00:00Z"),
+    });
+  });
+});
+
+describe("fetchMyCalendarEvents", () => {
+  const task = (id: string, extra: Row = {}) => ({
+    id,
+    title: id,
+    description: null,
+    assigned_to: "u1",
+    project_id: null,
+    due_date: "2024-03-05",
+    deleted_at: null,
+    created_at: "2024-03-01T00:00:00Z",
+    ...extra,
+  });
+
+  it("leaves out trashed tasks and tasks of archived projects", async () => {
+    database.tables = {
+      projects: [{ id: "archived", archived_at: "2024-02-01T00:00:00Z" }],
+      tasks: [
+        task("open"),
+        task("trashed", { deleted_at: "2024-03-02T00:00:00Z" }),
+        task("shelved", { project_id: "archived" }),
+        task("someone-else", { assigned_to: "u2" }),
+      ],
+    };
+
+    const events = await fetchMyCalendarEvents("u1", new Date("2024-03-01T00:00:00Z"));
+    expect(events.map(e => e.uid)).toEqual(["task-open@grofast.team"]);
+  });
+
+  it("includes the member's meetings and approved leave", async () => {
+    database.tables = {
+      meetings: [
+        { id: "m1", title: "Sync", created_by: "u2", attendees: ["u1"], recurrence_rule: null, series_id: null, scheduled_at: "2024-03-04T10:00:00.000Z", created_at: "2024-03-01T00:00:00Z" },
+        { id: "m2", title: "Other", created_by: "u2", attendees: ["u3"], recurrence_rule: null, series_id: null, scheduled_at: "2024-03-04T10:00:00.000Z", created_at: "2024-03-01T00:00:00Z" },
+      ],
+      leave_requests: [
+        { id: "l1", user_id: "u1", type: "full_day", status: "approved", start_date: "2024-03-06", created_at: "2024-03-01T00:00:00Z" },
+        { id: "l2", user_id: "u1", type: "full_day", status: "pending", start_date: "2024-03-07", created_at: "2024-03-01T00:00:00Z" },
+      ],
+    };
+
+    const events = await fetchMyCalendarEvents("u1", new Date("2024-03-01T00:00:00Z"));
+    expect(events.map(e => e.uid)).toEqual(["meeting-m1@grofast.team", "leave-l1@grofast.team"]);
+  });
+});
@@ -0,0 +1,263 @@
+import { addDays, addMonths, format, subMonths } from "date-fns";
+import { fetchAssignedTasks, type Task } from "@/lib/repositories/tasks";
+import { fetchMyLeaveRequests, LEAVE_TYPE_LABELS, type LeaveRequest } from "@/lib/repositories/leaveRequests";
+import { fetchMeetingRows, meetingEnd, type Meeting } from "@/lib/repositories/meetings";
+import { zonedAsUtc } from "@/lib/timezone";
+
+// Minimal RFC 5545 writer. One-off timed events are written in UTC so they
+// land at the right instant in any client; recurring ones carry a TZID so
+// their wall-clock time survives DST. All-day events use floating DATE values,
+// as do timed events with no zone of their own (`floating`).
+export interface IcsEvent {
+  uid: string;
+  title: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  start: Date;
+  // Exclusive end. For all-day events this is the day after the last day.
+  end: Date;
+  allDay?: boolean;
+  // Wall-clock times with no zone, read in the local time of whoever views them
+  floating?: boolean;
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  lastModified?: Date;
+  // RRULE value without the "RRULE:" prefix, e.g. "FREQ=WEEKLY;BYDAY=MO"
+  rrule?: string | null;
+  exdates?: Date[];
+  // IANA zone for DTSTART/DTEND; needed for recurrences to follow DST
+  timezone?: string | null;
+  // Start of the occurrence an exception replaces, sharing the series' UID
+  recurrenceId?: Date | null;
+  sequence?: number;
+}
+
+const PRODID = "-//Grofast Digital//Team Portal//EN";
+const UID_DOMAIN = "grofast.team";
+
+export const icsDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+export const icsDate = (date: Date) => format(date, "yyyyMMdd");
+
+const offsetMinutes = (date: Date, timezone: string) =>
+  Math.round((zonedAsUtc(date, timezone) - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+
+const icsLocalDateTime = (date: Date, timezone: string) =>
+  icsDateTime(new Date(zonedAsUtc(date, timezone))).replace("Z", "");
+
+const formatOffset = (minutes: number) => {
+  const abs = Math.abs(minutes);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${minutes < 0 ? "-" : "+"}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+};
+
+const timed = (name: string, date: Date, timezone?: string | null, floating?: boolean) => {
+  if (floating) return `${name}:${format(date, "yyyyMMdd'T'HHmmss")}`;
+  return timezone && timezone !== "UTC"
+    ? `${name};TZID=${timezone}:${icsLocalDateTime(date, timezone)}`
+    : `${name}:${icsDateTime(date)}`;
+};
+
+// VTIMEZONE built from this year's offset changes, each repeated yearly on
+// the same weekday of the month (e.g. second Sunday or last Sunday)
+function timezoneLines(timezone: string, year = new Date().getFullYear()) {
+  const DAY = 24 * 60 * 60000;
+  const transitions: { at: Date; from: number; to: number }[] = [];
+  let previous = offsetMinutes(new Date(Date.UTC(year, 0, 1)), timezone);
+
+  for (let time = Date.UTC(year, 0, 2); time < Date.UTC(year + 1, 0, 1); time += DAY) {
+    const offset = offsetMinutes(new Date(time), timezone);
+    if (offset === previous) continue;
+
+    let low = time - DAY;
+    let high = time;
+    while (high - low > 60000) {
+      const mid = low + Math.floor((high - low) / 120000) * 60000;
+      if (offsetMinutes(new Date(mid), timezone) === previous) low = mid;
+      else high = mid;
+    }
+    transitions.push({ at: new Date(high), from: previous, to: offset });
+    previous = offset;
+  }
+
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timezone}`];
+  if (transitions.length === 0) {
+    const offset = formatOffset(previous);
+    lines.push("BEGIN:STANDARD", "DTSTART:19700101T000000", `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, "END:STANDARD");
+  }
+  transitions.forEach(({ at, from, to }) => {
+    const kind = to > from ? "DAYLIGHT" : "STANDARD";
+    // Local time just before the change, in the offset being left
+    const local = new Date(at.getTime() + from * 60000);
+    const day = local.getUTCDate();
+    const lastWeek = day + 7 > new Date(Date.UTC(year, local.getUTCMonth() + 1, 0)).getUTCDate();
+    const weekday = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"][local.getUTCDay()];
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${icsDateTime(local).replace("Z", "")}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${lastWeek ? -1 : Math.ceil(day / 7)}${weekday}`,
+      `END:${kind}`
+    );
+  });
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+// TEXT values escape backslash, semicolon, comma and newlines
+export const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a single space
+export function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function eventLines(event: IcsEvent, stamp: string) {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    event.allDay ? `DTSTART;VALUE=DATE:${icsDate(event.start)}` : timed("DTSTART", event.start, event.timezone, event.floating),
+    event.allDay ? `DTEND;VALUE=DATE:${icsDate(event.end)}` : timed("DTEND", event.end, event.timezone, event.floating),
+    `SUMMARY:${escapeText(event.title)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  event.exdates?.forEach(date =>
+    lines.push(event.allDay ? `EXDATE;VALUE=DATE:${icsDate(date)}` : timed("EXDATE", date, event.timezone))
+  );
+  if (event.recurrenceId) lines.push(timed("RECURRENCE-ID", event.recurrenceId, event.timezone));
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.sequence != null) lines.push(`SEQUENCE:${event.sequence}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${icsDateTime(event.lastModified)}`);
+  if (event.allDay) lines.push("TRANSP:TRANSPARENT");
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function buildCalendar(events: IcsEvent[], name = "Team Calendar") {
+  const stamp = icsDateTime(new Date());
+  const timezones = [
+    ...new Set(events.filter(e => !e.allDay && e.timezone && e.timezone !== "UTC").map(e => e.timezone)),
+  ];
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...timezones.flatMap(timezone => timezoneLines(timezone)),
+    ...events.flatMap(event => eventLines(event, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// All-day helper: yyyy-MM-dd inclusive range to [start, exclusive end)
+export const allDayRange = (from: string, to = from) => {
+  const start = new Date(`${from}T00:00:00`);
+  return { start, end: addDays(new Date(`${to}T00:00:00`), 1), allDay: true };
+};
+
+// Series rows carry their RRULE, exceptions the slot they replace. Pass the
+// series row rather than a generated occurrence to export a whole series.
+export const meetingToIcs = (meeting: Meeting): IcsEvent => ({
+  uid: `meeting-${meeting.series_id ?? meeting.id}@${UID_DOMAIN}`,
+  title: meeting.title,
+  description: meeting.status === "cancelled" && meeting.cancel_reason
+    ? `Cancelled: ${meeting.cancel_reason}`
+    : meeting.description,
+  location: meeting.meeting_link,
+  url: meeting.meeting_link,
+  start: new Date(meeting.scheduled_at),
+  end: meetingEnd(meeting),
+  status: meeting.status === "cancelled" ? "CANCELLED" : "CONFIRMED",
+  lastModified: new Date(meeting.updated_at || meeting.created_at),
+  rrule: meeting.recurrence_rule,
+  timezone: meeting.recurrence_rule || meeting.series_id ? meeting.timezone : null,
+  recurrenceId: meeting.series_id ? new Date(meeting.original_start) : null,
+});
+
+// Permission leave covers a few hours, the other types whole days. Leave is
+// stored as wall-clock dates and times, so neither is pinned to a zone.
+export const leaveToIcs = (leave: LeaveRequest): IcsEvent => {
+  const title = `Leave · ${LEAVE_TYPE_LABELS[leave.type] || leave.type}`;
+  const timed = leave.type === "permission" && leave.start_time && leave.end_time;
+  return {
+    uid: `leave-${leave.id}@${UID_DOMAIN}`,
+    title,
+    description: leave.reason,
+    ...(timed
+      ? {
+          start: new Date(`${leave.start_date}T${leave.start_time}`),
+          end: new Date(`${leave.start_date}T${leave.end_time}`),
+          floating: true,
+        }
+      : allDayRange(leave.start_date, leave.end_date || leave.start_date)),
+    status: "CONFIRMED",
+    lastModified: new Date(leave.updated_at || leave.created_at),
+  };
+};
+
+export const taskToIcs = (task: Task): IcsEvent => ({
+  uid: `task-${task.id}@${UID_DOMAIN}`,
+  title: `Due: ${task.title}`,
+  description: task.description,
+  ...allDayRange(task.due_date),
+  lastModified: new Date(task.updated_at || task.created_at),
+});
+
+// The signed-in member's own calendar: meetings they organise or attend,
+// approved leave and due dates of tasks assigned to them
+export async function fetchMyCalendarEvents(userId: string, now = new Date()) {
+  const [meetings, leave, tasks] = await Promise.all([
+    fetchMeetingRows(userId, subMonths(now, 3), addMonths(now, 12)),
+    fetchMyLeaveRequests(userId),
+    fetchAssignedTasks(userId),
+  ]);
+
+  return [
+    ...meetings.meetings.filter(m => !m.series_id).map(meetingToIcs),
+    ...meetings.series.map(meetingToIcs),
+    ...meetings.exceptions.map(meetingToIcs),
+    ...leave.filter(l => l.status === "approved").map(leaveToIcs),
+    ...tasks.filter(t => t.due_date).map(taskToIcs),
+  ];
+}
+
+export function downloadCalendar(filename: string, events: IcsEvent[], name?: string) {
+  const blob = new Blob([buildCalendar(events, name)], { type: "text/calendar;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.endsWith(".ics") ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
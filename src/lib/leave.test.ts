@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_WORK_CALENDAR,
+  exceedsBalance,
+  formatLeaveAmount,
+  leaveDuration,
+  leaveYear,
+  toBalance,
+  workingDaysBetween,
+  type WorkCalendar,
+} from "./leave";
+
+// 2024-01-01 is a Monday
+const withHoliday: WorkCalendar = { weekendDays: [0, 6], holidays: new Set(["2024-01-03"]) };
+
+describe("workingDaysBetween", () => {
+  it("leaves out weekends and holidays", () => {
+    expect(workingDaysBetween("2024-01-01", "2024-01-07", DEFAULT_WORK_CALENDAR)).toBe(5);
+    expect(workingDaysBetween("2024-01-01", "2024-01-07", withHoliday)).toBe(4);
+  });
+
+  it("follows the configured weekend", () => {
+    const fridaySaturday: WorkCalendar = { weekendDays: [5, 6], holidays: new Set() };
+    expect(workingDaysBetween("2024-01-05", "2024-01-07", fridaySaturday)).toBe(1);
+  });
+
+  it("is zero for a range that ends before it starts", () => {
+    expect(workingDaysBetween("2024-01-05", "2024-01-01", DEFAULT_WORK_CALENDAR)).toBe(0);
+  });
+});
+
+describe("leaveDuration", () => {
+  it("charges full days on working days only", () => {
+    expect(leaveDuration({ type: "full_day", start_date: "2024-01-05", end_date: "2024-01-08" })).toBe(2);
+    expect(leaveDuration({ type: "full_day", start_date: "2024-01-02", end_date: "2024-01-04" }, withHoliday)).toBe(2);
+  });
+
+  it("treats a full day without an end date as one day", () => {
+    expect(leaveDuration({ type: "full_day", start_date: "2024-01-02", end_date: null })).toBe(1);
+  });
+
+  it("charges half days unless they fall on a non-working day", () => {
+    expect(leaveDuration({ type: "half_day", start_date: "2024-01-02" })).toBe(0.5);
+    expect(leaveDuration({ type: "half_day", start_date: "2024-01-06" })).toBe(0);
+    expect(leaveDuration({ type: "half_day", start_date: "2024-01-03" }, withHoliday)).toBe(0);
+  });
+
+  it("charges permissions in hours", () => {
+    const permission = { type: "permission" as const, start_date: "2024-01-02" };
+    expect(leaveDuration({ ...permission, start_time: "09:00:00", end_time: "10:30:00" })).toBe(1.5);
+    expect(leaveDuration({ ...permission, start_time: "11:00", end_time: "10:00" })).toBe(0);
+    expect(leaveDuration({ ...permission, start_time: "09:00", end_time: null })).toBe(0);
+  });
+});
+
+describe("balances", () => {
+  it("has no limit without an allowance", () => {
+    const balance = toBalance(null);
+    expect(balance).toEqual({ allowance: null, used: 0, remaining: null });
+    expect(exceedsBalance(balance, 100)).toBe(false);
+  });
+
+  it("refuses amounts above what remains", () => {
+    const balance = toBalance({ allowance: 10, used: 8.5 });
+    expect(balance.remaining).toBe(1.5);
+    expect(exceedsBalance(balance, 1.5)).toBe(false);
+    expect(exceedsBalance(balance, 2)).toBe(true);
+  });
+});
+
+describe("formatting", () => {
+  it("uses the unit of the leave type", () => {
+    expect(formatLeaveAmount(1, "full_day")).toBe("1 day");
+    expect(formatLeaveAmount(2.5, "half_day")).toBe("2.5 days");
+    expect(formatLeaveAmount(1.333333, "permission")).toBe("1.33 hours");
+  });
+
+  it("reads the year from a date key", () => {
+    expect(leaveYear("2024-12-31")).toBe(2024);
+  });
+});
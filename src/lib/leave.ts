@@ -0,0 +1,84 @@
+import { differenceInMinutes, eachDayOfInterval, format, parse, parseISO } from "date-fns";
+import type { LeaveType } from "@/lib/repositories/leaveRequests";
+
+export interface LeavePeriod {
+  type: LeaveType;
+  start_date: string;
+  end_date?: string | null;
+  start_time?: string | null;
+  end_time?: string | null;
+}
+
+// Which days count towards a leave duration
+export interface WorkCalendar {
+  weekendDays: number[];
+  holidays: Set<string>;
+}
+
+export interface LeaveBalance {
+  allowance: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+// Full and half days draw from day allowances, permissions from hours
+export const LEAVE_UNITS: Record<LeaveType, "days" | "hours"> = {
+  full_day: "days",
+  half_day: "days",
+  permission: "hours",
+};
+
+export const formatLeaveAmount = (amount: number, type: LeaveType) => {
+  const unit = LEAVE_UNITS[type];
+  return `${parseFloat(amount.toFixed(2))} ${amount === 1 ? unit.slice(0, -1) : unit}`;
+};
+
+export const DEFAULT_WORK_CALENDAR: WorkCalendar = { weekendDays: [0, 6], holidays: new Set() };
+
+export const isWorkingDay = (date: Date, calendar: WorkCalendar) =>
+  !calendar.weekendDays.includes(date.getDay()) && !calendar.holidays.has(format(date, "yyyy-MM-dd"));
+
+export function workingDaysBetween(start: string, end: string, calendar: WorkCalendar) {
+  const startDate = parseISO(start);
+  const endDate = parseISO(end);
+  if (endDate < startDate) return 0;
+  return eachDayOfInterval({ start: startDate, end: endDate }).filter(d => isWorkingDay(d, calendar)).length;
+}
+
+// How much of the allowance a request consumes, in LEAVE_UNITS[type].
+// Weekends and holidays inside a leave range are not charged. The stored
+// duration comes from leave_request_duration in the database; this mirrors it
+// for previews.
+export function leaveDuration(period: LeavePeriod, calendar = DEFAULT_WORK_CALENDAR) {
+  switch (period.type) {
+    case "half_day":
+      return isWorkingDay(parseISO(period.start_date), calendar) ? 0.5 : 0;
+    case "permission": {
+      if (!period.start_time || !period.end_time) return 0;
+      const base = new Date();
+      const minutes = differenceInMinutes(
+        parse(period.end_time.slice(0, 5), "HH:mm", base),
+        parse(period.start_time.slice(0, 5), "HH:mm", base)
+      );
+      return Math.max(0, parseFloat((minutes / 60).toFixed(2)));
+    }
+    default:
+      return workingDaysBetween(period.start_date, period.end_date || period.start_date, calendar);
+  }
+}
+
+export const leaveYear = (date: string) => parseISO(date).getFullYear();
+
+export function toBalance(entitlement?: { allowance: number | null; used: number } | null): LeaveBalance {
+  const allowance = entitlement?.allowance ?? null;
+  const used = entitlement?.used ?? 0;
+  return {
+    allowance,
+    used,
+    remaining: allowance == null ? null : parseFloat((allowance - used).toFixed(2)),
+  };
+}
+
+// True when a limit is configured and the request would take the balance below zero
+export const exceedsBalance = (balance: LeaveBalance, amount: number) =>
+  balance.remaining != null && amount > balance.remaining;
@@ -0,0 +1,100 @@
+import { addDays, format } from "date-fns";
+import { describe, expect, it } from "vitest";
+import { assessProjectHealth, completionVelocity, memberWorkload, type ProjectHistoryPoint } from "./projectHealth";
+import type { TaskWithRelations } from "./repositories/tasks";
+
+const today = new Date(2024, 2, 10, 12, 0);
+
+// Daily history ending today, completing `perDay` tasks a day
+const history = (days: number, perDay: number): ProjectHistoryPoint[] =>
+  Array.from({ length: days + 1 }, (_, i) => ({
+    day: `2024-03-${String(10 - days + i).padStart(2, "0")}`,
+    total: 20,
+    completed: i * perDay,
+  }));
+
+const open = (count: number) => Array.from({ length: count }, () => ({ status: "pending" }));
+
+describe("completionVelocity", () => {
+  it("needs at least two days of history", () => {
+    expect(completionVelocity([])).toBe(0);
+    expect(completionVelocity(history(0, 1))).toBe(0);
+  });
+
+  it("is the completions per day over the last two weeks", () => {
+    expect(completionVelocity(history(4, 2))).toBe(2);
+    // Three tasks a day at first, then one a day for the last two weeks
+    const long = Array.from({ length: 21 }, (_, i) => ({
+      day: format(addDays(new Date(2024, 1, 19), i), "yyyy-MM-dd"),
+      total: 40,
+      completed: i < 6 ? i * 3 : 15 + (i - 6),
+    }));
+    expect(completionVelocity(long)).toBe(1);
+  });
+
+  it("never goes negative when tasks are reopened", () => {
+    expect(completionVelocity([
+      { day: "2024-03-01", total: 5, completed: 4 },
+      { day: "2024-03-02", total: 5, completed: 1 },
+    ])).toBe(0);
+  });
+});
+
+describe("assessProjectHealth", () => {
+  it("is on track once every task is done", () => {
+    const result = assessProjectHealth({ end_date: "2024-03-01" }, [{ status: "completed" }], [], today);
+    expect(result).toMatchObject({ health: "on_track", remaining: 0, reason: "All tasks are completed" });
+  });
+
+  it("has no health without an end date", () => {
+    expect(assessProjectHealth({ end_date: null }, open(2), [], today).health).toBeNull();
+  });
+
+  it("is late past the end date with open tasks", () => {
+    const result = assessProjectHealth({ end_date: "2024-03-09" }, open(2), history(4, 1), today);
+    expect(result).toMatchObject({ health: "late", daysLeft: -1, reason: "1 day past its end date with 2 open tasks" });
+  });
+
+  it("is at risk when nothing was completed recently", () => {
+    expect(assessProjectHealth({ end_date: "2024-03-20" }, open(2), history(4, 0), today).health).toBe("at_risk");
+  });
+
+  it("compares the projected finish with the days left", () => {
+    const onTrack = assessProjectHealth({ end_date: "2024-03-20" }, open(10), history(4, 2), today);
+    expect(onTrack).toMatchObject({ health: "on_track", daysLeft: 10, projectedDays: 5 });
+
+    const atRisk = assessProjectHealth({ end_date: "2024-03-13" }, open(10), history(4, 2), today);
+    expect(atRisk).toMatchObject({ health: "at_risk", daysLeft: 3, projectedDays: 5 });
+    expect(atRisk.reason).toBe("At the current pace the 10 open tasks need about 5 days, but only 3 days to go");
+  });
+});
+
+describe("memberWorkload", () => {
+  const task = (assigned_to: string | null, status: string, due_date: string | null = null) =>
+    ({ assigned_to, status, due_date, assignee: assigned_to ? { full_name: "Former" } : undefined }) as TaskWithRelations;
+
+  it("counts open, overdue and completed tasks per member", () => {
+    const rows = memberWorkload(
+      [
+        task("ada", "pending", "2024-03-09"),
+        task("ada", "in_progress", "2024-03-10"),
+        task("ada", "completed", "2024-03-01"),
+        task("gone", "pending"),
+        task(null, "pending"),
+      ],
+      [
+        { user_id: "ada", full_name: "Ada", role: "member" },
+        { user_id: "bob", full_name: "Bob", role: "lead" },
+        { user_id: "vic", full_name: "Vic", role: "viewer" },
+      ],
+      today
+    );
+
+    expect(rows).toEqual([
+      { userId: "ada", name: "Ada", open: 2, overdue: 1, completed: 1 },
+      { userId: "gone", name: "Former", open: 1, overdue: 0, completed: 0 },
+      { userId: null, name: "Unassigned", open: 1, overdue: 0, completed: 0 },
+      { userId: "bob", name: "Bob", open: 0, overdue: 0, completed: 0 },
+    ]);
+  });
+});
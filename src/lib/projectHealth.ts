@@ -0,0 +1,133 @@
+import { differenceInCalendarDays, parseISO, startOfDay } from "date-fns";
+import type { ProjectMemberRole } from "@/lib/repositories/projects";
+import type { TaskWithRelations } from "@/lib/repositories/tasks";
+import { dueState } from "@/lib/taskDeadlines";
+
+export type ProjectHealth = "on_track" | "at_risk" | "late";
+
+export const PROJECT_HEALTH_LABELS: Record<ProjectHealth, string> = {
+  on_track: "On track",
+  at_risk: "At risk",
+  late: "Late",
+};
+
+export const PROJECT_HEALTH_COLORS: Record<ProjectHealth, string> = {
+  on_track: "bg-green-100 text-green-700",
+  at_risk: "bg-amber-100 text-amber-700",
+  late: "bg-red-100 text-red-700",
+};
+
+export interface ProjectHistoryPoint {
+  day: string;
+  total: number;
+  completed: number;
+}
+
+export interface HealthAssessment {
+  // null when the project has no end date to measure against
+  health: ProjectHealth | null;
+  reason: string;
+  remaining: number;
+  daysLeft: number | null;
+  projectedDays: number | null;
+}
+
+export interface MemberWorkload {
+  userId: string | null;
+  name: string;
+  open: number;
+  overdue: number;
+  completed: number;
+}
+
+const VELOCITY_WINDOW_DAYS = 14;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+// Tasks completed per day over the last two weeks of history
+export function completionVelocity(history: ProjectHistoryPoint[]) {
+  if (history.length < 2) return 0;
+
+  const last = history[history.length - 1];
+  const first = history[Math.max(0, history.length - 1 - VELOCITY_WINDOW_DAYS)];
+  const days = differenceInCalendarDays(parseISO(last.day), parseISO(first.day));
+  return days > 0 ? Math.max(0, last.completed - first.completed) / days : 0;
+}
+
+// Late once the end date has passed with work left; at risk when the recent
+// pace would not finish the remaining tasks by the end date
+export function assessProjectHealth(
+  project: { end_date: string | null },
+  tasks: { status: string }[],
+  history: ProjectHistoryPoint[],
+  today = new Date()
+): HealthAssessment {
+  const remaining = tasks.filter(t => t.status !== "completed").length;
+  const daysLeft = project.end_date ? differenceInCalendarDays(parseISO(project.end_date), startOfDay(today)) : null;
+  const velocity = completionVelocity(history);
+  const projectedDays = remaining > 0 && velocity > 0 ? Math.ceil(remaining / velocity) : null;
+  const base = { remaining, daysLeft, projectedDays };
+
+  if (remaining === 0) {
+    return { ...base, health: "on_track", reason: tasks.length > 0 ? "All tasks are completed" : "No open tasks" };
+  }
+  if (daysLeft === null) {
+    return { ...base, health: null, reason: "Set an end date to track this project's health" };
+  }
+  if (daysLeft < 0) {
+    return {
+      ...base,
+      health: "late",
+      reason: `${plural(-daysLeft, "day")} past its end date with ${plural(remaining, "open task")}`,
+    };
+  }
+  if (projectedDays === null) {
+    return {
+      ...base,
+      health: "at_risk",
+      reason: `No tasks completed in the last two weeks; ${plural(remaining, "open task")} and ${plural(daysLeft, "day")} left`,
+    };
+  }
+
+  const pace = `At the current pace the ${plural(remaining, "open task")} need about ${plural(projectedDays, "day")}`;
+  return projectedDays > daysLeft
+    ? { ...base, health: "at_risk", reason: `${pace}, but only ${plural(daysLeft, "day")} to go` }
+    : { ...base, health: "on_track", reason: `${pace}, with ${plural(daysLeft, "day")} left` };
+}
+
+// Open, overdue and completed tasks per member who can be assigned work, plus
+// anyone else still holding tasks and an "Unassigned" row when needed
+export function memberWorkload(
+  tasks: TaskWithRelations[],
+  members: { user_id: string; full_name: string; role: ProjectMemberRole }[],
+  today = new Date()
+): MemberWorkload[] {
+  const rows = new Map<string | null, MemberWorkload>(
+    members
+      .filter(m => m.role !== "viewer")
+      .map(m => [m.user_id, { userId: m.user_id, name: m.full_name, open: 0, overdue: 0, completed: 0 }])
+  );
+
+  for (const task of tasks) {
+    const key = task.assigned_to ?? null;
+    if (!rows.has(key)) {
+      rows.set(key, {
+        userId: key,
+        name: key ? task.assignee?.full_name || "Unknown" : "Unassigned",
+        open: 0,
+        overdue: 0,
+        completed: 0,
+      });
+    }
+
+    const row = rows.get(key)!;
+    if (task.status === "completed") {
+      row.completed += 1;
+    } else {
+      row.open += 1;
+      if (dueState(task, 0, today) === "overdue") row.overdue += 1;
+    }
+  }
+
+  return [...rows.values()].sort((a, b) => b.open - a.open || a.name.localeCompare(b.name));
+}
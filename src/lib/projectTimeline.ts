@@ -0,0 +1,71 @@
+import { addDays, differenceInCalendarDays, max, min, parseISO, startOfDay } from "date-fns";
+import type { Milestone } from "@/lib/repositories/milestones";
+import type { Task } from "@/lib/repositories/tasks";
+
+export type MilestoneState = "reached" | "slipped" | "upcoming";
+
+export const MILESTONE_STATE_LABELS: Record<MilestoneState, string> = {
+  reached: "Reached",
+  slipped: "Slipped",
+  upcoming: "Upcoming",
+};
+
+export const MILESTONE_STATE_COLORS: Record<MilestoneState, string> = {
+  reached: "bg-green-100 text-green-700",
+  slipped: "bg-red-100 text-red-700",
+  upcoming: "bg-blue-100 text-blue-700",
+};
+
+export interface TimelineRange {
+  start: Date;
+  end: Date;
+  days: number;
+}
+
+// A milestone is reached once all its tasks are done. It has slipped when its
+// target date passed without that, or an open task is due after the target.
+export function milestoneState(milestone: Milestone, tasks: Task[], today = new Date()): MilestoneState {
+  const linked = tasks.filter(t => t.milestone_id === milestone.id);
+  const open = linked.filter(t => t.status !== "completed");
+  if (linked.length > 0 && open.length === 0) return "reached";
+
+  const target = parseISO(milestone.target_date);
+  if (target < startOfDay(today)) return "slipped";
+  return open.some(t => t.due_date && parseISO(t.due_date) > target) ? "slipped" : "upcoming";
+}
+
+// A task bar runs from the day it was created to its due date
+export const taskSpan = (task: Task) => {
+  const end = parseISO(task.due_date!);
+  return { start: min([startOfDay(new Date(task.created_at)), end]), end };
+};
+
+// Covers the project span, every milestone and dated task, and today, with a
+// couple of days either side so markers don't sit on the edge
+export function timelineRange(
+  project: { start_date: string | null; end_date: string | null },
+  milestones: Milestone[],
+  tasks: Task[],
+  today = new Date()
+): TimelineRange {
+  const dates = [
+    startOfDay(today),
+    ...[project.start_date, project.end_date].filter(Boolean).map(d => parseISO(d!)),
+    ...milestones.map(m => parseISO(m.target_date)),
+    ...tasks.filter(t => t.due_date).flatMap(t => {
+      const span = taskSpan(t);
+      return [span.start, span.end];
+    }),
+  ];
+  const start = addDays(min(dates), -2);
+  const end = addDays(max(dates), 2);
+  return { start, end, days: differenceInCalendarDays(end, start) + 1 };
+}
+
+// Left edge of a day as a percentage of the timeline width
+export const dayOffset = (range: TimelineRange, date: Date) =>
+  (differenceInCalendarDays(date, range.start) / range.days) * 100;
+
+// Width of an inclusive span of days as a percentage of the timeline width
+export const spanWidth = (range: TimelineRange, start: Date, end: Date) =>
+  ((differenceInCalendarDays(end, start) + 1) / range.days) * 100;
@@ -0,0 +1,195 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  defaultRecurrence,
+  describeRecurrence,
+  formatRecurrence,
+  lastOccurrence,
+  occurrencesBetween,
+  parseRecurrence,
+  type Recurrence,
+} from "./recurrence";
+
+const weekly = (weekdays: number[], extra: Partial<Recurrence> = {}): Recurrence => ({
+  frequency: "weekly",
+  interval: 1,
+  weekdays,
+  until: null,
+  count: null,
+  ...extra,
+});
+
+const days = (dates: Date[]) => dates.map(d => `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`);
+
+describe("parseRecurrence", () => {
+  it("returns null for empty or unsupported rules", () => {
+    expect(parseRecurrence(null)).toBeNull();
+    expect(parseRecurrence("")).toBeNull();
+    expect(parseRecurrence("FREQ=YEARLY")).toBeNull();
+  });
+
+  it("reads frequency, interval, days and end", () => {
+    expect(parseRecurrence("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=WE,MO;UNTIL=20240315T235959Z", "UTC")).toEqual({
+      frequency: "weekly",
+      interval: 2,
+      weekdays: [1, 3],
+      until: "2024-03-15",
+      count: null,
+    });
+    expect(parseRecurrence("FREQ=DAILY;COUNT=5")).toMatchObject({ frequency: "daily", interval: 1, count: 5 });
+  });
+
+  it("recognises Monday to Friday as every weekday", () => {
+    expect(parseRecurrence("FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR")?.frequency).toBe("weekdays");
+    expect(parseRecurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TU,WE,TH,FR")?.frequency).toBe("weekly");
+  });
+});
+
+describe("formatRecurrence", () => {
+  it("writes the rule the form describes", () => {
+    expect(formatRecurrence(weekly([1, 3], { interval: 2, count: 4 }))).toBe("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4");
+    expect(formatRecurrence({ ...weekly([]), frequency: "weekdays" })).toBe("FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR");
+    expect(formatRecurrence({ ...weekly([]), frequency: "monthly" })).toBe("FREQ=MONTHLY");
+  });
+
+  it("round-trips through parseRecurrence", () => {
+    const recurrence = weekly([2, 4], { interval: 3, count: 10 });
+    expect(parseRecurrence(formatRecurrence(recurrence))).toEqual(recurrence);
+  });
+
+  it("prefers UNTIL over COUNT", () => {
+    const rule = formatRecurrence(weekly([1], { until: "2024-06-30", count: 3 }));
+    expect(rule).toContain("UNTIL=");
+    expect(rule).not.toContain("COUNT=");
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("summarises the series in words", () => {
+    expect(describeRecurrence(weekly([1, 5]))).toBe("Weekly on Mon, Fri");
+    expect(describeRecurrence(weekly([2], { interval: 2 }))).toBe("Every 2 weeks on Tue");
+    expect(describeRecurrence({ ...weekly([]), frequency: "daily", interval: 3, count: 4 })).toBe("Every 3 days, 4 times");
+    expect(describeRecurrence({ ...weekly([]), frequency: "monthly", until: "2024-12-31" })).toBe(
+      "Monthly until Dec 31, 2024"
+    );
+  });
+});
+
+describe("occurrencesBetween", () => {
+  // Monday 1 January 2024, 09:30
+  const start = new Date(2024, 0, 1, 9, 30);
+
+  it("defaults weekly series to the start's weekday", () => {
+    expect(defaultRecurrence(start).weekdays).toEqual([1]);
+    expect(defaultRecurrence(start, "weekdays").weekdays).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("skips weekends for weekday series", () => {
+    const dates = occurrencesBetween(start, { ...weekly([]), frequency: "weekdays" }, start, new Date(2024, 0, 9));
+    expect(days(dates)).toEqual(["2024-1-1", "2024-1-2", "2024-1-3", "2024-1-4", "2024-1-5", "2024-1-8"]);
+  });
+
+  it("expands several days per week at the start's time", () => {
+    const dates = occurrencesBetween(start, weekly([1, 3], { interval: 2 }), start, new Date(2024, 0, 31));
+    expect(days(dates)).toEqual(["2024-1-1", "2024-1-3", "2024-1-15", "2024-1-17", "2024-1-29"]);
+    expect(dates.every(d => d.getHours() === 9 && d.getMinutes() === 30)).toBe(true);
+  });
+
+  it("counts occurrences before the window towards COUNT", () => {
+    const recurrence = { ...weekly([]), frequency: "daily" as const, count: 5 };
+    const dates = occurrencesBetween(start, recurrence, new Date(2024, 0, 4), new Date(2024, 1, 1));
+    expect(days(dates)).toEqual(["2024-1-4", "2024-1-5"]);
+  });
+
+  it("stops after the UNTIL day", () => {
+    const dates = occurrencesBetween(start, weekly([1], { until: "2024-01-15" }), start, new Date(2024, 2, 1));
+    expect(days(dates)).toEqual(["2024-1-1", "2024-1-8", "2024-1-15"]);
+  });
+
+  it("skips months without the start's day", () => {
+    const monthly = { ...weekly([]), frequency: "monthly" as const };
+    const dates = occurrencesBetween(new Date(2024, 0, 31), monthly, new Date(2024, 0, 1), new Date(2024, 5, 1));
+    expect(days(dates)).toEqual(["2024-1-31", "2024-3-31", "2024-5-31"]);
+  });
+});
+
+describe("lastOccurrence", () => {
+  const start = new Date(2024, 0, 1, 9, 30);
+
+  it("is null for series without an end", () => {
+    expect(lastOccurrence(start, weekly([1]))).toBeNull();
+  });
+
+  it("finds the final occurrence of a bounded series", () => {
+    expect(days([lastOccurrence(start, weekly([1, 3], { count: 3 }))!])).toEqual(["2024-1-8"]);
+    expect(days([lastOccurrence(start, weekly([5], { until: "2024-01-25" }))!])).toEqual(["2024-1-19"]);
+  });
+});
+
+describe("series timezone", () => {
+  const viewerTimezone = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = "America/Los_Angeles";
+  });
+  afterAll(() => {
+    process.env.TZ = viewerTimezone;
+  });
+
+  const iso = (dates: Date[]) => dates.map(d => d.toISOString());
+
+  it("keeps BYDAY on the series' day for viewers in another timezone", () => {
+    // Mondays and Wednesdays 09:00 in Kolkata, which is Sunday and Tuesday evening in Los Angeles
+    const start = new Date("2024-01-01T03:30:00Z");
+    const dates = occurrencesBetween(start, weekly([1, 3]), start, new Date("2024-01-09T00:00:00Z"), "Asia/Kolkata");
+    expect(iso(dates)).toEqual(["2024-01-01T03:30:00.000Z", "2024-01-03T03:30:00.000Z", "2024-01-08T03:30:00.000Z"]);
+  });
+
+  it("follows the series' daylight saving changes, not the viewer's", () => {
+    // Weekly on Monday 09:00 in London; clocks there go forward on 31 March, in Los Angeles on 10 March
+    const start = new Date("2024-03-04T09:00:00Z");
+    const dates = occurrencesBetween(start, weekly([1]), start, new Date("2024-04-05T00:00:00Z"), "Europe/London");
+    expect(iso(dates)).toEqual([
+      "2024-03-04T09:00:00.000Z",
+      "2024-03-11T09:00:00.000Z",
+      "2024-03-18T09:00:00.000Z",
+      "2024-03-25T09:00:00.000Z",
+      "2024-04-01T08:00:00.000Z",
+    ]);
+  });
+
+  it("reads UNTIL as a day in the series' timezone", () => {
+    const start = new Date("2024-01-01T03:30:00Z");
+    const last = lastOccurrence(start, weekly([1], { until: "2024-01-15" }), "Asia/Kolkata");
+    expect(last?.toISOString()).toBe("2024-01-15T03:30:00.000Z");
+  });
+});
+
+describe("end date west of UTC", () => {
+  const viewerTimezone = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = "America/New_York";
+  });
+  afterAll(() => {
+    process.env.TZ = viewerTimezone;
+  });
+
+  it("reads UNTIL back as the day it was saved for", () => {
+    const rule = formatRecurrence({ ...weekly([]), frequency: "daily", until: "2024-05-10" });
+    expect(rule).toContain("UNTIL=20240511T035959Z");
+    expect(parseRecurrence(rule)?.until).toBe("2024-05-10");
+    // Saving again, as editing a series does, keeps the same end
+    expect(formatRecurrence(parseRecurrence(rule)!)).toBe(rule);
+  });
+
+  it("ends the series on that day", () => {
+    const start = new Date(2024, 4, 6, 18, 0);
+    const recurrence = parseRecurrence(formatRecurrence({ ...weekly([]), frequency: "daily", until: "2024-05-10" }))!;
+    expect(days(occurrencesBetween(start, recurrence, start, new Date(2024, 4, 20)))).toEqual([
+      "2024-5-6",
+      "2024-5-7",
+      "2024-5-8",
+      "2024-5-9",
+      "2024-5-10",
+    ]);
+    expect(days([lastOccurrence(start, recurrence)!])).toEqual(["2024-5-10"]);
+  });
+});
@@ -0,0 +1,197 @@
+import { addDays, format, parseISO } from "date-fns";
+import { fromZoned, localTimezone, zonedAsUtc } from "@/lib/timezone";
+
+export type RecurrenceFrequency = "daily" | "weekdays" | "weekly" | "monthly";
+
+// The subset of RFC 5545 RRULEs the meeting form writes. Weekdays use
+// JavaScript numbering (0 = Sunday); `until` is an inclusive yyyy-MM-dd.
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: number[];
+  until: string | null;
+  count: number | null;
+}
+
+export const RECURRENCE_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: "Daily",
+  weekdays: "Every weekday",
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+// Series without an end are expanded this many occurrences at most
+const MAX_OCCURRENCES = 5000;
+
+export const defaultRecurrence = (start: Date, frequency: RecurrenceFrequency = "weekly"): Recurrence => ({
+  frequency,
+  interval: 1,
+  weekdays: frequency === "weekdays" ? WEEKDAYS : [start.getDay()],
+  until: null,
+  count: null,
+});
+
+// UNTIL is read back as the day it falls on in `timezone`, the one the rule
+// was written for (see formatRecurrence)
+export function parseRecurrence(rule: string | null | undefined, timezone = localTimezone()): Recurrence | null {
+  if (!rule) return null;
+
+  const parts = Object.fromEntries(
+    rule.replace(/^RRULE:/, "").split(";").map(part => part.split("=") as [string, string])
+  );
+  const weekdays = (parts.BYDAY ? parts.BYDAY.split(",") : [])
+    .map(day => RRULE_DAYS.indexOf(day))
+    .filter(day => day >= 0)
+    .sort((a, b) => a - b);
+  const interval = Number(parts.INTERVAL) || 1;
+  const isWeekdays = parts.FREQ === "WEEKLY" && interval === 1 && weekdays.join() === WEEKDAYS.join();
+
+  let frequency: RecurrenceFrequency;
+  if (isWeekdays) frequency = "weekdays";
+  else if (parts.FREQ === "DAILY") frequency = "daily";
+  else if (parts.FREQ === "WEEKLY") frequency = "weekly";
+  else if (parts.FREQ === "MONTHLY") frequency = "monthly";
+  else return null;
+
+  return {
+    frequency,
+    interval,
+    weekdays,
+    until: parts.UNTIL ? untilDay(parts.UNTIL, timezone) : null,
+    count: parts.COUNT ? Number(parts.COUNT) : null,
+  };
+}
+
+// UNTIL values are yyyyMMdd dates or yyyyMMddTHHmmssZ instants
+function untilDay(until: string, timezone: string) {
+  const day = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+  if (!until.endsWith("Z")) return day;
+  const instant = new Date(`${day}T${until.slice(9, 11)}:${until.slice(11, 13)}:${until.slice(13, 15)}Z`);
+  return new Date(zonedAsUtc(instant, timezone)).toISOString().slice(0, 10);
+}
+
+export function formatRecurrence(recurrence: Recurrence, timezone = localTimezone()) {
+  const parts: string[] = [];
+
+  if (recurrence.frequency === "weekdays") {
+    parts.push("FREQ=WEEKLY", `BYDAY=${WEEKDAYS.map(day => RRULE_DAYS[day]).join(",")}`);
+  } else {
+    parts.push(`FREQ=${recurrence.frequency.toUpperCase()}`);
+    if (recurrence.interval > 1) parts.push(`INTERVAL=${recurrence.interval}`);
+    if (recurrence.frequency === "weekly" && recurrence.weekdays.length > 0) {
+      parts.push(`BYDAY=${recurrence.weekdays.map(day => RRULE_DAYS[day]).join(",")}`);
+    }
+  }
+
+  // UNTIL is written in UTC as the end of that day in the series' timezone so
+  // it covers the last occurrence
+  if (recurrence.until) {
+    const endOfUntil = fromZoned(Date.parse(`${recurrence.until}T23:59:59Z`), timezone);
+    parts.push(`UNTIL=${endOfUntil.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`);
+  } else if (recurrence.count) {
+    parts.push(`COUNT=${recurrence.count}`);
+  }
+
+  return parts.join(";");
+}
+
+export function describeRecurrence(recurrence: Recurrence) {
+  const { frequency, interval } = recurrence;
+  let text: string;
+
+  if (frequency === "weekdays") {
+    text = "Every weekday";
+  } else if (frequency === "weekly") {
+    const days = recurrence.weekdays.map(day => format(addDays(new Date(2024, 0, 7), day), "EEE")).join(", ");
+    text = `${interval > 1 ? `Every ${interval} weeks` : "Weekly"}${days ? ` on ${days}` : ""}`;
+  } else {
+    const unit = frequency === "daily" ? "day" : "month";
+    text = interval > 1 ? `Every ${interval} ${unit}s` : RECURRENCE_LABELS[frequency];
+  }
+
+  if (recurrence.until) return `${text} until ${format(parseISO(recurrence.until), "MMM d, yyyy")}`;
+  if (recurrence.count) return `${text}, ${recurrence.count} times`;
+  return text;
+}
+
+const DAY = 24 * 60 * 60000;
+const addWallDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY);
+
+// Candidate starts in order, before UNTIL/COUNT are applied, as wall-clock
+// times in the series' timezone held in UTC fields (so no DST shifts apply).
+// Every occurrence keeps the wall-clock time of the first one.
+function* candidates(start: Date, recurrence: Recurrence): Generator<Date> {
+  const { frequency, interval } = recurrence;
+
+  if (frequency === "daily" || frequency === "weekdays") {
+    const step = frequency === "daily" ? interval : 1;
+    for (let i = 0; ; i++) {
+      const date = addWallDays(start, i * step);
+      if (frequency === "weekdays" && !WEEKDAYS.includes(date.getUTCDay())) continue;
+      yield date;
+    }
+  }
+
+  if (frequency === "weekly") {
+    const days = recurrence.weekdays.length > 0 ? recurrence.weekdays : [start.getUTCDay()];
+    // Weeks start on Monday, as RRULE's default WKST does
+    const offsets = days.map(day => (day + 6) % 7).sort((a, b) => a - b);
+    const firstWeek = addWallDays(start, -((start.getUTCDay() + 6) % 7));
+    for (let week = 0; ; week += interval) {
+      for (const offset of offsets) {
+        const date = addWallDays(firstWeek, week * 7 + offset);
+        if (date >= start) yield date;
+      }
+    }
+  }
+
+  // Months without the start's day of month are skipped, not clamped
+  for (let month = 0; ; month += interval) {
+    const date = new Date(start);
+    date.setUTCDate(1);
+    date.setUTCMonth(start.getUTCMonth() + month);
+    date.setUTCDate(start.getUTCDate());
+    if (date.getUTCDate() === start.getUTCDate()) yield date;
+  }
+}
+
+// Occurrence starts as instants, expanded in the series' timezone the way
+// meeting_occurrences() does on the server, so a weekly Monday meeting stays on
+// Monday there whatever the viewer's timezone. `until` is a day in that zone.
+function* occurrences(start: Date, recurrence: Recurrence, timezone: string) {
+  let index = 0;
+  for (const wall of candidates(new Date(zonedAsUtc(start, timezone)), recurrence)) {
+    if (index >= MAX_OCCURRENCES) return;
+    if (recurrence.until && wall.toISOString().slice(0, 10) > recurrence.until) return;
+    if (recurrence.count && index >= recurrence.count) return;
+    index++;
+    yield fromZoned(wall.getTime(), timezone);
+  }
+}
+
+// Occurrence starts of a series that fall inside [from, to)
+export function occurrencesBetween(
+  start: Date,
+  recurrence: Recurrence,
+  from: Date,
+  to: Date,
+  timezone = localTimezone()
+) {
+  const dates: Date[] = [];
+  for (const date of occurrences(start, recurrence, timezone)) {
+    if (date >= to) break;
+    if (date >= from) dates.push(date);
+  }
+  return dates;
+}
+
+// Start of the final occurrence, or null for a series that never ends
+export function lastOccurrence(start: Date, recurrence: Recurrence, timezone = localTimezone()) {
+  if (!recurrence.until && !recurrence.count) return null;
+
+  let last: Date | null = null;
+  for (const date of occurrences(start, recurrence, timezone)) last = date;
+  return last;
+}
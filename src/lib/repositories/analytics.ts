@@ -0,0 +1,106 @@
+import { format, subDays } from "date-fns";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { todayKey } from "@/lib/attendance";
+import { unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+import { fetchTaskStatusCounts } from "./tasks";
+
+export interface AdminStats {
+  totalMembers: number;
+  activeMembers: number;
+  awayMembers: number;
+  totalTasks: number;
+  completedTasks: number;
+  inProgressTasks: number;
+  todayPresent: number;
+  todayAbsent: number;
+  pendingApprovals: number;
+  avgHours: number;
+}
+
+export async function fetchAdminStats(): Promise<AdminStats> {
+  const [profilesResult, taskCounts, attendanceResult, approvalsResult] = await Promise.all([
+    supabase.from("profiles").select("id, status"),
+    fetchTaskStatusCounts(),
+    supabase.from("attendance").select("id, status, hours_worked").eq("date", todayKey()),
+    supabase.from("approvals").select("id", { count: "exact", head: true }).eq("status", "pending"),
+  ]);
+  const profiles = unwrap(profilesResult, "load team members") || [];
+  const attendance = unwrap(attendanceResult, "load today's attendance") || [];
+  unwrap(approvalsResult, "count pending approvals");
+
+  // Daily attendance rows are derived from check-in sessions (see lib/attendance)
+  const presentRows = attendance.filter(a => a.status === "present" || a.status === "half_day");
+  const totalHours = presentRows.reduce((acc, a) => acc + (a.hours_worked || 0), 0);
+
+  return {
+    totalMembers: profiles.length,
+    activeMembers: profiles.filter(p => p.status === "active").length,
+    awayMembers: profiles.filter(p => p.status === "away" || p.status === "busy").length,
+    totalTasks: taskCounts.total,
+    completedTasks: taskCounts.completed,
+    inProgressTasks: taskCounts.inProgress,
+    todayPresent: presentRows.length,
+    todayAbsent: attendance.filter(a => a.status === "absent").length,
+    pendingApprovals: approvalsResult.count || 0,
+    avgHours: presentRows.length ? parseFloat((totalHours / presentRows.length).toFixed(1)) : 0,
+  };
+}
+
+// Check-in sessions of the last `days` days, oldest first
+export async function fetchAttendanceTrend(days: number) {
+  const result = await supabase
+    .from("attendance_sessions")
+    .select("date, duration_minutes, user_id")
+    .gte("date", format(subDays(new Date(), days), "yyyy-MM-dd"))
+    .order("date");
+  return unwrap(result, "load attendance trend") || [];
+}
+
+export async function fetchTaskActivity() {
+  const result = await supabase.from("tasks").select("status, created_at");
+  return unwrap(result, "load task activity") || [];
+}
+
+export async function fetchLeaveActivity() {
+  const result = await supabase
+    .from("leave_requests")
+    .select("status, type, start_date, end_date, start_time, end_time, duration");
+  return unwrap(result, "load leave activity") || [];
+}
+
+export async function fetchTeamBreakdown() {
+  const result = await supabase.from("profiles").select("status, department");
+  return unwrap(result, "load team breakdown") || [];
+}
+
+export const useAdminStats = () =>
+  useQuery({
+    queryKey: queryKeys.analytics.adminStats(),
+    queryFn: fetchAdminStats,
+  });
+
+export const useAttendanceTrend = (days: string) =>
+  useQuery({
+    queryKey: queryKeys.attendance.analytics(days),
+    queryFn: () => fetchAttendanceTrend(parseInt(days)),
+  });
+
+export const useTaskActivity = () =>
+  useQuery({
+    queryKey: queryKeys.tasks.analytics(),
+    queryFn: fetchTaskActivity,
+  });
+
+export const useLeaveActivity = () =>
+  useQuery({
+    queryKey: queryKeys.leaveRequests.analytics(),
+    queryFn: fetchLeaveActivity,
+  });
+
+export const useTeamBreakdown = () =>
+  useQuery({
+    queryKey: queryKeys.profiles.analytics(),
+    queryFn: fetchTeamBreakdown,
+  });
@@ -0,0 +1,56 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+// Subscription URL served by the calendar-feed edge function
+export const calendarFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+export async function fetchCalendarFeedToken(userId: string) {
+  const result = await supabase
+    .from("calendar_feed_tokens")
+    .select("token")
+    .eq("user_id", userId)
+    .maybeSingle();
+  return unwrap(result, "load calendar link")?.token ?? null;
+}
+
+// Issues a new token; any link handed out before stops working
+export async function resetCalendarFeedToken() {
+  return unwrap(await supabase.rpc("reset_calendar_feed_token"), "create calendar link");
+}
+
+export async function revokeCalendarFeedToken(userId: string) {
+  ensureOk(
+    await supabase.from("calendar_feed_tokens").delete().eq("user_id", userId),
+    "turn off calendar link"
+  );
+}
+
+export const useCalendarFeedToken = (userId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.calendarFeed.token(userId),
+    queryFn: () => fetchCalendarFeedToken(userId!),
+    enabled: !!userId,
+  });
+
+export const useResetCalendarFeedToken = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: resetCalendarFeedToken,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.calendarFeed.all });
+    },
+  });
+};
+
+export const useRevokeCalendarFeedToken = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: revokeCalendarFeedToken,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.calendarFeed.all });
+    },
+  });
+};
@@ -0,0 +1,77 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { ensureOk, unwrap } from "./errors";
+import { joinProfiles } from "./profiles";
+import { queryKeys } from "./queryKeys";
+
+export type Message = Tables<"messages">;
+
+export interface MessageWithSender extends Message {
+  sender_name: string;
+}
+
+// Finds the general channel, creating it if the seed row is missing
+export async function getOrCreateGeneralGroup(userId: string) {
+  const existing = unwrap(
+    await supabase.from("chat_groups").select("id").eq("is_general", true).maybeSingle(),
+    "load chat group"
+  );
+  if (existing) return existing.id;
+
+  const created = unwrap(
+    await supabase
+      .from("chat_groups")
+      .insert({
+        name: "General",
+        description: "General team chat",
+        is_general: true,
+        created_by: userId,
+      })
+      .select("id")
+      .single(),
+    "create chat group"
+  );
+  return created.id;
+}
+
+export async function fetchMessages(groupId: string, limit = 100): Promise<MessageWithSender[]> {
+  const messages = unwrap(
+    await supabase
+      .from("messages")
+      .select("*")
+      .eq("group_id", groupId)
+      .order("created_at", { ascending: true })
+      .limit(limit),
+    "load messages"
+  ) || [];
+
+  const withSenders = await joinProfiles(messages, m => m.sender_id, "sender");
+  return withSenders.map(({ sender, ...message }) => ({
+    ...message,
+    sender_name: sender?.full_name || "Unknown User",
+  }));
+}
+
+export async function sendMessage(groupId: string, senderId: string, content: string) {
+  ensureOk(
+    await supabase.from("messages").insert({ group_id: groupId, sender_id: senderId, content }),
+    "send message"
+  );
+}
+
+export const useGeneralGroup = (userId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.chat.generalGroup(),
+    queryFn: () => getOrCreateGeneralGroup(userId!),
+    enabled: !!userId,
+    staleTime: Infinity,
+  });
+
+export const useMessages = (groupId: string | null) =>
+  useQuery({
+    queryKey: queryKeys.chat.messages(groupId),
+    queryFn: () => fetchMessages(groupId!),
+    enabled: !!groupId,
+    refetchInterval: 3000, // Poll every 3 seconds for new messages
+  });
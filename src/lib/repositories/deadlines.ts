@@ -0,0 +1,48 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_DEADLINE_SETTINGS, type DeadlineSettings } from "@/lib/taskDeadlines";
+import { ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+export async function fetchDeadlineSettings(): Promise<DeadlineSettings> {
+  const result = await supabase
+    .from("company_settings")
+    .select("due_soon_days, overdue_escalation_days")
+    .eq("id", 1)
+    .maybeSingle();
+  const settings = unwrap(result, "load company settings");
+  return settings
+    ? { dueSoonDays: settings.due_soon_days, escalationDays: settings.overdue_escalation_days }
+    : DEFAULT_DEADLINE_SETTINGS;
+}
+
+// Runs the escalation straight away so a shorter threshold applies today
+export async function updateDeadlineSettings(settings: DeadlineSettings) {
+  ensureOk(
+    await supabase
+      .from("company_settings")
+      .update({ due_soon_days: settings.dueSoonDays, overdue_escalation_days: settings.escalationDays })
+      .eq("id", 1),
+    "update deadline rules"
+  );
+  unwrap(await supabase.rpc("escalate_overdue_tasks"), "escalate overdue tasks");
+}
+
+export const useDeadlineSettings = () =>
+  useQuery({
+    queryKey: queryKeys.deadlines.settings(),
+    queryFn: fetchDeadlineSettings,
+    staleTime: 5 * 60 * 1000,
+  });
+
+export const useUpdateDeadlineSettings = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: updateDeadlineSettings,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.deadlines.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+    },
+  });
+};
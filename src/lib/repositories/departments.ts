@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+export type Department = Tables<"departments">;
+
+export async function fetchDepartments() {
+  const result = await supabase.from("departments").select("*").order("name");
+  return unwrap(result, "load departments") || [];
+}
+
+export const useDepartments = () =>
+  useQuery({
+    queryKey: queryKeys.departments.all,
+    queryFn: fetchDepartments,
+  });
@@ -0,0 +1,50 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+
+// Every repository function throws this instead of handing back `{ data, error }`,
+// so screens can rely on try/catch (or react-query's `error`) and a readable message.
+export class RepositoryError extends Error {
+  readonly operation: string;
+  readonly code: string | null;
+  readonly details: string | null;
+  readonly hint: string | null;
+
+  constructor(operation: string, cause: Partial<PostgrestError> | null, message?: string) {
+    super(message || cause?.message || `Failed to ${operation}`);
+    this.name = "RepositoryError";
+    this.operation = operation;
+    this.code = cause?.code ?? null;
+    this.details = cause?.details ?? null;
+    this.hint = cause?.hint ?? null;
+  }
+}
+
+interface QueryResult<T> {
+  data: T | null;
+  error: PostgrestError | null;
+}
+
+// Returns the data of a supabase query or throws a RepositoryError
+export function unwrap<T>({ data, error }: QueryResult<T>, operation: string): T {
+  if (error) {
+    console.error(`Failed to ${operation}:`, error);
+    throw new RepositoryError(operation, error);
+  }
+  return data as T;
+}
+
+// Same as unwrap for mutations where no rows are selected back
+export function ensureOk({ error }: { error: PostgrestError | null }, operation: string) {
+  if (error) {
+    console.error(`Failed to ${operation}:`, error);
+    throw new RepositoryError(operation, error);
+  }
+}
+
+// Message to show the user: database errors fall back to the screen's own wording
+// (the raw error is already logged), domain errors such as "already checked in" pass through
+export const errorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof RepositoryError || !(error instanceof Error) || !error.message) {
+    return fallback;
+  }
+  return error.message;
+};
@@ -0,0 +1,76 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { DEFAULT_WORK_CALENDAR, type WorkCalendar } from "@/lib/leave";
+import { ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+export type Holiday = Tables<"holidays">;
+
+export async function fetchHolidays() {
+  const result = await supabase.from("holidays").select("*").order("date");
+  return unwrap(result, "load holidays") || [];
+}
+
+export async function createHoliday(holiday: TablesInsert<"holidays">) {
+  ensureOk(await supabase.from("holidays").insert(holiday), "add holiday");
+}
+
+export async function deleteHoliday(id: string) {
+  ensureOk(await supabase.from("holidays").delete().eq("id", id), "delete holiday");
+}
+
+export async function fetchWeekendDays() {
+  const result = await supabase.from("company_settings").select("weekend_days").eq("id", 1).maybeSingle();
+  return unwrap(result, "load company settings")?.weekend_days ?? DEFAULT_WORK_CALENDAR.weekendDays;
+}
+
+export async function updateWeekendDays(weekendDays: number[]) {
+  ensureOk(
+    await supabase.from("company_settings").update({ weekend_days: weekendDays }).eq("id", 1),
+    "update weekend days"
+  );
+}
+
+export const useHolidays = () =>
+  useQuery({
+    queryKey: queryKeys.holidays.list(),
+    queryFn: fetchHolidays,
+  });
+
+export const useWeekendDays = () =>
+  useQuery({
+    queryKey: queryKeys.holidays.weekendDays(),
+    queryFn: fetchWeekendDays,
+  });
+
+// Weekend days plus holidays, ready for leaveDuration()
+export const useWorkCalendar = (): WorkCalendar => {
+  const { data: holidays = [] } = useHolidays();
+  const { data: weekendDays = DEFAULT_WORK_CALENDAR.weekendDays } = useWeekendDays();
+  return { weekendDays, holidays: new Set(holidays.map(h => h.date)) };
+};
+
+export const useCreateHoliday = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createHoliday,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.holidays.all }),
+  });
+};
+
+export const useDeleteHoliday = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteHoliday,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.holidays.all }),
+  });
+};
+
+export const useUpdateWeekendDays = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: updateWeekendDays,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.holidays.all }),
+  });
+};
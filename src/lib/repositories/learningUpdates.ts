@@ -0,0 +1,52 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+export type LearningUpdate = Tables<"learning_updates">;
+
+export async function fetchLearningUpdates(userId: string, { date, limit }: { date?: string; limit?: number } = {}) {
+  let query = supabase
+    .from("learning_updates")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (date) query = query.eq("date", date);
+  if (limit) query = query.limit(limit);
+
+  return unwrap(await query, "load learning updates") || [];
+}
+
+export async function createLearningUpdate(update: TablesInsert<"learning_updates">) {
+  const result = await supabase.from("learning_updates").insert(update).select().single();
+  return unwrap(result, "save learning update");
+}
+
+export async function deleteLearningUpdate(id: string) {
+  ensureOk(await supabase.from("learning_updates").delete().eq("id", id), "delete learning update");
+}
+
+export const useLearningUpdates = (userId: string | undefined, filters: { date?: string; limit?: number } = {}) =>
+  useQuery({
+    queryKey: queryKeys.learningUpdates.byUser(userId, filters),
+    queryFn: () => fetchLearningUpdates(userId!, filters),
+    enabled: !!userId,
+  });
+
+export const useCreateLearningUpdate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createLearningUpdate,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.learningUpdates.all }),
+  });
+};
+
+export const useDeleteLearningUpdate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteLearningUpdate,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.learningUpdates.all }),
+  });
+};
@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toBalance } from "@/lib/leave";
+import { unwrap } from "./errors";
+import type { LeaveType } from "./leaveRequests";
+import { queryKeys } from "./queryKeys";
+
+export type LeaveEntitlement = Omit<Tables<"leave_entitlements">, "type"> & { type: LeaveType };
+
+export async function fetchLeaveEntitlements(years: number[], userId?: string) {
+  if (years.length === 0) return [];
+
+  let query = supabase.from("leave_entitlements").select("*").in("year", years);
+  if (userId) query = query.eq("user_id", userId);
+
+  return (unwrap(await query, "load leave balances") || []) as LeaveEntitlement[];
+}
+
+export async function setLeaveAllowance(entry: {
+  user_id: string;
+  year: number;
+  type: LeaveType;
+  allowance: number | null;
+}) {
+  const result = await supabase
+    .from("leave_entitlements")
+    .upsert(entry, { onConflict: "user_id,year,type" })
+    .select()
+    .single();
+  return unwrap(result, "save leave allowance") as LeaveEntitlement;
+}
+
+// Balance lookup keyed by user, year and type
+export const findBalance = (
+  entitlements: LeaveEntitlement[],
+  userId: string,
+  year: number,
+  type: LeaveType
+) => toBalance(entitlements.find(e => e.user_id === userId && e.year === year && e.type === type));
+
+export const useLeaveEntitlements = (years: number[], userId?: string) =>
+  useQuery({
+    queryKey: queryKeys.leaveEntitlements.list([...years].sort(), userId),
+    queryFn: () => fetchLeaveEntitlements(years, userId),
+    enabled: years.length > 0,
+  });
+
+export const useSetLeaveAllowances = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (entries: Parameters<typeof setLeaveAllowance>[0][]) => Promise.all(entries.map(setLeaveAllowance)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.leaveEntitlements.all }),
+  });
+};
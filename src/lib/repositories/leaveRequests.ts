@@ -0,0 +1,124 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { RepositoryError, ensureOk, unwrap } from "./errors";
+import { joinProfiles, type ProfileSummary } from "./profiles";
+import { queryKeys } from "./queryKeys";
+
+export type LeaveType = "full_day" | "half_day" | "permission";
+export type LeaveStatus = "pending" | "approved" | "rejected";
+
+export type LeaveRequest = Omit<Tables<"leave_requests">, "type" | "status"> & {
+  type: LeaveType;
+  status: LeaveStatus;
+};
+
+export interface LeaveRequestWithProfile extends LeaveRequest {
+  profile?: ProfileSummary;
+}
+
+export type LeaveFilter = LeaveStatus | "all";
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  full_day: "Full Day Leave",
+  half_day: "Half Day Leave",
+  permission: "Permission",
+};
+
+export async function fetchLeaveRequests(
+  filter: LeaveFilter,
+  id?: string
+): Promise<LeaveRequestWithProfile[]> {
+  let query = supabase.from("leave_requests").select("*").order("created_at", { ascending: false });
+
+  if (id) {
+    query = query.eq("id", id);
+  } else if (filter !== "all") {
+    query = query.eq("status", filter);
+  }
+
+  const requests = (unwrap(await query, "load leave requests") || []) as LeaveRequest[];
+  return joinProfiles(requests, r => r.user_id, "profile");
+}
+
+export async function fetchMyLeaveRequests(userId: string) {
+  const result = await supabase
+    .from("leave_requests")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  return (unwrap(result, "load your leave requests") || []) as LeaveRequest[];
+}
+
+// Everyone's approved leave overlapping [from, to], names included
+export async function fetchTeamLeave(from: string, to: string) {
+  const result = await supabase.rpc("team_leave_calendar", { _from: from, _to: to });
+  return unwrap(result, "load team leave") || [];
+}
+
+// The database sizes the request (see leave_request_duration), so no duration is sent
+export async function createLeaveRequest(
+  request: Omit<TablesInsert<"leave_requests">, "duration"> & { type: LeaveType }
+) {
+  ensureOk(await supabase.from("leave_requests").insert(request), "submit leave request");
+}
+
+export async function reviewLeaveRequest(
+  id: string,
+  review: { status: Exclude<LeaveStatus, "pending">; reviewedBy: string; notes?: string | null }
+) {
+  const { error } = await supabase
+    .from("leave_requests")
+    .update({
+      status: review.status,
+      reviewed_by: review.reviewedBy,
+      ...(review.notes !== undefined && { review_notes: review.notes }),
+    })
+    .eq("id", id);
+  // Approvals beyond a limited balance are refused by the database
+  if (error?.code === "23514") throw new Error(error.message);
+  if (error) {
+    console.error("Failed to review leave request:", error);
+    throw new RepositoryError("review leave request", error);
+  }
+}
+
+export const useLeaveRequests = (filter: LeaveFilter, id?: string) =>
+  useQuery({
+    queryKey: queryKeys.leaveRequests.list(filter, id),
+    queryFn: () => fetchLeaveRequests(filter, id),
+  });
+
+export const useMyLeaveRequests = (userId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.leaveRequests.mine(userId),
+    queryFn: () => fetchMyLeaveRequests(userId!),
+    enabled: !!userId,
+  });
+
+export const useTeamLeave = (from: string, to: string) =>
+  useQuery({
+    queryKey: queryKeys.leaveRequests.team(from, to),
+    queryFn: () => fetchTeamLeave(from, to),
+  });
+
+export const useCreateLeaveRequest = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createLeaveRequest,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.leaveRequests.all }),
+  });
+};
+
+export const useReviewLeaveRequest = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...review }: { id: string } & Parameters<typeof reviewLeaveRequest>[1]) =>
+      reviewLeaveRequest(id, review),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.leaveRequests.all });
+      // Approval moves the balance via a database trigger
+      queryClient.invalidateQueries({ queryKey: queryKeys.leaveEntitlements.all });
+    },
+  });
+};
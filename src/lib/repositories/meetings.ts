@@ -0,0 +1,270 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { lastOccurrence, occurrencesBetween, parseRecurrence } from "@/lib/recurrence";
+import { localTimezone } from "@/lib/timezone";
+import { ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+export type Meeting = Tables<"meetings">;
+export type MeetingConflict = {
+  user_id: string;
+  full_name: string;
+  kind: "meeting" | "leave";
+  // Leave type, or the meeting's title when the caller may see it
+  title: string | null;
+  starts_at: string;
+  ends_at: string;
+};
+
+export const DEFAULT_MEETING_MINUTES = 30;
+
+export const meetingEnd = (meeting: Pick<Meeting, "scheduled_at" | "duration_minutes">) =>
+  new Date(new Date(meeting.scheduled_at).getTime() + (meeting.duration_minutes ?? DEFAULT_MEETING_MINUTES) * 60000);
+
+// Generated occurrences are copies of their series row with scheduled_at and
+// original_start set to the occurrence; edited occurrences are real rows with
+// series_id set. Either way these point at the series and the slot.
+export const isRecurring = (meeting: Pick<Meeting, "recurrence_rule" | "series_id">) =>
+  !!meeting.recurrence_rule || !!meeting.series_id;
+
+export const seriesIdOf = (meeting: Pick<Meeting, "id" | "series_id">) => meeting.series_id ?? meeting.id;
+
+export const occurrenceStartOf = (meeting: Pick<Meeting, "scheduled_at" | "original_start">) =>
+  meeting.original_start ?? meeting.scheduled_at;
+
+// Copy of a series row standing for the occurrence that starts at `start`
+export const toOccurrence = (series: Meeting, start: string): Meeting => ({
+  ...series,
+  scheduled_at: start,
+  original_start: start,
+});
+
+// Where a series row's occurrences stop, for range queries
+export const seriesEnd = (scheduledAt: string, rule: string | null, timezone: string) => {
+  const recurrence = parseRecurrence(rule, timezone);
+  const last = recurrence && lastOccurrence(new Date(scheduledAt), recurrence, timezone);
+  return last ? last.toISOString() : null;
+};
+
+const involving = (userId: string) => `created_by.eq.${userId},attendees.cs.{${userId}}`;
+
+export interface MeetingRows {
+  // One-off meetings and edited occurrences starting inside the range
+  meetings: Meeting[];
+  // Recurring series that may have occurrences inside the range
+  series: Meeting[];
+  // Every edited or cancelled occurrence of those series
+  exceptions: Meeting[];
+}
+
+// Stored rows for the meetings the user organises or attends in [from, to)
+export async function fetchMeetingRows(userId: string, from: Date, to: Date): Promise<MeetingRows> {
+  const [single, recurring] = await Promise.all([
+    supabase
+      .from("meetings")
+      .select("*")
+      .or(involving(userId))
+      .is("recurrence_rule", null)
+      .gte("scheduled_at", from.toISOString())
+      .lt("scheduled_at", to.toISOString())
+      .order("scheduled_at"),
+    supabase
+      .from("meetings")
+      .select("*")
+      .or(involving(userId))
+      .not("recurrence_rule", "is", null)
+      .lt("scheduled_at", to.toISOString()),
+  ]);
+
+  const meetings = unwrap(single, "load meetings") || [];
+  const series = (unwrap(recurring, "load recurring meetings") || []).filter(
+    m => !m.recurrence_end || new Date(m.recurrence_end) >= from
+  );
+  const exceptions = series.length
+    ? unwrap(
+        await supabase.from("meetings").select("*").in("series_id", series.map(m => m.id)),
+        "load meeting exceptions"
+      ) || []
+    : [];
+
+  return { meetings, series, exceptions };
+}
+
+// Flatten series into their occurrences, leaving out those replaced by an exception
+export function expandMeetings({ meetings, series, exceptions }: MeetingRows, from: Date, to: Date) {
+  const replaced = new Set(exceptions.map(e => `${e.series_id}@${new Date(e.original_start).getTime()}`));
+
+  const occurrences = series.flatMap(m => {
+    const recurrence = parseRecurrence(m.recurrence_rule, m.timezone);
+    if (!recurrence) return [];
+    return occurrencesBetween(new Date(m.scheduled_at), recurrence, from, to, m.timezone)
+      .filter(start => !replaced.has(`${m.id}@${start.getTime()}`))
+      .map(start => toOccurrence(m, start.toISOString()));
+  });
+
+  return [...meetings, ...occurrences].sort(
+    (a, b) => new Date(a.scheduled_at).getTime() - new Date(b.scheduled_at).getTime()
+  );
+}
+
+// Meetings the user organises or attends that start inside [from, to)
+export async function fetchMeetingsBetween(userId: string, from: Date, to: Date) {
+  return expandMeetings(await fetchMeetingRows(userId, from, to), from, to);
+}
+
+// Next meetings for the dashboard, cancelled ones included so attendees notice
+export async function fetchUpcomingMeetings(userId: string, limit = 5) {
+  const from = new Date(Date.now() - 60 * 60000);
+  const meetings = await fetchMeetingsBetween(userId, from, new Date(from.getTime() + 60 * 24 * 60 * 60000));
+  return meetings.slice(0, limit);
+}
+
+export async function fetchMeeting(id: string) {
+  return unwrap(await supabase.from("meetings").select("*").eq("id", id).maybeSingle(), "load meeting");
+}
+
+// Edited or cancelled occurrences of one series
+export async function fetchMeetingExceptions(seriesId: string) {
+  const result = await supabase.from("meetings").select("*").eq("series_id", seriesId).order("original_start");
+  return unwrap(result, "load meeting exceptions") || [];
+}
+
+export async function fetchMeetingConflicts(attendees: string[], start: Date, end: Date, excludeId?: string) {
+  if (attendees.length === 0) return [];
+
+  const result = await supabase.rpc("meeting_conflicts", {
+    _attendees: attendees,
+    _start: start.toISOString(),
+    _end: end.toISOString(),
+    ...(excludeId && { _exclude: excludeId }),
+    // Slots are picked in the organiser's timezone, which the meeting is saved
+    // in; leave dates and times are read in it too
+    _timezone: localTimezone(),
+  });
+  return (unwrap(result, "check meeting conflicts") || []) as MeetingConflict[];
+}
+
+export async function createMeeting(meeting: TablesInsert<"meetings">) {
+  return unwrap(await supabase.from("meetings").insert(meeting).select().single(), "schedule meeting");
+}
+
+export async function updateMeeting(id: string, patch: TablesUpdate<"meetings">) {
+  return unwrap(await supabase.from("meetings").update(patch).eq("id", id).select().single(), "update meeting");
+}
+
+export async function cancelMeeting(id: string, reason: string | null) {
+  return updateMeeting(id, { status: "cancelled", cancel_reason: reason });
+}
+
+// Edit or cancel one occurrence of a series by storing it as its own row
+export async function saveOccurrence(series: Meeting, originalStart: string, patch: TablesUpdate<"meetings">) {
+  const result = await supabase
+    .from("meetings")
+    .upsert(
+      {
+        title: series.title,
+        description: series.description,
+        scheduled_at: originalStart,
+        duration_minutes: series.duration_minutes,
+        meeting_link: series.meeting_link,
+        attendees: series.attendees,
+        created_by: series.created_by,
+        timezone: series.timezone,
+        ...patch,
+        series_id: series.id,
+        original_start: originalStart,
+        recurrence_rule: null,
+        recurrence_end: null,
+      },
+      { onConflict: "series_id,original_start" }
+    )
+    .select()
+    .single();
+  return unwrap(result, "update occurrence");
+}
+
+// Rewrite a whole series. Moving it drops edited occurrences, whose slots no
+// longer line up with the new schedule.
+export async function updateSeries(id: string, patch: TablesUpdate<"meetings">, resetExceptions: boolean) {
+  if (resetExceptions) {
+    ensureOk(await supabase.from("meetings").delete().eq("series_id", id), "reset meeting occurrences");
+  }
+  return updateMeeting(id, patch);
+}
+
+export const useMeetingsBetween = (userId: string | undefined, from: Date, to: Date) =>
+  useQuery({
+    queryKey: queryKeys.meetings.range(userId, from.toISOString(), to.toISOString()),
+    queryFn: () => fetchMeetingsBetween(userId!, from, to),
+    enabled: !!userId,
+  });
+
+export const useUpcomingMeetings = (userId: string | undefined, limit?: number) =>
+  useQuery({
+    queryKey: queryKeys.meetings.upcoming(userId),
+    queryFn: () => fetchUpcomingMeetings(userId!, limit),
+    enabled: !!userId,
+  });
+
+export const useMeeting = (id: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.meetings.detail(id),
+    queryFn: () => fetchMeeting(id!),
+    enabled: !!id,
+  });
+
+export const useMeetingExceptions = (seriesId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.meetings.exceptions(seriesId),
+    queryFn: () => fetchMeetingExceptions(seriesId!),
+    enabled: !!seriesId,
+  });
+
+export const useMeetingConflicts = (attendees: string[], start: Date | null, end: Date | null, excludeId?: string) =>
+  useQuery({
+    queryKey: queryKeys.meetings.conflicts(attendees, start?.toISOString(), end?.toISOString(), excludeId),
+    queryFn: () => fetchMeetingConflicts(attendees, start!, end!, excludeId),
+    enabled: attendees.length > 0 && !!start && !!end,
+  });
+
+export const useSaveMeeting = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, meeting }: { id?: string; meeting: TablesInsert<"meetings"> | TablesUpdate<"meetings"> }) =>
+      id ? updateMeeting(id, meeting) : createMeeting(meeting as TablesInsert<"meetings">),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.meetings.all }),
+  });
+};
+
+export const useSaveOccurrence = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ series, originalStart, patch }: {
+      series: Meeting;
+      originalStart: string;
+      patch: TablesUpdate<"meetings">;
+    }) => saveOccurrence(series, originalStart, patch),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.meetings.all }),
+  });
+};
+
+export const useUpdateSeries = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, patch, resetExceptions }: {
+      id: string;
+      patch: TablesUpdate<"meetings">;
+      resetExceptions: boolean;
+    }) => updateSeries(id, patch, resetExceptions),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.meetings.all }),
+  });
+};
+
+export const useCancelMeeting = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string | null }) => cancelMeeting(id, reason),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.meetings.all }),
+  });
+};
@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+export type Milestone = Tables<"project_milestones">;
+
+export async function fetchMilestones(projectId: string) {
+  const result = await supabase
+    .from("project_milestones")
+    .select("*")
+    .eq("project_id", projectId)
+    .order("target_date")
+    .order("created_at");
+  return unwrap(result, "load milestones") || [];
+}
+
+export async function createMilestone(milestone: TablesInsert<"project_milestones">) {
+  return unwrap(await supabase.from("project_milestones").insert(milestone).select().single(), "add milestone");
+}
+
+export async function updateMilestone(id: string, patch: TablesUpdate<"project_milestones">) {
+  return unwrap(
+    await supabase.from("project_milestones").update(patch).eq("id", id).select().single(),
+    "update milestone"
+  );
+}
+
+// Linked tasks stay in the project without a milestone (ON DELETE SET NULL)
+export async function deleteMilestone(id: string) {
+  ensureOk(await supabase.from("project_milestones").delete().eq("id", id), "delete milestone");
+}
+
+export const useMilestones = (projectId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.milestones.list(projectId),
+    queryFn: () => fetchMilestones(projectId!),
+    enabled: !!projectId,
+  });
+
+export const useSaveMilestone = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, milestone }: {
+      id?: string;
+      milestone: TablesInsert<"project_milestones"> | TablesUpdate<"project_milestones">;
+    }) => (id ? updateMilestone(id, milestone) : createMilestone(milestone as TablesInsert<"project_milestones">)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.milestones.all }),
+  });
+};
+
+export const useDeleteMilestone = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteMilestone,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.milestones.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    },
+  });
+};
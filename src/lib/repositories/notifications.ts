@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+export type Notification = Tables<"notifications">;
+
+const NOTIFICATION_LIMIT = 30;
+
+export async function fetchNotifications(userId: string) {
+  const result = await supabase
+    .from("notifications")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(NOTIFICATION_LIMIT);
+  return unwrap(result, "load notifications") || [];
+}
+
+export async function markNotificationRead(id: string) {
+  ensureOk(
+    await supabase.from("notifications").update({ read_at: new Date().toISOString() }).eq("id", id),
+    "mark notification read"
+  );
+}
+
+export async function markAllNotificationsRead(userId: string) {
+  ensureOk(
+    await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .is("read_at", null),
+    "mark notifications read"
+  );
+}
+
+export async function clearNotifications(userId: string) {
+  ensureOk(await supabase.from("notifications").delete().eq("user_id", userId), "clear notifications");
+}
+
+export const useNotifications = (userId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.notifications.list(userId),
+    queryFn: () => fetchNotifications(userId!),
+    enabled: !!userId,
+    refetchInterval: 60 * 1000,
+  });
+
+export const useMarkNotificationRead = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: markNotificationRead,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all }),
+  });
+};
+
+export const useMarkAllNotificationsRead = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: markAllNotificationsRead,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all }),
+  });
+};
+
+export const useClearNotifications = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: clearNotifications,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all }),
+  });
+};
@@ -0,0 +1,99 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+export type Profile = Tables<"profiles">;
+export type ProfileSummary = Pick<Profile, "user_id" | "full_name" | "email" | "designation" | "department">;
+export type DirectoryEntry = Pick<Profile, "user_id" | "full_name" | "designation" | "department">;
+
+const SUMMARY_COLUMNS = "user_id, full_name, email, designation, department";
+
+export async function fetchProfiles() {
+  const result = await supabase.from("profiles").select("*").order("full_name");
+  return unwrap(result, "load team members") || [];
+}
+
+// Everyone's name and role, readable by members too (profiles RLS is owner/admin only)
+export async function fetchDirectory(): Promise<DirectoryEntry[]> {
+  return unwrap(await supabase.rpc("team_directory"), "load team directory") || [];
+}
+
+export async function fetchProfileMap(userIds: (string | null | undefined)[]) {
+  const ids = [...new Set(userIds.filter(Boolean))] as string[];
+  if (ids.length === 0) return new Map<string, ProfileSummary>();
+
+  const result = await supabase.from("profiles").select(SUMMARY_COLUMNS).in("user_id", ids);
+  const profiles = unwrap(result, "load profiles") || [];
+  return new Map(profiles.map(p => [p.user_id, p]));
+}
+
+// Attaches the profile of `userIdOf(row)` to each row under `key`,
+// replacing the hand-built profileMap lookups screens used to do
+export async function joinProfiles<T, K extends string>(
+  rows: T[],
+  userIdOf: (row: T) => string | null,
+  key: K
+) {
+  const profileMap = await fetchProfileMap(rows.map(userIdOf));
+  return rows.map(row => {
+    const userId = userIdOf(row);
+    return { ...row, [key]: userId ? profileMap.get(userId) : undefined } as T & Record<K, ProfileSummary | undefined>;
+  });
+}
+
+export interface NewTeamMember {
+  fullName: string;
+  email: string;
+  password: string;
+  phone: string;
+  designation: string;
+  department: string;
+}
+
+// Signs the member up, then saves their profile details. The handle_new_user
+// trigger already gives them the team_member role. Returns false when sign-up
+// produced no user (e.g. confirmation pending).
+export async function createTeamMember(member: NewTeamMember) {
+  const { data, error } = await supabase.auth.signUp({
+    email: member.email,
+    password: member.password,
+    options: {
+      data: { full_name: member.fullName },
+      emailRedirectTo: window.location.origin,
+    },
+  });
+  if (error) throw error;
+  if (!data.user) return false;
+
+  ensureOk(
+    await supabase
+      .from("profiles")
+      .update({ phone: member.phone, designation: member.designation, department: member.department })
+      .eq("user_id", data.user.id),
+    "save team member profile"
+  );
+  return true;
+}
+
+export const useProfiles = () =>
+  useQuery({
+    queryKey: queryKeys.profiles.list(),
+    queryFn: fetchProfiles,
+  });
+
+export const useDirectory = () =>
+  useQuery({
+    queryKey: queryKeys.profiles.directory(),
+    queryFn: fetchDirectory,
+    staleTime: 5 * 60 * 1000,
+  });
+
+export const useCreateTeamMember = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createTeamMember,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.profiles.all }),
+  });
+};
@@ -0,0 +1,239 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { ensureOk, unwrap } from "./errors";
+import { fetchDirectory } from "./profiles";
+import { queryKeys } from "./queryKeys";
+import { formatMinutes } from "./timeEntries";
+import { softDeleteItem } from "./trash";
+
+export type Project = Tables<"projects">;
+
+export type ProjectProgressMode = "tasks" | "estimates" | "manual";
+
+export const PROJECT_PROGRESS_MODE_LABELS: Record<ProjectProgressMode, string> = {
+  tasks: "Completed tasks",
+  estimates: "Completed estimated hours",
+  manual: "Set manually",
+};
+
+export type ProjectMemberRole = "lead" | "member" | "viewer";
+
+export const PROJECT_MEMBER_ROLES: ProjectMemberRole[] = ["lead", "member", "viewer"];
+
+export const PROJECT_MEMBER_ROLE_LABELS: Record<ProjectMemberRole, string> = {
+  lead: "Lead",
+  member: "Member",
+  viewer: "Viewer",
+};
+
+export interface ProjectMemberInput {
+  user_id: string;
+  role: ProjectMemberRole;
+}
+
+export interface ProjectWithMembers extends Project {
+  members: { user_id: string; full_name: string; role: ProjectMemberRole }[];
+}
+
+// What the progress figure is based on, as kept up to date by the database
+export function describeProgressBasis(project: Project) {
+  switch (project.progress_mode as ProjectProgressMode) {
+    case "manual":
+      return "Set manually";
+    case "estimates":
+      return project.progress_total > 0
+        ? `${formatMinutes(project.progress_done * 60)} of ${formatMinutes(project.progress_total * 60)} estimated work done`
+        : "No estimated tasks yet";
+    default:
+      return project.progress_total > 0
+        ? `${project.progress_done} of ${project.progress_total} tasks completed`
+        : "No tasks yet";
+  }
+}
+
+export async function fetchProjects(): Promise<ProjectWithMembers[]> {
+  const projects = unwrap(
+    await supabase.from("projects").select("*").order("created_at", { ascending: false }),
+    "load projects"
+  ) || [];
+
+  const memberships = unwrap(
+    await supabase.from("project_members").select("project_id, user_id, role").order("joined_at"),
+    "load project members"
+  ) || [];
+  // Through the directory: profiles RLS hides teammates from project leads who are not admins
+  const names = new Map((memberships.length ? await fetchDirectory() : []).map(d => [d.user_id, d.full_name]));
+
+  return projects.map(project => ({
+    ...project,
+    members: memberships
+      .filter(m => m.project_id === project.id)
+      .map(m => ({
+        user_id: m.user_id,
+        full_name: names.get(m.user_id) || "Unknown",
+        role: m.role as ProjectMemberRole,
+      })),
+  }));
+}
+
+// Active, unarchived projects for pickers such as the task dialog
+export async function fetchProjectOptions() {
+  const result = await supabase
+    .from("projects")
+    .select("id, name")
+    .eq("status", "active")
+    .is("archived_at", null)
+    .order("name");
+  return unwrap(result, "load projects") || [];
+}
+
+// Tasks of these projects are left out of everyday task lists and the calendar
+export async function fetchArchivedProjectIds() {
+  const result = await supabase.from("projects").select("id").not("archived_at", "is", null);
+  return (unwrap(result, "load archived projects") || []).map(p => p.id);
+}
+
+// Deadlines of unarchived projects, for the calendar
+export async function fetchProjectsEndingBetween(from: string, to: string) {
+  const result = await supabase
+    .from("projects")
+    .select("*")
+    .is("archived_at", null)
+    .gte("end_date", from)
+    .lte("end_date", to)
+    .order("end_date");
+  return unwrap(result, "load project deadlines") || [];
+}
+
+export async function createProject(project: TablesInsert<"projects">) {
+  const result = await supabase.from("projects").insert(project).select("id").single();
+  return unwrap(result, "create project");
+}
+
+export async function updateProject(id: string, patch: TablesUpdate<"projects">) {
+  ensureOk(await supabase.from("projects").update(patch).eq("id", id), "update project");
+}
+
+export async function deleteProject(id: string) {
+  await softDeleteItem("project", id);
+}
+
+// Applies only the differences so existing members keep their joined_at
+export async function setProjectMembers(projectId: string, members: ProjectMemberInput[]) {
+  const current = unwrap(
+    await supabase.from("project_members").select("id, user_id, role").eq("project_id", projectId),
+    "load project members"
+  ) || [];
+  const wanted = new Map(members.map(m => [m.user_id, m.role]));
+  const currentIds = new Set(current.map(m => m.user_id));
+
+  const removed = current.filter(m => !wanted.has(m.user_id));
+  const changed = current.filter(m => wanted.has(m.user_id) && wanted.get(m.user_id) !== m.role);
+  const added = members.filter(m => !currentIds.has(m.user_id));
+
+  if (removed.length > 0) {
+    ensureOk(
+      await supabase.from("project_members").delete().in("id", removed.map(m => m.id)),
+      "remove project members"
+    );
+  }
+
+  for (const member of changed) {
+    ensureOk(
+      await supabase.from("project_members").update({ role: wanted.get(member.user_id) }).eq("id", member.id),
+      "change project roles"
+    );
+  }
+
+  if (added.length > 0) {
+    ensureOk(
+      await supabase.from("project_members").insert(
+        added.map(m => ({ project_id: projectId, user_id: m.user_id, role: m.role }))
+      ),
+      "add project members"
+    );
+  }
+}
+
+export async function saveProject(
+  id: string | undefined,
+  project: Omit<TablesInsert<"projects">, "created_by"> & { created_by?: string },
+  members: ProjectMemberInput[]
+) {
+  let projectId = id;
+  if (projectId) {
+    await updateProject(projectId, project);
+  } else {
+    projectId = (await createProject(project as TablesInsert<"projects">)).id;
+  }
+  await setProjectMembers(projectId, members);
+  return projectId;
+}
+
+export const useProjects = () =>
+  useQuery({
+    queryKey: queryKeys.projects.list(),
+    queryFn: fetchProjects,
+  });
+
+export const useProjectOptions = () =>
+  useQuery({
+    queryKey: queryKeys.projects.options(),
+    queryFn: fetchProjectOptions,
+  });
+
+export const useProjectsEndingBetween = (from: string, to: string) =>
+  useQuery({
+    queryKey: queryKeys.projects.endingBetween(from, to),
+    queryFn: () => fetchProjectsEndingBetween(from, to),
+  });
+
+export const useSaveProject = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, project, members }: {
+      id?: string;
+      project: Parameters<typeof saveProject>[1];
+      members: ProjectMemberInput[];
+    }) => saveProject(id, project, members),
+    // Roles decide which tasks members can see
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    },
+  });
+};
+
+export const useUpdateProject = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, patch }: { id: string; patch: TablesUpdate<"projects"> }) => updateProject(id, patch),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.projects.all }),
+  });
+};
+
+export const useArchiveProject = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, archived }: { id: string; archived: boolean }) =>
+      updateProject(id, { archived_at: archived ? new Date().toISOString() : null }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.all });
+      // Task lists leave out archived projects' tasks
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    },
+  });
+};
+
+export const useDeleteProject = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteProject,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash.all });
+    },
+  });
+};
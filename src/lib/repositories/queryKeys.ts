@@ -0,0 +1,131 @@
+// Central react-query keys. Each domain has an `all` prefix so a mutation can
+// invalidate every list, filter and detail of that domain in one call.
+export const queryKeys = {
+  profiles: {
+    all: ["profiles"] as const,
+    list: () => ["profiles", "list"] as const,
+    analytics: () => ["profiles", "analytics"] as const,
+    directory: () => ["profiles", "directory"] as const,
+  },
+  tasks: {
+    all: ["tasks"] as const,
+    pages: () => ["tasks", "page"] as const,
+    page: (filters: object, page: number, pageSize: number) => ["tasks", "page", filters, page, pageSize] as const,
+    // Under "page" so moves update the board and the list alike
+    board: (filters: object, perStatus: number) => ["tasks", "page", "board", filters, perStatus] as const,
+    labels: () => ["tasks", "labels"] as const,
+    assigned: (userId: string | undefined, limit?: number) => ["tasks", "assigned", userId, limit] as const,
+    mine: (userId: string | undefined) => ["tasks", "mine", userId] as const,
+    dueBetween: (from: string, to: string) => ["tasks", "due", from, to] as const,
+    detail: (id: string | undefined) => ["tasks", "detail", id] as const,
+    comments: (id: string | undefined) => ["tasks", "comments", id] as const,
+    activity: (id: string | undefined) => ["tasks", "activity", id] as const,
+    subtasks: (id: string | undefined) => ["tasks", "subtasks", id] as const,
+    checklist: (id: string | undefined) => ["tasks", "checklist", id] as const,
+    progress: (ids: string[]) => ["tasks", "progress", ids] as const,
+    dependencies: (ids: string[]) => ["tasks", "dependencies", ids] as const,
+    dueCounts: (dueSoonDays: number) => ["tasks", "due-counts", dueSoonDays] as const,
+    project: (projectId: string | undefined) => ["tasks", "project", projectId] as const,
+    projectHistory: (projectId: string | undefined) => ["tasks", "project-history", projectId] as const,
+    analytics: () => ["tasks", "analytics"] as const,
+  },
+  taskColumns: {
+    all: ["task-columns"] as const,
+    list: () => ["task-columns", "list"] as const,
+  },
+  deadlines: {
+    all: ["deadlines"] as const,
+    settings: () => ["deadlines", "settings"] as const,
+  },
+  taskTemplates: {
+    all: ["task-templates"] as const,
+    list: () => ["task-templates", "list"] as const,
+  },
+  timeEntries: {
+    all: ["time-entries"] as const,
+    list: (filters: object) => ["time-entries", "list", filters] as const,
+    taskTotals: (taskIds: string[]) => ["time-entries", "task-totals", taskIds] as const,
+    projectTotals: (projectIds: string[]) => ["time-entries", "project-totals", projectIds] as const,
+  },
+  taskFilterPresets: {
+    all: ["task-filter-presets"] as const,
+    list: (userId: string | undefined) => ["task-filter-presets", "list", userId] as const,
+  },
+  projects: {
+    all: ["projects"] as const,
+    list: () => ["projects", "list"] as const,
+    options: () => ["projects", "options"] as const,
+    endingBetween: (from: string, to: string) => ["projects", "ending", from, to] as const,
+  },
+  milestones: {
+    all: ["milestones"] as const,
+    list: (projectId: string | undefined) => ["milestones", "list", projectId] as const,
+  },
+  leaveRequests: {
+    all: ["leave-requests"] as const,
+    list: (status: string, id?: string) => ["leave-requests", "list", status, id] as const,
+    mine: (userId: string | undefined) => ["leave-requests", "mine", userId] as const,
+    team: (from: string, to: string) => ["leave-requests", "team", from, to] as const,
+    analytics: () => ["leave-requests", "analytics"] as const,
+  },
+  leaveEntitlements: {
+    all: ["leave-entitlements"] as const,
+    list: (years: number[], userId?: string) => ["leave-entitlements", "list", years, userId] as const,
+  },
+  holidays: {
+    all: ["holidays"] as const,
+    list: () => ["holidays", "list"] as const,
+    weekendDays: () => ["holidays", "weekend-days"] as const,
+  },
+  attendance: {
+    all: ["attendance"] as const,
+    sessions: (userId: string | undefined, date: string) => ["attendance", "sessions", userId, date] as const,
+    openSession: (userId: string | undefined) => ["attendance", "open-session", userId] as const,
+    history: (userId: string | undefined) => ["attendance", "history", userId] as const,
+    analytics: (days: string) => ["attendance", "analytics", days] as const,
+    photos: (paths: string[]) => ["attendance", "photos", paths] as const,
+  },
+  workUpdates: {
+    all: ["work-updates"] as const,
+    byUser: (userId: string | undefined, filters: { date?: string; limit?: number } = {}) =>
+      ["work-updates", "user", userId, filters] as const,
+  },
+  learningUpdates: {
+    all: ["learning-updates"] as const,
+    byUser: (userId: string | undefined, filters: { date?: string; limit?: number } = {}) =>
+      ["learning-updates", "user", userId, filters] as const,
+  },
+  meetings: {
+    all: ["meetings"] as const,
+    range: (userId: string | undefined, from: string, to: string) => ["meetings", "range", userId, from, to] as const,
+    upcoming: (userId: string | undefined) => ["meetings", "upcoming", userId] as const,
+    detail: (id: string | undefined) => ["meetings", "detail", id] as const,
+    exceptions: (seriesId: string | undefined) => ["meetings", "exceptions", seriesId] as const,
+    conflicts: (attendees: string[], start: string, end: string, excludeId?: string) =>
+      ["meetings", "conflicts", attendees, start, end, excludeId] as const,
+  },
+  calendarFeed: {
+    all: ["calendar-feed"] as const,
+    token: (userId: string | undefined) => ["calendar-feed", "token", userId] as const,
+  },
+  trash: {
+    all: ["trash"] as const,
+    list: () => ["trash", "list"] as const,
+  },
+  notifications: {
+    all: ["notifications"] as const,
+    list: (userId: string | undefined) => ["notifications", "list", userId] as const,
+  },
+  chat: {
+    all: ["chat"] as const,
+    generalGroup: () => ["chat", "general-group"] as const,
+    messages: (groupId: string | null) => ["chat", "messages", groupId] as const,
+  },
+  departments: {
+    all: ["departments"] as const,
+  },
+  analytics: {
+    all: ["analytics"] as const,
+    adminStats: () => ["analytics", "admin-stats"] as const,
+  },
+};
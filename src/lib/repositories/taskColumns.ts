@@ -0,0 +1,56 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+export type TaskColumn = Tables<"task_columns">;
+
+// Custom columns of every project the caller can see
+export async function fetchTaskColumns() {
+  const result = await supabase.from("task_columns").select("*").order("position").order("created_at");
+  return unwrap(result, "load board columns") || [];
+}
+
+export async function createTaskColumn(column: TablesInsert<"task_columns">) {
+  return unwrap(await supabase.from("task_columns").insert(column).select().single(), "add column");
+}
+
+export async function updateTaskColumn(id: string, patch: TablesUpdate<"task_columns">) {
+  return unwrap(await supabase.from("task_columns").update(patch).eq("id", id).select().single(), "update column");
+}
+
+// Tasks in the column fall back to its status column (ON DELETE SET NULL)
+export async function deleteTaskColumn(id: string) {
+  ensureOk(await supabase.from("task_columns").delete().eq("id", id), "delete column");
+}
+
+export const useTaskColumns = () =>
+  useQuery({
+    queryKey: queryKeys.taskColumns.list(),
+    queryFn: fetchTaskColumns,
+  });
+
+export const useSaveTaskColumn = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, column }: { id?: string; column: TablesInsert<"task_columns"> | TablesUpdate<"task_columns"> }) =>
+      id ? updateTaskColumn(id, column) : createTaskColumn(column as TablesInsert<"task_columns">),
+    // A status change moves the column's tasks too
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.taskColumns.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    },
+  });
+};
+
+export const useDeleteTaskColumn = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteTaskColumn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.taskColumns.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    },
+  });
+};
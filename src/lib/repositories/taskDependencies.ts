@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { RepositoryError, ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+export type TaskDependencyLink = Database["public"]["Functions"]["task_dependency_links"]["Returns"][number];
+
+export interface TaskBlocker {
+  id: string;
+  title: string;
+}
+
+// Every dependency touching the given tasks, in either direction
+export async function fetchTaskDependencyLinks(taskIds: string[]) {
+  if (taskIds.length === 0) return [];
+  return unwrap(await supabase.rpc("task_dependency_links", { _task_ids: taskIds }), "load dependencies") || [];
+}
+
+// Incomplete predecessors per task; a task with any is blocked
+export function blockersByTask(links: TaskDependencyLink[]) {
+  const blockers = new Map<string, TaskBlocker[]>();
+  for (const link of links) {
+    if (link.depends_on_status === "completed") continue;
+    blockers.set(link.task_id, [
+      ...(blockers.get(link.task_id) ?? []),
+      { id: link.depends_on_id, title: link.depends_on_title },
+    ]);
+  }
+  return blockers;
+}
+
+export async function addTaskDependency(taskId: string, dependsOnId: string, createdBy: string) {
+  const { error } = await supabase
+    .from("task_dependencies")
+    .insert({ task_id: taskId, depends_on_id: dependsOnId, created_by: createdBy });
+
+  // The cycle check and the self-link CHECK both raise check_violation
+  if (error?.code === "23514") throw new Error("That would make the tasks depend on each other");
+  if (error?.code === "23505") throw new Error("These tasks are already linked");
+  if (error) {
+    console.error("Failed to add dependency:", error);
+    throw new RepositoryError("add dependency", error);
+  }
+}
+
+export async function removeTaskDependency(taskId: string, dependsOnId: string) {
+  const result = await supabase
+    .from("task_dependencies")
+    .delete()
+    .eq("task_id", taskId)
+    .eq("depends_on_id", dependsOnId);
+  ensureOk(result, "remove dependency");
+}
+
+export const useTaskDependencyLinks = (taskIds: string[]) =>
+  useQuery({
+    queryKey: queryKeys.tasks.dependencies(taskIds),
+    queryFn: () => fetchTaskDependencyLinks(taskIds),
+    enabled: taskIds.length > 0,
+  });
+
+export const useTaskBlockers = (taskIds: string[]) => {
+  const { data: links = [] } = useTaskDependencyLinks(taskIds);
+  return blockersByTask(links);
+};
+
+export const useAddTaskDependency = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ taskId, dependsOnId, createdBy }: { taskId: string; dependsOnId: string; createdBy: string }) =>
+      addTaskDependency(taskId, dependsOnId, createdBy),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all }),
+  });
+};
+
+export const useRemoveTaskDependency = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ taskId, dependsOnId }: { taskId: string; dependsOnId: string }) =>
+      removeTaskDependency(taskId, dependsOnId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all }),
+  });
+};
@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+import { EMPTY_TASK_FILTERS, type TaskFilters } from "./tasks";
+
+export type TaskFilterPreset = Omit<Tables<"task_filter_presets">, "filters"> & { filters: TaskFilters };
+
+export async function fetchTaskFilterPresets(userId: string): Promise<TaskFilterPreset[]> {
+  const result = await supabase.from("task_filter_presets").select("*").eq("user_id", userId).order("name");
+  // Filters added after a preset was saved fall back to their defaults
+  return (unwrap(result, "load filter presets") || []).map(preset => ({
+    ...preset,
+    filters: { ...EMPTY_TASK_FILTERS, ...(preset.filters as Partial<TaskFilters>) },
+  }));
+}
+
+// Saving under an existing name overwrites that preset
+export async function saveTaskFilterPreset(userId: string, name: string, filters: TaskFilters) {
+  const result = await supabase
+    .from("task_filter_presets")
+    .upsert({ user_id: userId, name, filters: filters as unknown as Json }, { onConflict: "user_id,name" })
+    .select()
+    .single();
+  return unwrap(result, "save filter preset");
+}
+
+export async function deleteTaskFilterPreset(id: string) {
+  ensureOk(await supabase.from("task_filter_presets").delete().eq("id", id), "delete filter preset");
+}
+
+export const useTaskFilterPresets = (userId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.taskFilterPresets.list(userId),
+    queryFn: () => fetchTaskFilterPresets(userId!),
+    enabled: !!userId,
+  });
+
+export const useSaveTaskFilterPreset = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ userId, name, filters }: { userId: string; name: string; filters: TaskFilters }) =>
+      saveTaskFilterPreset(userId, name, filters),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.taskFilterPresets.all }),
+  });
+};
+
+export const useDeleteTaskFilterPreset = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteTaskFilterPreset,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.taskFilterPresets.all }),
+  });
+};
@@ -0,0 +1,161 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import type { Recurrence, RecurrenceFrequency } from "@/lib/recurrence";
+import { todayKey } from "@/lib/attendance";
+import { ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+export type TaskTemplate = Tables<"task_templates">;
+export type TaskSeries = Omit<Tables<"task_series">, "frequency"> & { frequency: RecurrenceFrequency };
+export type TaskSeriesState = "active" | "paused" | "ended";
+
+export interface TaskTemplateWithSeries extends TaskTemplate {
+  series: TaskSeries[];
+}
+
+export const TASK_SERIES_STATE_LABELS: Record<TaskSeriesState, string> = {
+  active: "Active",
+  paused: "Paused",
+  ended: "Ended",
+};
+
+// A series in the shape the shared recurrence helpers describe
+export const seriesRecurrence = (series: TaskSeries): Recurrence => ({
+  frequency: series.frequency,
+  interval: series.repeat_interval,
+  weekdays: series.weekdays,
+  until: series.ends_on,
+  count: null,
+});
+
+// Ended once no day is left that could still produce a task
+export const seriesState = (series: TaskSeries): TaskSeriesState => {
+  if (
+    series.ends_on &&
+    (series.ends_on < todayKey() || series.ends_on < series.starts_on || series.ends_on <= (series.generated_through ?? ""))
+  ) {
+    return "ended";
+  }
+  return series.paused ? "paused" : "active";
+};
+
+export async function fetchTaskTemplates(): Promise<TaskTemplateWithSeries[]> {
+  const result = await supabase
+    .from("task_templates")
+    .select("*, series:task_series(*)")
+    .order("name");
+  return (unwrap(result, "load task templates") || []) as TaskTemplateWithSeries[];
+}
+
+export async function saveTaskTemplate(
+  id: string | undefined,
+  template: TablesInsert<"task_templates"> | TablesUpdate<"task_templates">
+) {
+  const query = id
+    ? supabase.from("task_templates").update(template).eq("id", id)
+    : supabase.from("task_templates").insert(template as TablesInsert<"task_templates">);
+  return unwrap(await query.select().single(), "save task template");
+}
+
+export async function deleteTaskTemplate(id: string) {
+  ensureOk(await supabase.from("task_templates").delete().eq("id", id), "delete task template");
+}
+
+// Copies a template's checklist onto a task created from it
+export async function copyTemplateChecklist(template: TaskTemplate, taskId: string) {
+  if (template.checklist.length === 0) return;
+
+  const items = template.checklist.map((body, index) => ({ task_id: taskId, body, position: index + 1 }));
+  ensureOk(await supabase.from("task_checklist_items").insert(items), "copy template checklist");
+}
+
+// Creates tasks for any occurrences that are due; the daily job does the same
+export async function generateRecurringTasks() {
+  return unwrap(await supabase.rpc("generate_recurring_tasks"), "generate recurring tasks");
+}
+
+// A series starting today gets its first task straight away
+export async function createTaskSeries(series: TablesInsert<"task_series">) {
+  const created = unwrap(await supabase.from("task_series").insert(series).select().single(), "schedule template");
+  await generateRecurringTasks();
+  return created;
+}
+
+export async function updateTaskSeries(id: string, patch: TablesUpdate<"task_series">) {
+  const updated = unwrap(
+    await supabase.from("task_series").update(patch).eq("id", id).select().single(),
+    "update schedule"
+  );
+  if (patch.paused === false) await generateRecurringTasks();
+  return updated;
+}
+
+// Tasks already generated stay; they just lose the link to the series
+export async function deleteTaskSeries(id: string) {
+  ensureOk(await supabase.from("task_series").delete().eq("id", id), "delete schedule");
+}
+
+export const useTaskTemplates = (enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.taskTemplates.list(),
+    queryFn: fetchTaskTemplates,
+    enabled,
+  });
+
+export const useSaveTaskTemplate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, template }: { id?: string; template: TablesInsert<"task_templates"> | TablesUpdate<"task_templates"> }) =>
+      saveTaskTemplate(id, template),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.taskTemplates.all }),
+  });
+};
+
+export const useDeleteTaskTemplate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteTaskTemplate,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.taskTemplates.all }),
+  });
+};
+
+export const useCopyTemplateChecklist = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ template, taskId }: { template: TaskTemplate; taskId: string }) =>
+      copyTemplateChecklist(template, taskId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all }),
+  });
+};
+
+// Series changes can generate tasks, so task lists refresh too
+export const useCreateTaskSeries = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createTaskSeries,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.taskTemplates.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    },
+  });
+};
+
+export const useUpdateTaskSeries = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, patch }: { id: string; patch: TablesUpdate<"task_series"> }) => updateTaskSeries(id, patch),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.taskTemplates.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    },
+  });
+};
+
+export const useDeleteTaskSeries = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteTaskSeries,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.taskTemplates.all }),
+  });
+};
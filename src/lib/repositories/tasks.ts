@@ -0,0 +1,596 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { todayKey } from "@/lib/attendance";
+import { ensureOk, unwrap } from "./errors";
+import { fetchDirectory, fetchProfileMap, type DirectoryEntry } from "./profiles";
+import { fetchArchivedProjectIds } from "./projects";
+import { queryKeys } from "./queryKeys";
+import { softDeleteItem } from "./trash";
+
+export type Task = Tables<"tasks">;
+export type TaskStatus = Database["public"]["Enums"]["task_status"];
+export type TaskPriority = Database["public"]["Enums"]["task_priority"];
+export type TaskComment = Tables<"task_comments">;
+export type TaskActivityAction = "created" | "assigned" | "status_changed" | "due_date_changed";
+export type TaskActivity = Omit<Tables<"task_activity">, "action"> & { action: TaskActivityAction };
+export type ChecklistItem = Tables<"task_checklist_items">;
+
+export interface TaskProgress {
+  done: number;
+  total: number;
+}
+
+// Email is only known where profiles RLS allows it: admins, or your own tasks
+export type TaskAssignee = DirectoryEntry & { email?: string };
+
+export interface TaskWithRelations extends Task {
+  assignee?: TaskAssignee;
+  project?: { id: string; name: string };
+}
+
+// "all" matches everything; "none" matches tasks without an assignee/project
+export interface TaskFilters {
+  search: string;
+  assignee: string;
+  project: string;
+  status: TaskStatus | "all";
+  priority: TaskPriority | "all";
+  label: string;
+  dueFrom: string;
+  dueTo: string;
+}
+
+export const EMPTY_TASK_FILTERS: TaskFilters = {
+  search: "",
+  assignee: "all",
+  project: "all",
+  status: "all",
+  priority: "all",
+  label: "all",
+  dueFrom: "",
+  dueTo: "",
+};
+
+export interface TaskPage {
+  tasks: TaskWithRelations[];
+  total: number;
+}
+
+export const TASK_STATUSES: TaskStatus[] = ["pending", "in_progress", "completed"];
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  pending: "Pending",
+  in_progress: "In Progress",
+  completed: "Completed",
+};
+
+export const TASK_PRIORITIES: TaskPriority[] = ["urgent", "high", "medium", "low"];
+
+export const TASK_PRIORITY_LABELS: Record<TaskPriority, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  urgent: "Urgent",
+};
+
+export const TASK_PRIORITY_COLORS: Record<TaskPriority, string> = {
+  low: "bg-slate-100 text-slate-700",
+  medium: "bg-sky-100 text-sky-700",
+  high: "bg-orange-100 text-orange-700",
+  urgent: "bg-red-100 text-red-700",
+};
+
+// PostgREST returns at most 1000 rows per request
+const TASK_BATCH_SIZE = 1000;
+
+// Attach assignees and project names. Names come from the team directory so
+// project leads see their teammates; projects are limited by RLS, so members
+// only get the projects they belong to
+async function withRelations(tasks: Task[]): Promise<TaskWithRelations[]> {
+  const projectIds = [...new Set(tasks.map(t => t.project_id).filter(Boolean))] as string[];
+  const projects = projectIds.length
+    ? unwrap(await supabase.from("projects").select("id, name").in("id", projectIds), "load task projects") || []
+    : [];
+  const projectMap = new Map(projects.map(p => [p.id, p]));
+
+  const [directory, profileMap] = await Promise.all([
+    tasks.some(t => t.assigned_to) ? fetchDirectory() : Promise.resolve([]),
+    fetchProfileMap(tasks.map(t => t.assigned_to)),
+  ]);
+  const directoryMap = new Map(directory.map(d => [d.user_id, d]));
+
+  return tasks.map(task => {
+    const entry = task.assigned_to ? directoryMap.get(task.assigned_to) : undefined;
+    return {
+      ...task,
+      assignee: entry && { ...entry, email: profileMap.get(entry.user_id)?.email },
+      project: task.project_id ? projectMap.get(task.project_id) : undefined,
+    };
+  });
+}
+
+// Leaves out tasks of archived projects, the way the project list hides those projects
+function excludingArchived<Q extends { or: (filters: string) => Q }>(query: Q, archivedProjectIds: string[]) {
+  if (archivedProjectIds.length === 0) return query;
+  return query.or(`project_id.is.null,project_id.not.in.(${archivedProjectIds.join(",")})`);
+}
+
+// Top-level tasks matching the filters; subtasks are reached through their parent.
+// Archived projects' tasks only show when that project is picked in the filters.
+// "board" follows the card order of a board column: unplaced cards first, newest on top.
+function filteredTasks(filters: TaskFilters, archivedProjectIds: string[], order: "newest" | "board" = "newest") {
+  let query = supabase.from("tasks").select("*", { count: "exact" }).is("parent_id", null);
+  if (filters.project === "all") query = excludingArchived(query, archivedProjectIds);
+
+  // Characters that would break PostgREST's or() syntax are dropped from the term
+  const term = filters.search.trim().replace(/[%,()*]/g, " ").trim();
+  if (term) query = query.or(`title.ilike.%${term}%,description.ilike.%${term}%`);
+
+  if (filters.assignee === "none") query = query.is("assigned_to", null);
+  else if (filters.assignee !== "all") query = query.eq("assigned_to", filters.assignee);
+  if (filters.project === "none") query = query.is("project_id", null);
+  else if (filters.project !== "all") query = query.eq("project_id", filters.project);
+  if (filters.status !== "all") query = query.eq("status", filters.status);
+  if (filters.priority !== "all") query = query.eq("priority", filters.priority);
+  if (filters.label !== "all") query = query.contains("labels", [filters.label]);
+  if (filters.dueFrom) query = query.gte("due_date", filters.dueFrom);
+  if (filters.dueTo) query = query.lte("due_date", filters.dueTo);
+
+  if (order === "board") query = query.order("position", { ascending: true, nullsFirst: true });
+  return query.order("created_at", { ascending: false });
+}
+
+export async function fetchTaskPage(filters: TaskFilters, page: number, pageSize: number): Promise<TaskPage> {
+  const archived = await fetchArchivedProjectIds();
+  const result = await filteredTasks(filters, archived).range(page * pageSize, (page + 1) * pageSize - 1);
+  return {
+    tasks: await withRelations(unwrap(result, "load tasks") || []),
+    total: result.count ?? 0,
+  };
+}
+
+// The first `perStatus` cards of each status in board order, so every column
+// shows the top of its own list rather than whichever tasks are newest
+export async function fetchBoardTasks(filters: TaskFilters, perStatus: number): Promise<TaskPage> {
+  const statuses = filters.status === "all" ? TASK_STATUSES : [filters.status];
+  const archived = await fetchArchivedProjectIds();
+  const results = await Promise.all(
+    statuses.map(status => filteredTasks({ ...filters, status }, archived, "board").range(0, perStatus - 1))
+  );
+  const tasks = results.flatMap(result => unwrap(result, "load tasks") || []);
+  return {
+    tasks: await withRelations(tasks),
+    total: results.reduce((sum, result) => sum + (result.count ?? 0), 0),
+  };
+}
+
+// Every matching task, fetched in batches below the API's row limit
+export async function fetchAllTasks(filters: TaskFilters) {
+  const tasks: Task[] = [];
+  const archived = await fetchArchivedProjectIds();
+  for (let from = 0; ; from += TASK_BATCH_SIZE) {
+    const batch = unwrap(await filteredTasks(filters, archived).range(from, from + TASK_BATCH_SIZE - 1), "load tasks") || [];
+    tasks.push(...batch);
+    if (batch.length < TASK_BATCH_SIZE) break;
+  }
+  return withRelations(tasks);
+}
+
+// Top-level task totals for the admin dashboard; subtasks roll up into their
+// parent and are not counted again. Counted on the server, so no row limit applies.
+export async function fetchTaskStatusCounts() {
+  const count = async (status?: TaskStatus) => {
+    let query = supabase
+      .from("tasks")
+      .select("id", { count: "exact", head: true })
+      .is("parent_id", null)
+      .is("deleted_at", null);
+    if (status) query = query.eq("status", status);
+    const result = await query;
+    unwrap(result, "count tasks");
+    return result.count ?? 0;
+  };
+
+  const [total, inProgress, completed] = await Promise.all([count(), count("in_progress"), count("completed")]);
+  return { total, inProgress, completed };
+}
+
+// Daily tasks in scope and completed for a project's burndown
+export async function fetchProjectTaskHistory(projectId: string) {
+  return unwrap(await supabase.rpc("project_task_history", { _project_id: projectId }), "load project history") || [];
+}
+
+export async function fetchTaskLabels() {
+  return unwrap(await supabase.rpc("task_labels"), "load labels") || [];
+}
+
+// Every task assigned to the user outside archived projects, with project names for filtering
+export async function fetchMyTasks(userId: string) {
+  const archived = await fetchArchivedProjectIds();
+  const result = await excludingArchived(supabase.from("tasks").select("*").eq("assigned_to", userId), archived)
+    .order("due_date", { ascending: true, nullsFirst: false });
+  return withRelations(unwrap(result, "load your tasks") || []);
+}
+
+// Filters trashed tasks itself rather than leaving it to RLS, since the
+// calendar feed calls this with the service role
+export async function fetchAssignedTasks(userId: string, limit?: number) {
+  const archived = await fetchArchivedProjectIds();
+  let query = excludingArchived(
+    supabase.from("tasks").select("*").eq("assigned_to", userId).is("deleted_at", null),
+    archived
+  ).order("created_at", { ascending: false });
+
+  if (limit) query = query.limit(limit);
+
+  return unwrap(await query, "load assigned tasks") || [];
+}
+
+// Tasks visible to the caller (RLS) with a due date in [from, to], outside archived projects
+export async function fetchTasksDueBetween(from: string, to: string) {
+  const archived = await fetchArchivedProjectIds();
+  const result = await excludingArchived(supabase.from("tasks").select("*"), archived)
+    .gte("due_date", from)
+    .lte("due_date", to)
+    .order("due_date");
+  return unwrap(result, "load due tasks") || [];
+}
+
+// Open top-level tasks past due or due within the window, across all pages
+// and outside archived projects, as the task list shows them by default
+export async function fetchDueCounts(dueSoonDays: number) {
+  const today = todayKey();
+  const soon = format(addDays(new Date(), dueSoonDays), "yyyy-MM-dd");
+  const archived = await fetchArchivedProjectIds();
+  const openTasks = () =>
+    excludingArchived(
+      supabase
+        .from("tasks")
+        .select("id", { count: "exact", head: true })
+        .is("parent_id", null)
+        .neq("status", "completed"),
+      archived
+    );
+
+  const [overdue, dueSoon] = await Promise.all([
+    openTasks().lt("due_date", today),
+    openTasks().gte("due_date", today).lte("due_date", soon),
+  ]);
+  ensureOk(overdue, "count overdue tasks");
+  ensureOk(dueSoon, "count tasks due soon");
+  return { overdue: overdue.count ?? 0, dueSoon: dueSoon.count ?? 0 };
+}
+
+export async function fetchTask(id: string) {
+  return unwrap(await supabase.from("tasks").select("*").eq("id", id).maybeSingle(), "load task");
+}
+
+export async function fetchSubtasks(parentId: string) {
+  const result = await supabase.from("tasks").select("*").eq("parent_id", parentId).order("created_at");
+  return withRelations(unwrap(result, "load subtasks") || []);
+}
+
+export async function fetchChecklistItems(taskId: string) {
+  const result = await supabase
+    .from("task_checklist_items")
+    .select("*")
+    .eq("task_id", taskId)
+    .order("position")
+    .order("created_at");
+  return unwrap(result, "load checklist") || [];
+}
+
+// Done/total counts of subtasks and checklist items together, for progress
+// on the given tasks' cards
+export async function fetchTaskProgress(taskIds: string[]) {
+  const progress = new Map<string, TaskProgress>();
+  if (taskIds.length === 0) return progress;
+
+  const [subtasks, items] = await Promise.all([
+    supabase.from("tasks").select("parent_id, status").in("parent_id", taskIds),
+    supabase.from("task_checklist_items").select("task_id, done").in("task_id", taskIds),
+  ]);
+  const entries = [
+    ...(unwrap(subtasks, "load subtasks") || []).map(t => ({ taskId: t.parent_id!, done: t.status === "completed" })),
+    ...(unwrap(items, "load checklists") || []).map(i => ({ taskId: i.task_id, done: i.done })),
+  ];
+
+  for (const { taskId, done } of entries) {
+    const entry = progress.get(taskId) ?? { done: 0, total: 0 };
+    entry.total++;
+    if (done) entry.done++;
+    progress.set(taskId, entry);
+  }
+  return progress;
+}
+
+export async function addChecklistItem(item: TablesInsert<"task_checklist_items">) {
+  return unwrap(await supabase.from("task_checklist_items").insert(item).select().single(), "add checklist item");
+}
+
+// Through an RPC so assignees can tick items on their own task
+export async function setChecklistItemDone(id: string, done: boolean) {
+  return unwrap(await supabase.rpc("set_checklist_item_done", { _item_id: id, _done: done }), "update checklist item");
+}
+
+export async function deleteChecklistItem(id: string) {
+  ensureOk(await supabase.from("task_checklist_items").delete().eq("id", id), "delete checklist item");
+}
+
+export async function fetchTaskComments(taskId: string) {
+  const result = await supabase
+    .from("task_comments")
+    .select("*")
+    .eq("task_id", taskId)
+    .order("created_at");
+  return unwrap(result, "load comments") || [];
+}
+
+export async function addTaskComment(comment: TablesInsert<"task_comments">) {
+  return unwrap(await supabase.from("task_comments").insert(comment).select().single(), "post comment");
+}
+
+export async function deleteTaskComment(id: string) {
+  ensureOk(await supabase.from("task_comments").delete().eq("id", id), "delete comment");
+}
+
+// Written by a database trigger on every create, reassignment, status and due-date change
+export async function fetchTaskActivity(taskId: string) {
+  const result = await supabase
+    .from("task_activity")
+    .select("*")
+    .eq("task_id", taskId)
+    .order("created_at", { ascending: false });
+  return (unwrap(result, "load task activity") || []) as TaskActivity[];
+}
+
+export async function createTask(task: TablesInsert<"tasks">) {
+  const result = await supabase.from("tasks").insert(task).select().single();
+  return unwrap(result, "create task");
+}
+
+export async function createTasks(tasks: TablesInsert<"tasks">[]) {
+  for (let i = 0; i < tasks.length; i += TASK_BATCH_SIZE) {
+    ensureOk(await supabase.from("tasks").insert(tasks.slice(i, i + TASK_BATCH_SIZE)), "import tasks");
+  }
+}
+
+export async function updateTask(id: string, patch: TablesUpdate<"tasks">) {
+  const result = await supabase.from("tasks").update(patch).eq("id", id).select().single();
+  return unwrap(result, "update task");
+}
+
+// Board moves: the dragged task plus any neighbours that had to be renumbered
+export async function moveTasks(moves: { id: string; patch: TablesUpdate<"tasks"> }[]) {
+  await Promise.all(moves.map(move => updateTask(move.id, move.patch)));
+}
+
+// Assignees go through an RPC that only touches status and progress note
+export async function updateMyTask(id: string, status: TaskStatus, progressNote?: string) {
+  const result = await supabase.rpc("update_my_task", {
+    _task_id: id,
+    _status: status,
+    ...(progressNote !== undefined && { _progress_note: progressNote }),
+  });
+  // Parent tasks take their status from their subtasks
+  if (result.error?.code === "23514") throw new Error(result.error.message);
+  return unwrap(result, "update task");
+}
+
+export async function deleteTask(id: string) {
+  await softDeleteItem("task", id);
+}
+
+export const useTaskPage = (filters: TaskFilters, page: number, pageSize: number) =>
+  useQuery({
+    queryKey: queryKeys.tasks.page(filters, page, pageSize),
+    queryFn: () => fetchTaskPage(filters, page, pageSize),
+    placeholderData: keepPreviousData,
+  });
+
+export const useBoardTasks = (filters: TaskFilters, perStatus: number, enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.tasks.board(filters, perStatus),
+    queryFn: () => fetchBoardTasks(filters, perStatus),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+
+// Every top-level task of one project, for its timeline
+export const useProjectTasks = (projectId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.tasks.project(projectId),
+    queryFn: () => fetchAllTasks({ ...EMPTY_TASK_FILTERS, project: projectId! }),
+    enabled: !!projectId,
+  });
+
+export const useProjectTaskHistory = (projectId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.tasks.projectHistory(projectId),
+    queryFn: () => fetchProjectTaskHistory(projectId!),
+    enabled: !!projectId,
+  });
+
+export const useTaskLabels = () =>
+  useQuery({
+    queryKey: queryKeys.tasks.labels(),
+    queryFn: fetchTaskLabels,
+  });
+
+export const useAssignedTasks = (userId: string | undefined, limit?: number) =>
+  useQuery({
+    queryKey: queryKeys.tasks.assigned(userId, limit),
+    queryFn: () => fetchAssignedTasks(userId!, limit),
+    enabled: !!userId,
+  });
+
+export const useMyTasks = (userId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.tasks.mine(userId),
+    queryFn: () => fetchMyTasks(userId!),
+    enabled: !!userId,
+  });
+
+export const useTasksDueBetween = (from: string, to: string) =>
+  useQuery({
+    queryKey: queryKeys.tasks.dueBetween(from, to),
+    queryFn: () => fetchTasksDueBetween(from, to),
+  });
+
+export const useDueCounts = (dueSoonDays: number) =>
+  useQuery({
+    queryKey: queryKeys.tasks.dueCounts(dueSoonDays),
+    queryFn: () => fetchDueCounts(dueSoonDays),
+  });
+
+export const useTask = (id: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.tasks.detail(id),
+    queryFn: () => fetchTask(id!),
+    enabled: !!id,
+  });
+
+export const useSubtasks = (parentId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.tasks.subtasks(parentId),
+    queryFn: () => fetchSubtasks(parentId!),
+    enabled: !!parentId,
+  });
+
+export const useChecklistItems = (taskId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.tasks.checklist(taskId),
+    queryFn: () => fetchChecklistItems(taskId!),
+    enabled: !!taskId,
+  });
+
+export const useTaskProgress = (taskIds: string[]) =>
+  useQuery({
+    queryKey: queryKeys.tasks.progress(taskIds),
+    queryFn: () => fetchTaskProgress(taskIds),
+    enabled: taskIds.length > 0,
+  });
+
+export const useTaskComments = (taskId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.tasks.comments(taskId),
+    queryFn: () => fetchTaskComments(taskId!),
+    enabled: !!taskId,
+  });
+
+export const useTaskActivity = (taskId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.tasks.activity(taskId),
+    queryFn: () => fetchTaskActivity(taskId!),
+    enabled: !!taskId,
+  });
+
+export const useAddTaskComment = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: addTaskComment,
+    onSuccess: (comment) => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.comments(comment.task_id) }),
+  });
+};
+
+export const useDeleteTaskComment = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id }: { id: string; taskId: string }) => deleteTaskComment(id),
+    onSuccess: (_, { taskId }) => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.comments(taskId) }),
+  });
+};
+
+export const useAddChecklistItem = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: addChecklistItem,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all }),
+  });
+};
+
+export const useSetChecklistItemDone = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, done }: { id: string; done: boolean }) => setChecklistItemDone(id, done),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all }),
+  });
+};
+
+export const useDeleteChecklistItem = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteChecklistItem,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all }),
+  });
+};
+
+export const useSaveTask = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, task }: { id?: string; task: TablesInsert<"tasks"> | TablesUpdate<"tasks"> }) =>
+      id ? updateTask(id, task) : createTask(task as TablesInsert<"tasks">),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all }),
+  });
+};
+
+export const useCreateTasks = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createTasks,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all }),
+  });
+};
+
+export const useUpdateTaskStatus = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, status }: { id: string; status: TaskStatus }) => updateTask(id, { status }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all }),
+  });
+};
+
+export const useUpdateMyTask = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, status, progressNote }: { id: string; status: TaskStatus; progressNote?: string }) =>
+      updateMyTask(id, status, progressNote),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all }),
+  });
+};
+
+export const useMoveTasks = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: moveTasks,
+    // Show the card in its new place right away; the refetch settles it
+    onMutate: async (moves) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.tasks.pages() });
+      const previous = queryClient.getQueriesData<TaskPage>({ queryKey: queryKeys.tasks.pages() });
+      const patches = new Map(moves.map(move => [move.id, move.patch]));
+      queryClient.setQueriesData<TaskPage>({ queryKey: queryKeys.tasks.pages() }, data =>
+        data && {
+          ...data,
+          tasks: data.tasks.map(task => (patches.has(task.id) ? { ...task, ...patches.get(task.id) } : task)),
+        }
+      );
+      return { previous };
+    },
+    onError: (_error, _moves, context) =>
+      context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data)),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all }),
+  });
+};
+
+export const useDeleteTask = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteTask,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash.all });
+    },
+  });
+};
@@ -0,0 +1,110 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+export type TimeEntry = Tables<"time_entries">;
+
+export interface ProjectTimeTotal {
+  minutes: number;
+  estimatedHours: number;
+}
+
+// "2h 30m", "45m"
+export const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (!hours) return `${rest}m`;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+// Minutes between two "HH:mm" times on the same day
+export const minutesBetween = (start: string, end: string) => {
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  };
+  return toMinutes(end) - toMinutes(start);
+};
+
+// Own entries for members; admins see everyone's (RLS)
+export async function fetchTimeEntries({ taskId, userId, date }: { taskId?: string; userId?: string; date?: string }) {
+  let query = supabase
+    .from("time_entries")
+    .select("*")
+    .order("date", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (taskId) query = query.eq("task_id", taskId);
+  if (userId) query = query.eq("user_id", userId);
+  if (date) query = query.eq("date", date);
+
+  return unwrap(await query, "load time entries") || [];
+}
+
+export async function createTimeEntry(entry: TablesInsert<"time_entries">) {
+  return unwrap(await supabase.from("time_entries").insert(entry).select().single(), "log time");
+}
+
+export async function deleteTimeEntry(id: string) {
+  ensureOk(await supabase.from("time_entries").delete().eq("id", id), "delete time entry");
+}
+
+// Everyone's logged minutes per task, including entries the caller cannot list
+export async function fetchTaskTimeTotals(taskIds: string[]) {
+  const totals = new Map<string, number>();
+  if (taskIds.length === 0) return totals;
+
+  const rows = unwrap(await supabase.rpc("task_time_totals", { _task_ids: taskIds }), "load logged time") || [];
+  rows.forEach(row => totals.set(row.task_id, Number(row.minutes)));
+  return totals;
+}
+
+export async function fetchProjectTimeTotals(projectIds: string[]) {
+  const totals = new Map<string, ProjectTimeTotal>();
+  if (projectIds.length === 0) return totals;
+
+  const rows = unwrap(await supabase.rpc("project_time_totals", { _project_ids: projectIds }), "load logged time") || [];
+  rows.forEach(row =>
+    totals.set(row.project_id, { minutes: Number(row.minutes), estimatedHours: Number(row.estimated_hours) })
+  );
+  return totals;
+}
+
+export const useTimeEntries = (filters: { taskId?: string; userId?: string; date?: string }, enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.timeEntries.list(filters),
+    queryFn: () => fetchTimeEntries(filters),
+    enabled,
+  });
+
+export const useTaskTimeTotals = (taskIds: string[]) =>
+  useQuery({
+    queryKey: queryKeys.timeEntries.taskTotals(taskIds),
+    queryFn: () => fetchTaskTimeTotals(taskIds),
+    enabled: taskIds.length > 0,
+  });
+
+export const useProjectTimeTotals = (projectIds: string[]) =>
+  useQuery({
+    queryKey: queryKeys.timeEntries.projectTotals(projectIds),
+    queryFn: () => fetchProjectTimeTotals(projectIds),
+    enabled: projectIds.length > 0,
+  });
+
+export const useCreateTimeEntry = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createTimeEntry,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.all }),
+  });
+};
+
+export const useDeleteTimeEntry = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteTimeEntry,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.all }),
+  });
+};
@@ -0,0 +1,65 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { RepositoryError, ensureOk, unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+
+export type TrashItemKind = "project" | "task" | "work_update";
+
+export const TRASH_ITEM_KIND_LABELS: Record<TrashItemKind, string> = {
+  project: "Project",
+  task: "Task",
+  work_update: "Work update",
+};
+
+export interface TrashItem {
+  kind: TrashItemKind;
+  id: string;
+  title: string;
+  detail: string;
+  deleted_at: string;
+  deleted_by_name: string | null;
+  purge_at: string;
+}
+
+// Moves an item to the trash. Projects take their tasks along and tasks their
+// subtasks; restoring brings them back together.
+export async function softDeleteItem(kind: TrashItemKind, id: string) {
+  ensureOk(
+    await supabase.rpc("soft_delete_item", { _kind: kind, _id: id }),
+    `delete ${TRASH_ITEM_KIND_LABELS[kind].toLowerCase()}`
+  );
+}
+
+export async function restoreItem(kind: TrashItemKind, id: string) {
+  const { error } = await supabase.rpc("restore_item", { _kind: kind, _id: id });
+  // Still-deleted parents and expired items are explained by the database
+  if (error?.code === "55000") throw new Error(error.message);
+  if (error) {
+    console.error("Failed to restore item:", error);
+    throw new RepositoryError("restore item", error);
+  }
+}
+
+export async function fetchTrashItems(): Promise<TrashItem[]> {
+  return (unwrap(await supabase.rpc("trash_items"), "load trash") || []) as TrashItem[];
+}
+
+export const useTrashItems = () =>
+  useQuery({
+    queryKey: queryKeys.trash.list(),
+    queryFn: fetchTrashItems,
+  });
+
+export const useRestoreItem = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ kind, id }: { kind: TrashItemKind; id: string }) => restoreItem(kind, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.workUpdates.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.all });
+    },
+  });
+};
@@ -0,0 +1,58 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { unwrap } from "./errors";
+import { queryKeys } from "./queryKeys";
+import { softDeleteItem } from "./trash";
+
+export type WorkUpdate = Tables<"work_updates">;
+
+export async function fetchWorkUpdates(userId: string, { date, limit }: { date?: string; limit?: number } = {}) {
+  let query = supabase
+    .from("work_updates")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (date) query = query.eq("date", date);
+  if (limit) query = query.limit(limit);
+
+  return unwrap(await query, "load work updates") || [];
+}
+
+export async function createWorkUpdate(update: TablesInsert<"work_updates">) {
+  const result = await supabase.from("work_updates").insert(update).select().single();
+  return unwrap(result, "save work update");
+}
+
+export async function deleteWorkUpdate(id: string) {
+  await softDeleteItem("work_update", id);
+}
+
+export const useWorkUpdates = (userId: string | undefined, filters: { date?: string; limit?: number } = {}) =>
+  useQuery({
+    queryKey: queryKeys.workUpdates.byUser(userId, filters),
+    queryFn: () => fetchWorkUpdates(userId!, filters),
+    enabled: !!userId,
+  });
+
+export const useCreateWorkUpdate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createWorkUpdate,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.workUpdates.all }),
+  });
+};
+
+export const useDeleteWorkUpdate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteWorkUpdate,
+    // Time logged through the update goes with it
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.workUpdates.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash.all });
+    },
+  });
+};
@@ -0,0 +1,10 @@
+import type { TaskBlocker } from "@/lib/repositories/taskDependencies";
+import type { TaskStatus } from "@/lib/repositories/tasks";
+
+// Asks before a blocked task is started or completed; true means go ahead
+export function confirmBlockedMove(blockers: TaskBlocker[] | undefined, next: TaskStatus) {
+  if (!blockers?.length || next === "pending") return true;
+
+  const names = blockers.map(b => `• ${b.title}`).join("\n");
+  return confirm(`This task is blocked by:\n${names}\n\n${next === "completed" ? "Complete" : "Start"} it anyway?`);
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from "vitest";
+import { POSITION_STEP, beforeInFullColumn, boardColumns, columnTasks, planMove, type BoardColumn } from "./taskBoard";
+import type { TaskColumn } from "./repositories/taskColumns";
+import type { TaskWithRelations } from "./repositories/tasks";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const task = (id: string, position: number | null, extra: Partial<TaskWithRelations> = {}) =>
+  ({
+    id,
+    position,
+    status: "pending",
+    column_id: null,
+    created_at: `2024-01-01T00:00:0${id.length}Z`,
+    ...extra,
+  }) as TaskWithRelations;
+
+const pending: BoardColumn = { key: "pending", title: "Pending", status: "pending", columnId: null };
+const review: BoardColumn = { key: "col-review", title: "Review", status: "in_progress", columnId: "col-review" };
+
+describe("boardColumns", () => {
+  it("puts custom columns after their status column, in their order", () => {
+    const custom = [
+      { id: "b", name: "B", status: "pending", position: 2 },
+      { id: "a", name: "A", status: "pending", position: 1 },
+      { id: "col-review", name: "Review", status: "in_progress", position: 1 },
+    ] as TaskColumn[];
+    expect(boardColumns(custom).map(c => c.key)).toEqual(["pending", "a", "b", "in_progress", "col-review", "completed"]);
+  });
+});
+
+describe("columnTasks", () => {
+  it("orders unplaced cards first, newest on top, then by position", () => {
+    const tasks = [
+      task("p2", 2048),
+      task("new", null, { created_at: "2024-02-01T00:00:00Z" }),
+      task("p1", 1024),
+      task("old", null, { created_at: "2024-01-01T00:00:00Z" }),
+    ];
+    expect(columnTasks(tasks, pending, [pending]).map(t => t.id)).toEqual(["new", "old", "p1", "p2"]);
+  });
+
+  it("shows cards of custom columns missing from the board in their status column", () => {
+    const tasks = [
+      task("plain", 1, { status: "in_progress" }),
+      task("reviewed", 2, { status: "in_progress", column_id: "col-review" }),
+    ];
+    const inProgress: BoardColumn = { key: "in_progress", title: "In Progress", status: "in_progress", columnId: null };
+    expect(columnTasks(tasks, inProgress, [inProgress]).map(t => t.id)).toEqual(["plain", "reviewed"]);
+    expect(columnTasks(tasks, inProgress, [inProgress, review]).map(t => t.id)).toEqual(["plain"]);
+    expect(columnTasks(tasks, review, [inProgress, review]).map(t => t.id)).toEqual(["reviewed"]);
+  });
+});
+
+describe("planMove", () => {
+  const column = [task("a", 1024), task("b", 2048), task("c", 3072)];
+
+  it("does nothing when the card is dropped where it is", () => {
+    expect(planMove(column[0], pending, column, "b")).toEqual([]);
+    expect(planMove(column[2], pending, column, null)).toEqual([]);
+  });
+
+  it("moves only the dropped card between its neighbours", () => {
+    expect(planMove(column[2], pending, column, "b")).toEqual([
+      { id: "c", patch: { status: "pending", column_id: null, position: 1536 } },
+    ]);
+  });
+
+  it("places cards at either end of the column", () => {
+    const moved = task("x", null, { status: "completed" });
+    expect(planMove(moved, pending, column, "a")[0].patch.position).toBe(1024 - POSITION_STEP);
+    expect(planMove(moved, pending, column, null)[0].patch.position).toBe(3072 + POSITION_STEP);
+    expect(planMove(moved, pending, [], null)[0].patch.position).toBe(POSITION_STEP);
+  });
+
+  it("sets the status and custom column of the target column", () => {
+    expect(planMove(task("x", 5), review, [], null)).toEqual([
+      { id: "x", patch: { status: "in_progress", column_id: "col-review", position: POSITION_STEP } },
+    ]);
+  });
+
+  it("renumbers a column that has unplaced cards", () => {
+    const mixed = [task("u", null), task("a", 1024), task("b", 2048)];
+    expect(planMove(task("x", null), pending, mixed, "a")).toEqual([
+      { id: "u", patch: { position: 1024 } },
+      { id: "x", patch: { status: "pending", column_id: null, position: 2048 } },
+      { id: "a", patch: { position: 3072 } },
+      { id: "b", patch: { position: 4096 } },
+    ]);
+  });
+
+  it("renumbers when there is no room left between neighbours", () => {
+    const tight = [task("a", 1), task("b", 1 + Number.EPSILON)];
+    const moves = planMove(task("x", null), pending, tight, "b");
+    expect(moves.map(m => [m.id, m.patch.position])).toEqual([
+      ["a", 1024],
+      ["x", 2048],
+      ["b", 3072],
+    ]);
+  });
+});
+
+describe("beforeInFullColumn", () => {
+  const full = [task("a", 1), task("b", 2), task("c", 3), task("d", 4)];
+
+  it("keeps a drop before a visible card", () => {
+    expect(beforeInFullColumn("x", full.slice(0, 2), full, "b")).toBe("b");
+  });
+
+  it("drops after the last visible card rather than at the very end", () => {
+    expect(beforeInFullColumn("x", full.slice(0, 2), full, null)).toBe("c");
+    expect(beforeInFullColumn("x", full, full, null)).toBeNull();
+  });
+
+  it("ignores the moved card itself", () => {
+    expect(beforeInFullColumn("b", full.slice(0, 2), full, null)).toBe("c");
+  });
+
+  it("drops at the top of a column that showed no cards", () => {
+    expect(beforeInFullColumn("x", [], full, null)).toBe("a");
+  });
+});
@@ -0,0 +1,112 @@
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import type { TaskColumn } from "@/lib/repositories/taskColumns";
+import { TASK_STATUSES, TASK_STATUS_LABELS, type TaskStatus, type TaskWithRelations } from "@/lib/repositories/tasks";
+
+export interface BoardColumn {
+  key: string;
+  title: string;
+  status: TaskStatus;
+  // null for the plain status column
+  columnId: string | null;
+}
+
+export interface TaskMove {
+  id: string;
+  patch: TablesUpdate<"tasks">;
+}
+
+// Gap between neighbouring cards, leaving room for many midpoint inserts
+export const POSITION_STEP = 1024;
+
+export const STATUS_COLORS: Record<TaskStatus, string> = {
+  pending: "bg-yellow-500",
+  in_progress: "bg-blue-500",
+  completed: "bg-green-500",
+};
+
+// Each status column followed by the custom columns that refine it
+export const boardColumns = (custom: TaskColumn[]): BoardColumn[] =>
+  TASK_STATUSES.flatMap(status => [
+    { key: status, title: TASK_STATUS_LABELS[status], status, columnId: null },
+    ...custom
+      .filter(c => c.status === status)
+      .sort((a, b) => a.position - b.position)
+      .map(c => ({ key: c.id, title: c.name, status, columnId: c.id })),
+  ]);
+
+// Cards never placed by hand come first, newest on top, then the saved order
+const byPosition = (a: TaskWithRelations, b: TaskWithRelations) => {
+  if (a.position == null && b.position == null) return b.created_at.localeCompare(a.created_at);
+  if (a.position == null) return -1;
+  if (b.position == null) return 1;
+  return a.position - b.position;
+};
+
+// Tasks shown in a column. Tasks in a custom column that is not on this board
+// (e.g. the all-projects board) show in their status column.
+export function columnTasks(tasks: TaskWithRelations[], column: BoardColumn, columns: BoardColumn[]) {
+  const shown = new Set(columns.map(c => c.columnId).filter(Boolean));
+  return tasks
+    .filter(t =>
+      t.status === column.status &&
+      (column.columnId ? t.column_id === column.columnId : !t.column_id || !shown.has(t.column_id))
+    )
+    .sort(byPosition);
+}
+
+// Updates that drop `task` into `column` before `beforeId` (or at the end).
+// Usually only the moved task changes; a column with unplaced cards or no
+// room left between neighbours is renumbered.
+export function planMove(
+  task: TaskWithRelations,
+  column: BoardColumn,
+  current: TaskWithRelations[],
+  beforeId: string | null
+): TaskMove[] {
+  const currentIndex = current.findIndex(t => t.id === task.id);
+  if (currentIndex >= 0 && (current[currentIndex + 1]?.id ?? null) === beforeId) return [];
+
+  const others = current.filter(t => t.id !== task.id);
+  const index = beforeId ? Math.max(0, others.findIndex(t => t.id === beforeId)) : others.length;
+  const placement = { status: column.status, column_id: column.columnId };
+
+  if (others.every(t => t.position != null)) {
+    const prev = others[index - 1]?.position;
+    const next = others[index]?.position;
+    let position: number;
+    if (prev != null && next != null) position = (prev + next) / 2;
+    else if (prev != null) position = prev + POSITION_STEP;
+    else if (next != null) position = next - POSITION_STEP;
+    else position = POSITION_STEP;
+
+    if (position !== prev && position !== next) return [{ id: task.id, patch: { ...placement, position } }];
+  }
+
+  const ordered = [...others];
+  ordered.splice(index, 0, task);
+  return ordered
+    .map((t, i) => ({ task: t, position: (i + 1) * POSITION_STEP }))
+    .filter(({ task: t, position }) => t.id === task.id || t.position !== position)
+    .map(({ task: t, position }) => ({
+      id: t.id,
+      patch: t.id === task.id ? { ...placement, position } : { position },
+    }));
+}
+
+// Where a drop on a partly loaded column lands in the whole column: before the
+// same card, or right after the last card that was on screen
+export function beforeInFullColumn(
+  taskId: string,
+  shown: TaskWithRelations[],
+  full: TaskWithRelations[],
+  beforeId: string | null
+) {
+  if (beforeId) return beforeId;
+
+  const rest = full.filter(t => t.id !== taskId);
+  const visible = shown.filter(t => t.id !== taskId);
+  if (visible.length === 0) return rest[0]?.id ?? null;
+
+  const lastIndex = rest.findIndex(t => t.id === visible[visible.length - 1].id);
+  return rest[lastIndex + 1]?.id ?? null;
+}
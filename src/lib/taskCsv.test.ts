@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseCsv, toCsv } from "./csv";
+import { guessMapping, tasksToCsv, validateTaskRows, type TaskCsvMapping } from "./taskCsv";
+import type { TaskWithRelations } from "./repositories/tasks";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const members = [{ user_id: "user-1", email: "Ada@Example.com" }];
+const projects = [{ id: "project-1", name: "Website " }];
+
+const mapping: TaskCsvMapping = {
+  title: 0,
+  description: 1,
+  assignee_email: 2,
+  project: 3,
+  due_date: 4,
+  status: 5,
+};
+
+describe("guessMapping", () => {
+  it("matches headers and their aliases", () => {
+    expect(guessMapping(["Task", "Notes", "Assigned_To", "project-name", "Deadline", "State"])).toEqual(mapping);
+  });
+
+  it("leaves unknown fields unmapped", () => {
+    expect(guessMapping(["Title", "Whatever"])).toEqual({
+      title: 0,
+      description: null,
+      assignee_email: null,
+      project: null,
+      due_date: null,
+      status: null,
+    });
+  });
+});
+
+describe("validateTaskRows", () => {
+  it("resolves emails and project names to ids", () => {
+    const [row] = validateTaskRows(
+      [["Launch", "", "ada@example.com", "website", "2024/03/01", "In Progress"]],
+      mapping,
+      members,
+      projects,
+      "admin-1"
+    );
+    expect(row).toEqual({
+      row: 1,
+      title: "Launch",
+      errors: [],
+      task: {
+        title: "Launch",
+        description: null,
+        assigned_to: "user-1",
+        assigned_by: "admin-1",
+        project_id: "project-1",
+        due_date: "2024-03-01",
+        status: "in_progress",
+      },
+    });
+  });
+
+  it("defaults the status to pending", () => {
+    const [row] = validateTaskRows([["Launch"]], { ...mapping, status: null }, members, projects, "admin-1");
+    expect(row.task?.status).toBe("pending");
+  });
+
+  it("reports every problem of a row and creates no task", () => {
+    const [row] = validateTaskRows(
+      [["", "", "nobody@example.com", "Mobile", "01/03/2024", "done"]],
+      mapping,
+      members,
+      projects,
+      "admin-1"
+    );
+    expect(row.task).toBeNull();
+    expect(row.errors).toEqual([
+      "Title is required",
+      "No team member with email nobody@example.com",
+      'No project named "Mobile"',
+      '"01/03/2024" is not a date (use YYYY-MM-DD)',
+      'Unknown status "done"',
+    ]);
+  });
+
+  it("imports an export unchanged", () => {
+    const task = {
+      title: "=Budget",
+      description: "Q1, Q2",
+      due_date: "2024-05-01",
+      status: "completed",
+      assignee: { email: "ada@example.com" },
+      project: { id: "project-1", name: "Website" },
+    } as TaskWithRelations;
+    const [headers, ...rows] = parseCsv(toCsv(tasksToCsv([task])));
+    const [row] = validateTaskRows(rows, guessMapping(headers), members, projects, "admin-1");
+    expect(row.task).toMatchObject({
+      title: "=Budget",
+      description: "Q1, Q2",
+      assigned_to: "user-1",
+      project_id: "project-1",
+      due_date: "2024-05-01",
+      status: "completed",
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { format, isValid, parse } from "date-fns";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import type { CsvValue } from "@/lib/csv";
+import { TASK_STATUSES, TASK_STATUS_LABELS, type TaskStatus, type TaskWithRelations } from "@/lib/repositories/tasks";
+
+export type TaskCsvField = "title" | "description" | "assignee_email" | "project" | "due_date" | "status";
+
+// Column index in the file for each field, or null when the field is not imported
+export type TaskCsvMapping = Record<TaskCsvField, number | null>;
+
+export interface TaskImportRow {
+  // Position among the data rows, starting at 1
+  row: number;
+  title: string;
+  task: TablesInsert<"tasks"> | null;
+  errors: string[];
+}
+
+export const TASK_CSV_FIELDS: TaskCsvField[] = ["title", "description", "assignee_email", "project", "due_date", "status"];
+
+export const TASK_CSV_FIELD_LABELS: Record<TaskCsvField, string> = {
+  title: "Title",
+  description: "Description",
+  assignee_email: "Assignee Email",
+  project: "Project",
+  due_date: "Due Date",
+  status: "Status",
+};
+
+// Other header spellings recognised when guessing the mapping
+const HEADER_ALIASES: Record<TaskCsvField, string[]> = {
+  title: ["title", "task", "name", "summary"],
+  description: ["description", "details", "notes"],
+  assignee_email: ["assignee email", "assignee", "assigned to", "email", "owner"],
+  project: ["project", "project name"],
+  due_date: ["due date", "due", "deadline"],
+  status: ["status", "state"],
+};
+
+// Day/month order is ambiguous in other formats, so only year-first dates are read
+const DATE_FORMATS = ["yyyy-MM-dd", "yyyy/MM/dd"];
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[_-]+/g, " ");
+
+// Undo the formula guard added by toCsv so exported files import unchanged
+const cellValue = (row: string[], index: number | null) =>
+  index === null ? "" : (row[index] ?? "").trim().replace(/^'(?=[=+\-@])/, "");
+
+export function guessMapping(headers: string[]): TaskCsvMapping {
+  const normalized = headers.map(normalize);
+  return Object.fromEntries(
+    TASK_CSV_FIELDS.map(field => {
+      const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+      return [field, index >= 0 ? index : null];
+    })
+  ) as TaskCsvMapping;
+}
+
+const parseStatus = (value: string): TaskStatus | null => {
+  const key = normalize(value);
+  return TASK_STATUSES.find(status => normalize(status) === key || TASK_STATUS_LABELS[status].toLowerCase() === key) ?? null;
+};
+
+const parseDueDate = (value: string) => {
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(value, pattern, new Date());
+    if (isValid(date)) return format(date, "yyyy-MM-dd");
+  }
+  return null;
+};
+
+// Checks every data row and resolves emails and project names to ids. Rows
+// with errors get no task; the rest can be inserted as they are.
+export function validateTaskRows(
+  rows: string[][],
+  mapping: TaskCsvMapping,
+  members: { user_id: string; email: string }[],
+  projects: { id: string; name: string }[],
+  assignedBy: string
+): TaskImportRow[] {
+  const memberByEmail = new Map(members.map(m => [m.email.toLowerCase(), m.user_id]));
+  const projectByName = new Map(projects.map(p => [p.name.trim().toLowerCase(), p.id]));
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const title = cellValue(row, mapping.title);
+    const description = cellValue(row, mapping.description);
+    const email = cellValue(row, mapping.assignee_email);
+    const projectName = cellValue(row, mapping.project);
+    const due = cellValue(row, mapping.due_date);
+    const statusValue = cellValue(row, mapping.status);
+
+    if (!title) errors.push("Title is required");
+
+    const assignedTo = email ? memberByEmail.get(email.toLowerCase()) : null;
+    if (email && !assignedTo) errors.push(`No team member with email ${email}`);
+
+    const projectId = projectName ? projectByName.get(projectName.toLowerCase()) : null;
+    if (projectName && !projectId) errors.push(`No project named "${projectName}"`);
+
+    const dueDate = due ? parseDueDate(due) : null;
+    if (due && !dueDate) errors.push(`"${due}" is not a date (use YYYY-MM-DD)`);
+
+    const status = statusValue ? parseStatus(statusValue) : "pending";
+    if (!status) errors.push(`Unknown status "${statusValue}"`);
+
+    return {
+      row: index + 1,
+      title,
+      errors,
+      task: errors.length
+        ? null
+        : {
+            title,
+            description: description || null,
+            assigned_to: assignedTo ?? null,
+            assigned_by: assignedBy,
+            project_id: projectId ?? null,
+            due_date: dueDate,
+            status,
+          },
+    };
+  });
+}
+
+// Same columns the importer reads, so an export can be edited and re-imported
+export const tasksToCsv = (tasks: TaskWithRelations[]): CsvValue[][] => [
+  TASK_CSV_FIELDS.map(field => TASK_CSV_FIELD_LABELS[field]),
+  ...tasks.map(task => [
+    task.title,
+    task.description,
+    task.assignee?.email,
+    task.project?.name,
+    task.due_date,
+    TASK_STATUS_LABELS[task.status],
+  ]),
+];
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { daysUntilDue, describeDue, dueState } from "./taskDeadlines";
+
+// Late in the day, so only calendar days count
+const today = new Date(2024, 2, 10, 23, 30);
+
+describe("daysUntilDue", () => {
+  it("counts calendar days from today", () => {
+    expect(daysUntilDue("2024-03-10", today)).toBe(0);
+    expect(daysUntilDue("2024-03-11", today)).toBe(1);
+    expect(daysUntilDue("2024-03-07", today)).toBe(-3);
+  });
+});
+
+describe("dueState", () => {
+  const open = (due_date: string | null) => ({ due_date, status: "in_progress" as const });
+
+  it("flags passed due dates as overdue", () => {
+    expect(dueState(open("2024-03-09"), 2, today)).toBe("overdue");
+  });
+
+  it("flags due dates inside the warning window as due soon", () => {
+    expect(dueState(open("2024-03-10"), 2, today)).toBe("due_soon");
+    expect(dueState(open("2024-03-12"), 2, today)).toBe("due_soon");
+    expect(dueState(open("2024-03-13"), 2, today)).toBeNull();
+    expect(dueState(open("2024-03-10"), 0, today)).toBe("due_soon");
+  });
+
+  it("never flags completed tasks or tasks without a due date", () => {
+    expect(dueState({ due_date: "2024-01-01", status: "completed" }, 2, today)).toBeNull();
+    expect(dueState(open(null), 2, today)).toBeNull();
+  });
+});
+
+describe("describeDue", () => {
+  it("describes the due date relative to today", () => {
+    expect(describeDue("2024-03-09", today)).toBe("Overdue by 1 day");
+    expect(describeDue("2024-03-05", today)).toBe("Overdue by 5 days");
+    expect(describeDue("2024-03-10", today)).toBe("Due today");
+    expect(describeDue("2024-03-11", today)).toBe("Due tomorrow");
+    expect(describeDue("2024-03-14", today)).toBe("Due in 4 days");
+  });
+});
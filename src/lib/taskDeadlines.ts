@@ -0,0 +1,41 @@
+import { differenceInCalendarDays, parseISO, startOfDay } from "date-fns";
+import type { TaskStatus } from "@/lib/repositories/tasks";
+
+export type DueState = "overdue" | "due_soon";
+
+export interface DeadlineSettings {
+  dueSoonDays: number;
+  escalationDays: number;
+}
+
+export const DEFAULT_DEADLINE_SETTINGS: DeadlineSettings = { dueSoonDays: 2, escalationDays: 3 };
+
+export const DUE_STATE_COLORS: Record<DueState, string> = {
+  overdue: "bg-red-100 text-red-700",
+  due_soon: "bg-amber-100 text-amber-700",
+};
+
+// Whole days from today until the due date; negative once it has passed
+export const daysUntilDue = (dueDate: string, today = new Date()) =>
+  differenceInCalendarDays(parseISO(dueDate), startOfDay(today));
+
+// Open tasks only: a completed task is never late
+export function dueState(
+  task: { due_date: string | null; status: TaskStatus },
+  dueSoonDays: number,
+  today = new Date()
+): DueState | null {
+  if (!task.due_date || task.status === "completed") return null;
+
+  const days = daysUntilDue(task.due_date, today);
+  if (days < 0) return "overdue";
+  return days <= dueSoonDays ? "due_soon" : null;
+}
+
+export function describeDue(dueDate: string, today = new Date()) {
+  const days = daysUntilDue(dueDate, today);
+  if (days < 0) return `Overdue by ${-days} ${-days === 1 ? "day" : "days"}`;
+  if (days === 0) return "Due today";
+  if (days === 1) return "Due tomorrow";
+  return `Due in ${days} days`;
+}
@@ -0,0 +1,30 @@
+const HOUR = 60 * 60000;
+
+// Wall-clock fields of an instant in a timezone, as if they were UTC
+export const zonedAsUtc = (date: Date, timezone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+};
+
+// The instant a wall-clock time (given as UTC fields) denotes in a timezone.
+// Like Postgres' AT TIME ZONE, times repeated when clocks go back read as
+// standard time, and times skipped when they go forward move on by the gap.
+export const fromZoned = (wallClock: number, timezone: string) => {
+  const offsetAt = (time: number) => zonedAsUtc(new Date(time), timezone) - Math.floor(time / 1000) * 1000;
+  // Offsets never exceed 14 hours, so these bracket any change near the time
+  const around = [offsetAt(wallClock - 18 * HOUR), offsetAt(wallClock + 18 * HOUR)];
+  const fitting = around.filter(offset => offsetAt(wallClock - offset) === offset);
+  return new Date(wallClock - Math.min(...(fitting.length > 0 ? fitting : around)));
+};
+
+export const localTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
@@ -0,0 +1,10 @@
+// Takes the place of the app's browser client (see deno.json), so the
+// repositories the feed reuses query with the service role
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+
+export const supabase = createClient<Database>(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  { auth: { persistSession: false, autoRefreshToken: false } }
+);
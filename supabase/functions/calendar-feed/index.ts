@@ -0,0 +1,40 @@
+// iCalendar feed that calendar apps subscribe to and poll, so a member's
+// meetings, approved leave and task due dates stay current there. The token
+// in the URL identifies the member; everything else is the same calendar the
+// "Export .ics" button downloads (see fetchMyCalendarEvents).
+import { supabase } from "./client.ts";
+import { buildCalendar, fetchMyCalendarEvents } from "@/lib/ics";
+
+Deno.serve(async (req) => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const token = new URL(req.url).searchParams.get("token");
+  if (!token) return new Response("Missing token", { status: 400 });
+
+  const { data: feed, error } = await supabase
+    .from("calendar_feed_tokens")
+    .select("user_id")
+    .eq("token", token)
+    .maybeSingle();
+  if (error) {
+    console.error("Failed to look up calendar feed token:", error);
+    return new Response("Calendar unavailable", { status: 500 });
+  }
+  // Unknown and reset tokens look the same, so old links just stop working
+  if (!feed) return new Response("Calendar not found", { status: 404 });
+
+  try {
+    const events = await fetchMyCalendarEvents(feed.user_id);
+    return new Response(req.method === "HEAD" ? null : buildCalendar(events, "Grofast Team"), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to build calendar feed:", error);
+    return new Response("Calendar unavailable", { status: 500 });
+  }
+});
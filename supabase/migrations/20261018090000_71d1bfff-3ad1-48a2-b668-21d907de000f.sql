@@ -0,0 +1,77 @@
+-- Store how much of an allowance each request consumes (days, or hours for permission)
+ALTER TABLE public.leave_requests ADD COLUMN IF NOT EXISTS duration NUMERIC(6,2);
+
+UPDATE public.leave_requests
+SET duration = CASE type
+  WHEN 'full_day' THEN (COALESCE(end_date, start_date) - start_date) + 1
+  WHEN 'half_day' THEN 0.5
+  ELSE ROUND((EXTRACT(EPOCH FROM (end_time - start_time)) / 3600)::numeric, 2)
+END
+WHERE duration IS NULL;
+
+-- Per-user, per-year allowance for each leave type. A NULL allowance means
+-- the admin has not set a limit yet, but usage is still tracked.
+CREATE TABLE IF NOT EXISTS public.leave_entitlements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  year INTEGER NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('full_day', 'half_day', 'permission')),
+  allowance NUMERIC(6,2),
+  used NUMERIC(6,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(user_id, year, type)
+);
+
+ALTER TABLE public.leave_entitlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own leave entitlements"
+ON public.leave_entitlements FOR SELECT
+USING (auth.uid() = user_id OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can manage leave entitlements"
+ON public.leave_entitlements FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_leave_entitlements_updated_at
+  BEFORE UPDATE ON public.leave_entitlements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Deduct from (or give back to) the balance whenever a request enters or
+-- leaves the approved state
+CREATE OR REPLACE FUNCTION public.apply_leave_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    INSERT INTO public.leave_entitlements (user_id, year, type, used)
+    VALUES (NEW.user_id, EXTRACT(YEAR FROM NEW.start_date)::int, NEW.type, COALESCE(NEW.duration, 0))
+    ON CONFLICT (user_id, year, type)
+    DO UPDATE SET used = public.leave_entitlements.used + EXCLUDED.used;
+  ELSIF OLD.status = 'approved' AND NEW.status IS DISTINCT FROM 'approved' THEN
+    UPDATE public.leave_entitlements
+    SET used = GREATEST(used - COALESCE(OLD.duration, 0), 0)
+    WHERE user_id = OLD.user_id
+      AND year = EXTRACT(YEAR FROM OLD.start_date)::int
+      AND type = OLD.type;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_leave_balance_on_review
+  AFTER UPDATE OF status ON public.leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_leave_balance();
+
+-- Seed usage from requests approved before balances existed
+INSERT INTO public.leave_entitlements (user_id, year, type, used)
+SELECT user_id, EXTRACT(YEAR FROM start_date)::int, type, SUM(COALESCE(duration, 0))
+FROM public.leave_requests
+WHERE status = 'approved'
+GROUP BY user_id, EXTRACT(YEAR FROM start_date)::int, type
+ON CONFLICT (user_id, year, type) DO NOTHING;
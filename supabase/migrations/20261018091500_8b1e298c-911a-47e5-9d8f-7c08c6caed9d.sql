@@ -0,0 +1,52 @@
+-- Company-wide public holidays, excluded from leave durations
+CREATE TABLE IF NOT EXISTS public.holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  date DATE NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Single-row settings table; weekend_days uses JavaScript weekday numbers (0 = Sunday)
+CREATE TABLE IF NOT EXISTS public.company_settings (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  weekend_days INTEGER[] NOT NULL DEFAULT '{0,6}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.company_settings (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.company_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view holidays"
+ON public.holidays FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage holidays"
+ON public.holidays FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Anyone can view company settings"
+ON public.company_settings FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update company settings"
+ON public.company_settings FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_company_settings_updated_at
+  BEFORE UPDATE ON public.company_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Pending full-day requests were sized in calendar days; count working days instead
+UPDATE public.leave_requests
+SET duration = (
+  SELECT COUNT(*)
+  FROM generate_series(start_date, COALESCE(end_date, start_date), INTERVAL '1 day') AS d
+  WHERE EXTRACT(DOW FROM d) NOT IN (0, 6)
+)
+WHERE type = 'full_day' AND status = 'pending';
@@ -0,0 +1,27 @@
+-- Approved leave overlapping a date range, for the shared calendar. Members
+-- cannot read other people's leave_requests or profiles directly, so this
+-- exposes only who is away and when.
+CREATE OR REPLACE FUNCTION public.team_leave_calendar(_from DATE, _to DATE)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  full_name TEXT,
+  type TEXT,
+  start_date DATE,
+  end_date DATE,
+  start_time TIME,
+  end_time TIME
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lr.id, lr.user_id, p.full_name, lr.type, lr.start_date, lr.end_date, lr.start_time, lr.end_time
+  FROM public.leave_requests lr
+  LEFT JOIN public.profiles p ON p.user_id = lr.user_id
+  WHERE auth.uid() IS NOT NULL
+    AND lr.status = 'approved'
+    AND lr.start_date <= _to
+    AND COALESCE(lr.end_date, lr.start_date) >= _from
+$$;
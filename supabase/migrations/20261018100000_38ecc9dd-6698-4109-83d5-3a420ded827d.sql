@@ -0,0 +1,81 @@
+-- Meetings can be cancelled or moved; attendees keep seeing them either way
+ALTER TABLE public.meetings
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'cancelled')),
+  ADD COLUMN IF NOT EXISTS cancel_reason TEXT,
+  ADD COLUMN IF NOT EXISTS previous_scheduled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE TRIGGER update_meetings_updated_at
+  BEFORE UPDATE ON public.meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Organisers can update own meetings"
+ON public.meetings FOR UPDATE
+TO authenticated
+USING (created_by = auth.uid());
+
+-- Names and roles of everyone, for pickers. Profiles themselves stay private.
+CREATE OR REPLACE FUNCTION public.team_directory()
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  designation TEXT,
+  department TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.user_id, p.full_name, p.designation, p.department
+  FROM public.profiles p
+  WHERE auth.uid() IS NOT NULL
+  ORDER BY p.full_name
+$$;
+
+-- Other meetings and approved leave that overlap a proposed slot for any of
+-- the given people. Only busy information is returned.
+CREATE OR REPLACE FUNCTION public.meeting_conflicts(
+  _attendees UUID[],
+  _start TIMESTAMPTZ,
+  _end TIMESTAMPTZ,
+  _exclude UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  kind TEXT,
+  title TEXT,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT a.uid, p.full_name, 'meeting', m.title, m.scheduled_at,
+    m.scheduled_at + make_interval(mins => COALESCE(m.duration_minutes, 30))
+  FROM public.meetings m
+  CROSS JOIN LATERAL unnest(array_append(COALESCE(m.attendees, '{}'), m.created_by)) AS a(uid)
+  LEFT JOIN public.profiles p ON p.user_id = a.uid
+  WHERE auth.uid() IS NOT NULL
+    AND m.status = 'scheduled'
+    AND (_exclude IS NULL OR m.id <> _exclude)
+    AND a.uid = ANY(_attendees)
+    AND m.scheduled_at < _end
+    AND m.scheduled_at + make_interval(mins => COALESCE(m.duration_minutes, 30)) > _start
+  UNION
+  SELECT lr.user_id, p.full_name, 'leave', lr.type,
+    lr.start_date + COALESCE(lr.start_time, '00:00'::time),
+    CASE WHEN lr.end_time IS NOT NULL THEN lr.start_date + lr.end_time
+         ELSE COALESCE(lr.end_date, lr.start_date) + 1 END
+  FROM public.leave_requests lr
+  LEFT JOIN public.profiles p ON p.user_id = lr.user_id
+  WHERE auth.uid() IS NOT NULL
+    AND lr.status = 'approved'
+    AND lr.user_id = ANY(_attendees)
+    AND lr.start_date <= _end::date
+    AND COALESCE(lr.end_date, lr.start_date) >= _start::date
+$$;
@@ -0,0 +1,139 @@
+-- Recurring meetings. A series is one row with an RRULE; its occurrences are
+-- expanded when read. Editing or cancelling a single occurrence stores an
+-- exception row pointing back at the series and the start it replaces.
+ALTER TABLE public.meetings
+  ADD COLUMN IF NOT EXISTS recurrence_rule TEXT,
+  ADD COLUMN IF NOT EXISTS recurrence_end TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC',
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.meetings(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS original_start TIMESTAMPTZ;
+
+ALTER TABLE public.meetings
+  ADD CONSTRAINT meetings_series_occurrence_key UNIQUE (series_id, original_start);
+
+CREATE INDEX IF NOT EXISTS meetings_recurring_idx ON public.meetings (scheduled_at) WHERE recurrence_rule IS NOT NULL;
+
+-- Organisers clear a series' exceptions when they move the whole series
+CREATE POLICY "Organisers can delete own meetings"
+ON public.meetings FOR DELETE
+TO authenticated
+USING (created_by = auth.uid());
+
+-- Start times of a meeting inside [_from, _to]. Understands the rules the app
+-- writes: DAILY, WEEKLY with BYDAY, MONTHLY on the start date's day of the
+-- month (skipping months that lack that day), each with INTERVAL.
+-- recurrence_end (the last start) covers UNTIL and COUNT.
+CREATE OR REPLACE FUNCTION public.meeting_occurrences(
+  _meeting public.meetings,
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ
+)
+RETURNS SETOF TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _rule TEXT := _meeting.recurrence_rule;
+  _tz TEXT := COALESCE(_meeting.timezone, 'UTC');
+  _local TIMESTAMP := _meeting.scheduled_at AT TIME ZONE _tz;
+  _first DATE := (_meeting.scheduled_at AT TIME ZONE _tz)::date;
+  _last DATE;
+  _freq TEXT;
+  _interval INT;
+  _days INT[];
+  _day DATE;
+  _occurrence TIMESTAMPTZ;
+BEGIN
+  IF _rule IS NULL THEN
+    RETURN NEXT _meeting.scheduled_at;
+    RETURN;
+  END IF;
+
+  _freq := substring(_rule FROM 'FREQ=([A-Z]+)');
+  _interval := COALESCE(substring(_rule FROM 'INTERVAL=([0-9]+)')::INT, 1);
+  -- ISO weekday numbers, Monday = 1
+  SELECT array_agg(array_position(ARRAY['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'], d))
+  INTO _days
+  FROM unnest(string_to_array(substring(_rule FROM 'BYDAY=([A-Z,]+)'), ',')) AS d;
+
+  _last := (_to AT TIME ZONE _tz)::date;
+  IF _meeting.recurrence_end IS NOT NULL THEN
+    _last := LEAST(_last, (_meeting.recurrence_end AT TIME ZONE _tz)::date);
+  END IF;
+
+  FOR _day IN
+    SELECT generate_series(GREATEST(_first, (_from AT TIME ZONE _tz)::date - 1), _last, INTERVAL '1 day')::date
+  LOOP
+    CONTINUE WHEN _freq = 'DAILY' AND (_day - _first) % _interval <> 0;
+    CONTINUE WHEN _freq = 'WEEKLY'
+      AND ((_day - date_trunc('week', _first)::date) / 7) % _interval <> 0;
+    CONTINUE WHEN _freq = 'WEEKLY' AND _days IS NULL
+      AND extract(isodow FROM _day) <> extract(isodow FROM _first);
+    CONTINUE WHEN _freq = 'MONTHLY' AND (
+      extract(day FROM _day) <> extract(day FROM _first)
+      OR ((extract(year FROM _day) * 12 + extract(month FROM _day))
+        - (extract(year FROM _first) * 12 + extract(month FROM _first)))::INT % _interval <> 0
+    );
+    CONTINUE WHEN _days IS NOT NULL AND NOT (extract(isodow FROM _day)::INT = ANY(_days));
+
+    _occurrence := (_day + _local::time) AT TIME ZONE _tz;
+    CONTINUE WHEN _occurrence < _meeting.scheduled_at;
+    CONTINUE WHEN _meeting.recurrence_end IS NOT NULL AND _occurrence > _meeting.recurrence_end;
+    -- Occurrences that were edited or cancelled live in their own rows
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.meetings x WHERE x.series_id = _meeting.id AND x.original_start = _occurrence
+    );
+
+    RETURN NEXT _occurrence;
+  END LOOP;
+END;
+$$;
+
+-- Same as before, but every occurrence of a series counts as busy time
+CREATE OR REPLACE FUNCTION public.meeting_conflicts(
+  _attendees UUID[],
+  _start TIMESTAMPTZ,
+  _end TIMESTAMPTZ,
+  _exclude UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  kind TEXT,
+  title TEXT,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT a.uid, p.full_name, 'meeting', m.title, o.starts_at,
+    o.starts_at + make_interval(mins => COALESCE(m.duration_minutes, 30))
+  FROM public.meetings m
+  CROSS JOIN LATERAL public.meeting_occurrences(m, _start - INTERVAL '1 day', _end) AS o(starts_at)
+  CROSS JOIN LATERAL unnest(array_append(COALESCE(m.attendees, '{}'), m.created_by)) AS a(uid)
+  LEFT JOIN public.profiles p ON p.user_id = a.uid
+  WHERE auth.uid() IS NOT NULL
+    AND m.status = 'scheduled'
+    AND (_exclude IS NULL OR (m.id <> _exclude AND m.series_id IS DISTINCT FROM _exclude))
+    AND a.uid = ANY(_attendees)
+    AND (m.recurrence_rule IS NOT NULL OR m.scheduled_at < _end)
+    AND (m.recurrence_end IS NULL OR m.recurrence_end > _start - INTERVAL '1 day')
+    AND o.starts_at < _end
+    AND o.starts_at + make_interval(mins => COALESCE(m.duration_minutes, 30)) > _start
+  UNION
+  SELECT lr.user_id, p.full_name, 'leave', lr.type,
+    lr.start_date + COALESCE(lr.start_time, '00:00'::time),
+    CASE WHEN lr.end_time IS NOT NULL THEN lr.start_date + lr.end_time
+         ELSE COALESCE(lr.end_date, lr.start_date) + 1 END
+  FROM public.leave_requests lr
+  LEFT JOIN public.profiles p ON p.user_id = lr.user_id
+  WHERE auth.uid() IS NOT NULL
+    AND lr.status = 'approved'
+    AND lr.user_id = ANY(_attendees)
+    AND lr.start_date <= _end::date
+    AND COALESCE(lr.end_date, lr.start_date) >= _start::date
+$$;
@@ -0,0 +1,107 @@
+-- Discussion on a task, between the admin who assigned it and the assignee.
+-- Replies point at a top-level comment through parent_id.
+CREATE TABLE IF NOT EXISTS public.task_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES public.task_comments(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_comments_task_idx ON public.task_comments (task_id, created_at);
+
+ALTER TABLE public.task_comments ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see the task (tasks RLS applies inside the subquery)
+CREATE POLICY "Task participants can view comments"
+ON public.task_comments FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id));
+
+CREATE POLICY "Task participants can comment"
+ON public.task_comments FOR INSERT
+TO authenticated
+WITH CHECK (author_id = auth.uid() AND EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id));
+
+CREATE POLICY "Authors can delete own comments"
+ON public.task_comments FOR DELETE
+TO authenticated
+USING (author_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role));
+
+-- Append-only history of a task. Rows are written by the trigger below only;
+-- there are no insert, update or delete policies.
+CREATE TABLE IF NOT EXISTS public.task_activity (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  actor_id UUID,
+  action TEXT NOT NULL CHECK (action IN ('created', 'assigned', 'status_changed', 'due_date_changed')),
+  from_value TEXT,
+  to_value TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_activity_task_idx ON public.task_activity (task_id, created_at);
+
+ALTER TABLE public.task_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Task participants can view activity"
+ON public.task_activity FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id));
+
+CREATE OR REPLACE FUNCTION public.log_task_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := COALESCE(auth.uid(), NEW.assigned_by);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_activity (task_id, actor_id, action, to_value)
+    VALUES (NEW.id, _actor, 'created', NEW.status::TEXT);
+
+    IF NEW.assigned_to IS NOT NULL THEN
+      INSERT INTO public.task_activity (task_id, actor_id, action, to_value)
+      VALUES (NEW.id, _actor, 'assigned', NEW.assigned_to::TEXT);
+    END IF;
+
+    IF NEW.due_date IS NOT NULL THEN
+      INSERT INTO public.task_activity (task_id, actor_id, action, to_value)
+      VALUES (NEW.id, _actor, 'due_date_changed', NEW.due_date::TEXT);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.task_activity (task_id, actor_id, action, from_value, to_value)
+    VALUES (NEW.id, _actor, 'assigned', OLD.assigned_to::TEXT, NEW.assigned_to::TEXT);
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.task_activity (task_id, actor_id, action, from_value, to_value)
+    VALUES (NEW.id, _actor, 'status_changed', OLD.status::TEXT, NEW.status::TEXT);
+  END IF;
+
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    INSERT INTO public.task_activity (task_id, actor_id, action, from_value, to_value)
+    VALUES (NEW.id, _actor, 'due_date_changed', OLD.due_date::TEXT, NEW.due_date::TEXT);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_task_activity
+  AFTER INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_task_activity();
+
+-- Existing tasks start their history at creation
+INSERT INTO public.task_activity (task_id, actor_id, action, to_value, created_at)
+SELECT t.id, t.assigned_by, 'created', t.status::TEXT, t.created_at
+FROM public.tasks t
+WHERE NOT EXISTS (SELECT 1 FROM public.task_activity a WHERE a.task_id = t.id);
@@ -0,0 +1,41 @@
+-- Assignees report progress in a short note next to the status
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS progress_note TEXT;
+
+-- Team members cannot update tasks directly ("Admins can manage tasks").
+-- This lets an assignee change the status and progress note of their own
+-- task and nothing else. A NULL note leaves the current one; an empty note
+-- clears it.
+CREATE OR REPLACE FUNCTION public.update_my_task(
+  _task_id UUID,
+  _status task_status,
+  _progress_note TEXT DEFAULT NULL
+)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.tasks
+  SET status = _status,
+      progress_note = CASE
+        WHEN _progress_note IS NULL THEN progress_note
+        ELSE NULLIF(trim(_progress_note), '')
+      END
+  WHERE id = _task_id
+    AND assigned_to = auth.uid()
+  RETURNING * INTO _task;
+
+  IF _task.id IS NULL THEN
+    RAISE EXCEPTION 'Task not found or not assigned to you';
+  END IF;
+
+  RETURN _task;
+END;
+$$;
@@ -0,0 +1,74 @@
+-- Extra workflow states per project, e.g. "Review" or "Blocked". Each column
+-- refines one of the task_status values and sits after it on the board, so
+-- reporting on pending / in progress / completed keeps working.
+CREATE TABLE IF NOT EXISTS public.task_columns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  status task_status NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (project_id, name)
+);
+
+ALTER TABLE public.task_columns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage task columns"
+ON public.task_columns FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Visible with the project (projects RLS applies inside the subquery)
+CREATE POLICY "Project members can view task columns"
+ON public.task_columns FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id));
+
+-- column_id is NULL for tasks in the plain status column; position orders
+-- cards within a column and is spaced out so a move rewrites one row
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS column_id UUID REFERENCES public.task_columns(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS position DOUBLE PRECISION;
+
+-- A status change from anywhere else (e.g. update_my_task) or a move to
+-- another project drops the task back into its plain status column
+CREATE OR REPLACE FUNCTION public.sync_task_column()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.column_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.task_columns c
+    WHERE c.id = NEW.column_id
+      AND c.status = NEW.status
+      AND c.project_id IS NOT DISTINCT FROM NEW.project_id
+  ) THEN
+    NEW.column_id := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_task_column
+  BEFORE INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_task_column();
+
+-- Re-basing a column onto another status carries its tasks along
+CREATE OR REPLACE FUNCTION public.sync_column_tasks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.tasks SET status = NEW.status WHERE column_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_column_tasks
+  AFTER UPDATE OF status ON public.task_columns
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.sync_column_tasks();
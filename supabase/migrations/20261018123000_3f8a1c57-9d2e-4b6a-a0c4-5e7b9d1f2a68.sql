@@ -0,0 +1,156 @@
+-- Subtasks are ordinary tasks pointing at their parent, so they carry their
+-- own assignee, due date and status. One level deep only.
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS tasks_parent_idx ON public.tasks (parent_id);
+
+CREATE OR REPLACE FUNCTION public.check_task_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id = NEW.id
+    OR EXISTS (SELECT 1 FROM public.tasks WHERE id = NEW.parent_id AND parent_id IS NOT NULL)
+    OR EXISTS (SELECT 1 FROM public.tasks WHERE parent_id = NEW.id) THEN
+    RAISE EXCEPTION 'Subtasks cannot have subtasks of their own';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_task_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_task_parent();
+
+-- A parent's status follows its subtasks: completed once they all are, in
+-- progress as soon as one has started, pending otherwise. Runs as definer so
+-- an assignee finishing the last subtask also completes the parent.
+CREATE OR REPLACE FUNCTION public.refresh_parent_task_status(_parent_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _total INTEGER;
+  _completed INTEGER;
+  _started INTEGER;
+  _status task_status;
+BEGIN
+  SELECT count(*),
+         count(*) FILTER (WHERE status = 'completed'),
+         count(*) FILTER (WHERE status <> 'pending')
+  INTO _total, _completed, _started
+  FROM public.tasks
+  WHERE parent_id = _parent_id;
+
+  IF _total = 0 THEN
+    RETURN;
+  END IF;
+
+  _status := CASE
+    WHEN _completed = _total THEN 'completed'
+    WHEN _started > 0 THEN 'in_progress'
+    ELSE 'pending'
+  END;
+
+  UPDATE public.tasks SET status = _status
+  WHERE id = _parent_id AND status IS DISTINCT FROM _status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.roll_up_task_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The parent a subtask left, or was deleted from
+  IF OLD.parent_id IS NOT NULL AND (TG_OP = 'DELETE' OR NEW.parent_id IS DISTINCT FROM OLD.parent_id) THEN
+    PERFORM public.refresh_parent_task_status(OLD.parent_id);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.parent_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.parent_id IS DISTINCT FROM OLD.parent_id OR NEW.status IS DISTINCT FROM OLD.status) THEN
+    PERFORM public.refresh_parent_task_status(NEW.parent_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER roll_up_task_status
+  AFTER INSERT OR DELETE OR UPDATE OF status, parent_id ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.roll_up_task_status();
+
+-- Lightweight to-do items inside a task, without assignees of their own
+CREATE TABLE IF NOT EXISTS public.task_checklist_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  done BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  completed_by UUID,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_checklist_items_task_idx ON public.task_checklist_items (task_id, position);
+
+ALTER TABLE public.task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Task participants can view checklist items"
+ON public.task_checklist_items FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id));
+
+CREATE POLICY "Admins can manage checklist items"
+ON public.task_checklist_items FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Assignees tick items off on their own task without being able to edit them
+CREATE OR REPLACE FUNCTION public.set_checklist_item_done(_item_id UUID, _done BOOLEAN)
+RETURNS public.task_checklist_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.task_checklist_items;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.task_checklist_items i
+  SET done = _done,
+      completed_by = CASE WHEN _done THEN auth.uid() END,
+      completed_at = CASE WHEN _done THEN now() END
+  WHERE i.id = _item_id
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = i.task_id AND t.assigned_to = auth.uid())
+    )
+  RETURNING * INTO _item;
+
+  IF _item.id IS NULL THEN
+    RAISE EXCEPTION 'Checklist item not found or task not assigned to you';
+  END IF;
+
+  RETURN _item;
+END;
+$$;
+
+-- Only the trigger needs this
+REVOKE EXECUTE ON FUNCTION public.refresh_parent_task_status(UUID) FROM PUBLIC, anon, authenticated;
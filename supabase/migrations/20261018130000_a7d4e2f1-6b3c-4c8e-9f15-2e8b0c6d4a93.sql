@@ -0,0 +1,39 @@
+CREATE TYPE public.task_priority AS ENUM ('low', 'medium', 'high', 'urgent');
+
+-- Labels are free-form tags typed by admins; the GIN index backs label filters
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS priority task_priority NOT NULL DEFAULT 'medium',
+  ADD COLUMN IF NOT EXISTS labels TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS tasks_labels_idx ON public.tasks USING GIN (labels);
+CREATE INDEX IF NOT EXISTS tasks_created_at_idx ON public.tasks (created_at DESC);
+
+-- Every label in use on tasks the caller can see, for filter and form suggestions
+CREATE OR REPLACE FUNCTION public.task_labels()
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT label
+  FROM public.tasks, unnest(labels) AS label
+  ORDER BY label;
+$$;
+
+-- Named sets of task filters, private to the user who saved them
+CREATE TABLE IF NOT EXISTS public.task_filter_presets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  filters JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.task_filter_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own filter presets"
+ON public.task_filter_presets FOR ALL
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,83 @@
+-- "task_id is blocked by depends_on_id": the task should not start until its
+-- predecessor is completed
+CREATE TABLE IF NOT EXISTS public.task_dependencies (
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  depends_on_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (task_id, depends_on_id),
+  CHECK (task_id <> depends_on_id)
+);
+
+CREATE INDEX IF NOT EXISTS task_dependencies_depends_on_idx ON public.task_dependencies (depends_on_id);
+
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Task participants can view dependencies"
+ON public.task_dependencies FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id OR t.id = depends_on_id));
+
+CREATE POLICY "Admins can manage dependencies"
+ON public.task_dependencies FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Reject a link whose predecessor already (transitively) depends on the task
+CREATE OR REPLACE FUNCTION public.check_task_dependency_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE upstream AS (
+      SELECT d.depends_on_id FROM public.task_dependencies d WHERE d.task_id = NEW.depends_on_id
+      UNION
+      SELECT d.depends_on_id FROM public.task_dependencies d JOIN upstream u ON d.task_id = u.depends_on_id
+    )
+    SELECT 1 FROM upstream WHERE depends_on_id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'This dependency would create a cycle' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_task_dependency_cycle
+  BEFORE INSERT OR UPDATE ON public.task_dependencies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_task_dependency_cycle();
+
+-- Dependencies touching the given tasks, with both ends' titles and statuses.
+-- Runs as definer so an assignee sees what blocks their task even when the
+-- predecessor belongs to someone else; only tasks the caller could see
+-- themselves are looked up.
+CREATE OR REPLACE FUNCTION public.task_dependency_links(_task_ids UUID[])
+RETURNS TABLE (
+  task_id UUID,
+  task_title TEXT,
+  task_status task_status,
+  depends_on_id UUID,
+  depends_on_title TEXT,
+  depends_on_status task_status
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH visible AS (
+    SELECT t.id
+    FROM public.tasks t
+    WHERE t.id = ANY(_task_ids)
+      AND (t.assigned_to = auth.uid() OR t.assigned_by = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+  )
+  SELECT d.task_id, t.title, t.status, d.depends_on_id, p.title, p.status
+  FROM public.task_dependencies d
+  JOIN public.tasks t ON t.id = d.task_id
+  JOIN public.tasks p ON p.id = d.depends_on_id
+  WHERE d.task_id IN (SELECT id FROM visible) OR d.depends_on_id IN (SELECT id FROM visible)
+  ORDER BY d.created_at;
+$$;
@@ -0,0 +1,100 @@
+-- Planned effort, compared against logged time on task and project screens
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS estimated_hours NUMERIC(7, 2) CHECK (estimated_hours >= 0);
+
+-- Time spent on a task or directly on a project. Entries made from a work
+-- update point back at it and go away with it.
+CREATE TABLE IF NOT EXISTS public.time_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  work_update_id UUID REFERENCES public.work_updates(id) ON DELETE CASCADE,
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  minutes INTEGER NOT NULL CHECK (minutes > 0 AND minutes <= 1440),
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (task_id IS NOT NULL OR project_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS time_entries_task_idx ON public.time_entries (task_id);
+CREATE INDEX IF NOT EXISTS time_entries_project_idx ON public.time_entries (project_id);
+CREATE INDEX IF NOT EXISTS time_entries_user_date_idx ON public.time_entries (user_id, date);
+
+ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own time entries"
+ON public.time_entries FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role));
+
+-- Only against tasks and projects the user can see (their RLS applies in the subqueries)
+CREATE POLICY "Users can log own time"
+ON public.time_entries FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid() AND (
+    EXISTS (SELECT 1 FROM public.tasks t WHERE t.id = task_id)
+    OR EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id)
+  )
+);
+
+CREATE POLICY "Users can delete own time entries"
+ON public.time_entries FOR DELETE
+TO authenticated
+USING (user_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role));
+
+-- Time on a task counts towards the task's project
+CREATE OR REPLACE FUNCTION public.set_time_entry_project()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.task_id IS NOT NULL THEN
+    NEW.project_id := (SELECT project_id FROM public.tasks WHERE id = NEW.task_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_time_entry_project
+  BEFORE INSERT OR UPDATE OF task_id ON public.time_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_time_entry_project();
+
+-- Minutes logged by everyone on each of the given tasks the caller can see
+CREATE OR REPLACE FUNCTION public.task_time_totals(_task_ids UUID[])
+RETURNS TABLE (task_id UUID, minutes BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.task_id, sum(e.minutes)
+  FROM public.time_entries e
+  JOIN public.tasks t ON t.id = e.task_id
+  WHERE e.task_id = ANY(_task_ids)
+    AND (t.assigned_to = auth.uid() OR t.assigned_by = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+  GROUP BY e.task_id;
+$$;
+
+-- Logged minutes and the sum of task estimates for each visible project
+CREATE OR REPLACE FUNCTION public.project_time_totals(_project_ids UUID[])
+RETURNS TABLE (project_id UUID, minutes BIGINT, estimated_hours NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id,
+         COALESCE((SELECT sum(e.minutes) FROM public.time_entries e WHERE e.project_id = p.id), 0),
+         COALESCE((SELECT sum(t.estimated_hours) FROM public.tasks t WHERE t.project_id = p.id), 0)
+  FROM public.projects p
+  WHERE p.id = ANY(_project_ids)
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR EXISTS (SELECT 1 FROM public.project_members m WHERE m.project_id = p.id AND m.user_id = auth.uid())
+    );
+$$;
@@ -0,0 +1,189 @@
+-- Reusable task blueprints. The checklist is copied onto every task made from the template.
+CREATE TABLE IF NOT EXISTS public.task_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  assigned_to UUID,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  priority public.task_priority NOT NULL DEFAULT 'medium',
+  labels TEXT[] NOT NULL DEFAULT '{}',
+  estimated_hours NUMERIC(7, 2) CHECK (estimated_hours >= 0),
+  checklist TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage task templates"
+ON public.task_templates FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_task_templates_updated_at
+  BEFORE UPDATE ON public.task_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A schedule that turns a template into tasks. The cadence mirrors the
+-- meeting recurrence options; weekdays use 0 = Sunday like the client.
+CREATE TABLE IF NOT EXISTS public.task_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES public.task_templates(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekdays', 'weekly', 'monthly')),
+  repeat_interval INTEGER NOT NULL DEFAULT 1 CHECK (repeat_interval BETWEEN 1 AND 52),
+  weekdays INTEGER[] NOT NULL DEFAULT '{}',
+  starts_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- Last day that may produce a task; ending a series early sets it to the
+  -- last day already generated
+  ends_on DATE,
+  -- Days between an occurrence and the generated task's due date
+  due_after_days INTEGER NOT NULL DEFAULT 0 CHECK (due_after_days >= 0),
+  paused BOOLEAN NOT NULL DEFAULT false,
+  generated_through DATE,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_series_template_idx ON public.task_series (template_id);
+
+ALTER TABLE public.task_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage task series"
+ON public.task_series FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Each occurrence of a series becomes at most one task
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.task_series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS tasks_series_occurrence_idx
+  ON public.tasks (series_id, occurrence_date)
+  WHERE series_id IS NOT NULL;
+
+-- Resuming a paused series picks up from today instead of back-filling the pause
+CREATE OR REPLACE FUNCTION public.resume_task_series()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.paused AND NOT NEW.paused THEN
+    NEW.generated_through := GREATEST(COALESCE(NEW.generated_through, NEW.starts_on - 1), CURRENT_DATE - 1);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resume_task_series
+  BEFORE UPDATE OF paused ON public.task_series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.resume_task_series();
+
+CREATE OR REPLACE FUNCTION public.is_series_occurrence(_series public.task_series, _day DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _series.frequency
+    WHEN 'daily' THEN (_day - _series.starts_on) % _series.repeat_interval = 0
+    WHEN 'weekdays' THEN EXTRACT(ISODOW FROM _day) BETWEEN 1 AND 5
+    -- Weeks start on Monday, as in the client's RRULE expansion
+    WHEN 'weekly' THEN
+      EXTRACT(DOW FROM _day)::INTEGER = ANY(
+        CASE WHEN cardinality(_series.weekdays) > 0 THEN _series.weekdays
+             ELSE ARRAY[EXTRACT(DOW FROM _series.starts_on)::INTEGER] END
+      )
+      AND ((date_trunc('week', _day)::DATE - date_trunc('week', _series.starts_on)::DATE) / 7) % _series.repeat_interval = 0
+    -- Months without the start's day of month are skipped, not clamped
+    WHEN 'monthly' THEN
+      EXTRACT(DAY FROM _day) = EXTRACT(DAY FROM _series.starts_on)
+      AND ((EXTRACT(YEAR FROM _day) - EXTRACT(YEAR FROM _series.starts_on)) * 12
+           + EXTRACT(MONTH FROM _day) - EXTRACT(MONTH FROM _series.starts_on))::INTEGER % _series.repeat_interval = 0
+    ELSE false
+  END;
+$$;
+
+-- Creates the tasks for every occurrence up to today that has not been
+-- generated yet. Safe to run repeatedly: the unique index and ON CONFLICT
+-- keep an occurrence from producing a second task.
+CREATE OR REPLACE FUNCTION public.generate_recurring_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.task_series;
+  _template public.task_templates;
+  _day DATE;
+  _last DATE;
+  _task_id UUID;
+  _created INTEGER := 0;
+BEGIN
+  -- The scheduler runs without a user; signed-in callers must be admins
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can generate recurring tasks' USING ERRCODE = '42501';
+  END IF;
+
+  FOR _series IN
+    SELECT * FROM public.task_series
+    WHERE NOT paused
+      AND starts_on <= CURRENT_DATE
+      AND (generated_through IS NULL OR generated_through < LEAST(CURRENT_DATE, COALESCE(ends_on, CURRENT_DATE)))
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT * INTO _template FROM public.task_templates WHERE id = _series.template_id;
+    _last := LEAST(CURRENT_DATE, COALESCE(_series.ends_on, CURRENT_DATE));
+
+    FOR _day IN
+      SELECT d::DATE
+      FROM generate_series(COALESCE(_series.generated_through + 1, _series.starts_on), _last, INTERVAL '1 day') AS d
+    LOOP
+      CONTINUE WHEN NOT public.is_series_occurrence(_series, _day);
+
+      INSERT INTO public.tasks (
+        title, description, assigned_to, assigned_by, project_id, priority, labels,
+        estimated_hours, due_date, series_id, occurrence_date
+      )
+      VALUES (
+        _template.title, _template.description, _template.assigned_to, _series.created_by, _template.project_id,
+        _template.priority, _template.labels, _template.estimated_hours, _day + _series.due_after_days,
+        _series.id, _day
+      )
+      ON CONFLICT (series_id, occurrence_date) WHERE series_id IS NOT NULL DO NOTHING
+      RETURNING id INTO _task_id;
+
+      IF _task_id IS NOT NULL THEN
+        INSERT INTO public.task_checklist_items (task_id, body, position)
+        SELECT _task_id, item.body, item.position::INTEGER
+        FROM unnest(_template.checklist) WITH ORDINALITY AS item(body, position);
+        _created := _created + 1;
+        _task_id := NULL;
+      END IF;
+    END LOOP;
+
+    UPDATE public.task_series SET generated_through = _last WHERE id = _series.id;
+  END LOOP;
+
+  RETURN _created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_recurring_tasks() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_recurring_tasks() TO authenticated;
+
+-- Daily run shortly after midnight (UTC)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'generate-recurring-tasks',
+  '5 0 * * *',
+  $$SELECT public.generate_recurring_tasks()$$
+);
@@ -0,0 +1,118 @@
+-- Deadline rules: how close a due date counts as "due soon", and how many
+-- days past it a task is escalated to its assigner and the admins
+ALTER TABLE public.company_settings
+  ADD COLUMN IF NOT EXISTS due_soon_days INTEGER NOT NULL DEFAULT 2 CHECK (due_soon_days BETWEEN 0 AND 30),
+  ADD COLUMN IF NOT EXISTS overdue_escalation_days INTEGER NOT NULL DEFAULT 3 CHECK (overdue_escalation_days BETWEEN 1 AND 90);
+
+-- In-app notifications. Rows are written by SECURITY DEFINER functions only;
+-- recipients can read, mark read and clear their own.
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  kind TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_created_idx ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+ON public.notifications FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notifications"
+ON public.notifications FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own notifications"
+ON public.notifications FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- One escalation per task and due date; moving the due date arms it again
+CREATE TABLE IF NOT EXISTS public.task_escalations (
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  due_date DATE NOT NULL,
+  escalated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (task_id, due_date)
+);
+
+ALTER TABLE public.task_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view task escalations"
+ON public.task_escalations FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Notifies the assigner and every admin about open tasks that are at least
+-- the configured number of days past due. Returns the tasks escalated.
+CREATE OR REPLACE FUNCTION public.escalate_overdue_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _days INTEGER;
+  _task RECORD;
+  _escalated INTEGER := 0;
+BEGIN
+  -- The scheduler runs without a user; signed-in callers must be admins
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can escalate overdue tasks' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT overdue_escalation_days INTO _days FROM public.company_settings WHERE id = 1;
+  _days := COALESCE(_days, 3);
+
+  FOR _task IN
+    SELECT t.id, t.title, t.due_date, t.assigned_by, p.full_name AS assignee_name
+    FROM public.tasks t
+    LEFT JOIN public.profiles p ON p.user_id = t.assigned_to
+    WHERE t.status <> 'completed'
+      AND t.due_date <= CURRENT_DATE - _days
+      AND NOT EXISTS (
+        SELECT 1 FROM public.task_escalations e WHERE e.task_id = t.id AND e.due_date = t.due_date
+      )
+  LOOP
+    INSERT INTO public.task_escalations (task_id, due_date) VALUES (_task.id, _task.due_date);
+
+    INSERT INTO public.notifications (user_id, kind, title, body, link, task_id)
+    SELECT recipient, 'task_overdue', 'Overdue: ' || _task.title,
+           format('%s days past its due date of %s. Assigned to %s.',
+                  CURRENT_DATE - _task.due_date,
+                  to_char(_task.due_date, 'Mon FMDD, YYYY'),
+                  COALESCE(_task.assignee_name, 'nobody')),
+           '/tasks/' || _task.id, _task.id
+    FROM (
+      SELECT _task.assigned_by AS recipient
+      UNION
+      SELECT user_id FROM public.user_roles WHERE role = 'admin'::app_role
+    ) recipients
+    WHERE recipient IS NOT NULL;
+
+    _escalated := _escalated + 1;
+  END LOOP;
+
+  RETURN _escalated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.escalate_overdue_tasks() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.escalate_overdue_tasks() TO authenticated;
+
+-- Daily, after recurring tasks have been generated
+SELECT cron.schedule(
+  'escalate-overdue-tasks',
+  '15 0 * * *',
+  $$SELECT public.escalate_overdue_tasks()$$
+);
@@ -0,0 +1,109 @@
+-- Project progress follows its top-level tasks: either the share of tasks
+-- completed or the share of estimated hours completed. 'manual' keeps the
+-- stored value as entered. progress_done / progress_total record the basis.
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS progress_mode TEXT NOT NULL DEFAULT 'tasks'
+    CHECK (progress_mode IN ('tasks', 'estimates', 'manual')),
+  ADD COLUMN IF NOT EXISTS progress_done NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS progress_total NUMERIC NOT NULL DEFAULT 0;
+
+-- Subtasks are left out because their status already rolls up into the parent.
+-- Tasks without an estimate don't count towards the 'estimates' basis.
+CREATE OR REPLACE FUNCTION public.refresh_project_progress(_project_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _mode TEXT;
+  _done NUMERIC;
+  _total NUMERIC;
+  _progress INTEGER;
+BEGIN
+  SELECT progress_mode INTO _mode FROM public.projects WHERE id = _project_id;
+
+  IF _mode IS NULL OR _mode = 'manual' THEN
+    RETURN;
+  END IF;
+
+  IF _mode = 'estimates' THEN
+    SELECT COALESCE(sum(estimated_hours) FILTER (WHERE status = 'completed'), 0),
+           COALESCE(sum(estimated_hours), 0)
+    INTO _done, _total
+    FROM public.tasks
+    WHERE project_id = _project_id AND parent_id IS NULL;
+  ELSE
+    SELECT count(*) FILTER (WHERE status = 'completed'), count(*)
+    INTO _done, _total
+    FROM public.tasks
+    WHERE project_id = _project_id AND parent_id IS NULL;
+  END IF;
+
+  -- Rounded down so a project only shows 100% once everything is done
+  _progress := CASE WHEN _total > 0 THEN floor(100 * _done / _total)::INTEGER ELSE 0 END;
+
+  UPDATE public.projects
+  SET progress = _progress, progress_done = _done, progress_total = _total
+  WHERE id = _project_id
+    AND (progress, progress_done, progress_total) IS DISTINCT FROM (_progress, _done, _total);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.roll_up_project_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The project a task left, or was deleted from
+  IF OLD.project_id IS NOT NULL AND (TG_OP = 'DELETE' OR NEW.project_id IS DISTINCT FROM OLD.project_id) THEN
+    PERFORM public.refresh_project_progress(OLD.project_id);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.project_id IS NOT NULL THEN
+    PERFORM public.refresh_project_progress(NEW.project_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER roll_up_project_progress
+  AFTER INSERT OR DELETE OR UPDATE OF status, project_id, parent_id, estimated_hours ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.roll_up_project_progress();
+
+-- Switching basis recalculates straight away; switching to manual keeps the
+-- last calculated value as the starting point
+CREATE OR REPLACE FUNCTION public.refresh_project_progress_on_mode_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.progress_mode IS DISTINCT FROM OLD.progress_mode THEN
+    PERFORM public.refresh_project_progress(NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_project_progress_on_mode_change
+  AFTER UPDATE OF progress_mode ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_project_progress_on_mode_change();
+
+-- Projects without tasks only ever had hand-entered progress; keep it
+UPDATE public.projects p
+SET progress_mode = 'manual'
+WHERE COALESCE(p.progress, 0) > 0
+  AND NOT EXISTS (SELECT 1 FROM public.tasks t WHERE t.project_id = p.id);
+
+SELECT public.refresh_project_progress(id) FROM public.projects;
+
+-- Only the triggers need this
+REVOKE EXECUTE ON FUNCTION public.refresh_project_progress(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,68 @@
+-- Checkpoints inside a project. Tasks can be linked to one milestone of
+-- their own project; the milestone is reached once all of them are done.
+CREATE TABLE IF NOT EXISTS public.project_milestones (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT,
+  target_date DATE NOT NULL,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_milestones_project_idx ON public.project_milestones (project_id, target_date);
+
+ALTER TABLE public.project_milestones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage project milestones"
+ON public.project_milestones FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Members can view milestones of their projects"
+ON public.project_milestones FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.project_members m
+    WHERE m.project_id = project_milestones.project_id AND m.user_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_project_milestones_updated_at
+  BEFORE UPDATE ON public.project_milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS milestone_id UUID REFERENCES public.project_milestones(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS tasks_milestone_idx ON public.tasks (milestone_id);
+
+CREATE OR REPLACE FUNCTION public.check_task_milestone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.milestone_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.project_milestones
+    WHERE id = NEW.milestone_id AND project_id IS NOT DISTINCT FROM NEW.project_id
+  ) THEN
+    RAISE EXCEPTION 'A task can only be linked to a milestone of its own project';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_task_milestone
+  BEFORE INSERT OR UPDATE OF milestone_id, project_id ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_task_milestone();
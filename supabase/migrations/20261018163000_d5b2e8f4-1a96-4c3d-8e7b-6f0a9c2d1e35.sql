@@ -0,0 +1,42 @@
+-- Project roles: leads run the project's tasks, members work on them and
+-- viewers follow along read-only. Global admins keep full access.
+UPDATE public.project_members
+SET role = 'member'
+WHERE role IS NULL OR role NOT IN ('lead', 'member', 'viewer');
+
+ALTER TABLE public.project_members
+  ALTER COLUMN role SET DEFAULT 'member',
+  ALTER COLUMN role SET NOT NULL,
+  ADD CONSTRAINT project_members_role_check CHECK (role IN ('lead', 'member', 'viewer'));
+
+CREATE INDEX IF NOT EXISTS project_members_user_idx ON public.project_members (user_id, project_id);
+
+-- Caller's role in a project, or NULL when not a member. Definer so policies
+-- on other tables can use it without tripping over project_members RLS.
+CREATE OR REPLACE FUNCTION public.project_role(_project_id UUID, _user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.project_members
+  WHERE project_id = _project_id AND user_id = _user_id
+$$;
+
+CREATE POLICY "Project members can view project tasks"
+ON public.tasks FOR SELECT
+TO authenticated
+USING (project_id IS NOT NULL AND public.project_role(project_id, auth.uid()) IS NOT NULL);
+
+-- Leads manage tasks inside their project and can only hand them to people
+-- who work on it; viewers never receive tasks
+CREATE POLICY "Project leads can manage project tasks"
+ON public.tasks FOR ALL
+TO authenticated
+USING (project_id IS NOT NULL AND public.project_role(project_id, auth.uid()) = 'lead')
+WITH CHECK (
+  project_id IS NOT NULL
+  AND public.project_role(project_id, auth.uid()) = 'lead'
+  AND (assigned_to IS NULL OR public.project_role(project_id, assigned_to) IN ('lead', 'member'))
+);
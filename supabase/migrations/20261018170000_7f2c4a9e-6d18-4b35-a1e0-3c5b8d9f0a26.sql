@@ -0,0 +1,510 @@
+-- Archived projects are finished business: hidden from everyday lists and
+-- pickers but kept, with their tasks, for reporting.
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+-- Soft delete. Deleted rows disappear for everyone and sit in the admin
+-- trash until they are restored or purged once the retention window ends.
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID;
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID;
+ALTER TABLE public.work_updates
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID;
+
+CREATE INDEX IF NOT EXISTS projects_deleted_idx ON public.projects (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS tasks_deleted_idx ON public.tasks (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS work_updates_deleted_idx ON public.work_updates (deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE POLICY "Deleted projects are hidden"
+ON public.projects AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (deleted_at IS NULL);
+
+CREATE POLICY "Deleted tasks are hidden"
+ON public.tasks AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (deleted_at IS NULL);
+
+CREATE POLICY "Deleted work updates are hidden"
+ON public.work_updates AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (deleted_at IS NULL);
+
+-- Time logged through a work update goes to the trash with it
+CREATE POLICY "Time from deleted work updates is hidden"
+ON public.time_entries AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (
+  work_update_id IS NULL
+  OR NOT EXISTS (SELECT 1 FROM public.work_updates w WHERE w.id = work_update_id AND w.deleted_at IS NOT NULL)
+);
+
+CREATE OR REPLACE FUNCTION public.trash_retention()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT INTERVAL '30 days'
+$$;
+
+-- Everything deleted together shares one deleted_at, which is how a project's
+-- tasks and a task's subtasks come back with it. Deletes go through here
+-- because a plain UPDATE could not hide the row it is updating.
+CREATE OR REPLACE FUNCTION public.soft_delete_item(_kind TEXT, _id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _now TIMESTAMPTZ := now();
+  _is_admin BOOLEAN := has_role(auth.uid(), 'admin'::app_role);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  CASE _kind
+    WHEN 'project' THEN
+      IF NOT _is_admin THEN
+        RAISE EXCEPTION 'Only admins can delete projects' USING ERRCODE = '42501';
+      END IF;
+
+      UPDATE public.projects SET deleted_at = _now, deleted_by = auth.uid()
+      WHERE id = _id AND deleted_at IS NULL;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Project not found';
+      END IF;
+
+      UPDATE public.tasks SET deleted_at = _now, deleted_by = auth.uid()
+      WHERE project_id = _id AND deleted_at IS NULL;
+
+    WHEN 'task' THEN
+      IF NOT _is_admin AND NOT EXISTS (
+        SELECT 1 FROM public.tasks
+        WHERE id = _id AND project_id IS NOT NULL AND public.project_role(project_id, auth.uid()) = 'lead'
+      ) THEN
+        RAISE EXCEPTION 'Only admins and project leads can delete tasks' USING ERRCODE = '42501';
+      END IF;
+
+      UPDATE public.tasks SET deleted_at = _now, deleted_by = auth.uid()
+      WHERE (id = _id OR parent_id = _id) AND deleted_at IS NULL;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Task not found';
+      END IF;
+
+    WHEN 'work_update' THEN
+      UPDATE public.work_updates SET deleted_at = _now, deleted_by = auth.uid()
+      WHERE id = _id AND deleted_at IS NULL AND (user_id = auth.uid() OR _is_admin);
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Work update not found';
+      END IF;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown item type %', _kind;
+  END CASE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_item(_kind TEXT, _id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted_at TIMESTAMPTZ;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can restore deleted items' USING ERRCODE = '42501';
+  END IF;
+
+  CASE _kind
+    WHEN 'project' THEN
+      SELECT deleted_at INTO _deleted_at FROM public.projects WHERE id = _id;
+    WHEN 'task' THEN
+      SELECT deleted_at INTO _deleted_at FROM public.tasks WHERE id = _id;
+    WHEN 'work_update' THEN
+      SELECT deleted_at INTO _deleted_at FROM public.work_updates WHERE id = _id;
+    ELSE
+      RAISE EXCEPTION 'Unknown item type %', _kind;
+  END CASE;
+
+  IF _deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Item is not in the trash';
+  END IF;
+  IF _deleted_at < now() - public.trash_retention() THEN
+    RAISE EXCEPTION 'Item is past the retention window and can no longer be restored' USING ERRCODE = '55000';
+  END IF;
+
+  CASE _kind
+    WHEN 'project' THEN
+      UPDATE public.projects SET deleted_at = NULL, deleted_by = NULL WHERE id = _id;
+      UPDATE public.tasks SET deleted_at = NULL, deleted_by = NULL
+      WHERE project_id = _id AND deleted_at = _deleted_at;
+
+    WHEN 'task' THEN
+      IF EXISTS (
+        SELECT 1 FROM public.tasks t JOIN public.projects p ON p.id = t.project_id
+        WHERE t.id = _id AND p.deleted_at IS NOT NULL
+      ) THEN
+        RAISE EXCEPTION 'Restore the task''s project first' USING ERRCODE = '55000';
+      END IF;
+      IF EXISTS (
+        SELECT 1 FROM public.tasks t JOIN public.tasks parent ON parent.id = t.parent_id
+        WHERE t.id = _id AND parent.deleted_at IS NOT NULL
+      ) THEN
+        RAISE EXCEPTION 'Restore the parent task first' USING ERRCODE = '55000';
+      END IF;
+
+      UPDATE public.tasks SET deleted_at = NULL, deleted_by = NULL
+      WHERE id = _id OR (parent_id = _id AND deleted_at = _deleted_at);
+
+    WHEN 'work_update' THEN
+      UPDATE public.work_updates SET deleted_at = NULL, deleted_by = NULL WHERE id = _id;
+  END CASE;
+END;
+$$;
+
+-- What the trash shows: each deletion once, not the tasks and subtasks that
+-- went along with their project or parent
+CREATE OR REPLACE FUNCTION public.trash_items()
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  title TEXT,
+  detail TEXT,
+  deleted_at TIMESTAMPTZ,
+  deleted_by_name TEXT,
+  purge_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can view the trash' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT items.kind, items.id, items.title, items.detail, items.deleted_at,
+         p.full_name, items.deleted_at + public.trash_retention()
+  FROM (
+    SELECT 'project'::TEXT AS kind, pr.id, pr.name AS title,
+           (SELECT count(*) FROM public.tasks t WHERE t.project_id = pr.id AND t.deleted_at = pr.deleted_at) || ' tasks' AS detail,
+           pr.deleted_at, pr.deleted_by
+    FROM public.projects pr
+    WHERE pr.deleted_at IS NOT NULL
+
+    UNION ALL
+
+    SELECT 'task', t.id, t.title, COALESCE(pr.name, 'No project'), t.deleted_at, t.deleted_by
+    FROM public.tasks t
+    LEFT JOIN public.projects pr ON pr.id = t.project_id
+    WHERE t.deleted_at IS NOT NULL
+      AND pr.deleted_at IS DISTINCT FROM t.deleted_at
+      AND NOT EXISTS (
+        SELECT 1 FROM public.tasks parent WHERE parent.id = t.parent_id AND parent.deleted_at = t.deleted_at
+      )
+
+    UNION ALL
+
+    SELECT 'work_update', w.id, w.title,
+           COALESCE(author.full_name, 'Unknown') || ', ' || to_char(w.date, 'Mon FMDD, YYYY'),
+           w.deleted_at, w.deleted_by
+    FROM public.work_updates w
+    LEFT JOIN public.profiles author ON author.user_id = w.user_id
+    WHERE w.deleted_at IS NOT NULL
+  ) items
+  LEFT JOIN public.profiles p ON p.user_id = items.deleted_by
+  ORDER BY items.deleted_at DESC;
+END;
+$$;
+
+-- Hard-deletes whatever has been in the trash longer than the retention window
+CREATE OR REPLACE FUNCTION public.purge_trash()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cutoff TIMESTAMPTZ := now() - public.trash_retention();
+  _purged INTEGER;
+  _count INTEGER;
+BEGIN
+  -- The scheduler runs without a user; signed-in callers must be admins
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can purge the trash' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.work_updates WHERE deleted_at < _cutoff;
+  GET DIAGNOSTICS _purged = ROW_COUNT;
+
+  DELETE FROM public.tasks WHERE deleted_at < _cutoff;
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  _purged := _purged + _count;
+
+  -- Tasks restored on their own outlive the project they were deleted from
+  UPDATE public.tasks SET project_id = NULL, milestone_id = NULL
+  WHERE project_id IN (SELECT id FROM public.projects WHERE deleted_at < _cutoff);
+
+  DELETE FROM public.projects WHERE deleted_at < _cutoff;
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  RETURN _purged + _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_trash() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.purge_trash() TO authenticated;
+
+SELECT cron.schedule(
+  'purge-trash',
+  '30 0 * * *',
+  $$SELECT public.purge_trash()$$
+);
+
+-- Definer functions bypass the policies above, so they skip deleted rows themselves
+
+CREATE OR REPLACE FUNCTION public.refresh_parent_task_status(_parent_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _total INTEGER;
+  _completed INTEGER;
+  _started INTEGER;
+  _status task_status;
+BEGIN
+  SELECT count(*),
+         count(*) FILTER (WHERE status = 'completed'),
+         count(*) FILTER (WHERE status <> 'pending')
+  INTO _total, _completed, _started
+  FROM public.tasks
+  WHERE parent_id = _parent_id AND deleted_at IS NULL;
+
+  IF _total = 0 THEN
+    RETURN;
+  END IF;
+
+  _status := CASE
+    WHEN _completed = _total THEN 'completed'
+    WHEN _started > 0 THEN 'in_progress'
+    ELSE 'pending'
+  END;
+
+  UPDATE public.tasks SET status = _status
+  WHERE id = _parent_id AND status IS DISTINCT FROM _status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.roll_up_task_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The parent a subtask left, or was deleted from
+  IF OLD.parent_id IS NOT NULL AND (TG_OP = 'DELETE' OR NEW.parent_id IS DISTINCT FROM OLD.parent_id) THEN
+    PERFORM public.refresh_parent_task_status(OLD.parent_id);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.parent_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.parent_id IS DISTINCT FROM OLD.parent_id OR NEW.status IS DISTINCT FROM OLD.status
+         OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at) THEN
+    PERFORM public.refresh_parent_task_status(NEW.parent_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS roll_up_task_status ON public.tasks;
+CREATE TRIGGER roll_up_task_status
+  AFTER INSERT OR DELETE OR UPDATE OF status, parent_id, deleted_at ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.roll_up_task_status();
+
+CREATE OR REPLACE FUNCTION public.refresh_project_progress(_project_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _mode TEXT;
+  _done NUMERIC;
+  _total NUMERIC;
+  _progress INTEGER;
+BEGIN
+  SELECT progress_mode INTO _mode FROM public.projects WHERE id = _project_id;
+
+  IF _mode IS NULL OR _mode = 'manual' THEN
+    RETURN;
+  END IF;
+
+  IF _mode = 'estimates' THEN
+    SELECT COALESCE(sum(estimated_hours) FILTER (WHERE status = 'completed'), 0),
+           COALESCE(sum(estimated_hours), 0)
+    INTO _done, _total
+    FROM public.tasks
+    WHERE project_id = _project_id AND parent_id IS NULL AND deleted_at IS NULL;
+  ELSE
+    SELECT count(*) FILTER (WHERE status = 'completed'), count(*)
+    INTO _done, _total
+    FROM public.tasks
+    WHERE project_id = _project_id AND parent_id IS NULL AND deleted_at IS NULL;
+  END IF;
+
+  -- Rounded down so a project only shows 100% once everything is done
+  _progress := CASE WHEN _total > 0 THEN floor(100 * _done / _total)::INTEGER ELSE 0 END;
+
+  UPDATE public.projects
+  SET progress = _progress, progress_done = _done, progress_total = _total
+  WHERE id = _project_id
+    AND (progress, progress_done, progress_total) IS DISTINCT FROM (_progress, _done, _total);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS roll_up_project_progress ON public.tasks;
+CREATE TRIGGER roll_up_project_progress
+  AFTER INSERT OR DELETE OR UPDATE OF status, project_id, parent_id, estimated_hours, deleted_at ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.roll_up_project_progress();
+
+CREATE OR REPLACE FUNCTION public.task_time_totals(_task_ids UUID[])
+RETURNS TABLE (task_id UUID, minutes BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.task_id, sum(e.minutes)
+  FROM public.time_entries e
+  JOIN public.tasks t ON t.id = e.task_id
+  WHERE e.task_id = ANY(_task_ids)
+    AND t.deleted_at IS NULL
+    AND (t.assigned_to = auth.uid() OR t.assigned_by = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.work_updates w WHERE w.id = e.work_update_id AND w.deleted_at IS NOT NULL
+    )
+  GROUP BY e.task_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.project_time_totals(_project_ids UUID[])
+RETURNS TABLE (project_id UUID, minutes BIGINT, estimated_hours NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id,
+         COALESCE((
+           SELECT sum(e.minutes) FROM public.time_entries e
+           WHERE e.project_id = p.id
+             AND NOT EXISTS (
+               SELECT 1 FROM public.work_updates w WHERE w.id = e.work_update_id AND w.deleted_at IS NOT NULL
+             )
+         ), 0),
+         COALESCE((
+           SELECT sum(t.estimated_hours) FROM public.tasks t WHERE t.project_id = p.id AND t.deleted_at IS NULL
+         ), 0)
+  FROM public.projects p
+  WHERE p.id = ANY(_project_ids)
+    AND p.deleted_at IS NULL
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR EXISTS (SELECT 1 FROM public.project_members m WHERE m.project_id = p.id AND m.user_id = auth.uid())
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.task_dependency_links(_task_ids UUID[])
+RETURNS TABLE (
+  task_id UUID,
+  task_title TEXT,
+  task_status task_status,
+  depends_on_id UUID,
+  depends_on_title TEXT,
+  depends_on_status task_status
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH visible AS (
+    SELECT t.id
+    FROM public.tasks t
+    WHERE t.id = ANY(_task_ids)
+      AND t.deleted_at IS NULL
+      AND (t.assigned_to = auth.uid() OR t.assigned_by = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+  )
+  SELECT d.task_id, t.title, t.status, d.depends_on_id, p.title, p.status
+  FROM public.task_dependencies d
+  JOIN public.tasks t ON t.id = d.task_id AND t.deleted_at IS NULL
+  JOIN public.tasks p ON p.id = d.depends_on_id AND p.deleted_at IS NULL
+  WHERE d.task_id IN (SELECT id FROM visible) OR d.depends_on_id IN (SELECT id FROM visible)
+  ORDER BY d.created_at;
+$$;
+
+CREATE OR REPLACE FUNCTION public.escalate_overdue_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _days INTEGER;
+  _task RECORD;
+  _escalated INTEGER := 0;
+BEGIN
+  -- The scheduler runs without a user; signed-in callers must be admins
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can escalate overdue tasks' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT overdue_escalation_days INTO _days FROM public.company_settings WHERE id = 1;
+  _days := COALESCE(_days, 3);
+
+  FOR _task IN
+    SELECT t.id, t.title, t.due_date, t.assigned_by, p.full_name AS assignee_name
+    FROM public.tasks t
+    LEFT JOIN public.profiles p ON p.user_id = t.assigned_to
+    WHERE t.status <> 'completed'
+      AND t.deleted_at IS NULL
+      AND t.due_date <= CURRENT_DATE - _days
+      AND NOT EXISTS (
+        SELECT 1 FROM public.task_escalations e WHERE e.task_id = t.id AND e.due_date = t.due_date
+      )
+  LOOP
+    INSERT INTO public.task_escalations (task_id, due_date) VALUES (_task.id, _task.due_date);
+
+    INSERT INTO public.notifications (user_id, kind, title, body, link, task_id)
+    SELECT recipient, 'task_overdue', 'Overdue: ' || _task.title,
+           format('%s days past its due date of %s. Assigned to %s.',
+                  CURRENT_DATE - _task.due_date,
+                  to_char(_task.due_date, 'Mon FMDD, YYYY'),
+                  COALESCE(_task.assignee_name, 'nobody')),
+           '/tasks/' || _task.id, _task.id
+    FROM (
+      SELECT _task.assigned_by AS recipient
+      UNION
+      SELECT user_id FROM public.user_roles WHERE role = 'admin'::app_role
+    ) recipients
+    WHERE recipient IS NOT NULL;
+
+    _escalated := _escalated + 1;
+  END LOOP;
+
+  RETURN _escalated;
+END;
+$$;
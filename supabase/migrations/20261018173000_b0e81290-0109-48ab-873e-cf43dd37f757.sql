@@ -0,0 +1,56 @@
+-- Day-by-day count of a project's top-level tasks in scope and completed,
+-- replayed from the task activity log so reopened tasks count as open again.
+-- Starts at the project start (or its first task) and covers at most a year.
+CREATE OR REPLACE FUNCTION public.project_task_history(_project_id UUID)
+RETURNS TABLE (day DATE, total INTEGER, completed INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH project AS (
+    SELECT p.id, p.start_date
+    FROM public.projects p
+    WHERE p.id = _project_id
+      AND p.deleted_at IS NULL
+      AND (
+        has_role(auth.uid(), 'admin'::app_role)
+        OR EXISTS (SELECT 1 FROM public.project_members m WHERE m.project_id = p.id AND m.user_id = auth.uid())
+      )
+  ),
+  project_tasks AS (
+    SELECT t.id, t.created_at::DATE AS created_on
+    FROM public.tasks t
+    JOIN project ON project.id = t.project_id
+    WHERE t.parent_id IS NULL AND t.deleted_at IS NULL
+  ),
+  status_events AS (
+    SELECT a.task_id, a.created_at::DATE AS day, a.created_at, a.to_value
+    FROM public.task_activity a
+    JOIN project_tasks t ON t.id = a.task_id
+    WHERE a.action IN ('created', 'status_changed')
+  ),
+  days AS (
+    SELECT generate_series(
+      GREATEST(
+        LEAST(COALESCE(project.start_date, CURRENT_DATE), COALESCE((SELECT min(created_on) FROM project_tasks), CURRENT_DATE)),
+        CURRENT_DATE - 365
+      ),
+      CURRENT_DATE,
+      INTERVAL '1 day'
+    )::DATE AS day
+    FROM project
+  )
+  SELECT d.day,
+         count(t.id) FILTER (WHERE t.created_on <= d.day)::INTEGER,
+         count(t.id) FILTER (WHERE (
+           SELECT e.to_value FROM status_events e
+           WHERE e.task_id = t.id AND e.day <= d.day
+           ORDER BY e.created_at DESC
+           LIMIT 1
+         ) = 'completed')::INTEGER
+  FROM days d
+  LEFT JOIN project_tasks t ON true
+  GROUP BY d.day
+  ORDER BY d.day;
+$$;
@@ -0,0 +1,40 @@
+-- Check-in and check-out photos live in a private bucket under
+-- <user id>/<date>/, and attendance_sessions keeps only the object path
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('attendance-photos', 'attendance-photos', false, 2097152, ARRAY['image/jpeg'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own attendance photos"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'attendance-photos' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+CREATE POLICY "Users can view own attendance photos"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'attendance-photos'
+  AND ((storage.foldername(name))[1] = auth.uid()::TEXT OR has_role(auth.uid(), 'admin'::app_role))
+);
+
+-- Lets a failed check-in clean up the photo it just uploaded
+CREATE POLICY "Users can delete own attendance photos"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'attendance-photos'
+  AND ((storage.foldername(name))[1] = auth.uid()::TEXT OR has_role(auth.uid(), 'admin'::app_role))
+);
+
+COMMENT ON COLUMN public.attendance_sessions.check_in_photo IS 'Object path in the attendance-photos bucket';
+COMMENT ON COLUMN public.attendance_sessions.check_out_photo IS 'Object path in the attendance-photos bucket';
+
+-- No new inline images. NOT VALID leaves existing base64 rows alone until
+-- scripts/migrate-attendance-photos.mjs moves them into the bucket. Run it
+-- right after this migration (a session still open with an inline check-in
+-- photo cannot be checked out before that) and then validate the constraints.
+ALTER TABLE public.attendance_sessions
+  ADD CONSTRAINT attendance_sessions_check_in_photo_path
+    CHECK (check_in_photo IS NULL OR check_in_photo NOT LIKE 'data:%') NOT VALID,
+  ADD CONSTRAINT attendance_sessions_check_out_photo_path
+    CHECK (check_out_photo IS NULL OR check_out_photo NOT LIKE 'data:%') NOT VALID;
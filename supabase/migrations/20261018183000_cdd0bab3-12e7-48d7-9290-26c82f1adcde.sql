@@ -0,0 +1,96 @@
+-- How much of an allowance a leave request consumes, in days (hours for
+-- permission). Weekend days and holidays inside the range are not charged;
+-- a half day on a non-working day costs nothing.
+CREATE OR REPLACE FUNCTION public.leave_request_duration(
+  _type TEXT,
+  _start_date DATE,
+  _end_date DATE,
+  _start_time TIME,
+  _end_time TIME
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE _type
+    WHEN 'permission' THEN
+      GREATEST(ROUND((EXTRACT(EPOCH FROM (_end_time - _start_time)) / 3600)::NUMERIC, 2), 0)
+    ELSE (
+      SELECT count(*) * CASE _type WHEN 'half_day' THEN 0.5 ELSE 1 END
+      FROM generate_series(
+        _start_date,
+        CASE _type WHEN 'full_day' THEN COALESCE(_end_date, _start_date) ELSE _start_date END,
+        INTERVAL '1 day'
+      ) AS d
+      WHERE EXTRACT(DOW FROM d)::INT <> ALL (
+          COALESCE((SELECT s.weekend_days FROM public.company_settings s WHERE s.id = 1), '{0,6}')
+        )
+        AND NOT EXISTS (SELECT 1 FROM public.holidays h WHERE h.date = d::DATE)
+    )
+  END;
+$$;
+
+-- The stored duration is what approval deducts, so never take it from the client
+CREATE OR REPLACE FUNCTION public.set_leave_request_duration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.duration := public.leave_request_duration(
+    NEW.type, NEW.start_date, NEW.end_date, NEW.start_time, NEW.end_time
+  );
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_leave_request_duration() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER set_leave_request_duration
+  BEFORE INSERT OR UPDATE OF type, start_date, end_date, start_time, end_time, duration
+  ON public.leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_leave_request_duration();
+
+-- Pending requests may carry whatever the client sent; size them again
+UPDATE public.leave_requests
+SET duration = public.leave_request_duration(type, start_date, end_date, start_time, end_time)
+WHERE status = 'pending';
+
+-- Same as before, but an approval that would take a limited balance below
+-- zero is refused
+CREATE OR REPLACE FUNCTION public.apply_leave_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _remaining NUMERIC;
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    INSERT INTO public.leave_entitlements (user_id, year, type, used)
+    VALUES (NEW.user_id, EXTRACT(YEAR FROM NEW.start_date)::int, NEW.type, COALESCE(NEW.duration, 0))
+    ON CONFLICT (user_id, year, type)
+    DO UPDATE SET used = public.leave_entitlements.used + EXCLUDED.used
+    RETURNING allowance - used INTO _remaining;
+
+    IF _remaining < 0 THEN
+      RAISE EXCEPTION 'This request needs % % but only % remain in the balance',
+        trim_scale(COALESCE(NEW.duration, 0)),
+        CASE NEW.type WHEN 'permission' THEN 'hours' ELSE 'days' END,
+        trim_scale(_remaining + COALESCE(NEW.duration, 0))
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF OLD.status = 'approved' AND NEW.status IS DISTINCT FROM 'approved' THEN
+    UPDATE public.leave_entitlements
+    SET used = GREATEST(used - COALESCE(OLD.duration, 0), 0)
+    WHERE user_id = OLD.user_id
+      AND year = EXTRACT(YEAR FROM OLD.start_date)::int
+      AND type = OLD.type;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,76 @@
+-- Same as before, except that series whose template belongs to an archived
+-- or deleted project produce nothing. Their occurrences are passed over
+-- rather than held back, so restoring the project does not back-fill them.
+CREATE OR REPLACE FUNCTION public.generate_recurring_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _series public.task_series;
+  _template public.task_templates;
+  _day DATE;
+  _last DATE;
+  _task_id UUID;
+  _project_active BOOLEAN;
+  _created INTEGER := 0;
+BEGIN
+  -- The scheduler runs without a user; signed-in callers must be admins
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can generate recurring tasks' USING ERRCODE = '42501';
+  END IF;
+
+  FOR _series IN
+    SELECT * FROM public.task_series
+    WHERE NOT paused
+      AND starts_on <= CURRENT_DATE
+      AND (generated_through IS NULL OR generated_through < LEAST(CURRENT_DATE, COALESCE(ends_on, CURRENT_DATE)))
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT * INTO _template FROM public.task_templates WHERE id = _series.template_id;
+    _last := LEAST(CURRENT_DATE, COALESCE(_series.ends_on, CURRENT_DATE));
+
+    -- Templates without a project always generate
+    SELECT p.deleted_at IS NULL AND p.archived_at IS NULL INTO _project_active
+    FROM public.projects p
+    WHERE p.id = _template.project_id;
+
+    IF _template.project_id IS NOT NULL AND NOT COALESCE(_project_active, false) THEN
+      UPDATE public.task_series SET generated_through = _last WHERE id = _series.id;
+      CONTINUE;
+    END IF;
+
+    FOR _day IN
+      SELECT d::DATE
+      FROM generate_series(COALESCE(_series.generated_through + 1, _series.starts_on), _last, INTERVAL '1 day') AS d
+    LOOP
+      CONTINUE WHEN NOT public.is_series_occurrence(_series, _day);
+
+      INSERT INTO public.tasks (
+        title, description, assigned_to, assigned_by, project_id, priority, labels,
+        estimated_hours, due_date, series_id, occurrence_date
+      )
+      VALUES (
+        _template.title, _template.description, _template.assigned_to, _series.created_by, _template.project_id,
+        _template.priority, _template.labels, _template.estimated_hours, _day + _series.due_after_days,
+        _series.id, _day
+      )
+      ON CONFLICT (series_id, occurrence_date) WHERE series_id IS NOT NULL DO NOTHING
+      RETURNING id INTO _task_id;
+
+      IF _task_id IS NOT NULL THEN
+        INSERT INTO public.task_checklist_items (task_id, body, position)
+        SELECT _task_id, item.body, item.position::INTEGER
+        FROM unnest(_template.checklist) WITH ORDINALITY AS item(body, position);
+        _created := _created + 1;
+        _task_id := NULL;
+      END IF;
+    END LOOP;
+
+    UPDATE public.task_series SET generated_through = _last WHERE id = _series.id;
+  END LOOP;
+
+  RETURN _created;
+END;
+$$;
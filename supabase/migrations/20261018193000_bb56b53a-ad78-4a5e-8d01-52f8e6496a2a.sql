@@ -0,0 +1,34 @@
+-- A parent task's estimate usually restates its subtasks' estimates, so it
+-- only counts towards the project total when none of its subtasks carry one
+CREATE OR REPLACE FUNCTION public.project_time_totals(_project_ids UUID[])
+RETURNS TABLE (project_id UUID, minutes BIGINT, estimated_hours NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id,
+         COALESCE((
+           SELECT sum(e.minutes) FROM public.time_entries e
+           WHERE e.project_id = p.id
+             AND NOT EXISTS (
+               SELECT 1 FROM public.work_updates w WHERE w.id = e.work_update_id AND w.deleted_at IS NOT NULL
+             )
+         ), 0),
+         COALESCE((
+           SELECT sum(t.estimated_hours) FROM public.tasks t
+           WHERE t.project_id = p.id
+             AND t.deleted_at IS NULL
+             AND NOT EXISTS (
+               SELECT 1 FROM public.tasks c
+               WHERE c.parent_id = t.id AND c.deleted_at IS NULL AND c.estimated_hours IS NOT NULL
+             )
+         ), 0)
+  FROM public.projects p
+  WHERE p.id = ANY(_project_ids)
+    AND p.deleted_at IS NULL
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR EXISTS (SELECT 1 FROM public.project_members m WHERE m.project_id = p.id AND m.user_id = auth.uid())
+    );
+$$;
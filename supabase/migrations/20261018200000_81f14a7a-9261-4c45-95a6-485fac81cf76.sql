@@ -0,0 +1,25 @@
+-- Leads add and edit their project's tasks but no longer delete them
+-- directly: deleting goes through soft_delete_item so tasks land in the
+-- trash. New tasks are always assigned by the lead creating them, which is
+-- who overdue escalations notify.
+DROP POLICY IF EXISTS "Project leads can manage project tasks" ON public.tasks;
+
+CREATE POLICY "Project leads can create project tasks"
+ON public.tasks FOR INSERT
+TO authenticated
+WITH CHECK (
+  project_id IS NOT NULL
+  AND public.project_role(project_id, auth.uid()) = 'lead'
+  AND assigned_by = auth.uid()
+  AND (assigned_to IS NULL OR public.project_role(project_id, assigned_to) IN ('lead', 'member'))
+);
+
+CREATE POLICY "Project leads can update project tasks"
+ON public.tasks FOR UPDATE
+TO authenticated
+USING (project_id IS NOT NULL AND public.project_role(project_id, auth.uid()) = 'lead')
+WITH CHECK (
+  project_id IS NOT NULL
+  AND public.project_role(project_id, auth.uid()) = 'lead'
+  AND (assigned_to IS NULL OR public.project_role(project_id, assigned_to) IN ('lead', 'member'))
+);
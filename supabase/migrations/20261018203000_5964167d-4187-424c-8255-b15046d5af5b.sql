@@ -0,0 +1,80 @@
+-- Attendance photos are evidence: members may no longer delete them. Uploads
+-- whose check-in or check-out never saved are swept up by the server instead.
+DROP POLICY IF EXISTS "Users can delete own attendance photos" ON storage.objects;
+
+CREATE POLICY "Admins can delete attendance photos"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'attendance-photos' AND has_role(auth.uid(), 'admin'::app_role));
+
+-- Removes photos no attendance session points at. Only objects older than a
+-- day are touched so a check-in still between upload and insert is left alone.
+CREATE OR REPLACE FUNCTION public.purge_orphan_attendance_photos()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _purged INTEGER;
+BEGIN
+  -- The scheduler runs without a user; signed-in callers must be admins
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can purge attendance photos' USING ERRCODE = '42501';
+  END IF;
+
+  -- Storage refuses direct deletes from its tables unless asked to allow them
+  PERFORM set_config('storage.allow_delete_query', 'true', true);
+
+  DELETE FROM storage.objects o
+  WHERE o.bucket_id = 'attendance-photos'
+    AND o.created_at < now() - INTERVAL '1 day'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.attendance_sessions s
+      WHERE s.check_in_photo = o.name OR s.check_out_photo = o.name
+    );
+  GET DIAGNOSTICS _purged = ROW_COUNT;
+
+  RETURN _purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_orphan_attendance_photos() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.purge_orphan_attendance_photos() TO authenticated;
+
+SELECT cron.schedule(
+  'purge-orphan-attendance-photos',
+  '45 0 * * *',
+  $$SELECT public.purge_orphan_attendance_photos()$$
+);
+
+-- The NOT VALID checks still ran on every update, so a session holding a
+-- legacy inline photo could not even be checked out. Reject inline images
+-- only where a photo is being written, and leave untouched values alone
+-- until scripts/migrate-attendance-photos.mjs has moved them.
+ALTER TABLE public.attendance_sessions
+  DROP CONSTRAINT IF EXISTS attendance_sessions_check_in_photo_path,
+  DROP CONSTRAINT IF EXISTS attendance_sessions_check_out_photo_path;
+
+CREATE OR REPLACE FUNCTION public.reject_inline_attendance_photos()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' OR NEW.check_in_photo IS DISTINCT FROM OLD.check_in_photo)
+     AND NEW.check_in_photo LIKE 'data:%' THEN
+    RAISE EXCEPTION 'Attendance photos must be uploaded to storage' USING ERRCODE = 'check_violation';
+  END IF;
+  IF (TG_OP = 'INSERT' OR NEW.check_out_photo IS DISTINCT FROM OLD.check_out_photo)
+     AND NEW.check_out_photo LIKE 'data:%' THEN
+    RAISE EXCEPTION 'Attendance photos must be uploaded to storage' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reject_inline_attendance_photos
+  BEFORE INSERT OR UPDATE OF check_in_photo, check_out_photo ON public.attendance_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reject_inline_attendance_photos();
@@ -0,0 +1,49 @@
+-- Same as before, but tasks in the trash can no longer be edited, and a task
+-- with subtasks only takes a progress note: its status is rolled up from the
+-- subtasks and would be overwritten by the next change to one of them.
+CREATE OR REPLACE FUNCTION public.update_my_task(
+  _task_id UUID,
+  _status task_status,
+  _progress_note TEXT DEFAULT NULL
+)
+RETURNS public.tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _task public.tasks;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _task FROM public.tasks
+  WHERE id = _task_id
+    AND assigned_to = auth.uid()
+    AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF _task.id IS NULL THEN
+    RAISE EXCEPTION 'Task not found or not assigned to you';
+  END IF;
+
+  IF _status IS DISTINCT FROM _task.status AND EXISTS (
+    SELECT 1 FROM public.tasks c WHERE c.parent_id = _task.id AND c.deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This task''s status follows its subtasks; update those instead'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.tasks
+  SET status = _status,
+      progress_note = CASE
+        WHEN _progress_note IS NULL THEN progress_note
+        ELSE NULLIF(trim(_progress_note), '')
+      END
+  WHERE id = _task.id
+  RETURNING * INTO _task;
+
+  RETURN _task;
+END;
+$$;
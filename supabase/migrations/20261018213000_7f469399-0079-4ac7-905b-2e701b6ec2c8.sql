@@ -0,0 +1,125 @@
+-- What an approved request took from each year's balance, e.g. {"2026": 3,
+-- "2027": 2} for leave over New Year. Giving it back uses the same amounts,
+-- so later holiday changes cannot make the balance drift.
+ALTER TABLE public.leave_requests ADD COLUMN IF NOT EXISTS balance_charges JSONB;
+
+-- Requests approved so far were charged in full to their start year
+UPDATE public.leave_requests
+SET balance_charges = jsonb_build_object(EXTRACT(YEAR FROM start_date)::int::TEXT, COALESCE(duration, 0))
+WHERE status = 'approved';
+
+-- Duration of the part of a request that falls in each calendar year
+CREATE OR REPLACE FUNCTION public.leave_request_year_charges(
+  _type TEXT,
+  _start_date DATE,
+  _end_date DATE,
+  _start_time TIME,
+  _end_time TIME
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_object_agg(
+    y::TEXT,
+    public.leave_request_duration(
+      _type,
+      GREATEST(_start_date, make_date(y, 1, 1)),
+      LEAST(COALESCE(_end_date, _start_date), make_date(y, 12, 31)),
+      _start_time,
+      _end_time
+    )
+  )
+  FROM generate_series(
+    EXTRACT(YEAR FROM _start_date)::INT,
+    EXTRACT(YEAR FROM CASE _type WHEN 'full_day' THEN COALESCE(_end_date, _start_date) ELSE _start_date END)::INT
+  ) AS y;
+$$;
+
+-- Sizes the request and, on approval, splits the charge per year. Once
+-- approved the period is frozen: reject the request before changing it.
+CREATE OR REPLACE FUNCTION public.set_leave_request_duration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' THEN
+    IF (NEW.type, NEW.start_date, NEW.end_date, NEW.start_time, NEW.end_time)
+       IS DISTINCT FROM (OLD.type, OLD.start_date, OLD.end_date, OLD.start_time, OLD.end_time) THEN
+      RAISE EXCEPTION 'Approved leave cannot be changed; reject it first' USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.duration := OLD.duration;
+    -- Kept while approved; apply_leave_balance reads OLD's when it is given back
+    NEW.balance_charges := CASE WHEN NEW.status = 'approved' THEN OLD.balance_charges END;
+    RETURN NEW;
+  END IF;
+
+  NEW.duration := public.leave_request_duration(
+    NEW.type, NEW.start_date, NEW.end_date, NEW.start_time, NEW.end_time
+  );
+  NEW.balance_charges := CASE WHEN TG_OP = 'UPDATE' AND NEW.status = 'approved' THEN
+    public.leave_request_year_charges(NEW.type, NEW.start_date, NEW.end_date, NEW.start_time, NEW.end_time)
+  END;
+  RETURN NEW;
+END;
+$$;
+
+-- Now also runs on status changes, which is when the charges are worked out
+DROP TRIGGER IF EXISTS set_leave_request_duration ON public.leave_requests;
+
+CREATE TRIGGER set_leave_request_duration
+  BEFORE INSERT OR UPDATE ON public.leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_leave_request_duration();
+
+-- Charges and refunds each year's balance separately
+CREATE OR REPLACE FUNCTION public.apply_leave_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _year TEXT;
+  _amount NUMERIC;
+  _remaining NUMERIC;
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    FOR _year, _amount IN SELECT key, value::NUMERIC FROM jsonb_each_text(NEW.balance_charges) LOOP
+      INSERT INTO public.leave_entitlements (user_id, year, type, used)
+      VALUES (NEW.user_id, _year::INT, NEW.type, _amount)
+      ON CONFLICT (user_id, year, type)
+      DO UPDATE SET used = public.leave_entitlements.used + EXCLUDED.used
+      RETURNING allowance - used INTO _remaining;
+
+      IF _remaining < 0 THEN
+        RAISE EXCEPTION 'This request needs % % from the % balance but only % remain',
+          trim_scale(_amount),
+          CASE NEW.type WHEN 'permission' THEN 'hours' ELSE 'days' END,
+          _year,
+          trim_scale(_remaining + _amount)
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END LOOP;
+  ELSIF OLD.status = 'approved' AND NEW.status IS DISTINCT FROM 'approved' THEN
+    FOR _year, _amount IN
+      SELECT key, value::NUMERIC
+      FROM jsonb_each_text(COALESCE(
+        OLD.balance_charges,
+        jsonb_build_object(EXTRACT(YEAR FROM OLD.start_date)::INT::TEXT, COALESCE(OLD.duration, 0))
+      ))
+    LOOP
+      UPDATE public.leave_entitlements
+      SET used = GREATEST(used - _amount, 0)
+      WHERE user_id = OLD.user_id
+        AND year = _year::INT
+        AND type = OLD.type;
+    END LOOP;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,33 @@
+-- Time logged on a task belongs to the task: it is purged with the task, and
+-- follows it to another project or out of a purged one. Only time logged
+-- directly on a project goes away with the project. Before this, purging a
+-- task without a project left entries with neither and failed the CHECK,
+-- aborting the whole purge_trash run.
+ALTER TABLE public.time_entries
+  DROP CONSTRAINT IF EXISTS time_entries_task_id_fkey,
+  ADD CONSTRAINT time_entries_task_id_fkey
+    FOREIGN KEY (task_id) REFERENCES public.tasks(id) ON DELETE CASCADE;
+
+CREATE OR REPLACE FUNCTION public.sync_time_entry_project()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.time_entries SET project_id = NEW.project_id
+  WHERE task_id = NEW.id AND project_id IS DISTINCT FROM NEW.project_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_time_entry_project
+  AFTER UPDATE OF project_id ON public.tasks
+  FOR EACH ROW
+  WHEN (OLD.project_id IS DISTINCT FROM NEW.project_id)
+  EXECUTE FUNCTION public.sync_time_entry_project();
+
+-- Entries still counted against a project their task has since left
+UPDATE public.time_entries e SET project_id = t.project_id
+FROM public.tasks t
+WHERE t.id = e.task_id AND e.project_id IS DISTINCT FROM t.project_id;
@@ -0,0 +1,65 @@
+-- Leave used to clash with a slot whenever it fell on the same date, so an
+-- hour of permission blocked the whole day, and the date + time it was
+-- compared with was read in the session's timezone (UTC). Leave dates and
+-- times are wall-clock values; they are now read in the meeting's timezone
+-- and compared as actual time ranges: permissions cover their hours, full
+-- and half days the whole day.
+DROP FUNCTION IF EXISTS public.meeting_conflicts(UUID[], TIMESTAMPTZ, TIMESTAMPTZ, UUID);
+
+CREATE OR REPLACE FUNCTION public.meeting_conflicts(
+  _attendees UUID[],
+  _start TIMESTAMPTZ,
+  _end TIMESTAMPTZ,
+  _exclude UUID DEFAULT NULL,
+  _timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  kind TEXT,
+  title TEXT,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT a.uid, p.full_name, 'meeting', m.title, o.starts_at,
+    o.starts_at + make_interval(mins => COALESCE(m.duration_minutes, 30))
+  FROM public.meetings m
+  CROSS JOIN LATERAL public.meeting_occurrences(m, _start - INTERVAL '1 day', _end) AS o(starts_at)
+  CROSS JOIN LATERAL unnest(array_append(COALESCE(m.attendees, '{}'), m.created_by)) AS a(uid)
+  LEFT JOIN public.profiles p ON p.user_id = a.uid
+  WHERE auth.uid() IS NOT NULL
+    AND m.status = 'scheduled'
+    AND (_exclude IS NULL OR (m.id <> _exclude AND m.series_id IS DISTINCT FROM _exclude))
+    AND a.uid = ANY(_attendees)
+    AND (m.recurrence_rule IS NOT NULL OR m.scheduled_at < _end)
+    AND (m.recurrence_end IS NULL OR m.recurrence_end > _start - INTERVAL '1 day')
+    AND o.starts_at < _end
+    AND o.starts_at + make_interval(mins => COALESCE(m.duration_minutes, 30)) > _start
+  UNION
+  SELECT l.user_id, p.full_name, 'leave', l.type, l.starts_at, l.ends_at
+  FROM (
+    SELECT lr.user_id, lr.type,
+      CASE WHEN lr.start_time IS NOT NULL AND lr.end_time IS NOT NULL
+        THEN (lr.start_date + lr.start_time) AT TIME ZONE _timezone
+        ELSE lr.start_date::timestamp AT TIME ZONE _timezone
+      END AS starts_at,
+      CASE WHEN lr.start_time IS NOT NULL AND lr.end_time IS NOT NULL
+        THEN (lr.start_date + lr.end_time) AT TIME ZONE _timezone
+        ELSE (COALESCE(lr.end_date, lr.start_date) + 1)::timestamp AT TIME ZONE _timezone
+      END AS ends_at
+    FROM public.leave_requests lr
+    WHERE lr.status = 'approved'
+      AND lr.user_id = ANY(_attendees)
+      AND lr.start_date <= (_end AT TIME ZONE _timezone)::date
+      AND COALESCE(lr.end_date, lr.start_date) >= (_start AT TIME ZONE _timezone)::date
+  ) l
+  LEFT JOIN public.profiles p ON p.user_id = l.user_id
+  WHERE auth.uid() IS NOT NULL
+    AND l.starts_at < _end
+    AND l.ends_at > _start
+$$;
@@ -0,0 +1,42 @@
+-- Calendar subscription links. Calendar apps poll the calendar-feed function
+-- without a session, so each member gets a secret token that stands in for
+-- one; resetting it issues a new token and stops the old link from working.
+CREATE TABLE public.calendar_feed_tokens (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed token"
+ON public.calendar_feed_tokens FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can revoke their own calendar feed token"
+ON public.calendar_feed_tokens FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Tokens are only ever minted here, never chosen by the client
+CREATE OR REPLACE FUNCTION public.reset_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token TEXT := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.calendar_feed_tokens (user_id, token)
+  VALUES (auth.uid(), _token)
+  ON CONFLICT (user_id) DO UPDATE SET token = EXCLUDED.token, created_at = now();
+
+  RETURN _token;
+END;
+$$;
@@ -0,0 +1,60 @@
+-- Dependencies and logged time follow the same visibility as the tasks
+-- themselves: project members and leads see them for their project's tasks,
+-- not only the assignee, the assigner and admins.
+CREATE OR REPLACE FUNCTION public.task_time_totals(_task_ids UUID[])
+RETURNS TABLE (task_id UUID, minutes BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.task_id, sum(e.minutes)
+  FROM public.time_entries e
+  JOIN public.tasks t ON t.id = e.task_id
+  WHERE e.task_id = ANY(_task_ids)
+    AND t.deleted_at IS NULL
+    AND (
+      t.assigned_to = auth.uid()
+      OR t.assigned_by = auth.uid()
+      OR has_role(auth.uid(), 'admin'::app_role)
+      OR (t.project_id IS NOT NULL AND public.project_role(t.project_id, auth.uid()) IS NOT NULL)
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.work_updates w WHERE w.id = e.work_update_id AND w.deleted_at IS NOT NULL
+    )
+  GROUP BY e.task_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.task_dependency_links(_task_ids UUID[])
+RETURNS TABLE (
+  task_id UUID,
+  task_title TEXT,
+  task_status task_status,
+  depends_on_id UUID,
+  depends_on_title TEXT,
+  depends_on_status task_status
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH visible AS (
+    SELECT t.id
+    FROM public.tasks t
+    WHERE t.id = ANY(_task_ids)
+      AND t.deleted_at IS NULL
+      AND (
+        t.assigned_to = auth.uid()
+        OR t.assigned_by = auth.uid()
+        OR has_role(auth.uid(), 'admin'::app_role)
+        OR (t.project_id IS NOT NULL AND public.project_role(t.project_id, auth.uid()) IS NOT NULL)
+      )
+  )
+  SELECT d.task_id, t.title, t.status, d.depends_on_id, p.title, p.status
+  FROM public.task_dependencies d
+  JOIN public.tasks t ON t.id = d.task_id AND t.deleted_at IS NULL
+  JOIN public.tasks p ON p.id = d.depends_on_id AND p.deleted_at IS NULL
+  WHERE d.task_id IN (SELECT id FROM visible) OR d.depends_on_id IN (SELECT id FROM visible)
+  ORDER BY d.created_at;
+$$;
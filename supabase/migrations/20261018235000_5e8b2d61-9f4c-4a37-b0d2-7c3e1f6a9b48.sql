@@ -0,0 +1,58 @@
+-- Overdue tasks of archived or trashed projects are shelved work: they no
+-- longer escalate, matching the task lists, due counts and recurring task
+-- generation, which all leave those projects out.
+CREATE OR REPLACE FUNCTION public.escalate_overdue_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _days INTEGER;
+  _task RECORD;
+  _escalated INTEGER := 0;
+BEGIN
+  -- The scheduler runs without a user; signed-in callers must be admins
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can escalate overdue tasks' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT overdue_escalation_days INTO _days FROM public.company_settings WHERE id = 1;
+  _days := COALESCE(_days, 3);
+
+  FOR _task IN
+    SELECT t.id, t.title, t.due_date, t.assigned_by, p.full_name AS assignee_name
+    FROM public.tasks t
+    LEFT JOIN public.profiles p ON p.user_id = t.assigned_to
+    LEFT JOIN public.projects pr ON pr.id = t.project_id
+    WHERE t.status <> 'completed'
+      AND t.deleted_at IS NULL
+      -- Tasks without a project always escalate
+      AND (t.project_id IS NULL OR (pr.archived_at IS NULL AND pr.deleted_at IS NULL))
+      AND t.due_date <= CURRENT_DATE - _days
+      AND NOT EXISTS (
+        SELECT 1 FROM public.task_escalations e WHERE e.task_id = t.id AND e.due_date = t.due_date
+      )
+  LOOP
+    INSERT INTO public.task_escalations (task_id, due_date) VALUES (_task.id, _task.due_date);
+
+    INSERT INTO public.notifications (user_id, kind, title, body, link, task_id)
+    SELECT recipient, 'task_overdue', 'Overdue: ' || _task.title,
+           format('%s days past its due date of %s. Assigned to %s.',
+                  CURRENT_DATE - _task.due_date,
+                  to_char(_task.due_date, 'Mon FMDD, YYYY'),
+                  COALESCE(_task.assignee_name, 'nobody')),
+           '/tasks/' || _task.id, _task.id
+    FROM (
+      SELECT _task.assigned_by AS recipient
+      UNION
+      SELECT user_id FROM public.user_roles WHERE role = 'admin'::app_role
+    ) recipients
+    WHERE recipient IS NOT NULL;
+
+    _escalated := _escalated + 1;
+  END LOOP;
+
+  RETURN _escalated;
+END;
+$$;
@@ -0,0 +1,38 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { asUser, createTestDatabase, createUser } from "./testDatabase";
+
+let db: PGlite;
+let member: string;
+let other: string;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  member = await createUser(db);
+  other = await createUser(db);
+}, 60_000);
+
+const resetToken = (userId: string) =>
+  asUser(db, userId, async tx =>
+    (await tx.query<{ token: string }>("SELECT reset_calendar_feed_token() AS token")).rows[0].token
+  );
+
+const visibleTokens = (userId: string) =>
+  asUser(db, userId, async tx =>
+    (await tx.query<{ token: string }>("SELECT token FROM calendar_feed_tokens")).rows.map(r => r.token)
+  );
+
+describe("calendar feed tokens", () => {
+  it("replaces the previous token on reset", async () => {
+    const first = await resetToken(member);
+    const second = await resetToken(member);
+
+    expect(second).not.toBe(first);
+    expect(await visibleTokens(member)).toEqual([second]);
+  });
+
+  it("are hidden from other members", async () => {
+    await resetToken(member);
+    expect(await visibleTokens(other)).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createTestDatabase, createUser } from "./testDatabase";
+
+let db: PGlite;
+let admin: string;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  admin = await createUser(db, { admin: true });
+}, 60_000);
+
+const insertId = async (sql: string, params: unknown[]) =>
+  (await db.query<{ id: string }>(sql, params)).rows[0].id;
+
+const createProject = (state: { archived?: boolean; trashed?: boolean } = {}) =>
+  insertId(
+    `INSERT INTO projects (name, created_by, archived_at, deleted_at)
+     VALUES ('Website', $1, CASE WHEN $2 THEN now() END, CASE WHEN $3 THEN now() END) RETURNING id`,
+    [admin, !!state.archived, !!state.trashed]
+  );
+
+// Due well past any escalation threshold
+const createOverdueTask = (projectId: string | null) =>
+  insertId(
+    "INSERT INTO tasks (title, project_id, assigned_by, due_date) VALUES ('Task', $1, $2, CURRENT_DATE - 30) RETURNING id",
+    [projectId, admin]
+  );
+
+const escalated = async (taskId: string) =>
+  (await db.query("SELECT 1 FROM task_escalations WHERE task_id = $1", [taskId])).rows.length > 0;
+
+describe("overdue task escalation", () => {
+  it("skips tasks of archived and trashed projects", async () => {
+    const active = await createOverdueTask(await createProject());
+    const unfiled = await createOverdueTask(null);
+    const archived = await createOverdueTask(await createProject({ archived: true }));
+    const trashed = await createOverdueTask(await createProject({ trashed: true }));
+
+    await db.query("SELECT escalate_overdue_tasks()");
+
+    expect(await escalated(active)).toBe(true);
+    expect(await escalated(unfiled)).toBe(true);
+    expect(await escalated(archived)).toBe(false);
+    expect(await escalated(trashed)).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { asUser, createTestDatabase, createUser } from "./testDatabase";
+
+let db: PGlite;
+let organiser: string;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  organiser = await createUser(db);
+}, 60_000);
+
+const approveLeave = async (leave: { type: string; start_date: string; end_date?: string; start_time?: string; end_time?: string }) => {
+  const member = await createUser(db);
+  await db.query(
+    `INSERT INTO leave_requests (user_id, type, start_date, end_date, start_time, end_time, reason, status)
+     VALUES ($1, $2, $3, $4, $5, $6, 'Away', 'approved')`,
+    [member, leave.type, leave.start_date, leave.end_date ?? null, leave.start_time ?? null, leave.end_time ?? null]
+  );
+  return member;
+};
+
+// Leave conflicts for a 30-minute slot starting at `start`, planned in `timezone`
+const leaveConflicts = async (member: string, start: string, timezone: string) => {
+  const end = new Date(new Date(start).getTime() + 30 * 60000).toISOString();
+  const { rows } = await asUser(db, organiser, tx =>
+    tx.query<{ kind: string; starts_at: Date; ends_at: Date }>(
+      "SELECT kind, starts_at, ends_at FROM meeting_conflicts($1, $2, $3, NULL, $4)",
+      [[member], start, end, timezone]
+    )
+  );
+  return rows.filter(r => r.kind === "leave");
+};
+
+describe("meeting conflicts with leave", () => {
+  it("only blocks the hours of a permission", async () => {
+    const member = await approveLeave({
+      type: "permission",
+      start_date: "2024-05-06",
+      start_time: "10:00",
+      end_time: "12:00",
+    });
+
+    // 11:00 and 14:00 in Kolkata
+    expect(await leaveConflicts(member, "2024-05-06T05:30:00Z", "Asia/Kolkata")).toHaveLength(1);
+    expect(await leaveConflicts(member, "2024-05-06T08:30:00Z", "Asia/Kolkata")).toHaveLength(0);
+  });
+
+  it("reads the permission's times in the meeting's timezone", async () => {
+    const member = await approveLeave({
+      type: "permission",
+      start_date: "2024-05-06",
+      start_time: "10:00",
+      end_time: "12:00",
+    });
+
+    const [conflict] = await leaveConflicts(member, "2024-05-06T05:30:00Z", "Asia/Kolkata");
+    expect(conflict.starts_at.toISOString()).toBe("2024-05-06T04:30:00.000Z");
+    expect(conflict.ends_at.toISOString()).toBe("2024-05-06T06:30:00.000Z");
+    // 10:30 UTC is outside 10:00-12:00 Kolkata time
+    expect(await leaveConflicts(member, "2024-05-06T10:30:00Z", "Asia/Kolkata")).toHaveLength(0);
+  });
+
+  it("blocks whole days of full-day leave in the meeting's timezone", async () => {
+    const member = await approveLeave({ type: "full_day", start_date: "2024-05-06", end_date: "2024-05-07" });
+
+    // Still 5 May in UTC, already 6 May in Kolkata
+    expect(await leaveConflicts(member, "2024-05-05T20:00:00Z", "Asia/Kolkata")).toHaveLength(1);
+    expect(await leaveConflicts(member, "2024-05-05T20:00:00Z", "UTC")).toHaveLength(0);
+    // 8 May has started in Kolkata
+    expect(await leaveConflicts(member, "2024-05-07T19:00:00Z", "Asia/Kolkata")).toHaveLength(0);
+  });
+});
+
+describe("meeting conflicts with other meetings", () => {
+  const scheduleMeeting = async (createdBy: string, attendees: string[]) => {
+    await db.query(
+      `INSERT INTO meetings (title, scheduled_at, duration_minutes, created_by, attendees)
+       VALUES ('Salary review', '2024-06-03T10:00:00Z', 60, $1, $2)`,
+      [createdBy, attendees]
+    );
+  };
+
+  const meetingTitles = async (caller: string, member: string) => {
+    const { rows } = await asUser(db, caller, tx =>
+      tx.query<{ kind: string; title: string | null }>(
+        "SELECT kind, title FROM meeting_conflicts($1, '2024-06-03T10:30:00Z', '2024-06-03T11:00:00Z')",
+        [[member]]
+      )
+    );
+    return rows.filter(r => r.kind === "meeting").map(r => r.title);
+  };
+
+  it("only shows when a member is busy to people not in the meeting", async () => {
+    const manager = await createUser(db);
+    const member = await createUser(db);
+    await scheduleMeeting(manager, [member]);
+
+    expect(await meetingTitles(organiser, member)).toEqual([null]);
+  });
+
+  it("shows the title to the meeting's organiser, attendees and admins", async () => {
+    const manager = await createUser(db);
+    const member = await createUser(db);
+    const admin = await createUser(db, { admin: true });
+    await scheduleMeeting(manager, [member]);
+
+    expect(await meetingTitles(manager, member)).toEqual(["Salary review"]);
+    expect(await meetingTitles(member, member)).toEqual(["Salary review"]);
+    expect(await meetingTitles(admin, member)).toEqual(["Salary review"]);
+  });
+});
@@ -0,0 +1,78 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { asUser, createTestDatabase, createUser } from "./testDatabase";
+
+let db: PGlite;
+let admin: string;
+let assignee: string;
+let lead: string;
+let outsider: string;
+let tasks: string[];
+
+const insertId = async (sql: string, params: unknown[]) =>
+  (await db.query<{ id: string }>(sql, params)).rows[0].id;
+
+// Two tasks in one project, assigned by an admin to someone other than the lead
+beforeAll(async () => {
+  db = await createTestDatabase();
+  admin = await createUser(db, { admin: true });
+  assignee = await createUser(db);
+  lead = await createUser(db);
+  outsider = await createUser(db);
+
+  const project = await insertId("INSERT INTO projects (name, created_by) VALUES ('Website', $1) RETURNING id", [admin]);
+  await db.query("INSERT INTO project_members (project_id, user_id, role) VALUES ($1, $2, 'member'), ($1, $3, 'lead')", [
+    project,
+    assignee,
+    lead,
+  ]);
+
+  const createTask = (title: string) =>
+    insertId("INSERT INTO tasks (title, project_id, assigned_to, assigned_by) VALUES ($1, $2, $3, $4) RETURNING id", [
+      title,
+      project,
+      assignee,
+      admin,
+    ]);
+  tasks = [await createTask("Design"), await createTask("Build")];
+
+  await db.query("INSERT INTO task_dependencies (task_id, depends_on_id) VALUES ($1, $2)", [tasks[1], tasks[0]]);
+  await db.query("INSERT INTO time_entries (user_id, task_id, project_id, minutes) VALUES ($1, $2, $3, 45)", [
+    assignee,
+    tasks[0],
+    project,
+  ]);
+}, 60_000);
+
+const dependencyLinks = (userId: string) =>
+  asUser(db, userId, async tx =>
+    (await tx.query<{ task_id: string; depends_on_id: string }>(
+      "SELECT task_id, depends_on_id FROM task_dependency_links($1)",
+      [tasks]
+    )).rows
+  );
+
+const timeTotals = (userId: string) =>
+  asUser(db, userId, async tx =>
+    (await tx.query<{ task_id: string; minutes: number }>(
+      "SELECT task_id, minutes::int FROM task_time_totals($1)",
+      [tasks]
+    )).rows
+  );
+
+describe("project leads", () => {
+  it("see dependencies between their project's tasks", async () => {
+    expect(await dependencyLinks(lead)).toEqual([{ task_id: tasks[1], depends_on_id: tasks[0] }]);
+  });
+
+  it("see time logged on their project's tasks", async () => {
+    expect(await timeTotals(lead)).toEqual([{ task_id: tasks[0], minutes: 45 }]);
+  });
+});
+
+describe("people outside the project", () => {
+  it("see neither", async () => {
+    expect(await dependencyLinks(outsider)).toEqual([]);
+    expect(await timeTotals(outsider)).toEqual([]);
+  });
+});
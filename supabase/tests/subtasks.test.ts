@@ -0,0 +1,118 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { asUser, createTestDatabase, createUser } from "./testDatabase";
+
+let db: PGlite;
+let assignee: string;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  assignee = await createUser(db);
+}, 60_000);
+
+const createTask = async (title: string, parentId: string | null = null) => {
+  const { rows } = await db.query<{ id: string }>(
+    "INSERT INTO tasks (title, parent_id, assigned_to) VALUES ($1, $2, $3) RETURNING id",
+    [title, parentId, assignee]
+  );
+  return rows[0].id;
+};
+
+const statusOf = async (id: string) => {
+  const { rows } = await db.query<{ status: string }>("SELECT status FROM tasks WHERE id = $1", [id]);
+  return rows[0].status;
+};
+
+const setStatus = (id: string, status: string) =>
+  db.query("UPDATE tasks SET status = $2 WHERE id = $1", [id, status]);
+
+describe("subtask status roll-up", () => {
+  it("follows the subtasks from pending through in progress to completed", async () => {
+    const parent = await createTask("Launch");
+    const [first, second] = [await createTask("Copy", parent), await createTask("Design", parent)];
+    expect(await statusOf(parent)).toBe("pending");
+
+    await setStatus(first, "in_progress");
+    expect(await statusOf(parent)).toBe("in_progress");
+
+    await setStatus(first, "completed");
+    expect(await statusOf(parent)).toBe("in_progress");
+
+    await setStatus(second, "completed");
+    expect(await statusOf(parent)).toBe("completed");
+
+    await setStatus(second, "pending");
+    expect(await statusOf(parent)).toBe("in_progress");
+  });
+
+  it("leaves trashed subtasks out", async () => {
+    const parent = await createTask("Release");
+    const done = await createTask("Notes", parent);
+    const open = await createTask("Announce", parent);
+    await setStatus(done, "completed");
+    expect(await statusOf(parent)).toBe("in_progress");
+
+    await db.query("UPDATE tasks SET deleted_at = now() WHERE id = $1", [open]);
+    expect(await statusOf(parent)).toBe("completed");
+  });
+
+  it("re-rolls the parent a subtask moves away from", async () => {
+    const from = await createTask("Old parent");
+    const to = await createTask("New parent");
+    const done = await createTask("Finished", from);
+    const moving = await createTask("Moving", from);
+    await setStatus(done, "completed");
+
+    await db.query("UPDATE tasks SET parent_id = $2 WHERE id = $1", [moving, to]);
+    expect(await statusOf(from)).toBe("completed");
+    expect(await statusOf(to)).toBe("pending");
+  });
+
+  it("refuses subtasks of subtasks", async () => {
+    const parent = await createTask("Parent");
+    const child = await createTask("Child", parent);
+    await expect(createTask("Grandchild", child)).rejects.toThrow(/cannot have subtasks/);
+  });
+
+  it("stops assignees from setting a parent's status directly", async () => {
+    const parent = await createTask("Parent");
+    await createTask("Child", parent);
+    await expect(
+      asUser(db, assignee, tx => tx.query("SELECT update_my_task($1, 'completed')", [parent]))
+    ).rejects.toThrow(/follows its subtasks/);
+  });
+});
+
+describe("checklists", () => {
+  const addItem = async (taskId: string) => {
+    const { rows } = await db.query<{ id: string }>(
+      "INSERT INTO task_checklist_items (task_id, body) VALUES ($1, 'Step') RETURNING id",
+      [taskId]
+    );
+    return rows[0].id;
+  };
+
+  it("lets the assignee tick items off and records who did", async () => {
+    const item = await addItem(await createTask("With checklist"));
+    await asUser(db, assignee, tx => tx.query("SELECT set_checklist_item_done($1, true)", [item]));
+
+    const { rows } = await db.query<{ done: boolean; completed_by: string; completed_at: Date | null }>(
+      "SELECT done, completed_by, completed_at FROM task_checklist_items WHERE id = $1",
+      [item]
+    );
+    expect(rows[0]).toMatchObject({ done: true, completed_by: assignee });
+    expect(rows[0].completed_at).not.toBeNull();
+
+    await asUser(db, assignee, tx => tx.query("SELECT set_checklist_item_done($1, false)", [item]));
+    const cleared = await db.query("SELECT done, completed_by, completed_at FROM task_checklist_items WHERE id = $1", [item]);
+    expect(cleared.rows[0]).toEqual({ done: false, completed_by: null, completed_at: null });
+  });
+
+  it("refuses members who are not assigned to the task", async () => {
+    const item = await addItem(await createTask("Someone else's"));
+    const outsider = await createUser(db);
+    await expect(
+      asUser(db, outsider, tx => tx.query("SELECT set_checklist_item_done($1, true)", [item]))
+    ).rejects.toThrow(/not assigned to you/);
+  });
+});
@@ -0,0 +1,89 @@
+import { readdirSync, readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import { PGlite, type Transaction } from "@electric-sql/pglite";
+
+const MIGRATIONS_DIR = fileURLToPath(new URL("../migrations/", import.meta.url));
+
+// The parts of the Supabase platform the migrations lean on: the API roles,
+// auth.users and auth.uid(), the storage tables, the realtime publication and
+// pg_cron's scheduler (jobs are accepted but never run).
+const PLATFORM = `
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+  CREATE ROLE service_role;
+  GRANT USAGE ON SCHEMA public TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated;
+
+  CREATE SCHEMA auth;
+  GRANT USAGE ON SCHEMA auth TO anon, authenticated;
+  CREATE TABLE auth.users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email TEXT,
+    raw_user_meta_data JSONB DEFAULT '{}'::jsonb
+  );
+  CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE AS
+    $$ SELECT nullif(current_setting('request.jwt.claim.sub', true), '')::uuid $$;
+
+  CREATE SCHEMA storage;
+  GRANT USAGE ON SCHEMA storage TO anon, authenticated;
+  CREATE TABLE storage.buckets (
+    id TEXT PRIMARY KEY,
+    name TEXT,
+    public BOOLEAN,
+    file_size_limit BIGINT,
+    allowed_mime_types TEXT[]
+  );
+  CREATE TABLE storage.objects (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    bucket_id TEXT REFERENCES storage.buckets(id),
+    name TEXT,
+    owner UUID
+  );
+  CREATE FUNCTION storage.foldername(name TEXT) RETURNS TEXT[] LANGUAGE sql IMMUTABLE AS
+    $$ SELECT (string_to_array(name, '/'))[1:array_length(string_to_array(name, '/'), 1) - 1] $$;
+
+  CREATE PUBLICATION supabase_realtime;
+
+  CREATE SCHEMA cron;
+  CREATE FUNCTION cron.schedule(job_name TEXT, schedule TEXT, command TEXT) RETURNS BIGINT LANGUAGE sql AS
+    $$ SELECT 1::bigint $$;
+`;
+
+// A fresh in-memory database with every migration applied, in order
+export async function createTestDatabase() {
+  const db = new PGlite();
+  await db.exec(PLATFORM);
+
+  for (const file of readdirSync(MIGRATIONS_DIR).filter(f => f.endsWith(".sql")).sort()) {
+    const sql = readFileSync(MIGRATIONS_DIR + file, "utf8")
+      // The stand-in cron schema above replaces the extension
+      .replace(/CREATE EXTENSION IF NOT EXISTS pg_cron;/g, "");
+    await db.exec(sql);
+  }
+  return db;
+}
+
+// Signs a user up; the handle_new_user trigger gives them a profile and the
+// team_member role
+export async function createUser(db: PGlite, options: { admin?: boolean; name?: string } = {}) {
+  const { rows } = await db.query<{ id: string }>(
+    "INSERT INTO auth.users (email, raw_user_meta_data) VALUES ($1, $2) RETURNING id",
+    [`${crypto.randomUUID()}@example.com`, { full_name: options.name ?? "Test User" }]
+  );
+  const id = rows[0].id;
+  if (options.admin) {
+    await db.query("INSERT INTO public.user_roles (user_id, role) VALUES ($1, 'admin')", [id]);
+  }
+  return id;
+}
+
+// Runs queries the way PostgREST would for a signed-in user: as the
+// authenticated role, with their id behind auth.uid()
+export function asUser<T>(db: PGlite, userId: string, run: (tx: Transaction) => Promise<T>) {
+  return db.transaction(async tx => {
+    await tx.query("SELECT set_config('request.jwt.claim.sub', $1, true)", [userId]);
+    await tx.exec("SET LOCAL ROLE authenticated");
+    return run(tx);
+  });
+}
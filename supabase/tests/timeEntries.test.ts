@@ -0,0 +1,92 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { asUser, createTestDatabase, createUser } from "./testDatabase";
+
+let db: PGlite;
+let user: string;
+let admin: string;
+
+beforeAll(async () => {
+  db = await createTestDatabase();
+  user = await createUser(db);
+  admin = await createUser(db, { admin: true });
+}, 60_000);
+
+const insertId = async (sql: string, params: unknown[]) =>
+  (await db.query<{ id: string }>(sql, params)).rows[0].id;
+
+const createProject = () =>
+  insertId("INSERT INTO projects (name, created_by) VALUES ('Website', $1) RETURNING id", [user]);
+
+const createTask = (projectId: string | null) =>
+  insertId("INSERT INTO tasks (title, project_id) VALUES ('Task', $1) RETURNING id", [projectId]);
+
+const logTime = (target: { taskId?: string; projectId?: string }) =>
+  insertId("INSERT INTO time_entries (user_id, task_id, project_id, minutes) VALUES ($1, $2, $3, 30) RETURNING id", [
+    user,
+    target.taskId ?? null,
+    target.projectId ?? null,
+  ]);
+
+const entry = async (id: string) =>
+  (await db.query<{ task_id: string | null; project_id: string | null }>(
+    "SELECT task_id, project_id FROM time_entries WHERE id = $1",
+    [id]
+  )).rows[0];
+
+// Past the retention window, so the next purge takes it
+const trashLongAgo = (table: "tasks" | "projects", id: string) =>
+  db.query(`UPDATE ${table} SET deleted_at = now() - INTERVAL '31 days' WHERE id = $1`, [id]);
+
+describe("time entries when the trash is purged", () => {
+  it("go with a purged task that has no project", async () => {
+    const task = await createTask(null);
+    const logged = await logTime({ taskId: task });
+    await trashLongAgo("tasks", task);
+
+    await db.query("SELECT purge_trash()");
+    expect(await entry(logged)).toBeUndefined();
+  });
+
+  it("stay with a task restored out of a purged project", async () => {
+    const project = await createProject();
+    const task = await createTask(project);
+    const onTask = await logTime({ taskId: task });
+    const onProject = await logTime({ projectId: project });
+    await trashLongAgo("projects", project);
+
+    await db.query("SELECT purge_trash()");
+    expect(await entry(onTask)).toEqual({ task_id: task, project_id: null });
+    expect(await entry(onProject)).toBeUndefined();
+  });
+
+  it("follow their task to another project", async () => {
+    const [from, to] = [await createProject(), await createProject()];
+    const task = await createTask(from);
+    const logged = await logTime({ taskId: task });
+
+    await db.query("UPDATE tasks SET project_id = $2 WHERE id = $1", [task, to]);
+    expect(await entry(logged)).toEqual({ task_id: task, project_id: to });
+  });
+});
+
+describe("project time totals", () => {
+  const loggedMinutes = async (projectId: string) =>
+    (await asUser(db, admin, tx =>
+      tx.query<{ minutes: number }>("SELECT minutes::int FROM project_time_totals($1)", [[projectId]])
+    )).rows[0].minutes;
+
+  it("leave out time logged on trashed tasks until they are restored", async () => {
+    const project = await createProject();
+    const [kept, trashed] = [await createTask(project), await createTask(project)];
+    await logTime({ taskId: kept });
+    await logTime({ taskId: trashed });
+    await logTime({ projectId: project });
+
+    await db.query("UPDATE tasks SET deleted_at = now() WHERE id = $1", [trashed]);
+    expect(await loggedMinutes(project)).toBe(60);
+
+    await db.query("UPDATE tasks SET deleted_at = NULL WHERE id = $1", [trashed]);
+    expect(await loggedMinutes(project)).toBe(90);
+  });
+});